@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE `evento` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `nombre` VARCHAR(191) NOT NULL,
+    `lugar` VARCHAR(191) NULL,
+    `fecha_inicio` DATETIME(3) NOT NULL,
+    `fecha_fin` DATETIME(3) NOT NULL,
+    `capacidad` INTEGER NULL,
+    `estado` ENUM('planificado', 'activo', 'finalizado') NOT NULL DEFAULT 'planificado',
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `codigoqr` ADD COLUMN `eventoId` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `ingreso` ADD COLUMN `eventoId` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `importacion` ADD COLUMN `eventoId` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `caja_turno` ADD COLUMN `eventoId` INTEGER NULL;
+
+-- CreateIndex
+CREATE INDEX `codigoqr_eventoId_idx` ON `codigoqr`(`eventoId`);
+
+-- CreateIndex
+CREATE INDEX `ingreso_eventoId_idx` ON `ingreso`(`eventoId`);
+
+-- CreateIndex
+CREATE INDEX `importacion_eventoId_idx` ON `importacion`(`eventoId`);
+
+-- CreateIndex
+CREATE INDEX `caja_turno_eventoId_idx` ON `caja_turno`(`eventoId`);
+
+-- AddForeignKey
+ALTER TABLE `codigoqr` ADD CONSTRAINT `codigoqr_eventoId_fkey` FOREIGN KEY (`eventoId`) REFERENCES `evento`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `ingreso` ADD CONSTRAINT `ingreso_eventoId_fkey` FOREIGN KEY (`eventoId`) REFERENCES `evento`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `importacion` ADD CONSTRAINT `importacion_eventoId_fkey` FOREIGN KEY (`eventoId`) REFERENCES `evento`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `caja_turno` ADD CONSTRAINT `caja_turno_eventoId_fkey` FOREIGN KEY (`eventoId`) REFERENCES `evento`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Los registros existentes se agrupan en un evento histórico para que sigan siendo consultables.
+INSERT INTO `evento` (`nombre`, `fecha_inicio`, `fecha_fin`, `estado`)
+SELECT 'Evento anterior', COALESCE(MIN(`fecha`), CURRENT_TIMESTAMP(3)), COALESCE(MAX(`fecha`), CURRENT_TIMESTAMP(3)), 'activo'
+FROM `ingreso`
+HAVING (SELECT COUNT(*) FROM `codigoqr`) > 0
+    OR (SELECT COUNT(*) FROM `importacion`) > 0
+    OR (SELECT COUNT(*) FROM `caja_turno`) > 0;
+
+UPDATE `codigoqr` SET `eventoId` = (SELECT MAX(`id`) FROM `evento`) WHERE `eventoId` IS NULL;
+UPDATE `ingreso` SET `eventoId` = (SELECT MAX(`id`) FROM `evento`) WHERE `eventoId` IS NULL;
+UPDATE `importacion` SET `eventoId` = (SELECT MAX(`id`) FROM `evento`) WHERE `eventoId` IS NULL;
+UPDATE `caja_turno` SET `eventoId` = (SELECT MAX(`id`) FROM `evento`) WHERE `eventoId` IS NULL;
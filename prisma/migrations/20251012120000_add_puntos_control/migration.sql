@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE `punto_control` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `nombre` VARCHAR(191) NOT NULL,
+    `descripcion` VARCHAR(191) NULL,
+    `activo` BOOLEAN NOT NULL DEFAULT true,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `punto_control_nombre_key`(`nombre`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `ingreso` ADD COLUMN `puntoControlId` INTEGER NULL,
+    ADD COLUMN `usuario` VARCHAR(191) NULL;
+
+-- CreateIndex
+CREATE INDEX `ingreso_puntoControlId_idx` ON `ingreso`(`puntoControlId`);
+
+-- AddForeignKey
+ALTER TABLE `ingreso` ADD CONSTRAINT `ingreso_puntoControlId_fkey` FOREIGN KEY (`puntoControlId`) REFERENCES `punto_control`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
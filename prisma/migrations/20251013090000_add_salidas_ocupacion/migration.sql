@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `ingreso` ADD COLUMN `tipo` ENUM('entrada', 'salida') NOT NULL DEFAULT 'entrada';
+
+-- AlterTable
+ALTER TABLE `punto_control` ADD COLUMN `zona` VARCHAR(191) NULL;
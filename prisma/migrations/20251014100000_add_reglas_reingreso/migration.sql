@@ -0,0 +1,10 @@
+-- CreateTable
+CREATE TABLE `regla_reingreso` (
+    `tipo_qr` ENUM('est', 'fam', 'vis') NOT NULL,
+    `intervalo_minimo_seg` INTEGER NOT NULL DEFAULT 0,
+    `requiere_salida` BOOLEAN NOT NULL DEFAULT false,
+    `actualizadoEn` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `actualizadoPor` VARCHAR(191) NULL,
+
+    PRIMARY KEY (`tipo_qr`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
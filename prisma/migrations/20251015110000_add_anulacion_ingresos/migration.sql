@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `ingreso` ADD COLUMN `anulado` BOOLEAN NOT NULL DEFAULT false,
+    ADD COLUMN `motivo_anulacion` VARCHAR(191) NULL,
+    ADD COLUMN `anuladoPor` VARCHAR(191) NULL,
+    ADD COLUMN `anuladoAt` DATETIME(3) NULL;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `ingreso` ADD COLUMN `manual` BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE `perfil_importacion` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `nombre` VARCHAR(191) NOT NULL,
+    `mapeo` JSON NOT NULL,
+    `creadoPor` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `actualizadoEn` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    UNIQUE INDEX `perfil_importacion_nombre_key`(`nombre`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AlterTable
+ALTER TABLE `importacion` ADD COLUMN `perfilId` INTEGER NULL,
+    ADD COLUMN `mapeo` JSON NULL;
+
+-- CreateIndex
+CREATE INDEX `importacion_perfilId_idx` ON `importacion`(`perfilId`);
+
+-- AddForeignKey
+ALTER TABLE `importacion` ADD CONSTRAINT `importacion_perfilId_fkey` FOREIGN KEY (`perfilId`) REFERENCES `perfil_importacion`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
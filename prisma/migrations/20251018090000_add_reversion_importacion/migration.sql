@@ -0,0 +1,42 @@
+-- AlterTable
+ALTER TABLE `persona` ADD COLUMN `importacionId` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `codigoqr` ADD COLUMN `importacionId` INTEGER NULL;
+
+-- AlterTable
+ALTER TABLE `importacion` ADD COLUMN `revertidaEn` DATETIME(3) NULL,
+    ADD COLUMN `revertidaPor` VARCHAR(191) NULL;
+
+-- CreateTable
+CREATE TABLE `importacion_cambio` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `importacionId` INTEGER NOT NULL,
+    `personaId` INTEGER NOT NULL,
+    `creada` BOOLEAN NOT NULL DEFAULT false,
+    `cambios` JSON NULL,
+    `importacionAnteriorId` INTEGER NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `importacion_cambio_importacionId_idx`(`importacionId`),
+    INDEX `importacion_cambio_personaId_idx`(`personaId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `persona_importacionId_idx` ON `persona`(`importacionId`);
+
+-- CreateIndex
+CREATE INDEX `codigoqr_importacionId_idx` ON `codigoqr`(`importacionId`);
+
+-- AddForeignKey
+ALTER TABLE `persona` ADD CONSTRAINT `persona_importacionId_fkey` FOREIGN KEY (`importacionId`) REFERENCES `importacion`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `codigoqr` ADD CONSTRAINT `codigoqr_importacionId_fkey` FOREIGN KEY (`importacionId`) REFERENCES `importacion`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `importacion_cambio` ADD CONSTRAINT `importacion_cambio_importacionId_fkey` FOREIGN KEY (`importacionId`) REFERENCES `importacion`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `importacion_cambio` ADD CONSTRAINT `importacion_cambio_personaId_fkey` FOREIGN KEY (`personaId`) REFERENCES `persona`(`id_persona`) ON DELETE CASCADE ON UPDATE CASCADE;
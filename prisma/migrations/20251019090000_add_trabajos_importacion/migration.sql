@@ -0,0 +1,16 @@
+-- AlterTable
+ALTER TABLE `importacion` ADD COLUMN `estado` ENUM('en_cola', 'en_proceso', 'pausada', 'fallida', 'completada') NOT NULL DEFAULT 'completada',
+    ADD COLUMN `filas` JSON NULL,
+    ADD COLUMN `maxUsosFamiliares` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `filaActual` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `estudiantes` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `correosPorEnviar` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `correosIntentados` INTEGER NOT NULL DEFAULT 0,
+    ADD COLUMN `correosFallidos` JSON NULL,
+    ADD COLUMN `mensaje` TEXT NULL,
+    ADD COLUMN `iniciadaEn` DATETIME(3) NULL,
+    ADD COLUMN `finalizadaEn` DATETIME(3) NULL,
+    ADD COLUMN `actualizadoEn` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3);
+
+-- CreateIndex
+CREATE INDEX `importacion_estado_idx` ON `importacion`(`estado`);
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE `correo_saliente` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `origen` ENUM('importacion', 'qr_estudiante', 'reenvio_qr', 'venta', 'cierre_caja') NOT NULL,
+    `destinatario` VARCHAR(500) NOT NULL,
+    `asunto` VARCHAR(191) NOT NULL,
+    `texto` TEXT NOT NULL,
+    `html` MEDIUMTEXT NULL,
+    `adjuntos` JSON NULL,
+    `datos` JSON NULL,
+    `estado` ENUM('pendiente', 'enviando', 'enviado', 'fallido', 'cancelado') NOT NULL DEFAULT 'pendiente',
+    `intentos` INTEGER NOT NULL DEFAULT 0,
+    `maxIntentos` INTEGER NOT NULL DEFAULT 5,
+    `proximoIntento` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `ultimoError` TEXT NULL,
+    `messageId` VARCHAR(191) NULL,
+    `enviadoEn` DATETIME(3) NULL,
+    `creadoPor` VARCHAR(191) NULL,
+    `importacionId` INTEGER NULL,
+    `codigoId` INTEGER NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `actualizadoEn` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `correo_saliente_estado_proximoIntento_idx`(`estado`, `proximoIntento`),
+    INDEX `correo_saliente_origen_idx`(`origen`),
+    INDEX `correo_saliente_importacionId_idx`(`importacionId`),
+    INDEX `correo_saliente_codigoId_idx`(`codigoId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `correo_intento` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `correoId` INTEGER NOT NULL,
+    `numero` INTEGER NOT NULL,
+    `exito` BOOLEAN NOT NULL,
+    `error` TEXT NULL,
+    `messageId` VARCHAR(191) NULL,
+    `duracionMs` INTEGER NOT NULL DEFAULT 0,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `correo_intento_correoId_idx`(`correoId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `correo_saliente` ADD CONSTRAINT `correo_saliente_importacionId_fkey` FOREIGN KEY (`importacionId`) REFERENCES `importacion`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `correo_saliente` ADD CONSTRAINT `correo_saliente_codigoId_fkey` FOREIGN KEY (`codigoId`) REFERENCES `codigoqr`(`id_codigo`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `correo_intento` ADD CONSTRAINT `correo_intento_correoId_fkey` FOREIGN KEY (`correoId`) REFERENCES `correo_saliente`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- CreateTable
+CREATE TABLE `plantilla_correo` (
+    `clave` VARCHAR(191) NOT NULL,
+    `asunto` VARCHAR(191) NOT NULL,
+    `texto` TEXT NOT NULL,
+    `html` MEDIUMTEXT NOT NULL,
+    `actualizadoEn` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+    `actualizadoPor` VARCHAR(191) NULL,
+
+    PRIMARY KEY (`clave`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
@@ -0,0 +1,44 @@
+-- CreateTable
+CREATE TABLE `reenvio_importacion` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `importacionId` INTEGER NOT NULL,
+    `creadoPor` VARCHAR(191) NULL,
+    `createdAt` DATETIME(3) NOT NULL DEFAULT CURRENT_TIMESTAMP(3),
+
+    INDEX `reenvio_importacion_importacionId_idx`(`importacionId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateTable
+CREATE TABLE `reenvio_importacion_item` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `reenvioId` INTEGER NOT NULL,
+    `hoja` VARCHAR(191) NOT NULL,
+    `fila` INTEGER NOT NULL,
+    `cedula` VARCHAR(191) NULL,
+    `nombre` VARCHAR(191) NULL,
+    `apellido` VARCHAR(191) NULL,
+    `correoAnterior` VARCHAR(500) NULL,
+    `destinatario` VARCHAR(500) NOT NULL,
+    `resultado` ENUM('encolado', 'ya_en_cola', 'sin_codigo', 'correo_invalido') NOT NULL,
+    `detalle` TEXT NULL,
+    `codigoId` INTEGER NULL,
+    `correoId` INTEGER NULL,
+
+    UNIQUE INDEX `reenvio_importacion_item_correoId_key`(`correoId`),
+    INDEX `reenvio_importacion_item_reenvioId_idx`(`reenvioId`),
+    INDEX `reenvio_importacion_item_codigoId_idx`(`codigoId`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- AddForeignKey
+ALTER TABLE `reenvio_importacion` ADD CONSTRAINT `reenvio_importacion_importacionId_fkey` FOREIGN KEY (`importacionId`) REFERENCES `importacion`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `reenvio_importacion_item` ADD CONSTRAINT `reenvio_importacion_item_reenvioId_fkey` FOREIGN KEY (`reenvioId`) REFERENCES `reenvio_importacion`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `reenvio_importacion_item` ADD CONSTRAINT `reenvio_importacion_item_codigoId_fkey` FOREIGN KEY (`codigoId`) REFERENCES `codigoqr`(`id_codigo`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `reenvio_importacion_item` ADD CONSTRAINT `reenvio_importacion_item_correoId_fkey` FOREIGN KEY (`correoId`) REFERENCES `correo_saliente`(`id`) ON DELETE SET NULL ON UPDATE CASCADE;
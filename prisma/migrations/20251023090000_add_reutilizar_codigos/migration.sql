@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE `importacion` ADD COLUMN `reutilizarCodigos` BOOLEAN NOT NULL DEFAULT false;
+
+-- AlterTable
+ALTER TABLE `importacion_cambio` ADD COLUMN `codigoId` INTEGER NULL,
+    ADD COLUMN `maxUsosAnterior` INTEGER NULL;
+
+-- CreateTable
+CREATE TABLE `importacion_fila` (
+    `id` INTEGER NOT NULL AUTO_INCREMENT,
+    `importacionId` INTEGER NOT NULL,
+    `hoja` VARCHAR(191) NOT NULL,
+    `fila` INTEGER NOT NULL,
+    `resultado` ENUM('creada', 'actualizada', 'sin_cambios') NOT NULL,
+    `codigo` VARCHAR(191) NULL,
+
+    UNIQUE INDEX `importacion_fila_importacionId_hoja_fila_key`(`importacionId`, `hoja`, `fila`),
+    PRIMARY KEY (`id`)
+) DEFAULT CHARACTER SET utf8mb4 COLLATE utf8mb4_unicode_ci;
+
+-- CreateIndex
+CREATE INDEX `importacion_cambio_codigoId_idx` ON `importacion_cambio`(`codigoId`);
+
+-- AddForeignKey
+ALTER TABLE `importacion_cambio` ADD CONSTRAINT `importacion_cambio_codigoId_fkey` FOREIGN KEY (`codigoId`) REFERENCES `codigoqr`(`id_codigo`) ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE `importacion_fila` ADD CONSTRAINT `importacion_fila_importacionId_fkey` FOREIGN KEY (`importacionId`) REFERENCES `importacion`(`id`) ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `importacion` ADD COLUMN `reglasCupos` JSON NULL;
+
+-- AlterTable
+ALTER TABLE `perfil_importacion` ADD COLUMN `reglasCupos` JSON NULL;
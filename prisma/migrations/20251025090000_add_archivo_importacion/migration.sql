@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE `importacion` ADD COLUMN `nombreOriginal` VARCHAR(191) NULL,
+    ADD COLUMN `checksum` CHAR(64) NULL,
+    ADD COLUMN `tamano` INTEGER NULL;
+
+-- CreateIndex
+CREATE INDEX `importacion_checksum_idx` ON `importacion`(`checksum`);
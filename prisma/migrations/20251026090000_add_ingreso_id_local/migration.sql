@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE `ingreso` ADD COLUMN `idLocal` VARCHAR(64) NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX `ingreso_idLocal_key` ON `ingreso`(`idLocal`);
@@ -0,0 +1,25 @@
+-- Las cédulas y RUC importados antes de completar el cero inicial quedaron con 9 o 12 dígitos;
+-- se completan para que las búsquedas y las nuevas importaciones encuentren a la persona.
+
+-- Si una importación posterior ya creó a la misma persona con el cero, sus códigos y cambios de
+-- importación pasan a ese registro y el registro sin el cero se elimina
+UPDATE `codigoqr` c
+    JOIN `persona` antigua ON c.`personaId` = antigua.`id_persona`
+    JOIN `persona` nueva ON nueva.`cedula` = CONCAT('0', antigua.`cedula`)
+SET c.`personaId` = nueva.`id_persona`
+WHERE antigua.`cedula` REGEXP '^([0-9]{9}|[0-9]{12})$';
+
+UPDATE `importacion_cambio` ic
+    JOIN `persona` antigua ON ic.`personaId` = antigua.`id_persona`
+    JOIN `persona` nueva ON nueva.`cedula` = CONCAT('0', antigua.`cedula`)
+SET ic.`personaId` = nueva.`id_persona`
+WHERE antigua.`cedula` REGEXP '^([0-9]{9}|[0-9]{12})$';
+
+DELETE antigua FROM `persona` antigua
+    JOIN `persona` nueva ON nueva.`cedula` = CONCAT('0', antigua.`cedula`)
+WHERE antigua.`cedula` REGEXP '^([0-9]{9}|[0-9]{12})$';
+
+-- Sin duplicado, basta con completar el cero
+UPDATE `persona`
+SET `cedula` = CONCAT('0', `cedula`)
+WHERE `cedula` REGEXP '^([0-9]{9}|[0-9]{12})$';
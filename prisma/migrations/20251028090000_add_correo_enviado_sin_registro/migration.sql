@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE `correo_saliente` MODIFY `estado` ENUM('pendiente', 'enviando', 'enviado', 'enviado_sin_registro', 'fallido', 'cancelado') NOT NULL DEFAULT 'pendiente';
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import {
+  directorioCorreos,
+  leerCorreoCapturado,
+  listarCorreosCapturados,
+  transporteCorreo,
+  vaciarCorreosCapturados,
+} from "@/utils/mailer";
+
+/**
+ * Correos que el transporte local (archivo o memoria) guardó en lugar de enviarlos.
+ * Con `id` devuelve el correo; con `id` y `formato=eml` descarga el mensaje completo.
+ */
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const id = req.nextUrl.searchParams.get("id");
+  if (id) {
+    const captura = await leerCorreoCapturado(id);
+    if (!captura) {
+      return NextResponse.json({ error: "Correo no encontrado" }, { status: 404 });
+    }
+    if (req.nextUrl.searchParams.get("formato") === "eml") {
+      return new NextResponse(new Uint8Array(captura.eml), {
+        headers: {
+          "Content-Type": "message/rfc822",
+          "Content-Disposition": `attachment; filename="${id}.eml"`,
+        },
+      });
+    }
+    return NextResponse.json({ correo: captura.correo });
+  }
+
+  const transporte = transporteCorreo();
+  return NextResponse.json({
+    transporte,
+    directorio: transporte === "archivo" ? directorioCorreos() : null,
+    correos: (await listarCorreosCapturados()).map((correo) => ({
+      id: correo.id,
+      para: correo.para,
+      asunto: correo.asunto,
+      fecha: correo.fecha,
+      adjuntos: correo.adjuntos.length,
+    })),
+  });
+}
+
+export async function DELETE() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const eliminados = await vaciarCorreosCapturados();
+  return NextResponse.json({ success: true, eliminados });
+}
@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import {
+  CLAVES_PLANTILLA,
+  PLANTILLAS_CORREO,
+  esClavePlantilla,
+  variablesDesconocidas,
+} from "@/lib/plantillasCorreo";
+
+/**
+ * Plantillas de correo con su contenido vigente y las variables que admite cada una.
+ */
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const guardadas = await prisma.plantillaCorreo.findMany();
+
+  return NextResponse.json({
+    plantillas: CLAVES_PLANTILLA.map((clave) => {
+      const definicion = PLANTILLAS_CORREO[clave];
+      const guardada = guardadas.find((item) => item.clave === clave);
+      return {
+        clave,
+        nombre: definicion.nombre,
+        descripcion: definicion.descripcion,
+        variables: definicion.variables,
+        contenido: guardada
+          ? { asunto: guardada.asunto, texto: guardada.texto, html: guardada.html }
+          : definicion.predeterminada,
+        personalizada: Boolean(guardada),
+        actualizadoEn: guardada?.actualizadoEn ?? null,
+        actualizadoPor: guardada?.actualizadoPor ?? null,
+      };
+    }),
+  });
+}
+
+export async function PUT(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const clave = body?.clave;
+  if (!esClavePlantilla(clave)) {
+    return NextResponse.json({ error: "Plantilla no válida" }, { status: 400 });
+  }
+
+  const asunto = typeof body?.asunto === "string" ? body.asunto.trim() : "";
+  const texto = typeof body?.texto === "string" ? body.texto.trim() : "";
+  const html = typeof body?.html === "string" ? body.html.trim() : "";
+  if (!asunto || !texto || !html) {
+    return NextResponse.json({ error: "El asunto, el texto y el HTML son obligatorios" }, { status: 400 });
+  }
+
+  const desconocidas = variablesDesconocidas(clave, { asunto, texto, html });
+  if (desconocidas.length > 0) {
+    return NextResponse.json(
+      { error: `Variables no disponibles en esta plantilla: ${desconocidas.map((nombre) => `{{${nombre}}}`).join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  const usuario = session.user?.email ?? null;
+  const plantilla = await prisma.plantillaCorreo.upsert({
+    where: { clave },
+    update: { asunto, texto, html, actualizadoPor: usuario },
+    create: { clave, asunto, texto, html, actualizadoPor: usuario },
+  });
+
+  return NextResponse.json({ plantilla });
+}
+
+/**
+ * Descarta los cambios y vuelve a la plantilla predeterminada.
+ */
+export async function DELETE(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const clave = req.nextUrl.searchParams.get("clave");
+  if (!esClavePlantilla(clave)) {
+    return NextResponse.json({ error: "Plantilla no válida" }, { status: 400 });
+  }
+
+  await prisma.plantillaCorreo.deleteMany({ where: { clave } });
+  return NextResponse.json({ success: true, contenido: PLANTILLAS_CORREO[clave].predeterminada });
+}
@@ -0,0 +1,187 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma, type EstadoCorreo, type OrigenCorreo } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import {
+  CLAVE_CORREOS_POR_MINUTO,
+  cancelarCorreos,
+  correosPorMinuto,
+  iniciarProcesadorCorreos,
+  reintentarCorreos,
+} from "@/lib/bandejaCorreos";
+
+const ESTADOS: EstadoCorreo[] = [
+  "pendiente",
+  "enviando",
+  "enviado",
+  "enviado_sin_registro",
+  "fallido",
+  "cancelado",
+];
+const ORIGENES: OrigenCorreo[] = ["importacion", "qr_estudiante", "reenvio_qr", "venta", "cierre_caja"];
+const POR_PAGINA = 50;
+const MAX_CORREOS_POR_MINUTO = 600;
+
+/**
+ * Bandeja de salida: sin `id` lista los correos con filtros y totales por estado;
+ * con `id` devuelve el correo y el detalle de cada intento.
+ */
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const params = req.nextUrl.searchParams;
+
+  const idParam = params.get("id");
+  if (idParam) {
+    const id = Number(idParam);
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json({ error: "Identificador de correo inválido" }, { status: 400 });
+    }
+    const correo = await prisma.correoSaliente.findUnique({
+      where: { id },
+      include: { registro: { orderBy: { numero: "asc" } } },
+    });
+    if (!correo) {
+      return NextResponse.json({ error: "Correo no encontrado" }, { status: 404 });
+    }
+    const { html, adjuntos, registro, ...resto } = correo;
+    return NextResponse.json({
+      correo: {
+        ...resto,
+        tieneHtml: Boolean(html),
+        adjuntos: ((adjuntos ?? []) as Array<{ filename: string }>).map((adjunto) => adjunto.filename),
+        intentosDetalle: registro,
+      },
+    });
+  }
+
+  const estado = params.get("estado");
+  const origen = params.get("origen");
+  const busqueda = params.get("q")?.trim() ?? "";
+  const pagina = Math.max(1, Number(params.get("pagina")) || 1);
+
+  if (estado && !ESTADOS.includes(estado as EstadoCorreo)) {
+    return NextResponse.json({ error: "Estado no válido" }, { status: 400 });
+  }
+  if (origen && !ORIGENES.includes(origen as OrigenCorreo)) {
+    return NextResponse.json({ error: "Origen no válido" }, { status: 400 });
+  }
+
+  const where: Prisma.CorreoSalienteWhereInput = {
+    ...(estado ? { estado: estado as EstadoCorreo } : {}),
+    ...(origen ? { origen: origen as OrigenCorreo } : {}),
+    ...(busqueda
+      ? { OR: [{ destinatario: { contains: busqueda } }, { asunto: { contains: busqueda } }] }
+      : {}),
+  };
+
+  const [correos, total, porEstado, limite] = await Promise.all([
+    prisma.correoSaliente.findMany({
+      where,
+      orderBy: { id: "desc" },
+      skip: (pagina - 1) * POR_PAGINA,
+      take: POR_PAGINA,
+      select: {
+        id: true,
+        origen: true,
+        destinatario: true,
+        asunto: true,
+        estado: true,
+        intentos: true,
+        maxIntentos: true,
+        proximoIntento: true,
+        ultimoError: true,
+        enviadoEn: true,
+        creadoPor: true,
+        importacionId: true,
+        createdAt: true,
+      },
+    }),
+    prisma.correoSaliente.count({ where }),
+    prisma.correoSaliente.groupBy({ by: ["estado"], _count: { _all: true } }),
+    correosPorMinuto(),
+  ]);
+
+  return NextResponse.json({
+    correos,
+    total,
+    pagina,
+    porPagina: POR_PAGINA,
+    totales: Object.fromEntries(
+      ESTADOS.map((item) => [item, porEstado.find((grupo) => grupo.estado === item)?._count._all ?? 0])
+    ),
+    correosPorMinuto: limite,
+  });
+}
+
+/**
+ * Reintenta o cancela los correos indicados.
+ */
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const accion = body?.accion;
+  const ids: number[] = Array.isArray(body?.ids)
+    ? body.ids.map(Number).filter((id: number) => Number.isInteger(id) && id > 0)
+    : [];
+
+  if (accion !== "reintentar" && accion !== "cancelar") {
+    return NextResponse.json({ error: "Acción no válida" }, { status: 400 });
+  }
+  if (ids.length === 0) {
+    return NextResponse.json({ error: "Selecciona al menos un correo" }, { status: 400 });
+  }
+
+  const afectados =
+    accion === "reintentar" ? await reintentarCorreos(ids) : await cancelarCorreos(ids, "Cancelado por un administrador");
+
+  if (afectados === 0) {
+    return NextResponse.json(
+      {
+        error:
+          accion === "reintentar"
+            ? "Solo se pueden reintentar correos fallidos o cancelados"
+            : "Solo se pueden cancelar correos pendientes",
+      },
+      { status: 409 }
+    );
+  }
+
+  return NextResponse.json({ success: true, afectados });
+}
+
+/**
+ * Cambia el límite de envíos por minuto de la bandeja.
+ */
+export async function PUT(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const valor = Number(body?.correosPorMinuto);
+  if (!Number.isInteger(valor) || valor <= 0 || valor > MAX_CORREOS_POR_MINUTO) {
+    return NextResponse.json(
+      { error: `El límite debe ser un entero entre 1 y ${MAX_CORREOS_POR_MINUTO}` },
+      { status: 400 }
+    );
+  }
+
+  await prisma.configuracion.upsert({
+    where: { clave: CLAVE_CORREOS_POR_MINUTO },
+    update: { valor: String(valor), actualizadoEn: new Date() },
+    create: { clave: CLAVE_CORREOS_POR_MINUTO, valor: String(valor) },
+  });
+  iniciarProcesadorCorreos();
+
+  return NextResponse.json({ success: true, correosPorMinuto: valor });
+}
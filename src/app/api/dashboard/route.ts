@@ -1,60 +1,45 @@
 import { NextRequest } from "next/server";
+import type { Prisma } from "@prisma/client";
 import prisma from "@/lib/prisma";
-
-type DateRange = {
-  start: Date;
-  end: Date;
-};
-
-function buildDateRange(dateParam: string | null): DateRange | null {
-  if (!dateParam) return null;
-
-  const [yearStr, monthStr, dayStr] = dateParam.split("-");
-  const year = Number(yearStr);
-  const month = Number(monthStr);
-  const day = Number(dayStr);
-
-  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) {
-    return null;
-  }
-
-  const start = new Date(year, month - 1, day, 0, 0, 0, 0);
-  const end = new Date(year, month - 1, day, 23, 59, 59, 999);
-
-  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
-    return null;
-  }
-
-  return { start, end };
-}
+import { mapEvento, resolverEvento } from "@/lib/eventos";
+import { buildDateRange } from "@/lib/fechas";
+import { calcularOcupacion } from "@/lib/ocupacion";
+
+const includeConfig = {
+  codigoqr: {
+    select: {
+      id_codigo: true,
+      codigo: true,
+      tipo_qr: true,
+      max_usos: true,
+      usos_actual: true,
+      ventas: { select: { id: true } },
+      persona: { select: { nombre: true, apellido: true } },
+    },
+  },
+  puntoControl: { select: { nombre: true } },
+} satisfies Prisma.IngresoInclude;
+
+type IngresoDashboard = Prisma.IngresoGetPayload<{ include: typeof includeConfig }>;
 
 export async function GET(req: NextRequest) {
   try {
     const { searchParams } = new URL(req.url);
     const dateParam = searchParams.get("date");
     const dateRange = buildDateRange(dateParam);
+    const evento = await resolverEvento(searchParams.get("eventoId"));
+
+    if (!evento) {
+      return Response.json({ error: "No hay un evento activo" }, { status: 404 });
+    }
 
     const todayString = new Date().toISOString().slice(0, 10);
     const todayRange = buildDateRange(todayString);
 
-    const includeConfig = {
-      codigoqr: {
-        select: {
-          id_codigo: true,
-          codigo: true,
-          tipo_qr: true,
-          max_usos: true,
-          usos_actual: true,
-          ventas: { select: { id: true } },
-          persona: { select: { nombre: true, apellido: true } },
-        },
-      },
-    } as const;
-
     const fechaFilter = dateRange ? { gte: dateRange.start, lte: dateRange.end } : undefined;
 
     const ingresosPromise = prisma.ingreso.findMany({
-      where: fechaFilter ? { fecha: fechaFilter } : {},
+      where: { eventoId: evento.id, tipo: "entrada", anulado: false, ...(fechaFilter ? { fecha: fechaFilter } : {}) },
       orderBy: { fecha: "desc" },
       include: includeConfig,
     });
@@ -64,18 +49,28 @@ export async function GET(req: NextRequest) {
 
     const ingresosHoyPromise = needTodayQuery
       ? prisma.ingreso.findMany({
-          where: todayRange ? { fecha: { gte: todayRange.start, lte: todayRange.end } } : {},
+          where: {
+            eventoId: evento.id,
+            tipo: "entrada",
+            anulado: false,
+            ...(todayRange ? { fecha: { gte: todayRange.start, lte: todayRange.end } } : {}),
+          },
           orderBy: { fecha: "desc" },
           include: includeConfig,
         })
       : Promise.resolve([]);
 
-    const [ingresos, ingresosHoyRaw] = await Promise.all([ingresosPromise, ingresosHoyPromise]);
+    const [ingresos, ingresosHoyRaw, ocupacion] = await Promise.all([
+      ingresosPromise,
+      ingresosHoyPromise,
+      calcularOcupacion(evento.id, evento.capacidad),
+    ]);
 
     const resumenSeleccionado = resumirIngresos(ingresos);
     const resumenHoy = needTodayQuery ? resumirIngresos(ingresosHoyRaw) : resumenSeleccionado;
 
     return Response.json({
+      evento: mapEvento(evento),
       total: resumenSeleccionado.total,
       estudiantes: resumenSeleccionado.estudiantes,
       familiares: resumenSeleccionado.familiares,
@@ -84,8 +79,11 @@ export async function GET(req: NextRequest) {
         ...entrada,
         ultimaLectura: entrada.ultimaLectura.toISOString(),
       })),
+      porPuntoControl: resumenSeleccionado.porPuntoControl,
+      porGuardia: resumenSeleccionado.porGuardia,
       selectedDate: dateRange ? dateRange.start.toISOString().slice(0, 10) : null,
       totalHoy: resumenHoy.total,
+      ocupacion,
     });
   } catch (err) {
     console.error(err);
@@ -108,9 +106,20 @@ type ResumenIngreso = {
     persona: string | null;
     esAdicional: boolean;
   }>;
+  porPuntoControl: Array<{ puntoControl: string; total: number }>;
+  porGuardia: Array<{ usuario: string; total: number }>;
 };
 
-function resumirIngresos(ingresos: Awaited<ReturnType<typeof prisma.ingreso.findMany>>): ResumenIngreso {
+const SIN_PUNTO_CONTROL = "Sin puerta asignada";
+const SIN_USUARIO = "Sin usuario registrado";
+
+function contarPor(valores: string[]) {
+  const conteo = new Map<string, number>();
+  valores.forEach((valor) => conteo.set(valor, (conteo.get(valor) ?? 0) + 1));
+  return Array.from(conteo.entries()).sort((a, b) => b[1] - a[1]);
+}
+
+function resumirIngresos(ingresos: IngresoDashboard[]): ResumenIngreso {
   const agrupadosMap = new Map<number, ResumenIngreso["ingresosAgrupados"][number]>();
 
   for (const ingreso of ingresos) {
@@ -168,11 +177,20 @@ function resumirIngresos(ingresos: Awaited<ReturnType<typeof prisma.ingreso.find
 
   const total = estudiantes + familiares + adicionales;
 
+  const porPuntoControl = contarPor(
+    ingresos.map((ingreso) => ingreso.puntoControl?.nombre ?? SIN_PUNTO_CONTROL)
+  ).map(([puntoControl, totalPuerta]) => ({ puntoControl, total: totalPuerta }));
+  const porGuardia = contarPor(ingresos.map((ingreso) => ingreso.usuario ?? SIN_USUARIO)).map(
+    ([usuario, totalGuardia]) => ({ usuario, total: totalGuardia })
+  );
+
   return {
     total,
     estudiantes,
     familiares,
     adicionales,
     ingresosAgrupados,
+    porPuntoControl,
+    porGuardia,
   };
 }
@@ -1,15 +1,19 @@
 import { NextRequest, NextResponse } from "next/server";
 import prisma from "@/lib/prisma";
+import { validarIdentificacion } from "@/lib/identificacion";
 
 export async function GET(
   req: NextRequest,
   { params }: { params: { cedula: string } }
 ) {
   try {
-    const { cedula } = params;
+    const identificacion = validarIdentificacion(params.cedula);
+    if (!identificacion.ok) {
+      return NextResponse.json({ error: `Identificación inválida: ${identificacion.error}` }, { status: 400 });
+    }
 
     const persona = await prisma.persona.findUnique({
-      where: { cedula: String(cedula) },
+      where: { cedula: identificacion.valor },
     });
 
     if (!persona || persona.tipo_persona !== "estudiante") {
@@ -0,0 +1,155 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import type { EstadoEvento, Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { mapEvento, parseEventoId } from "@/lib/eventos";
+
+const ESTADOS_EVENTO: EstadoEvento[] = ["planificado", "activo", "finalizado"];
+
+function parseFecha(value: unknown): Date | null {
+  if (typeof value !== "string" || !value.trim()) {
+    return null;
+  }
+  const fecha = new Date(value);
+  return Number.isNaN(fecha.getTime()) ? null : fecha;
+}
+
+function parseCapacidad(value: unknown): number | null | undefined {
+  if (value === undefined) return undefined;
+  if (value === null || value === "") return null;
+  const numeric = Number(value);
+  return Number.isInteger(numeric) && numeric > 0 ? numeric : undefined;
+}
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+  }
+
+  const eventos = await prisma.evento.findMany({
+    orderBy: { fecha_inicio: "desc" },
+    include: {
+      _count: {
+        select: { codigos: true, ingresos: { where: { anulado: false } }, importaciones: true, cajas: true },
+      },
+    },
+  });
+
+  return NextResponse.json({
+    eventos: eventos.map((evento) => ({
+      ...mapEvento(evento),
+      totales: {
+        codigos: evento._count.codigos,
+        ingresos: evento._count.ingresos,
+        importaciones: evento._count.importaciones,
+        cajas: evento._count.cajas,
+      },
+    })),
+  });
+}
+
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const nombre = typeof body?.nombre === "string" ? body.nombre.trim() : "";
+  const lugar = typeof body?.lugar === "string" ? body.lugar.trim() : "";
+  const fechaInicio = parseFecha(body?.fechaInicio);
+  const fechaFin = parseFecha(body?.fechaFin);
+  const capacidad = parseCapacidad(body?.capacidad);
+
+  if (!nombre) {
+    return NextResponse.json({ error: "El nombre del evento es obligatorio" }, { status: 400 });
+  }
+  if (!fechaInicio || !fechaFin || fechaFin < fechaInicio) {
+    return NextResponse.json({ error: "Ingresa un rango de fechas válido" }, { status: 400 });
+  }
+  if (capacidad === undefined && body?.capacidad !== undefined) {
+    return NextResponse.json({ error: "La capacidad debe ser un entero positivo" }, { status: 400 });
+  }
+
+  const evento = await prisma.evento.create({
+    data: {
+      nombre,
+      lugar: lugar || null,
+      fecha_inicio: fechaInicio,
+      fecha_fin: fechaFin,
+      capacidad: capacidad ?? null,
+    },
+  });
+
+  return NextResponse.json({ evento: mapEvento(evento) });
+}
+
+export async function PATCH(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const eventoId = parseEventoId(body?.id);
+  if (!eventoId) {
+    return NextResponse.json({ error: "Identificador de evento inválido" }, { status: 400 });
+  }
+
+  const data: Prisma.EventoUpdateInput = {};
+
+  if (typeof body?.nombre === "string") {
+    const nombre = body.nombre.trim();
+    if (!nombre) {
+      return NextResponse.json({ error: "El nombre del evento es obligatorio" }, { status: 400 });
+    }
+    data.nombre = nombre;
+  }
+  if (typeof body?.lugar === "string") {
+    data.lugar = body.lugar.trim() || null;
+  }
+  if (body?.fechaInicio !== undefined) {
+    const fechaInicio = parseFecha(body.fechaInicio);
+    if (!fechaInicio) {
+      return NextResponse.json({ error: "Fecha de inicio inválida" }, { status: 400 });
+    }
+    data.fecha_inicio = fechaInicio;
+  }
+  if (body?.fechaFin !== undefined) {
+    const fechaFin = parseFecha(body.fechaFin);
+    if (!fechaFin) {
+      return NextResponse.json({ error: "Fecha de fin inválida" }, { status: 400 });
+    }
+    data.fecha_fin = fechaFin;
+  }
+  if (body?.capacidad !== undefined) {
+    const capacidad = parseCapacidad(body.capacidad);
+    if (capacidad === undefined) {
+      return NextResponse.json({ error: "La capacidad debe ser un entero positivo" }, { status: 400 });
+    }
+    data.capacidad = capacidad;
+  }
+  if (body?.estado !== undefined) {
+    if (!ESTADOS_EVENTO.includes(body.estado)) {
+      return NextResponse.json({ error: "Estado de evento no reconocido" }, { status: 400 });
+    }
+    data.estado = body.estado as EstadoEvento;
+  }
+
+  const existente = await prisma.evento.findUnique({ where: { id: eventoId } });
+  if (!existente) {
+    return NextResponse.json({ error: "Evento no encontrado" }, { status: 404 });
+  }
+
+  const inicio = (data.fecha_inicio as Date | undefined) ?? existente.fecha_inicio;
+  const fin = (data.fecha_fin as Date | undefined) ?? existente.fecha_fin;
+  if (fin < inicio) {
+    return NextResponse.json({ error: "La fecha de fin no puede ser anterior a la de inicio" }, { status: 400 });
+  }
+
+  const evento = await prisma.evento.update({ where: { id: eventoId }, data });
+
+  return NextResponse.json({ evento: mapEvento(evento) });
+}
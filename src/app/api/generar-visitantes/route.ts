@@ -4,7 +4,9 @@ import prisma from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
 import { generarQRpng } from "@/lib/generarQR";
 import { createPdfDocument } from "@/lib/pdf";
-import { sendMail } from "@/utils/mailer";
+import { contenidoPlantilla, encolarCorreo } from "@/lib/bandejaCorreos";
+import { personasTexto } from "@/lib/plantillasCorreo";
+import { resolverEvento, resolverEventoActivo } from "@/lib/eventos";
 
 const PRECIO_KEY = "precio_boleto";
 const LIMIT_KEY = "limite_boletos";
@@ -66,16 +68,17 @@ function parseInteger(value: string | null | undefined) {
   return Number.isFinite(numeric) ? numeric : 0;
 }
 
-async function obtenerCajaActiva(userEmail?: string | null, role?: string | null) {
+async function obtenerCajaActiva(eventoId: number, userEmail?: string | null, role?: string | null) {
   if (!hasCajaModel) {
     return null;
   }
   const whereClause =
     role === "admin" || !userEmail
-      ? { abierto: true }
+      ? { abierto: true, eventoId }
       : {
           abierto: true,
           abiertoPor: userEmail,
+          eventoId,
         };
 
   return prisma.cajaTurno.findFirst({
@@ -115,12 +118,13 @@ function mapCaja<T extends { id: number; abierto: boolean; abiertoPor: string |
   };
 }
 
-async function obtenerResumenGlobalVentas() {
+async function obtenerResumenGlobalVentas(eventoId: number) {
   if (!hasCajaModel) {
     return { totalVendidos: 0 };
   }
 
   const aggregate = await prisma.ventaAdicional.aggregate({
+    where: { caja: { eventoId } },
     _sum: { cantidad: true },
   });
 
@@ -229,35 +233,31 @@ async function sendClosingReport({
   buffer,
   totalBoletos,
   totalRecaudado,
+  cerradoPor,
 }: {
   buffer: Buffer;
   totalBoletos: number;
   totalRecaudado: number;
+  cerradoPor: string | null;
 }) {
-  const subject = "Reporte de cierre de caja - Eventos ISTE";
-  const plain = `Cierre de caja completado.
-Boletos: ${totalBoletos}
-Total recaudado: $${totalRecaudado.toFixed(2)}.`;
-  const html = `
-    <p>Hola equipo,</p>
-    <p>Adjuntamos el reporte de cierre de caja.</p>
-    <p><strong>Boletos emitidos:</strong> ${totalBoletos}<br/>
-       <strong>Total recaudado:</strong> $${totalRecaudado.toFixed(2)}</p>
-    <p>Saludos.</p>
-  `;
-
-  await sendMail(
-    REPORT_RECIPIENTS.join(", "),
-    subject,
-    plain,
-    [
+  await encolarCorreo({
+    origen: "cierre_caja",
+    destinatario: REPORT_RECIPIENTS.join(", "),
+    ...(await contenidoPlantilla("cierre_caja", {
+      totalBoletos,
+      totalRecaudado: totalRecaudado.toFixed(2),
+      cerradoPor: cerradoPor ?? "",
+    })),
+    adjuntos: [
       {
+        tipo: "archivo",
         filename: `reporte-cierre-caja-${Date.now()}.pdf`,
-        content: buffer,
+        contentType: "application/pdf",
+        base64: buffer.toString("base64"),
       },
     ],
-    html
-  );
+    creadoPor: cerradoPor,
+  });
 }
 
 function summarizeClosure(closure: {
@@ -279,7 +279,7 @@ function summarizeClosure(closure: {
   };
 }
 
-export async function GET() {
+export async function GET(req: NextRequest) {
   const session = await getServerSession(authOptions);
   if (!session) {
     return NextResponse.json({ error: "No autorizado" }, { status: 401 });
@@ -287,6 +287,11 @@ export async function GET() {
   const role = session.user?.role ?? null;
   const userEmail = session.user?.email ?? "";
 
+  const evento = await resolverEvento(req.nextUrl.searchParams.get("eventoId"));
+  if (!evento) {
+    return NextResponse.json({ error: "No hay un evento activo para gestionar la caja" }, { status: 404 });
+  }
+
   await ensurePrecioUnitario();
   await ensureLimiteBoletos();
 
@@ -307,14 +312,15 @@ export async function GET() {
   const [precioConfig, limiteConfig, cajaActiva, historial, closures, resumenGlobal] = await Promise.all([
     prisma.configuracion.findUnique({ where: { clave: PRECIO_KEY } }),
     prisma.configuracion.findUnique({ where: { clave: LIMIT_KEY } }),
-    obtenerCajaActiva(role === "admin" ? undefined : userEmail, role),
+    obtenerCajaActiva(evento.id, role === "admin" ? undefined : userEmail, role),
     prisma.ventaAdicional.findMany({
       where:
         role === "admin"
-          ? undefined
+          ? { caja: { eventoId: evento.id } }
           : {
               caja: {
                 abiertoPor: userEmail,
+                eventoId: evento.id,
               },
             },
       orderBy: { createdAt: "desc" },
@@ -324,16 +330,17 @@ export async function GET() {
     prisma.cajaTurno.findMany({
       where:
         role === "admin"
-          ? { abierto: false }
+          ? { abierto: false, eventoId: evento.id }
           : {
               abierto: false,
               abiertoPor: userEmail,
+              eventoId: evento.id,
             },
       orderBy: { cerradoAt: "desc" },
       take: 20,
       include: { ventas: true },
     }),
-    obtenerResumenGlobalVentas(),
+    obtenerResumenGlobalVentas(evento.id),
   ]);
 
   const precioUnitario = parseDecimal(precioConfig?.valor ?? DEFAULT_PRICE.toString());
@@ -389,6 +396,20 @@ export async function POST(req: NextRequest) {
   await ensurePrecioUnitario();
   await ensureLimiteBoletos();
 
+  const evento = await resolverEvento(body?.eventoId);
+  if (!evento) {
+    return NextResponse.json({ error: "No hay un evento activo para gestionar la caja" }, { status: 404 });
+  }
+
+  // Abrir una caja y vender boletos suman datos al evento; cerrar y consultar las cajas sigue
+  // permitido después de finalizarlo para no dejar turnos sin cuadrar
+  if (action === "open" || action === "generate") {
+    const eventoActivo = await resolverEventoActivo(evento.id, "No hay un evento activo para gestionar la caja");
+    if (!eventoActivo.ok) {
+      return NextResponse.json({ error: eventoActivo.error }, { status: 400 });
+    }
+  }
+
   switch (action) {
     case "open": {
       if (!hasCajaModel) {
@@ -399,7 +420,7 @@ export async function POST(req: NextRequest) {
       }
 
       const isAdmin = role === "admin";
-      const existing = await obtenerCajaActiva(isAdmin ? undefined : userEmail, role);
+      const existing = await obtenerCajaActiva(evento.id, isAdmin ? undefined : userEmail, role);
       if (existing) {
         const message = isAdmin ? "Ya existe una caja abierta" : "Ya tienes una caja abierta actualmente.";
         return NextResponse.json({ error: message }, { status: 400 });
@@ -409,6 +430,7 @@ export async function POST(req: NextRequest) {
         data: {
           abierto: true,
           abiertoPor: userEmail,
+          evento: { connect: { id: evento.id } },
         },
         include: {
           ventas: true,
@@ -426,7 +448,7 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ error: "No se pudo identificar al usuario actual" }, { status: 400 });
       }
 
-      const caja = await obtenerCajaActiva(role === "admin" ? undefined : userEmail, role);
+      const caja = await obtenerCajaActiva(evento.id, role === "admin" ? undefined : userEmail, role);
       if (!caja) {
         const message = role === "admin" ? "No hay una caja abierta" : "No tienes una caja abierta en curso.";
         return NextResponse.json({ error: message }, { status: 400 });
@@ -448,7 +470,7 @@ export async function POST(req: NextRequest) {
         totalRecaudado,
         cerradoPor: userEmail,
       });
-      await sendClosingReport({ buffer: reportPdf, totalBoletos, totalRecaudado });
+      await sendClosingReport({ buffer: reportPdf, totalBoletos, totalRecaudado, cerradoPor: userEmail || null });
 
       const cerrada = await prisma.cajaTurno.update({
         where: { id: caja.id },
@@ -549,7 +571,7 @@ export async function POST(req: NextRequest) {
         return NextResponse.json({ error: "Debes indicar la cantidad de QR a generar" }, { status: 400 });
       }
 
-      const caja = await obtenerCajaActiva(role === "admin" ? undefined : userEmail, role);
+      const caja = await obtenerCajaActiva(evento.id, role === "admin" ? undefined : userEmail, role);
       if (!caja) {
         return NextResponse.json(
           { error: role === "admin" ? "Debes abrir la caja antes de generar QR" : "Debes abrir tu caja antes de generar QR" },
@@ -564,7 +586,7 @@ export async function POST(req: NextRequest) {
       const limiteConfig = await prisma.configuracion.findUnique({ where: { clave: LIMIT_KEY } });
       const limiteBoletos = parseInteger(limiteConfig?.valor ?? DEFAULT_LIMIT.toString());
       if (limiteBoletos > 0) {
-        const { totalVendidos } = await obtenerResumenGlobalVentas();
+        const { totalVendidos } = await obtenerResumenGlobalVentas(evento.id);
         if (totalVendidos + cantidad > limiteBoletos) {
           const disponibles = Math.max(limiteBoletos - totalVendidos, 0);
           return NextResponse.json(
@@ -589,12 +611,10 @@ export async function POST(req: NextRequest) {
           tipo_qr: "vis",
           max_usos: cantidad,
           usos_actual: 0,
+          evento: { connect: { id: evento.id } },
         },
       });
 
-      const qrAsset = await generarQRpng(codigo, "Eventos ISTE", `${codigo}.png`);
-      const qrBuffer = qrAsset.buffer;
-
       await prisma.ventaAdicional.create({
         data: {
           codigo: { connect: { id_codigo: codigoRecord.id_codigo } },
@@ -607,91 +627,28 @@ export async function POST(req: NextRequest) {
       });
 
       if (enviarCorreo) {
-        const html = `
-          <table width="100%" cellpadding="0" cellspacing="0" style="max-width:640px;margin:0 auto;background:#f4f6fb;font-family:'Segoe UI',Arial,sans-serif;color:#0b1d33;border-radius:18px;overflow:hidden;">
-            <tr>
-              <td style="padding:0;">
-                <div style="background-color:#003976; padding:20px; text-align:center;">
-                  <img src="https://yosoyistealmacenamiento.blob.core.windows.net/directorio-telefonico/iste.png" alt="ISTE" style="max-width:240px;"/>
-                </div>
-              </td>
-            </tr>
-            <tr>
-              <td style="padding:28px 32px 24px;">
-                <p style="margin:0 0 12px;font-size:18px;font-weight:600;">Hola,</p>
-                <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
-                  Adjuntamos el código QR para el ingreso de <strong>${cantidad} persona(s)</strong>.
-                </p>
-                <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
-                  ¡Te esperamos para celebrar la ceremonia de graduación.!
-                </p>
-                <p style="margin:0 0 12px;font-size:18px;font-weight:600;"><strong>Importante</strong> </p>
-                <ul style="margin:0 0 12px 18px;padding:0;font-size:15px;line-height:1.6;">
-                  <li style="margin-bottom:8px;">
-                    Cuida este código y compártelo únicamente con tus personas invitadas.
-                  </li>
-                  <li>
-                    Desde los <strong>10 años</strong> se requiere boleto individual.
-                  </li>
-                </ul>
-                <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
-                  Si necesitas entradas adicionales, estarán disponibles el día del evento en el lugar donde se desarrollará la ceremonia.
-                </p>
-                <p style="margin:0;font-size:15px;line-height:1.6;">
-                  Precio unitario: <strong>$${precioUnitario.toFixed(2)}</strong><br/>
-                  Monto total: <strong>$${totalRecaudado.toFixed(2)}</strong>
-                </p>
-              </td>
-            </tr>
-            <tr>
-              <td style="padding:0 32px 28px;">
-                <div style="margin-top:12px;border-radius:16px;background:#ffffff;border:1px solid #d6e3f5;padding:20px;font-size:14px;color:#0b1d33;">
-                  <p style="margin:0;font-weight:600;">Consejo rápido</p>
-                  <p style="margin:8px 0 0;line-height:1.6;">Presenta el código en la entrada y asegúrate de que la pantalla tenga buen brillo para agilizar el acceso.</p>
-                </div>
-              </td>
-            </tr>
-            <tr>
-              <td style="padding:0 32px 28px;">
-                <table width="100%" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:16px;border:1px solid #d6e3f5;">
-                  <tr>
-                    <td style="padding:20px;text-align:justify;font-size:13px;color:#0b1d33;line-height:1.6;border-bottom:1px solid #2167b1;">
-                      “En cumplimiento con lo establecido en la Ley Orgánica de Protección de Datos Personales y el Reglamento,
-                      el ISTE garantiza la confidencialidad y privacidad de los datos personales que trata. Este correo es
-                      confidencial. Si no eres el destinatario, está prohibido usarlo, copiarlo o difundirlo; devuélvelo y elimínalo.”
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding:12px 20px 16px;text-align:center;font-size:12px;color:#7f8c8d;">
-                      © 2025 Unidad de TEI - ISTE. Todos los derechos reservados.
-                    </td>
-                  </tr>
-                </table>
-              </td>
-            </tr>
-          </table>
-        `;
-
-        await sendMail(
-          emailLimpio,
-          "🎟️ Tu código QR adicional",
-          `Adjuntamos el código QR válido para ${cantidad} persona(s). Recuerda: cuida tu código y desde los 10 años se cobra entrada. Las entradas adicionales estarán a la venta el día del evento en el mismo lugar. Total recaudado: $${totalRecaudado.toFixed(2)}.`,
-          [
-            {
-              filename: `${codigo}.png`,
-              content: qrAsset.buffer,
-              contentType: "image/png",
-            },
-          ],
-          html
-        );
+        await encolarCorreo({
+          origen: "venta",
+          destinatario: emailLimpio,
+          ...(await contenidoPlantilla("boleto_adicional", {
+            cantidad,
+            personas: personasTexto(cantidad),
+            precioUnitario: precioUnitario.toFixed(2),
+            total: totalRecaudado.toFixed(2),
+            codigo,
+          })),
+          adjuntos: [{ tipo: "qr", codigo, texto: "Eventos ISTE", filename: `${codigo}.png` }],
+          creadoPor: userEmail || null,
+          codigoId: codigoRecord.id_codigo,
+        });
 
         return NextResponse.json({ success: true, cantidad, total: totalRecaudado });
       }
 
+      const qrAsset = await generarQRpng(codigo, "Eventos ISTE", `${codigo}.png`);
       const pdfBuffer = await buildTicketPdf({
         codigo,
-        qrBuffer,
+        qrBuffer: qrAsset.buffer,
         cantidad,
         precioUnitario,
         total: totalRecaudado,
@@ -818,10 +775,11 @@ export async function POST(req: NextRequest) {
 
       const whereClause =
         role === "admin"
-          ? { abierto: false }
+          ? { abierto: false, eventoId: evento.id }
           : {
               abierto: false,
               abiertoPor: userEmail,
+              eventoId: evento.id,
             };
 
       const closures = await prisma.cajaTurno.findMany({
@@ -843,7 +801,7 @@ export async function POST(req: NextRequest) {
       }
 
       const abiertas = await prisma.cajaTurno.findMany({
-        where: { abierto: true },
+        where: { abierto: true, eventoId: evento.id },
         orderBy: { abiertoAt: "desc" },
         include: {
           ventas: {
@@ -892,7 +850,7 @@ export async function POST(req: NextRequest) {
         totalRecaudado,
         cerradoPor: userEmail,
       });
-      await sendClosingReport({ buffer: reportPdf, totalBoletos, totalRecaudado });
+      await sendClosingReport({ buffer: reportPdf, totalBoletos, totalRecaudado, cerradoPor: userEmail || null });
 
       const cerrada = await prisma.cajaTurno.update({
         where: { id: caja.id },
@@ -2,93 +2,46 @@ import { NextRequest, NextResponse } from "next/server";
 import { getServerSession } from "next-auth";
 import prisma from "@/lib/prisma";
 import { authOptions } from "@/lib/auth";
-import { generarQRpng } from "@/lib/generarQR";
-import { sendMail } from "@/utils/mailer";
+import { validarIdentificacion } from "@/lib/identificacion";
+import { contenidoPlantilla, encolarCorreo } from "@/lib/bandejaCorreos";
+import { variablesInvitacion } from "@/lib/plantillasCorreo";
 
 const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/i;
 
-function normalizeCedula(value: string | null) {
-  if (!value) {
-    return null;
-  }
-  const digits = value.replace(/\D+/g, "").trim();
-  return digits.length ? digits : null;
-}
+const MAX_MOVIMIENTOS_POR_CODIGO = 20;
 
-function invitadosTexto(totalPermitidos: number) {
-  const invitadosAdicionales = Math.max(totalPermitidos - 1, 0);
-  if (invitadosAdicionales === 0) return "sin invitados adicionales";
-  if (invitadosAdicionales === 1) return "con 1 invitado adicional";
-  return `con ${invitadosAdicionales} invitados adicionales`;
-}
+/**
+ * Últimos movimientos de cada código, incluidos los anulados, para revisar y deshacer escaneos.
+ */
+async function cargarMovimientos(codigoIds: number[]) {
+  const movimientos = await prisma.ingreso.findMany({
+    where: { codigoqrId: { in: codigoIds } },
+    orderBy: { fecha: "desc" },
+    include: { puntoControl: { select: { nombre: true } } },
+  });
 
-function buildPlainText(nombre: string, totalPermitidos: number) {
-  return `Hola ${nombre}, adjuntamos tu código QR único. Cuida este código y compártelo solo con tus invitados. Desde los 10 años se requiere boleto. Para entradas adicionales comunícate al 099 556 9101 o 099 979 1099. Este QR permite el ingreso para ${totalPermitidos} persona(s) (${invitadosTexto(totalPermitidos)}). Presenta el QR en el acceso.`;
-}
+  const porCodigo = new Map<number, typeof movimientos>();
+  for (const movimiento of movimientos) {
+    const lista = porCodigo.get(movimiento.codigoqrId) ?? [];
+    if (lista.length < MAX_MOVIMIENTOS_POR_CODIGO) {
+      lista.push(movimiento);
+      porCodigo.set(movimiento.codigoqrId, lista);
+    }
+  }
 
-function buildHtmlMail(nombre: string, apellido: string | null, totalPermitidos: number) {
-  return `
-    <table width="100%" cellpadding="0" cellspacing="0" style="max-width:640px;margin:0 auto;background:#f4f6fb;font-family:'Segoe UI',Arial,sans-serif;color:#0b1d33;border-radius:18px;overflow:hidden;">
-      <tr>
-        <td style="padding:0;">
-          <div style="background-color:#003976; padding:20px; text-align:center;">
-            <img src="https://yosoyistealmacenamiento.blob.core.windows.net/directorio-telefonico/iste.png" alt="ISTE" style="max-width:240px;"/>
-          </div>
-        </td>
-      </tr>
-      <tr>
-        <td style="padding:28px 32px 24px;">
-          <p style="margin:0 0 12px;font-size:18px;font-weight:600;">Hola <strong>${nombre}${apellido ? ` ${apellido}` : ""}</strong>,</p>
-          <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
-            Adjuntamos tu <strong>código QR único</strong> para la ceremonia de graduación. Este QR permite el ingreso para <strong>${totalPermitidos} persona${totalPermitidos === 1 ? "" : "s"}</strong> (${invitadosTexto(totalPermitidos)}).
-          </p>
-          <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
-            ¡Felicitaciones por este gran logro! Te esperamos para celebrarlo.
-          </p>
-          <ul style="margin:0 0 12px 18px;padding:0;font-size:15px;line-height:1.6;">
-            <li style="margin-bottom:8px;">
-              Cuida este código y compártelo únicamente con tus invitados.
-            </li>
-            <li>
-              Desde los <strong>10 años</strong> se requiere boleto individual.
-            </li>
-          </ul>
-          <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
-            ¿Necesitas entradas adicionales? Contáctanos por WhatsApp o llamada al
-            <a href="tel:+593995569101" style="color:#003976;text-decoration:none;font-weight:600;">099 556 9101</a>
-            o
-            <a href="tel:+593999791099" style="color:#003976;text-decoration:none;font-weight:600;">099 979 1099</a>.
-          </p>
-        </td>
-      </tr>
-      <tr>
-        <td style="padding:0 32px 28px;">
-          <div style="margin-top:12px;border-radius:16px;background:#ffffff;border:1px solid #d6e3f5;padding:20px;font-size:14px;color:#0b1d33;">
-            <p style="margin:0;font-weight:600;">Consejo rápido</p>
-            <p style="margin:8px 0 0;line-height:1.6;">Presenta el código en la entrada y asegúrate de que la pantalla tenga buen brillo para agilizar el acceso.</p>
-          </div>
-        </td>
-      </tr>
-      <tr>
-        <td style="padding:0 32px 28px;">
-          <table width="100%" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:16px;border:1px solid #d6e3f5;">
-            <tr>
-              <td style="padding:20px;text-align:justify;font-size:13px;color:#0b1d33;line-height:1.6;border-bottom:1px solid #2167b1;">
-                “En cumplimiento con lo establecido en la Ley Orgánica de Protección de Datos Personales y el Reglamento,
-                el ISTE garantiza la confidencialidad y privacidad de los datos personales que trata. Este correo es
-                confidencial. Si no eres el destinatario, está prohibido usarlo, copiarlo o difundirlo; devuélvelo y elimínalo.”
-              </td>
-            </tr>
-            <tr>
-              <td style="padding:12px 20px 16px;text-align:center;font-size:12px;color:#7f8c8d;">
-                © 2025 Unidad de TEI - ISTE. Todos los derechos reservados.
-              </td>
-            </tr>
-          </table>
-        </td>
-      </tr>
-    </table>
-  `;
+  return (codigoId: number) =>
+    (porCodigo.get(codigoId) ?? []).map((movimiento) => ({
+      id: movimiento.id_ingreso,
+      fecha: movimiento.fecha,
+      tipo: movimiento.tipo,
+      manual: movimiento.manual,
+      puntoControl: movimiento.puntoControl?.nombre ?? null,
+      usuario: movimiento.usuario,
+      anulado: movimiento.anulado,
+      motivoAnulacion: movimiento.motivo_anulacion,
+      anuladoPor: movimiento.anuladoPor,
+      anuladoAt: movimiento.anuladoAt,
+    }));
 }
 
 export async function GET(req: NextRequest) {
@@ -99,13 +52,14 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: "No autorizado" }, { status: 403 });
   }
 
-  const cedulaParam = req.nextUrl.searchParams.get("cedula");
-  const cedula = normalizeCedula(cedulaParam);
+  const identificacion = validarIdentificacion(req.nextUrl.searchParams.get("cedula"));
 
-  if (!cedula) {
-    return NextResponse.json({ error: "Debes ingresar una cédula válida" }, { status: 400 });
+  if (!identificacion.ok) {
+    return NextResponse.json({ error: `Identificación inválida: ${identificacion.error}` }, { status: 400 });
   }
 
+  const cedula = identificacion.valor;
+
   const persona = await prisma.persona.findUnique({
     where: { cedula },
     include: {
@@ -113,11 +67,12 @@ export async function GET(req: NextRequest) {
         orderBy: { id_codigo: "desc" },
         include: {
           ingresos: {
+            where: { tipo: "entrada", anulado: false },
             orderBy: { fecha: "desc" },
             take: 1,
           },
           _count: {
-            select: { ingresos: true },
+            select: { ingresos: { where: { tipo: "entrada", anulado: false } } },
           },
         },
       },
@@ -128,6 +83,8 @@ export async function GET(req: NextRequest) {
     return NextResponse.json({ error: "Persona no encontrada" }, { status: 404 });
   }
 
+  const movimientosDe = await cargarMovimientos(persona.codigoqr.map((codigo) => codigo.id_codigo));
+
   const codigos = persona.codigoqr.map((codigo) => {
     const ultimaLectura = codigo.ingresos[0]?.fecha ?? null;
     return {
@@ -139,6 +96,7 @@ export async function GET(req: NextRequest) {
       disponibles: Math.max(codigo.max_usos - codigo.usos_actual, 0),
       totalIngresos: codigo._count?.ingresos ?? 0,
       ultimaLectura,
+      movimientos: movimientosDe(codigo.id_codigo),
     };
   });
 
@@ -203,25 +161,19 @@ export async function POST(req: NextRequest) {
   const nombreCompleto = `${nombre}${apellido ? ` ${apellido}` : ""}`.trim() || "Invitado";
   const totalPermitidos = Number.isFinite(codigo.max_usos) ? codigo.max_usos : 1;
 
-  const qrAsset = await generarQRpng(codigo.codigo, nombreCompleto, `${codigo.codigo}.png`);
-  const textoPlano = buildPlainText(nombreCompleto, totalPermitidos);
-  const htmlContenido = buildHtmlMail(nombre, apellido, totalPermitidos);
-
-  await sendMail(
-    correoObjetivo,
-    "🎓 Tu código QR para la graduación",
-    textoPlano,
-    [
-      {
-        filename: qrAsset.fileName,
-        content: qrAsset.buffer,
-        contentType: "image/png",
-      },
-    ],
-    htmlContenido
-  );
+  const correo = await encolarCorreo({
+    origen: "reenvio_qr",
+    destinatario: correoObjetivo,
+    ...(await contenidoPlantilla(
+      "reenvio_qr",
+      variablesInvitacion({ nombre, apellido }, totalPermitidos, codigo.codigo)
+    )),
+    adjuntos: [{ tipo: "qr", codigo: codigo.codigo, texto: nombreCompleto, filename: `${codigo.codigo}.png` }],
+    creadoPor: session.user?.email ?? null,
+    codigoId: codigo.id_codigo,
+  });
 
-  return NextResponse.json({ success: true });
+  return NextResponse.json({ success: true, correoId: correo.id });
 }
 
 export async function PATCH(req: NextRequest) {
@@ -266,11 +218,12 @@ export async function PATCH(req: NextRequest) {
     data: { max_usos: nuevoMaxUsos },
     include: {
       ingresos: {
+        where: { tipo: "entrada", anulado: false },
         orderBy: { fecha: "desc" },
         take: 1,
       },
       _count: {
-        select: { ingresos: true },
+        select: { ingresos: { where: { tipo: "entrada", anulado: false } } },
       },
     },
   });
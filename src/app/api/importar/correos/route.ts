@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import {
+  MENSAJES_RECHAZO_REENVIO,
+  correosNoEntregados,
+  reenviarCorreosImportacion,
+} from "@/lib/reenvioImportacion";
+
+const MAX_DESTINATARIOS = 1000;
+
+/**
+ * Invitaciones que no llegaron a los estudiantes de una importación y los reenvíos hechos.
+ */
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const importacionId = Number(req.nextUrl.searchParams.get("importacionId"));
+  if (!Number.isInteger(importacionId) || importacionId <= 0) {
+    return NextResponse.json({ error: "Identificador de importación inválido" }, { status: 400 });
+  }
+
+  const datos = await correosNoEntregados(importacionId);
+  if (!datos) {
+    return NextResponse.json({ error: "Importación no encontrada" }, { status: 404 });
+  }
+  return NextResponse.json(datos);
+}
+
+/**
+ * Reenvía en lote la invitación a las filas indicadas, con el correo corregido y el mismo código QR.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user?.role !== "admin") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const importacionId = Number(body?.importacionId);
+    if (!Number.isInteger(importacionId) || importacionId <= 0) {
+      return NextResponse.json({ error: "Identificador de importación inválido" }, { status: 400 });
+    }
+
+    const destinatarios: Array<{ hoja: string; fila: number; email: string }> = Array.isArray(body?.destinatarios)
+      ? body.destinatarios
+          .filter(
+            (item: unknown): item is { hoja: string; fila: number; email: string } =>
+              typeof item === "object" &&
+              item !== null &&
+              typeof (item as { hoja?: unknown }).hoja === "string" &&
+              Number.isInteger((item as { fila?: unknown }).fila) &&
+              typeof (item as { email?: unknown }).email === "string"
+          )
+          .map((item: { hoja: string; fila: number; email: string }) => ({
+            hoja: item.hoja,
+            fila: item.fila,
+            email: item.email,
+          }))
+      : [];
+
+    if (destinatarios.length === 0) {
+      return NextResponse.json({ error: "Selecciona al menos un destinatario" }, { status: 400 });
+    }
+    if (destinatarios.length > MAX_DESTINATARIOS) {
+      return NextResponse.json(
+        { error: `Se pueden reenviar como máximo ${MAX_DESTINATARIOS} correos por lote` },
+        { status: 400 }
+      );
+    }
+
+    const resultado = await reenviarCorreosImportacion(importacionId, destinatarios, session.user?.email ?? null);
+    if (!resultado.ok) {
+      return NextResponse.json(
+        { error: MENSAJES_RECHAZO_REENVIO[resultado.motivo], motivo: resultado.motivo },
+        { status: resultado.motivo === "no_encontrada" ? 404 : 409 }
+      );
+    }
+
+    const encolados = resultado.resultados.filter((item) => item.resultado === "encolado").length;
+    return NextResponse.json({
+      success: true,
+      message: `${encolados} de ${resultado.resultados.length} correo(s) en cola de envío`,
+      reenvioId: resultado.reenvioId,
+      resultados: resultado.resultados,
+    });
+  } catch (error) {
+    console.error("Error reenviando correos de importación:", error);
+    return NextResponse.json({ error: "Error interno" }, { status: 500 });
+  }
+}
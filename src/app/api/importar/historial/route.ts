@@ -0,0 +1,134 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { libroErroresImportacion, motivosErrores } from "@/lib/erroresImportacion";
+import { importacionesMismoArchivo, leerArchivoImportacion } from "@/lib/archivosImportacion";
+import type { ErrorFilaImportacion } from "@/lib/trabajosImportacion";
+
+const POR_PAGINA = 20;
+
+/**
+ * Historial de importaciones: sin `id` lista las importaciones (opcionalmente de un evento) con sus totales;
+ * con `id` devuelve los errores por fila y, con `formato=xlsx`, los descarga como Excel filtrados por `motivo`.
+ * `formato=original` descarga la planilla tal como se subió.
+ */
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const params = req.nextUrl.searchParams;
+
+  const idParam = params.get("id");
+  if (idParam) {
+    const id = Number(idParam);
+    if (!Number.isInteger(id) || id <= 0) {
+      return NextResponse.json({ error: "Identificador de importación inválido" }, { status: 400 });
+    }
+    const importacion = await prisma.importacion.findUnique({
+      where: { id },
+      include: { evento: { select: { id: true, nombre: true } }, perfil: { select: { nombre: true } } },
+    });
+    if (!importacion) {
+      return NextResponse.json({ error: "Importación no encontrada" }, { status: 404 });
+    }
+
+    if (params.get("formato") === "original") {
+      const contenido = await leerArchivoImportacion(importacion.archivo);
+      if (!contenido) {
+        return NextResponse.json({ error: "El archivo original no está disponible" }, { status: 404 });
+      }
+      const nombre = importacion.nombreOriginal ?? importacion.archivo;
+      return new NextResponse(new Uint8Array(contenido), {
+        headers: {
+          "Content-Type": "application/octet-stream",
+          "Content-Disposition": `attachment; filename="${importacion.archivo}"; filename*=UTF-8''${encodeURIComponent(nombre)}`,
+        },
+      });
+    }
+
+    const errores = (importacion.errores ?? []) as ErrorFilaImportacion[];
+    const motivo = params.get("motivo");
+    const filtrados = motivo ? errores.filter((error) => error.motivo === motivo) : errores;
+
+    if (params.get("formato") === "xlsx") {
+      if (filtrados.length === 0) {
+        return NextResponse.json({ error: "No hay errores para descargar" }, { status: 404 });
+      }
+      return new NextResponse(new Uint8Array(libroErroresImportacion(filtrados)), {
+        headers: {
+          "Content-Type": "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+          "Content-Disposition": `attachment; filename="importacion-${id}-errores.xlsx"`,
+        },
+      });
+    }
+
+    return NextResponse.json({
+      importacion: {
+        id: importacion.id,
+        archivo: importacion.archivo,
+        nombreOriginal: importacion.nombreOriginal,
+        checksum: importacion.checksum,
+        tamano: importacion.tamano,
+        usuario: importacion.usuario,
+        fecha: importacion.fecha,
+        estado: importacion.estado,
+        evento: importacion.evento,
+        perfil: importacion.perfil?.nombre ?? null,
+        total: importacion.total_registros,
+        exitosos: importacion.exitosos,
+        fallidos: importacion.fallidos,
+        iniciadaEn: importacion.iniciadaEn,
+        finalizadaEn: importacion.finalizadaEn,
+        revertidaEn: importacion.revertidaEn,
+        revertidaPor: importacion.revertidaPor,
+      },
+      motivos: motivosErrores(errores),
+      errores: filtrados,
+      mismoArchivo: importacion.checksum ? await importacionesMismoArchivo(importacion.checksum, importacion.id) : [],
+    });
+  }
+
+  const eventoId = Number(params.get("eventoId"));
+  const pagina = Math.max(1, Number(params.get("pagina")) || 1);
+  const where: Prisma.ImportacionWhereInput =
+    Number.isInteger(eventoId) && eventoId > 0 ? { eventoId } : {};
+
+  const [importaciones, total] = await Promise.all([
+    prisma.importacion.findMany({
+      where,
+      orderBy: { id: "desc" },
+      skip: (pagina - 1) * POR_PAGINA,
+      take: POR_PAGINA,
+      select: {
+        id: true,
+        archivo: true,
+        nombreOriginal: true,
+        usuario: true,
+        fecha: true,
+        estado: true,
+        total_registros: true,
+        exitosos: true,
+        fallidos: true,
+        errores: true,
+        revertidaEn: true,
+        evento: { select: { id: true, nombre: true } },
+      },
+    }),
+    prisma.importacion.count({ where }),
+  ]);
+
+  return NextResponse.json({
+    importaciones: importaciones.map(({ errores, total_registros, ...importacion }) => ({
+      ...importacion,
+      total: total_registros,
+      errores: Array.isArray(errores) ? errores.length : 0,
+    })),
+    total,
+    pagina,
+    porPagina: POR_PAGINA,
+  });
+}
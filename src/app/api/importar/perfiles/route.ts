@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { esMapeoColumnas, validarMapeo } from "@/lib/mapeoImportacion";
+import { esReglasCupos, validarReglasCupos } from "@/lib/cuposImportacion";
+
+const MAX_NOMBRE = 191;
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const perfiles = await prisma.perfilImportacion.findMany({ orderBy: { nombre: "asc" } });
+
+  return NextResponse.json({ perfiles });
+}
+
+/**
+ * Guarda el mapeo de columnas y las reglas de invitados con un nombre; si el nombre ya existe se reemplazan.
+ */
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const nombre = typeof body?.nombre === "string" ? body.nombre.trim() : "";
+  const mapeo: unknown = body?.mapeo;
+  const reglasCupos: unknown = body?.reglasCupos ?? null;
+
+  if (!nombre) {
+    return NextResponse.json({ error: "El nombre del perfil es obligatorio" }, { status: 400 });
+  }
+  if (nombre.length > MAX_NOMBRE) {
+    return NextResponse.json({ error: `El nombre no puede superar ${MAX_NOMBRE} caracteres` }, { status: 400 });
+  }
+  if (!esMapeoColumnas(mapeo)) {
+    return NextResponse.json({ error: "El mapeo de columnas no es válido" }, { status: 400 });
+  }
+  const errorMapeo = validarMapeo(mapeo);
+  if (errorMapeo) {
+    return NextResponse.json({ error: errorMapeo }, { status: 400 });
+  }
+  if (reglasCupos !== null) {
+    if (!esReglasCupos(reglasCupos)) {
+      return NextResponse.json({ error: "Las reglas de invitados no son válidas" }, { status: 400 });
+    }
+    const errorReglas = validarReglasCupos(reglasCupos);
+    if (errorReglas) {
+      return NextResponse.json({ error: errorReglas }, { status: 400 });
+    }
+  }
+  const reglas = reglasCupos === null ? Prisma.DbNull : (reglasCupos as Prisma.InputJsonObject);
+
+  const perfil = await prisma.perfilImportacion.upsert({
+    where: { nombre },
+    create: {
+      nombre,
+      mapeo: mapeo as Prisma.InputJsonObject,
+      reglasCupos: reglas,
+      creadoPor: session.user?.email ?? null,
+    },
+    update: { mapeo: mapeo as Prisma.InputJsonObject, reglasCupos: reglas },
+  });
+
+  return NextResponse.json({ perfil });
+}
+
+export async function DELETE(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const id = Number(new URL(req.url).searchParams.get("id"));
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: "Identificador de perfil inválido" }, { status: 400 });
+  }
+
+  const existente = await prisma.perfilImportacion.findUnique({ where: { id } });
+  if (!existente) {
+    return NextResponse.json({ error: "Perfil no encontrado" }, { status: 404 });
+  }
+
+  // Las importaciones hechas con el perfil conservan su copia del mapeo
+  await prisma.perfilImportacion.delete({ where: { id } });
+
+  return NextResponse.json({ ok: true });
+}
@@ -0,0 +1,47 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { authOptions } from "@/lib/auth";
+import { MENSAJES_RECHAZO_REVERSION, revertirImportacion } from "@/lib/reversionImportacion";
+
+/**
+ * Deshace una importación equivocada sin recurrir a la limpieza completa.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    if (!session || session.user?.role !== "admin") {
+      return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const importacionId = Number(body?.importacionId);
+    if (!Number.isInteger(importacionId) || importacionId <= 0) {
+      return NextResponse.json({ error: "Identificador de importación inválido" }, { status: 400 });
+    }
+
+    const resultado = await revertirImportacion(importacionId, session.user?.email ?? null);
+
+    if (!resultado.ok) {
+      return NextResponse.json(
+        {
+          error: MENSAJES_RECHAZO_REVERSION[resultado.motivo],
+          motivo: resultado.motivo,
+          codigos: resultado.codigos ?? [],
+        },
+        { status: resultado.motivo === "no_encontrada" ? 404 : 409 }
+      );
+    }
+
+    const { codigosEliminados, personasEliminadas, personasRestauradas } = resultado.resumen;
+    return NextResponse.json({
+      success: true,
+      message:
+        `Importación revertida: ${codigosEliminados} código(s) eliminados, ${personasEliminadas} persona(s) ` +
+        `eliminadas y ${personasRestauradas} restaurada(s)`,
+      resumen: resultado.resumen,
+    });
+  } catch (error) {
+    console.error("Error revirtiendo importación:", error);
+    return NextResponse.json({ error: "Error interno" }, { status: 500 });
+  }
+}
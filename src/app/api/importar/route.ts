@@ -1,503 +1,264 @@
 import { NextRequest } from "next/server";
+import { getServerSession } from "next-auth";
 import prisma from "@/lib/prisma";
-import * as XLSX from "xlsx";
-import { generarQRpng } from "@/lib/generarQR";
-import { sendMail } from "@/utils/mailer";
+import { authOptions } from "@/lib/auth";
 import { v4 as uuidv4 } from "uuid";
-import { Prisma } from "@prisma/client";
-
-type ImportRow = Record<string, unknown>;
-type ImportError = { fila: number; motivo: string; detalle: string };
-type FailedEmail = {
-  fila: number;
-  email: string | null;
-  reason: string;
-  cedula?: string | null;
-  nombre?: string | null;
-  apellido?: string | null;
-};
-
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/i;
-const EMAIL_BATCH_SIZE = 150;
-const EMAIL_BATCH_DELAY_MS = 20_000;
-const EMAIL_FIELD_KEYS = [
-  "Correo",
-  "correo",
-  "Correo Institucional",
-  "correo institucional",
-  "Correo institucional",
-  "Email",
-  "email",
-  "Correo electronico",
-  "Correo electrónico",
-  "correoElectronico",
-];
-
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
-
-const extractFirstValue = (row: ImportRow, keys: string[]): unknown => {
-  for (const key of keys) {
-    if (Object.prototype.hasOwnProperty.call(row, key)) {
-      const value = row[key];
-      if (value !== undefined && value !== null && String(value).trim() !== "") {
-        return value;
-      }
+import { resolverEvento, resolverEventoActivo } from "@/lib/eventos";
+import {
+  EXTENSIONES_PLANILLA,
+  encabezadosHojas,
+  esPlanillaAdmitida,
+  extensionArchivo,
+  filasHojas,
+  leerPlanilla,
+} from "@/lib/lecturaPlanilla";
+import { previsualizarImportacion } from "@/lib/importacion";
+import { esMapeoColumnas, validarMapeo, type MapeoColumnas } from "@/lib/mapeoImportacion";
+import { esReglasCupos, validarReglasCupos, type ReglasCupos } from "@/lib/cuposImportacion";
+import { crearTrabajoImportacion } from "@/lib/trabajosImportacion";
+import { checksumArchivo, guardarArchivoImportacion, importacionesMismoArchivo } from "@/lib/archivosImportacion";
+
+const MAX_IMPORTACIONES_RECIENTES = 10;
+
+/**
+ * Importaciones recientes del evento, con los datos necesarios para decidir si se pueden revertir.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const evento = await resolverEvento(new URL(req.url).searchParams.get("eventoId"));
+    if (!evento) {
+      return new Response(JSON.stringify({ importaciones: [] }), {
+        status: 200,
+        headers: { "Content-Type": "application/json; charset=utf-8" },
+      });
     }
-  }
-  return null;
-};
 
-const normalizeCedula = (value: unknown): string | null => {
-  if (value === null || value === undefined) return null;
-  if (typeof value === "number") {
-    return String(Math.trunc(value));
-  }
-  const cleaned = String(value).trim();
-  const digitsOnly = cleaned.replace(/\D+/g, "");
-  return digitsOnly || null;
-};
-
-const normalizeEmail = (value: unknown): string | null => {
-  if (value === null || value === undefined) return null;
-  const email = String(value).trim();
-  return email.length ? email : null;
-};
+    const importaciones = await prisma.importacion.findMany({
+      where: { eventoId: evento.id },
+      orderBy: { fecha: "desc" },
+      take: MAX_IMPORTACIONES_RECIENTES,
+      include: {
+        _count: {
+          select: {
+            codigos: true,
+            correos: { where: { estado: { in: ["fallido", "cancelado"] }, reenvioItem: { is: null } } },
+          },
+        },
+        codigos: { where: { ingresos: { some: {} } }, select: { id_codigo: true }, take: 1 },
+      },
+    });
 
-const resolveTipoPersona = (tipo: unknown): "estudiante" | "familiar" | "visitante" => {
-  const normalized = (typeof tipo === "string" ? tipo : String(tipo ?? "")).toLowerCase();
-  if (normalized === "fam" || normalized === "familiar") return "familiar";
-  if (normalized === "vis" || normalized === "visitante") return "visitante";
-  return "estudiante";
-};
+    return new Response(
+      JSON.stringify({
+        importaciones: importaciones.map((importacion) => ({
+          id: importacion.id,
+          archivo: importacion.archivo,
+          usuario: importacion.usuario,
+          fecha: importacion.fecha,
+          total: importacion.total_registros,
+          exitosos: importacion.exitosos,
+          fallidos: importacion.fallidos,
+          codigos: importacion._count.codigos,
+          conIngresos: importacion.codigos.length > 0,
+          correosNoEnviados:
+            (Array.isArray(importacion.correosFallidos) ? importacion.correosFallidos.length : 0) +
+            importacion._count.correos,
+          estado: importacion.estado,
+          revertidaEn: importacion.revertidaEn,
+          revertidaPor: importacion.revertidaPor,
+        })),
+      }),
+      { status: 200, headers: { "Content-Type": "application/json; charset=utf-8" } }
+    );
+  } catch (error) {
+    console.error("Error listando importaciones:", error);
+    return new Response(JSON.stringify({ error: "Error interno" }), { status: 500 });
+  }
+}
 
 export async function POST(req: NextRequest) {
   try {
     const form = await req.formData();
     const file = form.get("file") as File | null;
     const maxUsosFamiliares = Math.max(0, parseInt((form.get("max_usos_familiares") as string) ?? "0", 10) || 0);
-    const usuario = (form.get("usuario") as string) || null;
+    // El historial muestra quién importó; se toma de la sesión para que no se pueda atribuir a otra persona
+    const session = await getServerSession(authOptions);
+    const usuario = session?.user?.email ?? null;
+    // Sin el campo se conserva el comportamiento anterior: cada importación genera códigos nuevos
+    const reutilizarCodigos = form.get("reutilizar_codigos") === "true";
 
     if (!file) {
       return new Response(JSON.stringify({ error: "Archivo no enviado" }), { status: 400 });
     }
 
-    const buffer = Buffer.from(await file.arrayBuffer());
-    const workbook = XLSX.read(buffer, { type: "buffer" });
-    const sheetName = workbook.SheetNames[0];
-    if (!sheetName) {
-      return new Response(JSON.stringify({ error: "El archivo no contiene una hoja válida" }), { status: 400 });
+    const eventoActivo = await resolverEventoActivo(
+      form.get("eventoId"),
+      "Selecciona un evento activo antes de importar"
+    );
+    if (!eventoActivo.ok) {
+      return new Response(JSON.stringify({ error: eventoActivo.error }), { status: 400 });
+    }
+    const { evento } = eventoActivo;
+
+    // El mapeo enviado tiene prioridad; el perfil queda registrado aunque el usuario haya ajustado columnas
+    const perfilIdRaw = Number(form.get("perfilId"));
+    const perfil =
+      Number.isInteger(perfilIdRaw) && perfilIdRaw > 0
+        ? await prisma.perfilImportacion.findUnique({ where: { id: perfilIdRaw } })
+        : null;
+    if (form.get("perfilId") && !perfil) {
+      return new Response(JSON.stringify({ error: "El perfil de importación no existe" }), { status: 400 });
     }
 
-    const sheet = workbook.Sheets[sheetName];
-    const rows = XLSX.utils.sheet_to_json<ImportRow>(sheet ?? {});
-    const fileName = `import_${Date.now()}_${uuidv4().slice(0, 8)}.xlsx`;
-
-    const importLog = await prisma.importacion.create({
-      data: { archivo: fileName, usuario },
-    });
-
-    let exitosos = 0;
-    let fallidos = 0;
-    const errores: ImportError[] = [];
-    const failedEmails: FailedEmail[] = [];
-
-    const totalRows = rows.length;
-
-    const studentRows = rows.reduce((acc, row) => {
-      const tipoRaw = extractFirstValue(row, ["Tipo", "tipo"]);
-      return resolveTipoPersona(tipoRaw ?? "est") === "estudiante" ? acc + 1 : acc;
-    }, 0);
-
-    const studentsToEmail = rows.reduce((acc, row) => {
-      const tipoRaw = extractFirstValue(row, ["Tipo", "tipo"]);
-      const correoRaw = extractFirstValue(row, EMAIL_FIELD_KEYS);
-      const correo = normalizeEmail(correoRaw);
-      return resolveTipoPersona(tipoRaw ?? "est") === "estudiante" && correo && EMAIL_REGEX.test(correo)
-        ? acc + 1
-        : acc;
-    }, 0);
-
-    const encoder = new TextEncoder();
-
-    const stream = new ReadableStream({
-      async start(controller) {
-        const sendEvent = (event: Record<string, unknown>) => {
-          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
-        };
-
-        let emailAttempts = 0;
-        let emailsSent = 0;
-
-        sendEvent({
-          type: "start",
-          totalRows,
-          studentRows,
-          studentsToEmail,
-        });
-
-        try {
-          for (const [index, row] of rows.entries()) {
-            let cedulaStr: string | null = null;
-            let rowHadFailure = false;
-
-            try {
-              const nombre = String(extractFirstValue(row, ["Nombre", "nombre"]) ?? "").trim();
-              const apellido = String(extractFirstValue(row, ["Apellido", "apellido"]) ?? "").trim();
-              const cedulaRaw = extractFirstValue(row, ["Cédula", "Cedula", "cedula"]);
-              const correoRaw = extractFirstValue(row, EMAIL_FIELD_KEYS);
-              const tipoRaw = extractFirstValue(row, ["Tipo", "tipo"]) ?? "est";
-
-              cedulaStr = normalizeCedula(cedulaRaw);
-              const correoStr = normalizeEmail(correoRaw);
-              const tipo_persona = resolveTipoPersona(tipoRaw);
-
-              if (correoStr && !EMAIL_REGEX.test(correoStr)) {
-                fallidos++;
-                failedEmails.push({
-                  fila: index + 2,
-                  email: correoStr,
-                  reason: "Correo con formato inválido",
-                  cedula: cedulaStr,
-                  nombre,
-                  apellido,
-                });
-                sendEvent({
-                  type: "email-failed",
-                  data: {
-                    fila: index + 2,
-                    email: correoStr,
-                    reason: "Correo con formato inválido",
-                    cedula: cedulaStr,
-                    nombre,
-                    apellido,
-                  },
-                });
-                errores.push({
-                  fila: index + 2,
-                  motivo: "Correo inválido",
-                  detalle: `El correo "${correoStr}" no tiene un formato válido`,
-                });
-                continue;
-              }
-
-              let persona = cedulaStr
-                ? await prisma.persona.findUnique({ where: { cedula: cedulaStr } })
-                : null;
-
-              if (!persona) {
-                persona = await prisma.persona.create({
-                  data: {
-                    nombre,
-                    apellido,
-                    cedula: cedulaStr,
-                    correo: correoStr,
-                    tipo_persona,
-                  },
-                });
-              } else {
-                const updates: Prisma.PersonaUpdateInput = {};
-                if (nombre && nombre !== persona.nombre) updates.nombre = nombre;
-                if (apellido && apellido !== persona.apellido) updates.apellido = apellido;
-                if (correoStr && correoStr !== persona.correo) updates.correo = correoStr;
-                if (tipo_persona !== persona.tipo_persona) updates.tipo_persona = tipo_persona;
-
-                if (Object.keys(updates).length > 0) {
-                  persona = await prisma.persona.update({
-                    where: { id_persona: persona.id_persona },
-                    data: updates,
-                  });
-                }
-              }
-
-              if (tipo_persona === "estudiante") {
-                const invitadosAdicionales = Math.max(0, maxUsosFamiliares);
-                const totalPermitidos = 1 + invitadosAdicionales;
+    let mapeo: MapeoColumnas | null = null;
+    const mapeoRaw = form.get("mapeo");
+    if (typeof mapeoRaw === "string" && mapeoRaw.trim()) {
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(mapeoRaw);
+      } catch {
+        parsed = null;
+      }
+      if (!esMapeoColumnas(parsed)) {
+        return new Response(JSON.stringify({ error: "El mapeo de columnas no es válido" }), { status: 400 });
+      }
+      mapeo = parsed;
+    } else if (perfil && esMapeoColumnas(perfil.mapeo)) {
+      mapeo = perfil.mapeo;
+    }
 
-                const codigoGeneral = `EST-${persona.id_persona}-${Date.now().toString().slice(-6)}`;
-                await prisma.codigoQR.create({
-                  data: {
-                    codigo: codigoGeneral,
-                    tipo_qr: "est",
-                    max_usos: totalPermitidos,
-                    usos_actual: 0,
-                    persona: { connect: { id_persona: persona.id_persona } },
-                  },
-                });
+    const errorMapeo = mapeo ? validarMapeo(mapeo) : null;
+    if (errorMapeo) {
+      return new Response(JSON.stringify({ error: errorMapeo }), { status: 400 });
+    }
 
-                const pngGeneralAsset = await generarQRpng(
-                  codigoGeneral,
-                  `${nombre} ${apellido}`.trim() || "ESTUDIANTE",
-                  `${codigoGeneral}.png`
-                );
+    // Igual que el mapeo: las reglas enviadas (o `null` para no usar reglas) reemplazan las del perfil
+    let reglasCupos: ReglasCupos | null = null;
+    const reglasRaw = form.get("reglas_cupos");
+    if (typeof reglasRaw === "string" && reglasRaw.trim()) {
+      let parsed: unknown = undefined;
+      try {
+        parsed = JSON.parse(reglasRaw);
+      } catch {
+        parsed = undefined;
+      }
+      if (parsed !== null) {
+        if (!esReglasCupos(parsed)) {
+          return new Response(JSON.stringify({ error: "Las reglas de invitados no son válidas" }), { status: 400 });
+        }
+        reglasCupos = parsed;
+      }
+    } else if (perfil && esReglasCupos(perfil.reglasCupos)) {
+      reglasCupos = perfil.reglasCupos;
+    }
 
-                if (correoStr && EMAIL_REGEX.test(correoStr)) {
-                  emailAttempts++;
-                  try {
-                    const invitadosTexto =
-                      invitadosAdicionales === 0
-                        ? "sin invitados adicionales"
-                        : invitadosAdicionales === 1
-                        ? "con 1 invitado adicional"
-                        : `Estudiante y ${invitadosAdicionales} invitados adicionales`;
+    const errorReglas = reglasCupos ? validarReglasCupos(reglasCupos) : null;
+    if (errorReglas) {
+      return new Response(JSON.stringify({ error: errorReglas }), { status: 400 });
+    }
 
-                    const textoPlano = `Hola ${persona.nombre}, adjuntamos tu código QR único. Cuida este código y compártelo solo con tus invitados. Desde los 10 años se requiere boleto individual. Las entradas adicionales se venderán el día del evento en el lugar donde se desarrollará la ceremonia. Este código permite el ingreso para ${totalPermitidos} persona(s) (${invitadosTexto}). Presenta el QR en el acceso.`;
-                    const htmlContenido = `
-                      <table width="100%" cellpadding="0" cellspacing="0" style="max-width:640px;margin:0 auto;background:#f4f6fb;font-family:'Segoe UI',Arial,sans-serif;color:#0b1d33;border-radius:18px;overflow:hidden;">
-                        <tr>
-                          <td style="padding:0;">
-                            <div style="background-color:#003976; padding:20px; text-align:center;">
-                              <img src="https://yosoyistealmacenamiento.blob.core.windows.net/directorio-telefonico/iste.png" alt="ISTE" style="max-width:240px;"/>
-                            </div>
-                          </td>
-                        </tr>
-                        <tr>
-                          <td style="padding:28px 32px 24px;">
-                            <p style="margin:0 0 12px;font-size:18px;font-weight:600;">Hola <strong>${persona.nombre} ${persona.apellido ?? ""}</strong>,</p>
-                            <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
-                              Adjuntamos tu <strong>código QR único</strong> para la ceremonia de graduación. Este QR permite el ingreso para <strong>${totalPermitidos} persona${totalPermitidos === 1 ? "" : "s"}</strong> (${invitadosTexto}).
-                            </p>
-                            <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
-                              ¡Felicitaciones por este gran logro! Te esperamos para celebrarlo.
-                            </p>
-                            <p style="margin:0 0 12px;font-size:18px;font-weight:600;"><strong>Importante</strong> </p>
-                            <ul style="margin:0 0 12px 18px;padding:0;font-size:15px;line-height:1.6;">
-                              <li style="margin-bottom:8px;">
-                                Cuida este código y compártelo únicamente con tus invitados.
-                              </li>
-                              <li>
-                                A partir de los <strong>10 años</strong> cada persona debe contar con su propio boleto.
-                              </li>
-                            </ul>
-                            <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
-                              ¿Necesitas más entradas? Podrás comprarlas el día del evento en el lugar donde se llevará a cabo la ceremonia.
-                            </p>
-                          </td>
-                        </tr>
-                        <tr>
-                          <td style="padding:0 32px 28px;">
-                            <div style="margin-top:12px;border-radius:16px;background:#ffffff;border:1px solid #d6e3f5;padding:20px;font-size:14px;color:#0b1d33;">
-                              <p style="margin:0;font-weight:600;">Consejo rápido</p>
-                              <p style="margin:8px 0 0;line-height:1.6;">Presenta el código en la entrada y asegúrate de que la pantalla tenga buen brillo para agilizar el acceso.</p>
-                            </div>
-                          </td>
-                        </tr>
-                        <tr>
-                          <td style="padding:0 32px 28px;">
-                            <table width="100%" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:16px;border:1px solid #d6e3f5;">
-                              <tr>
-                                <td style="padding:20px;text-align:justify;font-size:13px;color:#0b1d33;line-height:1.6;border-bottom:1px solid #2167b1;">
-                                  “En cumplimiento con lo establecido en la Ley Orgánica de Protección de Datos Personales y el Reglamento,
-                                  el ISTE garantiza la confidencialidad y privacidad de los datos personales que trata. Este correo es
-                                  confidencial. Si no eres el destinatario, está prohibido usarlo, copiarlo o difundirlo; devuélvelo y elimínalo.”
-                                </td>
-                              </tr>
-                              <tr>
-                                <td style="padding:12px 20px 16px;text-align:center;font-size:12px;color:#7f8c8d;">
-                                  © 2025 Unidad de TEI - ISTE. Todos los derechos reservados.
-                                </td>
-                              </tr>
-                            </table>
-                          </td>
-                        </tr>
-                      </table>
-                    `;
+    if (!esPlanillaAdmitida(file.name)) {
+      return new Response(
+        JSON.stringify({ error: `Formato no admitido. Usa ${EXTENSIONES_PLANILLA.join(", ")}` }),
+        { status: 400 }
+      );
+    }
 
-                    await sendMail(
-                      correoStr,
-                      "🎟️ Tu código QR para el evento de Graduación",
-                      textoPlano,
-                      [
-                        {
-                          filename: `${codigoGeneral}.png`,
-                          content: pngGeneralAsset.buffer,
-                          contentType: "image/png",
-                        },
-                      ],
-                      htmlContenido
-                    );
-                    emailsSent++;
-                  } catch (mailErr) {
-                    rowHadFailure = true;
-                    failedEmails.push({
-                      fila: index + 2,
-                      email: correoStr,
-                      reason: mailErr instanceof Error ? mailErr.message : "Error desconocido al enviar el correo",
-                      cedula: cedulaStr,
-                      nombre,
-                      apellido,
-                    });
-                    sendEvent({
-                      type: "email-failed",
-                      data: {
-                        fila: index + 2,
-                        email: correoStr,
-                        reason: mailErr instanceof Error
-                          ? mailErr.message
-                          : "Error desconocido al enviar el correo",
-                        cedula: cedulaStr,
-                        nombre,
-                        apellido,
-                      },
-                    });
-                    errores.push({
-                      fila: index + 2,
-                      motivo: "Error enviando correo",
-                      detalle: String(mailErr),
-                    });
-                    console.error(`❌ Error enviando correo a ${correoStr} (fila ${index + 2}):`, mailErr);
-                  }
+    const datos = new Uint8Array(await file.arrayBuffer());
+    const { libro } = leerPlanilla(datos, file.name);
+    if (libro.SheetNames.length === 0) {
+      return new Response(JSON.stringify({ error: "El archivo no contiene una hoja válida" }), { status: 400 });
+    }
 
-                  sendEvent({
-                    type: "progress",
-                    processed: emailAttempts,
-                    total: studentsToEmail,
-                  });
+    // Sin selección se importa la primera hoja, como antes de admitir varias
+    let hojas = [libro.SheetNames[0]];
+    const hojasRaw = form.get("hojas");
+    if (typeof hojasRaw === "string" && hojasRaw.trim()) {
+      let parsed: unknown = null;
+      try {
+        parsed = JSON.parse(hojasRaw);
+      } catch {
+        parsed = null;
+      }
+      if (!Array.isArray(parsed) || parsed.length === 0 || !parsed.every((hoja) => typeof hoja === "string")) {
+        return new Response(JSON.stringify({ error: "Selecciona al menos una hoja para importar" }), { status: 400 });
+      }
+      const inexistentes = parsed.filter((hoja) => !libro.SheetNames.includes(hoja));
+      if (inexistentes.length > 0) {
+        return new Response(
+          JSON.stringify({ error: `El archivo no contiene la hoja ${inexistentes.join(", ")}` }),
+          { status: 400 }
+        );
+      }
+      hojas = Array.from(new Set(parsed as string[]));
+    }
 
-                  if (emailAttempts % EMAIL_BATCH_SIZE === 0 && emailAttempts < studentsToEmail) {
-                    sendEvent({
-                      type: "cooldown",
-                      processed: emailAttempts,
-                      remaining: Math.max(studentsToEmail - emailAttempts, 0),
-                      delayMs: EMAIL_BATCH_DELAY_MS,
-                    });
-                    await delay(EMAIL_BATCH_DELAY_MS);
-                  }
-                } else {
-                  rowHadFailure = true;
-                  failedEmails.push({
-                    fila: index + 2,
-                    email: correoStr,
-                    reason: "Sin correo disponible",
-                    cedula: cedulaStr,
-                    nombre,
-                    apellido,
-                  });
-                  sendEvent({
-                    type: "email-failed",
-                    data: {
-                      fila: index + 2,
-                      email: correoStr,
-                      reason: "Sin correo disponible",
-                      cedula: cedulaStr,
-                      nombre,
-                      apellido,
-                    },
-                  });
-                }
-              } else if (tipo_persona === "visitante") {
-                const codigoVis = `VIS-${persona.id_persona}-${Date.now().toString().slice(-6)}`;
-                await prisma.codigoQR.create({
-                  data: {
-                    codigo: codigoVis,
-                    tipo_qr: "vis",
-                    max_usos: 1,
-                    usos_actual: 0,
-                    persona: { connect: { id_persona: persona.id_persona } },
-                  },
-                });
-              } else if (tipo_persona === "familiar") {
-                const codigoFam = `FAM-${persona.id_persona}-${Date.now().toString().slice(-6)}`;
-                await prisma.codigoQR.create({
-                  data: {
-                    codigo: codigoFam,
-                    tipo_qr: "fam",
-                    max_usos: 1,
-                    usos_actual: 0,
-                    persona: { connect: { id_persona: persona.id_persona } },
-                  },
-                });
-              }
+    if (reglasCupos && !encabezadosHojas(libro, hojas).includes(reglasCupos.columna)) {
+      return new Response(
+        JSON.stringify({ error: `Las hojas seleccionadas no tienen la columna "${reglasCupos.columna}" de las reglas` }),
+        { status: 400 }
+      );
+    }
 
-              if (rowHadFailure) {
-                fallidos++;
-              } else {
-                exitosos++;
-              }
-            } catch (filaErr) {
-              fallidos++;
-              if (cedulaStr) {
-                console.error(`❌ Error procesando fila ${index + 2} (cédula ${cedulaStr}):`, filaErr);
-              } else {
-                console.error(`❌ Error procesando fila ${index + 2}:`, filaErr);
-              }
+    const rows = filasHojas(libro, hojas);
+
+    // El mismo archivo ya importado (y no revertido) se detecta por su huella, sin importar el nombre
+    const checksum = checksumArchivo(datos);
+    const archivoDuplicado = (await importacionesMismoArchivo(checksum)).find((item) => !item.revertidaEn) ?? null;
+
+    // Vista previa: mismas reglas que la importación, sin escribir ni enviar correos
+    if (form.get("modo") === "previsualizar") {
+      const previsualizacion = await previsualizarImportacion(rows, mapeo, {
+        eventoId: evento.id,
+        capacidad: evento.capacidad,
+        maxUsosFamiliares,
+        reutilizarCodigos,
+        reglasCupos,
+      });
+      return new Response(JSON.stringify({ previsualizacion, archivoDuplicado }), {
+        status: 200,
+        headers: { "Content-Type": "application/json; charset=utf-8" },
+      });
+    }
 
-              if (
-                filaErr instanceof Prisma.PrismaClientKnownRequestError &&
-                filaErr.code === "P2002" &&
-                filaErr.meta?.target &&
-                Array.isArray(filaErr.meta.target) &&
-                filaErr.meta.target.includes("cedula")
-              ) {
-                errores.push({
-                  fila: index + 2,
-                  motivo: "Cédula duplicada",
-                  detalle: cedulaStr
-                    ? `La cédula ${cedulaStr} ya existe en la base de datos`
-                    : "La cédula ya existe en la base de datos",
-                });
-              } else {
-                errores.push({ fila: index + 2, motivo: "Error procesando fila", detalle: String(filaErr) });
-              }
-            }
-          }
+    if (archivoDuplicado && form.get("permitir_duplicado") !== "true") {
+      return new Response(
+        JSON.stringify({
+          error: `Este archivo ya se importó en la importación #${archivoDuplicado.id}. Confírmalo para importarlo otra vez.`,
+          archivoDuplicado,
+        }),
+        { status: 409 }
+      );
+    }
 
-          await prisma.importacion.update({
-            where: { id: importLog.id },
-            data: {
-              total_registros: rows.length,
-              exitosos,
-              fallidos,
-              errores: errores.length ? errores : Prisma.JsonNull,
-            },
-          });
+    const fileName = `import_${Date.now()}_${uuidv4().slice(0, 8)}${extensionArchivo(file.name)}`;
 
-          sendEvent({
-            type: "done",
-            summary: {
-              total: rows.length,
-              exitosos,
-              fallidos,
-              emailsIntentados: studentsToEmail,
-              emailsProcesados: emailAttempts,
-              emailsEnviados: emailsSent,
-              emailsFallidos: failedEmails.length,
-              studentRows,
-              studentsToEmail,
-            },
-            failedEmails,
-          });
+    try {
+      await guardarArchivoImportacion(fileName, datos);
+    } catch (error) {
+      console.error("No se pudo guardar el archivo de importación:", error);
+      return new Response(JSON.stringify({ error: "No se pudo guardar el archivo de importación" }), { status: 500 });
+    }
 
-          controller.close();
-        } catch (streamErr) {
-          console.error("Error durante la importación:", streamErr);
-          try {
-            await prisma.importacion.update({
-              where: { id: importLog.id },
-              data: {
-                total_registros: rows.length,
-                exitosos,
-                fallidos,
-                errores: errores.length ? errores : Prisma.JsonNull,
-              },
-            });
-          } catch (updateErr) {
-            console.error("No se pudo actualizar el registro de importación tras el error:", updateErr);
-          }
-          sendEvent({
-            type: "error",
-            message: "Error durante la importación. Revisa el archivo e inténtalo nuevamente.",
-          });
-          controller.close();
-        }
-      },
+    // La importación corre en segundo plano; la página sigue el avance con el id devuelto
+    const importacion = await crearTrabajoImportacion({
+      archivo: fileName,
+      nombreOriginal: file.name.slice(0, 191),
+      checksum,
+      tamano: datos.byteLength,
+      usuario,
+      eventoId: evento.id,
+      perfilId: perfil?.id ?? null,
+      mapeo,
+      maxUsosFamiliares,
+      reglasCupos,
+      reutilizarCodigos,
+      filas: rows,
     });
 
-    return new Response(stream, {
-      status: 200,
-      headers: {
-        "Content-Type": "application/x-ndjson; charset=utf-8",
-        "Cache-Control": "no-cache",
-      },
+    return new Response(JSON.stringify({ importacionId: importacion.id, estado: importacion.estado }), {
+      status: 202,
+      headers: { "Content-Type": "application/json; charset=utf-8" },
     });
   } catch (err) {
     console.error("Error global en import:", err);
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import {
+  ESTADOS_ACTIVOS,
+  iniciarProcesadorImportaciones,
+  pausarTrabajoImportacion,
+  reanudarTrabajoImportacion,
+  resultadosFilas,
+  resumenTrabajo,
+} from "@/lib/trabajosImportacion";
+
+/**
+ * Avance de una importación en segundo plano; la página lo consulta periódicamente y puede
+ * reconectarse con el id aunque se haya cerrado la pestaña. Con `filas=1` devuelve el resultado de cada fila.
+ */
+export async function GET(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const id = Number(new URL(req.url).searchParams.get("id"));
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: "Identificador de importación inválido" }, { status: 400 });
+  }
+
+  if (new URL(req.url).searchParams.get("filas") === "1") {
+    return NextResponse.json({ filas: await resultadosFilas(id) });
+  }
+
+  const importacion = await prisma.importacion.findUnique({ where: { id } });
+  if (!importacion) {
+    return NextResponse.json({ error: "Importación no encontrada" }, { status: 404 });
+  }
+
+  // Si el servidor se reinició, la primera consulta vuelve a poner en marcha la cola
+  if (ESTADOS_ACTIVOS.includes(importacion.estado)) {
+    iniciarProcesadorImportaciones();
+  }
+
+  return NextResponse.json({ trabajo: await resumenTrabajo(importacion) });
+}
+
+export async function PATCH(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const id = Number(body?.id);
+  const accion = body?.accion;
+
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: "Identificador de importación inválido" }, { status: 400 });
+  }
+  if (accion !== "pausar" && accion !== "reanudar") {
+    return NextResponse.json({ error: "Acción no válida" }, { status: 400 });
+  }
+
+  const existente = await prisma.importacion.findUnique({ where: { id }, select: { id: true } });
+  if (!existente) {
+    return NextResponse.json({ error: "Importación no encontrada" }, { status: 404 });
+  }
+
+  const aplicado = accion === "pausar" ? await pausarTrabajoImportacion(id) : await reanudarTrabajoImportacion(id);
+  if (!aplicado) {
+    return NextResponse.json(
+      {
+        error:
+          accion === "pausar"
+            ? "Solo se pueden pausar importaciones en cola o en proceso"
+            : "Solo se pueden reanudar importaciones pausadas o fallidas",
+      },
+      { status: 409 }
+    );
+  }
+
+  const importacion = await prisma.importacion.findUniqueOrThrow({ where: { id } });
+  return NextResponse.json({ trabajo: await resumenTrabajo(importacion) });
+}
@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { MENSAJES_RECHAZO_ANULACION, anularIngreso } from "@/lib/ingresos";
+import { calcularOcupacion } from "@/lib/ocupacion";
+
+const MAX_MOTIVO = 191;
+
+/**
+ * Deshace un escaneo registrado por error. La guardianía solo puede anular sus propios escaneos;
+ * administración y financiero pueden anular cualquiera desde la gestión de QR.
+ */
+export async function POST(req: Request) {
+  try {
+    const session = await getServerSession(authOptions);
+    const role = session?.user?.role;
+
+    if (!session || !role) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+    }
+
+    const body = await req.json().catch(() => null);
+    const ingresoId = Number(body?.ingresoId);
+    const motivo = typeof body?.motivo === "string" ? body.motivo.trim() : "";
+
+    if (!Number.isInteger(ingresoId) || ingresoId <= 0) {
+      return NextResponse.json({ error: "Identificador de ingreso inválido" }, { status: 400 });
+    }
+    if (!motivo) {
+      return NextResponse.json({ error: "Indica el motivo de la anulación" }, { status: 400 });
+    }
+    if (motivo.length > MAX_MOTIVO) {
+      return NextResponse.json(
+        { error: `El motivo no puede superar los ${MAX_MOTIVO} caracteres` },
+        { status: 400 }
+      );
+    }
+
+    const usuario = session.user?.email ?? null;
+    const resultado = await anularIngreso(ingresoId, {
+      motivo,
+      usuario,
+      ...(role === "guardiania" ? { soloDeUsuario: usuario } : {}),
+    });
+
+    if (!resultado.ok) {
+      return NextResponse.json(
+        { error: MENSAJES_RECHAZO_ANULACION[resultado.motivo], motivo: resultado.motivo },
+        { status: resultado.motivo === "no_encontrado" ? 404 : resultado.motivo === "ajeno" ? 403 : 409 }
+      );
+    }
+
+    const { ingreso, qr } = resultado;
+    const evento = ingreso.eventoId
+      ? await prisma.evento.findUnique({ where: { id: ingreso.eventoId }, select: { id: true, capacidad: true } })
+      : null;
+    const ocupacion = evento ? await calcularOcupacion(evento.id, evento.capacidad) : null;
+
+    return NextResponse.json({
+      success: true,
+      message: ingreso.tipo === "entrada" ? "Ingreso anulado: se devolvió el uso al QR" : "Salida anulada",
+      ingreso: {
+        id: ingreso.id_ingreso,
+        anulado: ingreso.anulado,
+        motivoAnulacion: ingreso.motivo_anulacion,
+        anuladoPor: ingreso.anuladoPor,
+        anuladoAt: ingreso.anuladoAt,
+      },
+      codigo: {
+        id: qr.id_codigo,
+        maxUsos: qr.max_usos,
+        usosActual: qr.usos_actual,
+        disponibles: Math.max(qr.max_usos - qr.usos_actual, 0),
+      },
+      ocupacion,
+    });
+  } catch (error) {
+    console.error("Error anulando ingreso:", error);
+    return NextResponse.json({ error: "Error interno" }, { status: 500 });
+  }
+}
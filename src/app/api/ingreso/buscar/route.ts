@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { resolverEvento } from "@/lib/eventos";
+import { enmascararCedula } from "@/lib/fichaEscaneo";
+
+const MIN_CARACTERES = 3;
+const MAX_RESULTADOS = 20;
+
+/**
+ * Búsqueda para el registro manual: el asistente no puede mostrar el QR y el guardia lo busca por
+ * cédula (prefijo) o por partes del nombre y apellido. Solo devuelve códigos del evento seleccionado.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const termino = (searchParams.get("q") ?? "").trim();
+
+    if (termino.length < MIN_CARACTERES) {
+      return NextResponse.json(
+        { error: `Ingresa al menos ${MIN_CARACTERES} caracteres para buscar` },
+        { status: 400 }
+      );
+    }
+
+    const evento = await resolverEvento(searchParams.get("eventoId"));
+    if (!evento) {
+      return NextResponse.json({ error: "No hay un evento activo" }, { status: 404 });
+    }
+
+    const esCedula = /^\d+$/.test(termino);
+    const palabras = termino.split(/\s+/).filter(Boolean);
+
+    const personas = await prisma.persona.findMany({
+      where: {
+        codigoqr: { some: { eventoId: evento.id } },
+        ...(esCedula
+          ? { cedula: { startsWith: termino } }
+          : {
+              AND: palabras.map((palabra) => ({
+                OR: [{ nombre: { contains: palabra } }, { apellido: { contains: palabra } }],
+              })),
+            }),
+      },
+      orderBy: [{ apellido: "asc" }, { nombre: "asc" }],
+      take: MAX_RESULTADOS,
+      include: {
+        codigoqr: {
+          where: { eventoId: evento.id },
+          orderBy: { id_codigo: "desc" },
+        },
+      },
+    });
+
+    return NextResponse.json({
+      personas: personas.map((persona) => ({
+        id: persona.id_persona,
+        titular: `${persona.nombre} ${persona.apellido ?? ""}`.trim(),
+        cedula: enmascararCedula(persona.cedula),
+        activo: persona.estado,
+        codigos: persona.codigoqr.map((codigo) => ({
+          id: codigo.id_codigo,
+          codigo: codigo.codigo,
+          tipo: codigo.tipo_qr,
+          maxUsos: codigo.max_usos,
+          usosActual: codigo.usos_actual,
+          disponibles: Math.max(codigo.max_usos - codigo.usos_actual, 0),
+        })),
+      })),
+    });
+  } catch (error) {
+    console.error("Error buscando asistentes para registro manual:", error);
+    return NextResponse.json({ error: "Error interno" }, { status: 500 });
+  }
+}
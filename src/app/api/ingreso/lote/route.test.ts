@@ -0,0 +1,53 @@
+import type { PrismaClient } from "@prisma/client";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { baseDePruebas, borrarEventoDePrueba, crearEventoDePrueba, hayBaseDePruebas } from "@/test/baseDatos";
+
+vi.mock("@/lib/auth", () => ({ authOptions: {} }));
+vi.mock("next-auth", () => ({ getServerSession: async () => ({ user: { email: "guardia@example.com" } }) }));
+
+describe.skipIf(!hayBaseDePruebas)("POST /api/ingreso/lote", () => {
+  let prisma: PrismaClient;
+  let POST: typeof import("./route").POST;
+  let firmarCodigo: typeof import("@/lib/qrFirma").firmarCodigo;
+  let eventoId: number;
+
+  beforeAll(async () => {
+    vi.stubEnv("QR_SIGNING_SECRET", "secreto-de-prueba");
+    prisma = await baseDePruebas();
+    ({ POST } = await import("./route"));
+    ({ firmarCodigo } = await import("@/lib/qrFirma"));
+    eventoId = (await crearEventoDePrueba("Prueba de sincronización")).id;
+  });
+
+  afterAll(async () => {
+    await borrarEventoDePrueba(eventoId);
+    await prisma.$disconnect();
+    vi.unstubAllEnvs();
+  });
+
+  it("rechaza cada ingreso con evento_inactivo cuando el evento ya finalizó", async () => {
+    const qr = await prisma.codigoQR.create({
+      data: { codigo: `LOTE-${Date.now()}`, tipo_qr: "est", max_usos: 1, eventoId },
+    });
+    await prisma.evento.update({ where: { id: eventoId }, data: { estado: "finalizado" } });
+
+    const ids = [`lote-${Date.now()}-1`, `lote-${Date.now()}-2`];
+    const respuesta = await POST(
+      new Request("http://localhost/api/ingreso/lote", {
+        method: "POST",
+        body: JSON.stringify({
+          eventoId,
+          ingresos: ids.map((id) => ({ id, codigo: firmarCodigo(qr.codigo), fecha: new Date().toISOString() })),
+        }),
+      })
+    );
+
+    expect(respuesta.status).toBe(200);
+    const cuerpo = await respuesta.json();
+    expect(cuerpo.rechazados).toBe(ids.length);
+    expect(cuerpo.resultados).toEqual(
+      ids.map((id) => expect.objectContaining({ id, estado: "rechazado", motivo: "evento_inactivo" }))
+    );
+    expect(await prisma.ingreso.count({ where: { codigoqrId: qr.id_codigo } })).toBe(0);
+  });
+});
@@ -0,0 +1,199 @@
+import { NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { resolverEvento } from "@/lib/eventos";
+import { MENSAJES_RECHAZO, registrarIngreso } from "@/lib/ingresos";
+import { verificarCodigo } from "@/lib/qrFirma";
+
+const MAX_INGRESOS_POR_LOTE = 500;
+const MAX_LONGITUD_ID = 64;
+
+type IngresoPendiente = {
+  id: string;
+  codigo: string;
+  fecha: string;
+  puntoControlId?: number | null;
+  tipo?: "entrada" | "salida";
+};
+
+type ResultadoLote = {
+  id: string;
+  /** `error` no es definitivo: el escáner conserva el ingreso y lo reenvía en la próxima sincronización */
+  estado: "registrado" | "conflicto" | "rechazado" | "error";
+  motivo?: string;
+  mensaje: string;
+};
+
+function esIngresoPendiente(value: unknown): value is IngresoPendiente {
+  if (!value || typeof value !== "object") return false;
+  const item = value as Record<string, unknown>;
+  return (
+    typeof item.id === "string" &&
+    item.id.length > 0 &&
+    item.id.length <= MAX_LONGITUD_ID &&
+    typeof item.codigo === "string" &&
+    typeof item.fecha === "string"
+  );
+}
+
+function idPendiente(value: unknown): string | null {
+  if (!value || typeof value !== "object") return null;
+  const { id } = value as Record<string, unknown>;
+  return typeof id === "string" && id ? id : null;
+}
+
+async function yaSincronizado(idLocal: string) {
+  return (await prisma.ingreso.count({ where: { idLocal } })) > 0;
+}
+
+/**
+ * Sincroniza los ingresos que el escáner registró sin conexión.
+ * Cada ingreso se procesa con la misma validación que un escaneo en línea; los que ya no tienen
+ * usos disponibles porque otra puerta los consumió se devuelven como conflicto, y si el evento ya no
+ * está activo cada ingreso se rechaza con el motivo `evento_inactivo`.
+ * Los ingresos se guardan con el id que les dio el escáner: si la respuesta se pierde y el lote se
+ * reenvía, los que ya se registraron se informan como registrados sin consumir otro uso.
+ */
+export async function POST(req: Request) {
+  try {
+    const body = await req.json().catch(() => null);
+    const ingresos: unknown[] = Array.isArray(body?.ingresos) ? body.ingresos : [];
+
+    if (ingresos.length === 0) {
+      return NextResponse.json({ error: "No se enviaron ingresos para sincronizar" }, { status: 400 });
+    }
+    if (ingresos.length > MAX_INGRESOS_POR_LOTE) {
+      return NextResponse.json(
+        { error: `Sincroniza como máximo ${MAX_INGRESOS_POR_LOTE} ingresos por lote` },
+        { status: 400 }
+      );
+    }
+
+    const evento = await resolverEvento(body?.eventoId);
+    if (!evento) {
+      return NextResponse.json({ error: "No hay un evento activo para registrar ingresos" }, { status: 400 });
+    }
+
+    const session = await getServerSession(authOptions);
+    const usuario = session?.user?.email ?? null;
+    const puntosActivos = new Set(
+      (await prisma.puntoControl.findMany({ where: { activo: true }, select: { id: true } })).map((punto) => punto.id)
+    );
+
+    const resultados: ResultadoLote[] = [];
+
+    // Secuencial para respetar el orden en que se escanearon los códigos
+    for (const item of ingresos) {
+      if (!esIngresoPendiente(item)) {
+        // Sin un resultado el escáner lo conservaría en su cola y lo reenviaría en cada sincronización
+        const id = idPendiente(item);
+        if (id) {
+          resultados.push({
+            id,
+            estado: "rechazado",
+            motivo: "invalido",
+            mensaje: "Ingreso pendiente con datos incompletos",
+          });
+        }
+        continue;
+      }
+
+      try {
+        if (await yaSincronizado(item.id)) {
+          resultados.push({ id: item.id, estado: "registrado", mensaje: "El ingreso ya se había sincronizado" });
+          continue;
+        }
+
+        // Un rechazo por ingreso, no del lote: el escáner descarta los que ya no se pueden registrar
+        if (evento.estado !== "activo") {
+          resultados.push({
+            id: item.id,
+            estado: "rechazado",
+            motivo: "evento_inactivo",
+            mensaje: `El evento "${evento.nombre}" está ${evento.estado}: ya no se pueden registrar ingresos`,
+          });
+          continue;
+        }
+
+        const codigo = verificarCodigo(item.codigo.trim());
+        if (!codigo) {
+          resultados.push({
+            id: item.id,
+            estado: "rechazado",
+            motivo: "falsificado",
+            mensaje: "QR falsificado o alterado",
+          });
+          continue;
+        }
+
+        const fecha = new Date(item.fecha);
+        const puntoControlId =
+          typeof item.puntoControlId === "number" && puntosActivos.has(item.puntoControlId)
+            ? item.puntoControlId
+            : null;
+        const resultado = await registrarIngreso(codigo, {
+          eventoId: evento.id,
+          fecha: Number.isNaN(fecha.getTime()) ? new Date() : fecha,
+          puntoControlId,
+          usuario,
+          tipo: item.tipo === "salida" ? "salida" : "entrada",
+          // La persona ya está dentro: lo que se controla en la puerta se decidió con la lista local
+          validarEnPuerta: false,
+          idLocal: item.id,
+        });
+
+        if (resultado.ok) {
+          resultados.push({
+            id: item.id,
+            estado: "registrado",
+            mensaje: `${item.tipo === "salida" ? "Salida" : "Ingreso"} registrado para ${codigo}`,
+          });
+        } else if (resultado.motivo === "agotado") {
+          resultados.push({
+            id: item.id,
+            estado: "conflicto",
+            motivo: resultado.motivo,
+            mensaje: `${codigo} ya no tenía usos disponibles: otra puerta los consumió`,
+          });
+        } else {
+          resultados.push({
+            id: item.id,
+            estado: "rechazado",
+            motivo: resultado.motivo,
+            mensaje: `${codigo}: ${resultado.detalle ?? MENSAJES_RECHAZO[resultado.motivo]}`,
+          });
+        }
+      } catch (error) {
+        // Otro envío del mismo lote lo registró al mismo tiempo: la transacción se deshizo sin consumir el uso
+        if (
+          error instanceof Prisma.PrismaClientKnownRequestError &&
+          error.code === "P2002" &&
+          (await yaSincronizado(item.id))
+        ) {
+          resultados.push({ id: item.id, estado: "registrado", mensaje: "El ingreso ya se había sincronizado" });
+          continue;
+        }
+        console.error(`Error sincronizando el ingreso ${item.id}:`, error);
+        resultados.push({
+          id: item.id,
+          estado: "error",
+          mensaje: "No se pudo registrar el ingreso; se reintentará en la próxima sincronización",
+        });
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      resultados,
+      registrados: resultados.filter((item) => item.estado === "registrado").length,
+      conflictos: resultados.filter((item) => item.estado === "conflicto").length,
+      rechazados: resultados.filter((item) => item.estado === "rechazado").length,
+      errores: resultados.filter((item) => item.estado === "error").length,
+    });
+  } catch (error) {
+    console.error("Error sincronizando ingresos:", error);
+    return NextResponse.json({ error: "Error interno" }, { status: 500 });
+  }
+}
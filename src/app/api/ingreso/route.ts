@@ -1,47 +1,137 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
 import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { resolverEvento, resolverEventoActivo } from "@/lib/eventos";
+import { buildDateRange } from "@/lib/fechas";
+import { obtenerFichaEscaneo } from "@/lib/fichaEscaneo";
+import { MENSAJES_RECHAZO, registrarIngreso } from "@/lib/ingresos";
+import { calcularOcupacion } from "@/lib/ocupacion";
+import { resolverPuntoControl } from "@/lib/puntosControl";
+import { verificarCodigo } from "@/lib/qrFirma";
 
+/**
+ * Total de ingresos del día y ocupación actual del evento; lo usa el escáner sin necesitar acceso al dashboard.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const evento = await resolverEvento(searchParams.get("eventoId"));
+
+    if (!evento) {
+      return NextResponse.json({ error: "No hay un evento activo" }, { status: 404 });
+    }
+
+    const dateRange = buildDateRange(searchParams.get("date") ?? new Date().toISOString().slice(0, 10));
+    if (!dateRange) {
+      return NextResponse.json({ error: "Fecha inválida" }, { status: 400 });
+    }
+
+    const [total, ocupacion] = await Promise.all([
+      prisma.ingreso.count({
+        where: { eventoId: evento.id, tipo: "entrada", anulado: false, fecha: { gte: dateRange.start, lte: dateRange.end } },
+      }),
+      calcularOcupacion(evento.id, evento.capacidad),
+    ]);
+
+    return NextResponse.json({ total, ocupacion });
+  } catch (error) {
+    console.error("Error obteniendo ingresos del día:", error);
+    return NextResponse.json({ error: "Error interno" }, { status: 500 });
+  }
+}
+
+/**
+ * Registra un escaneo. Con `codigo` se recibe el texto firmado del QR; con `codigoId` el guardia
+ * eligió el código desde la búsqueda manual y el ingreso queda marcado como manual.
+ */
 export async function POST(req: Request) {
   try {
-    const { codigo } = await req.json();
+    const { codigo, codigoId, eventoId, puntoControlId, tipo = "entrada" } = await req.json();
+    const manual = codigoId !== undefined && codigoId !== null;
 
-    // Buscar el QR en la base
-    const qr = await prisma.codigoQR.findUnique({
-      where: { codigo },
-    });
+    if (!manual && (typeof codigo !== "string" || !codigo.trim())) {
+      return NextResponse.json({ error: "Código QR inválido" }, { status: 400 });
+    }
+    if (tipo !== "entrada" && tipo !== "salida") {
+      return NextResponse.json({ error: "Tipo de movimiento no reconocido" }, { status: 400 });
+    }
 
-    if (!qr) {
-      return NextResponse.json({ error: "QR no encontrado" }, { status: 404 });
+    let codigoVerificado: string | null;
+    if (manual) {
+      const id = Number(codigoId);
+      const qr =
+        Number.isInteger(id) && id > 0
+          ? await prisma.codigoQR.findUnique({ where: { id_codigo: id }, select: { codigo: true } })
+          : null;
+      if (!qr) {
+        return NextResponse.json({ error: MENSAJES_RECHAZO.no_encontrado, motivo: "no_encontrado" }, { status: 404 });
+      }
+      codigoVerificado = qr.codigo;
+    } else {
+      // La firma se valida antes de tocar la base de datos
+      codigoVerificado = verificarCodigo(codigo.trim());
+      if (!codigoVerificado) {
+        return NextResponse.json(
+          { error: "QR falsificado o alterado: la firma no es válida", motivo: "falsificado" },
+          { status: 400 }
+        );
+      }
     }
 
-    // Validar usos
-    if (qr.max_usos !== null && qr.usos_actual >= qr.max_usos) {
-      return NextResponse.json({ error: "QR ya ha sido usado al máximo" }, { status: 400 });
+    const eventoActivo = await resolverEventoActivo(eventoId, "No hay un evento activo para registrar ingresos");
+    if (!eventoActivo.ok) {
+      return NextResponse.json({ error: eventoActivo.error }, { status: 400 });
     }
+    const { evento } = eventoActivo;
 
-    // Registrar ingreso usando el ID real
-    await prisma.ingreso.create({
-      data: {
-        codigoqrId: qr.id_codigo, // ✅ Aquí va el id_codigo, no el código string
-        fecha: new Date(),
-      },
-    });
+    const puntoControl = await resolverPuntoControl(puntoControlId);
+    if (puntoControl === undefined) {
+      return NextResponse.json({ error: "El punto de control seleccionado no está disponible" }, { status: 400 });
+    }
 
-    // Incrementar el contador de usos
-    const updatedQR = await prisma.codigoQR.update({
-      where: { id_codigo: qr.id_codigo },
-      data: { usos_actual: { increment: 1 } },
+    const session = await getServerSession(authOptions);
+    const resultado = await registrarIngreso(codigoVerificado, {
+      eventoId: evento.id,
+      puntoControlId: puntoControl?.id ?? null,
+      usuario: session?.user?.email ?? null,
+      tipo,
+      manual,
     });
-    
+
+    if (!resultado.ok) {
+      const ficha = resultado.qr ? await obtenerFichaEscaneo(resultado.qr.id_codigo) : null;
+      return NextResponse.json(
+        { error: resultado.detalle ?? MENSAJES_RECHAZO[resultado.motivo], motivo: resultado.motivo, ficha },
+        { status: resultado.motivo === "no_encontrado" ? 404 : resultado.motivo === "aforo_completo" ? 409 : 400 }
+      );
+    }
+
+    const updatedQR = resultado.qr;
+    const [ocupacion, ficha] = await Promise.all([
+      calcularOcupacion(evento.id, evento.capacidad),
+      obtenerFichaEscaneo(updatedQR.id_codigo, resultado.ingreso.id_ingreso),
+    ]);
+
+    if (tipo === "salida") {
+      return NextResponse.json({
+        success: true,
+        message: "Salida registrada",
+        ingresoId: resultado.ingreso.id_ingreso,
+        ficha,
+        ocupacion,
+      });
+    }
+
     // Calcular disponibles
-    const disponibles =
-      updatedQR.max_usos !== null
-        ? updatedQR.max_usos - updatedQR.usos_actual
-        : "∞"; // infinito si no hay límite
+    const disponibles = updatedQR.max_usos - updatedQR.usos_actual;
 
     return NextResponse.json({
       success: true,
-      message: `✅ Ingreso registrado: Disponibles ${disponibles} de ${updatedQR.max_usos ?? "∞"}`,
+      message: `✅ Ingreso registrado: Disponibles ${disponibles} de ${updatedQR.max_usos}`,
+      ingresoId: resultado.ingreso.id_ingreso,
+      ficha,
+      ocupacion,
     });
   } catch (error) {
     console.error("Error en ingreso:", error);
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import prisma from "@/lib/prisma";
+import { mapEvento, resolverEvento } from "@/lib/eventos";
+import { firmarCodigo } from "@/lib/qrFirma";
+
+/**
+ * Lista de códigos del evento que el escáner guarda en el dispositivo para validar sin conexión.
+ * Cada código trae su contenido firmado, que el escáner exige tal cual, y si el titular sigue habilitado.
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const { searchParams } = new URL(req.url);
+    const evento = await resolverEvento(searchParams.get("eventoId"));
+
+    if (!evento) {
+      return NextResponse.json({ error: "No hay un evento activo" }, { status: 404 });
+    }
+
+    const codigos = await prisma.codigoQR.findMany({
+      where: { eventoId: evento.id },
+      select: {
+        codigo: true,
+        max_usos: true,
+        usos_actual: true,
+        persona: { select: { nombre: true, apellido: true, estado: true } },
+      },
+    });
+
+    return NextResponse.json({
+      evento: mapEvento(evento),
+      generadoAt: new Date().toISOString(),
+      codigos: codigos.map((codigo) => ({
+        codigo: codigo.codigo,
+        payload: firmarCodigo(codigo.codigo),
+        activo: codigo.persona?.estado ?? true,
+        maxUsos: codigo.max_usos,
+        usosActual: codigo.usos_actual,
+        titular: codigo.persona
+          ? `${codigo.persona.nombre} ${codigo.persona.apellido ?? ""}`.trim()
+          : null,
+      })),
+    });
+  } catch (error) {
+    console.error("Error generando la lista de códigos sin conexión:", error);
+    return NextResponse.json({ error: "Error interno" }, { status: 500 });
+  }
+}
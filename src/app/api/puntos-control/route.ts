@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+import { mapPuntoControl } from "@/lib/puntosControl";
+
+function esNombreDuplicado(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === "P2002";
+}
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session) {
+    return NextResponse.json({ error: "No autorizado" }, { status: 401 });
+  }
+
+  const puntosControl = await prisma.puntoControl.findMany({ orderBy: { nombre: "asc" } });
+
+  return NextResponse.json({ puntosControl: puntosControl.map(mapPuntoControl) });
+}
+
+export async function POST(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const nombre = typeof body?.nombre === "string" ? body.nombre.trim() : "";
+  const descripcion = typeof body?.descripcion === "string" ? body.descripcion.trim() : "";
+  const zona = typeof body?.zona === "string" ? body.zona.trim() : "";
+
+  if (!nombre) {
+    return NextResponse.json({ error: "El nombre del punto de control es obligatorio" }, { status: 400 });
+  }
+
+  try {
+    const puntoControl = await prisma.puntoControl.create({
+      data: { nombre, descripcion: descripcion || null, zona: zona || null },
+    });
+    return NextResponse.json({ puntoControl: mapPuntoControl(puntoControl) });
+  } catch (error) {
+    if (esNombreDuplicado(error)) {
+      return NextResponse.json({ error: "Ya existe un punto de control con ese nombre" }, { status: 409 });
+    }
+    throw error;
+  }
+}
+
+export async function PATCH(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const id = Number(body?.id);
+  if (!Number.isInteger(id) || id <= 0) {
+    return NextResponse.json({ error: "Identificador de punto de control inválido" }, { status: 400 });
+  }
+
+  const data: Prisma.PuntoControlUpdateInput = {};
+  if (typeof body?.nombre === "string") {
+    const nombre = body.nombre.trim();
+    if (!nombre) {
+      return NextResponse.json({ error: "El nombre del punto de control es obligatorio" }, { status: 400 });
+    }
+    data.nombre = nombre;
+  }
+  if (typeof body?.descripcion === "string") {
+    data.descripcion = body.descripcion.trim() || null;
+  }
+  if (typeof body?.zona === "string") {
+    data.zona = body.zona.trim() || null;
+  }
+  if (typeof body?.activo === "boolean") {
+    data.activo = body.activo;
+  }
+
+  const existente = await prisma.puntoControl.findUnique({ where: { id } });
+  if (!existente) {
+    return NextResponse.json({ error: "Punto de control no encontrado" }, { status: 404 });
+  }
+
+  try {
+    const puntoControl = await prisma.puntoControl.update({ where: { id }, data });
+    return NextResponse.json({ puntoControl: mapPuntoControl(puntoControl) });
+  } catch (error) {
+    if (esNombreDuplicado(error)) {
+      return NextResponse.json({ error: "Ya existe un punto de control con ese nombre" }, { status: 409 });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getServerSession } from "next-auth";
+import type { TipoQR } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { authOptions } from "@/lib/auth";
+
+const TIPOS_QR: TipoQR[] = ["est", "fam", "vis"];
+// Un día; evita valores absurdos que bloqueen un código durante todo el evento por error de tipeo
+const MAX_INTERVALO_SEG = 24 * 60 * 60;
+
+async function listarReglas() {
+  const reglas = await prisma.reglaReingreso.findMany();
+  const porTipo = new Map(reglas.map((regla) => [regla.tipo_qr, regla]));
+
+  return TIPOS_QR.map((tipo) => {
+    const regla = porTipo.get(tipo);
+    return {
+      tipo,
+      intervaloMinimoSeg: regla?.intervalo_minimo_seg ?? 0,
+      requiereSalida: regla?.requiere_salida ?? false,
+      actualizadoEn: regla?.actualizadoEn ?? null,
+      actualizadoPor: regla?.actualizadoPor ?? null,
+    };
+  });
+}
+
+export async function GET() {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  return NextResponse.json({ reglas: await listarReglas() });
+}
+
+export async function PUT(req: NextRequest) {
+  const session = await getServerSession(authOptions);
+  if (!session || session.user?.role !== "admin") {
+    return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+  }
+
+  const body = await req.json().catch(() => null);
+  const tipo = body?.tipo as TipoQR;
+  const intervaloMinimoSeg = Number(body?.intervaloMinimoSeg ?? 0);
+  const requiereSalida = Boolean(body?.requiereSalida);
+
+  if (!TIPOS_QR.includes(tipo)) {
+    return NextResponse.json({ error: "Tipo de QR no reconocido" }, { status: 400 });
+  }
+  if (!Number.isInteger(intervaloMinimoSeg) || intervaloMinimoSeg < 0 || intervaloMinimoSeg > MAX_INTERVALO_SEG) {
+    return NextResponse.json(
+      { error: `El intervalo mínimo debe ser un entero entre 0 y ${MAX_INTERVALO_SEG} segundos` },
+      { status: 400 }
+    );
+  }
+
+  const data = {
+    intervalo_minimo_seg: intervaloMinimoSeg,
+    requiere_salida: requiereSalida,
+    actualizadoPor: session.user?.email ?? null,
+  };
+
+  await prisma.reglaReingreso.upsert({
+    where: { tipo_qr: tipo },
+    create: { tipo_qr: tipo, ...data },
+    update: data,
+  });
+
+  return NextResponse.json({ reglas: await listarReglas() });
+}
@@ -0,0 +1,284 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+
+type TransporteCorreo = "smtp" | "archivo" | "memoria";
+
+type CorreoResumen = {
+  id: string;
+  para: string;
+  asunto: string;
+  fecha: string;
+  adjuntos: number;
+};
+
+type CorreoCapturado = {
+  id: string;
+  para: string;
+  asunto: string;
+  fecha: string;
+  texto: string;
+  html: string | null;
+  adjuntos: { filename: string; contentType: string | null; bytes: number | null }[];
+};
+
+type RespuestaCapturados = {
+  transporte: TransporteCorreo;
+  directorio: string | null;
+  correos: CorreoResumen[];
+};
+
+const TRANSPORTE_LABELS: Record<TransporteCorreo, string> = {
+  smtp: "SMTP (envío real)",
+  archivo: "Archivos .eml locales",
+  memoria: "Memoria del servidor",
+};
+
+const DATE_TIME_FORMAT = new Intl.DateTimeFormat("es-EC", {
+  dateStyle: "short",
+  timeStyle: "medium",
+});
+
+const formatearBytes = (bytes: number | null) => {
+  if (bytes == null) return "";
+  if (bytes < 1024) return `${bytes} B`;
+  return `${(bytes / 1024).toFixed(1)} KB`;
+};
+
+export default function CorreosCapturadosPage() {
+  const { data: session, status } = useSession();
+  const canManage = session?.user?.role === "admin";
+
+  const [datos, setDatos] = useState<RespuestaCapturados | null>(null);
+  const [detalle, setDetalle] = useState<CorreoCapturado | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [procesando, setProcesando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mensaje, setMensaje] = useState<string | null>(null);
+
+  const cargar = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/correos/capturados", { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudieron cargar los correos capturados.");
+      }
+      setDatos(payload as RespuestaCapturados);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudieron cargar los correos capturados.");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "authenticated" && canManage) {
+      void cargar();
+    }
+  }, [status, canManage, cargar]);
+
+  const verDetalle = async (id: string) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/correos/capturados?id=${encodeURIComponent(id)}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudo abrir el correo.");
+      }
+      setDetalle(payload.correo as CorreoCapturado);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudo abrir el correo.");
+    }
+  };
+
+  const vaciar = async () => {
+    if (!window.confirm("¿Eliminar todos los correos capturados?")) {
+      return;
+    }
+    setProcesando(true);
+    setError(null);
+    setMensaje(null);
+    try {
+      const response = await fetch("/api/correos/capturados", { method: "DELETE" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudieron eliminar los correos.");
+      }
+      setMensaje(`${payload.eliminados} correo(s) eliminados.`);
+      setDetalle(null);
+      await cargar();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudieron eliminar los correos.");
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen items-center justify-center">
+          <p className="text-lg font-medium">Cargando acceso…</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!session || !canManage) {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen flex-col items-center justify-center px-6 text-center">
+          <p className="text-2xl font-semibold">Acceso restringido</p>
+          <p className="mt-2 max-w-md text-sm text-white/80">
+            Los correos capturados solo están disponibles para cuentas con rol administrador.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="relative min-h-screen overflow-hidden bg-brand-gradient text-white">
+      <div className="absolute inset-0 bg-brand-sheen" aria-hidden />
+      <div className="relative z-10 mx-auto flex min-h-screen w-full max-w-7xl flex-col gap-8 px-6 py-12">
+        <header className="card-surface flex flex-col gap-4 rounded-3xl px-8 py-10 text-brand-primary shadow-lg shadow-black/10 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-3">
+            <p className="text-xs uppercase tracking-[0.35em] text-brand-accent/60">Mantenimiento</p>
+            <h1 className="text-3xl font-semibold text-brand-primary">Correos capturados</h1>
+            <p className="text-sm text-brand-accent/80">
+              Con <code>MAIL_TRANSPORT=archivo</code> o <code>MAIL_TRANSPORT=memoria</code> los correos no salen del
+              servidor: se guardan aquí con sus adjuntos para revisar el flujo completo sin escribir a nadie.
+            </p>
+            {datos ? (
+              <p className="text-xs text-brand-accent/70">
+                Transporte activo: <span className="font-semibold">{TRANSPORTE_LABELS[datos.transporte]}</span>
+                {datos.directorio ? ` · ${datos.directorio}` : ""}
+              </p>
+            ) : null}
+          </div>
+          <div className="flex flex-col gap-2">
+            <Link
+              href="/correos"
+              className="rounded-xl bg-brand-secondary/10 px-4 py-2 text-sm font-semibold text-brand-primary transition hover:bg-brand-secondary/20"
+            >
+              ← Bandeja de correos
+            </Link>
+            <button
+              type="button"
+              onClick={() => void cargar()}
+              disabled={loading}
+              className="rounded-xl bg-brand-primary px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-secondary disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Actualizar
+            </button>
+            <button
+              type="button"
+              onClick={vaciar}
+              disabled={procesando || !datos || datos.correos.length === 0}
+              className="rounded-xl px-4 py-2 text-sm font-semibold text-red-700 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              Vaciar
+            </button>
+          </div>
+        </header>
+
+        {error ? (
+          <div className="card-surface rounded-3xl border border-red-200 bg-red-50/70 px-6 py-5 text-sm font-medium text-red-800 shadow-lg shadow-red-500/10">
+            {error}
+          </div>
+        ) : null}
+        {mensaje ? (
+          <div className="card-surface rounded-3xl bg-emerald-50/80 px-6 py-5 text-sm font-medium text-emerald-800 shadow-lg shadow-black/10">
+            {mensaje}
+          </div>
+        ) : null}
+
+        {datos?.transporte === "smtp" ? (
+          <div className="card-surface rounded-3xl bg-amber-50/80 px-6 py-5 text-sm text-amber-900 shadow-lg shadow-black/10">
+            El servidor envía por SMTP, así que no se captura ningún correo. Define <code>MAIL_TRANSPORT=archivo</code>{" "}
+            en el entorno de desarrollo para usar esta vista.
+          </div>
+        ) : null}
+
+        <section className="grid gap-6 lg:grid-cols-[380px_1fr]">
+          <div className="card-surface flex max-h-[720px] flex-col overflow-y-auto rounded-3xl px-3 py-3 text-brand-primary shadow-lg shadow-black/10">
+            {loading && !datos ? <p className="px-3 py-2 text-sm">Cargando…</p> : null}
+            {datos && datos.correos.length === 0 ? (
+              <p className="px-3 py-2 text-sm text-brand-accent/70">No hay correos capturados.</p>
+            ) : null}
+            {datos?.correos.map((correo) => (
+              <button
+                key={correo.id}
+                type="button"
+                onClick={() => void verDetalle(correo.id)}
+                className={`rounded-2xl px-4 py-3 text-left text-sm transition ${
+                  detalle?.id === correo.id ? "bg-brand-secondary/20" : "hover:bg-brand-secondary/10"
+                }`}
+              >
+                <p className="truncate font-semibold">{correo.asunto}</p>
+                <p className="truncate text-xs text-brand-accent/80">{correo.para}</p>
+                <p className="text-xs text-brand-accent/60">
+                  {DATE_TIME_FORMAT.format(new Date(correo.fecha))}
+                  {correo.adjuntos > 0 ? ` · ${correo.adjuntos} adjunto(s)` : ""}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          {detalle ? (
+            <div className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h2 className="text-lg font-semibold">{detalle.asunto}</h2>
+                  <p className="text-xs text-brand-accent/80">
+                    Para {detalle.para} · {DATE_TIME_FORMAT.format(new Date(detalle.fecha))}
+                  </p>
+                </div>
+                <a
+                  href={`/api/correos/capturados?id=${encodeURIComponent(detalle.id)}&formato=eml`}
+                  className="rounded-xl bg-brand-secondary/10 px-4 py-2 text-xs font-semibold text-brand-primary transition hover:bg-brand-secondary/20"
+                >
+                  Descargar .eml
+                </a>
+              </div>
+
+              {detalle.adjuntos.length > 0 ? (
+                <ul className="flex flex-wrap gap-2 text-xs">
+                  {detalle.adjuntos.map((adjunto) => (
+                    <li key={adjunto.filename} className="rounded-full bg-brand-secondary/10 px-3 py-1">
+                      📎 {adjunto.filename} {formatearBytes(adjunto.bytes)}
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+
+              {detalle.html ? (
+                <iframe
+                  title="Contenido HTML del correo"
+                  srcDoc={detalle.html}
+                  sandbox=""
+                  className="h-[520px] w-full rounded-2xl border border-brand-secondary/20 bg-white"
+                />
+              ) : null}
+              <div className="rounded-2xl bg-white/80 px-4 py-3 text-xs">
+                <p className="uppercase tracking-[0.2em] text-brand-accent/60">Texto plano</p>
+                <p className="mt-1 whitespace-pre-wrap text-brand-primary">{detalle.texto}</p>
+              </div>
+            </div>
+          ) : (
+            <div className="card-surface flex items-center justify-center rounded-3xl px-6 py-12 text-sm text-brand-accent/70 shadow-lg shadow-black/10">
+              Selecciona un correo para ver su contenido.
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
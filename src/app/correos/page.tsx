@@ -0,0 +1,552 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+
+type EstadoCorreo = "pendiente" | "enviando" | "enviado" | "enviado_sin_registro" | "fallido" | "cancelado";
+type OrigenCorreo = "importacion" | "qr_estudiante" | "reenvio_qr" | "venta" | "cierre_caja";
+
+type CorreoListado = {
+  id: number;
+  origen: OrigenCorreo;
+  destinatario: string;
+  asunto: string;
+  estado: EstadoCorreo;
+  intentos: number;
+  maxIntentos: number;
+  proximoIntento: string;
+  ultimoError: string | null;
+  enviadoEn: string | null;
+  creadoPor: string | null;
+  importacionId: number | null;
+  createdAt: string;
+};
+
+type IntentoCorreo = {
+  id: number;
+  numero: number;
+  exito: boolean;
+  error: string | null;
+  messageId: string | null;
+  duracionMs: number;
+  createdAt: string;
+};
+
+type DetalleCorreo = CorreoListado & {
+  adjuntos: string[];
+  intentosDetalle: IntentoCorreo[];
+};
+
+type RespuestaBandeja = {
+  correos: CorreoListado[];
+  total: number;
+  pagina: number;
+  porPagina: number;
+  totales: Record<EstadoCorreo, number>;
+  correosPorMinuto: number;
+};
+
+const ESTADO_LABELS: Record<EstadoCorreo, string> = {
+  pendiente: "Pendiente",
+  enviando: "Enviando",
+  enviado: "Enviado",
+  enviado_sin_registro: "Enviado sin registrar",
+  fallido: "Fallido",
+  cancelado: "Cancelado",
+};
+
+const ESTADO_CLASES: Record<EstadoCorreo, string> = {
+  pendiente: "bg-sky-100 text-sky-900",
+  enviando: "bg-brand-secondary/20 text-brand-primary",
+  enviado: "bg-emerald-100 text-emerald-800",
+  enviado_sin_registro: "bg-amber-100 text-amber-800",
+  fallido: "bg-red-100 text-red-700",
+  cancelado: "bg-slate-200 text-slate-700",
+};
+
+const ORIGEN_LABELS: Record<OrigenCorreo, string> = {
+  importacion: "Importación",
+  qr_estudiante: "QR de estudiante",
+  reenvio_qr: "Reenvío de QR",
+  venta: "Venta adicional",
+  cierre_caja: "Cierre de caja",
+};
+
+const DATE_TIME_FORMAT = new Intl.DateTimeFormat("es-EC", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+export default function CorreosPage() {
+  const { data: session, status } = useSession();
+  const canManage = session?.user?.role === "admin";
+
+  const [datos, setDatos] = useState<RespuestaBandeja | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [mensaje, setMensaje] = useState<string | null>(null);
+  const [estado, setEstado] = useState<EstadoCorreo | "">("");
+  const [origen, setOrigen] = useState<OrigenCorreo | "">("");
+  const [busqueda, setBusqueda] = useState("");
+  // Texto aplicado al buscar; evita consultar en cada tecla
+  const [consulta, setConsulta] = useState("");
+  const [pagina, setPagina] = useState(1);
+  const [seleccion, setSeleccion] = useState<number[]>([]);
+  const [procesando, setProcesando] = useState(false);
+  const [limiteDraft, setLimiteDraft] = useState("");
+  const [detalle, setDetalle] = useState<DetalleCorreo | null>(null);
+
+  const cargar = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ pagina: String(pagina) });
+      if (estado) params.set("estado", estado);
+      if (origen) params.set("origen", origen);
+      if (consulta) params.set("q", consulta);
+
+      const response = await fetch(`/api/correos?${params.toString()}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudo cargar la bandeja de correos.");
+      }
+      setDatos(payload as RespuestaBandeja);
+      setLimiteDraft((actual) => actual || String(payload.correosPorMinuto));
+      setSeleccion([]);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudo cargar la bandeja de correos.");
+    } finally {
+      setLoading(false);
+    }
+  }, [pagina, estado, origen, consulta]);
+
+  useEffect(() => {
+    if (status === "authenticated" && canManage) {
+      void cargar();
+    }
+  }, [status, canManage, cargar]);
+
+  const ejecutarAccion = async (accion: "reintentar" | "cancelar", ids: number[]) => {
+    setProcesando(true);
+    setError(null);
+    setMensaje(null);
+    try {
+      const response = await fetch("/api/correos", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ accion, ids }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudo completar la acción.");
+      }
+      setMensaje(
+        accion === "reintentar"
+          ? `${payload.afectados} correo(s) devueltos a la cola.`
+          : `${payload.afectados} correo(s) cancelados.`
+      );
+      setDetalle(null);
+      await cargar();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudo completar la acción.");
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  const guardarLimite = async () => {
+    setProcesando(true);
+    setError(null);
+    setMensaje(null);
+    try {
+      const response = await fetch("/api/correos", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ correosPorMinuto: Number(limiteDraft) }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudo guardar el límite.");
+      }
+      setMensaje(`Límite actualizado a ${payload.correosPorMinuto} correos por minuto.`);
+      setDatos((actual) => (actual ? { ...actual, correosPorMinuto: payload.correosPorMinuto } : actual));
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudo guardar el límite.");
+    } finally {
+      setProcesando(false);
+    }
+  };
+
+  const verDetalle = async (id: number) => {
+    if (detalle?.id === id) {
+      setDetalle(null);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/correos?id=${id}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudo cargar el correo.");
+      }
+      setDetalle(payload.correo as DetalleCorreo);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudo cargar el correo.");
+    }
+  };
+
+  const alternarSeleccion = (id: number) => {
+    setSeleccion((actual) => (actual.includes(id) ? actual.filter((item) => item !== id) : [...actual, id]));
+  };
+
+  const seleccionados = datos?.correos.filter((correo) => seleccion.includes(correo.id)) ?? [];
+  const reintentables = seleccionados.filter((correo) => correo.estado === "fallido" || correo.estado === "cancelado");
+  const cancelables = seleccionados.filter((correo) => correo.estado === "pendiente");
+  const totalPaginas = datos ? Math.max(1, Math.ceil(datos.total / datos.porPagina)) : 1;
+
+  if (status === "loading") {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen items-center justify-center">
+          <p className="text-lg font-medium">Cargando acceso…</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!session || !canManage) {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen flex-col items-center justify-center px-6 text-center">
+          <p className="text-2xl font-semibold">Acceso restringido</p>
+          <p className="mt-2 max-w-md text-sm text-white/80">
+            La bandeja de correos solo está disponible para cuentas con rol administrador.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="relative min-h-screen overflow-hidden bg-brand-gradient text-white">
+      <div className="absolute inset-0 bg-brand-sheen" aria-hidden />
+      <div className="relative z-10 mx-auto flex min-h-screen w-full max-w-6xl flex-col gap-8 px-6 py-12">
+        <header className="card-surface flex flex-col gap-4 rounded-3xl px-8 py-10 text-brand-primary shadow-lg shadow-black/10 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-3">
+            <p className="text-xs uppercase tracking-[0.35em] text-brand-accent/60">Mantenimiento</p>
+            <h1 className="text-3xl font-semibold text-brand-primary">Bandeja de correos</h1>
+            <p className="text-sm text-brand-accent/80">
+              Todos los correos del sistema (invitaciones, reenvíos, ventas y cierres de caja) se envían desde esta
+              bandeja. Los fallidos se reintentan solos con esperas crecientes; aquí puedes reintentarlos o cancelarlos.
+            </p>
+            <Link
+              href="/correos/plantillas"
+              className="inline-flex rounded-xl bg-brand-secondary/10 px-4 py-2 text-sm font-semibold text-brand-primary transition hover:bg-brand-secondary/20"
+            >
+              Editar plantillas de correo →
+            </Link>
+            <Link
+              href="/correos/capturados"
+              className="ml-2 inline-flex rounded-xl bg-brand-secondary/10 px-4 py-2 text-sm font-semibold text-brand-primary transition hover:bg-brand-secondary/20"
+            >
+              Correos capturados (desarrollo) →
+            </Link>
+          </div>
+          <div className="flex flex-col gap-2 rounded-2xl bg-brand-secondary/10 px-5 py-4 text-sm text-brand-primary">
+            <p className="text-xs font-semibold uppercase tracking-widest text-brand-accent/60">Correos por minuto</p>
+            <div className="flex items-center gap-2">
+              <input
+                type="number"
+                min={1}
+                value={limiteDraft}
+                onChange={(event) => setLimiteDraft(event.target.value)}
+                className="w-24 rounded-xl border border-brand-secondary/30 bg-white/80 px-3 py-2 text-sm text-brand-primary shadow-inner focus:border-brand-secondary focus:outline-none"
+              />
+              <button
+                type="button"
+                onClick={guardarLimite}
+                disabled={procesando || !limiteDraft || Number(limiteDraft) === datos?.correosPorMinuto}
+                className="rounded-xl bg-brand-primary px-4 py-2 text-xs font-semibold text-white transition hover:bg-brand-secondary disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Guardar
+              </button>
+            </div>
+            <p className="text-xs text-brand-accent/70">Office 365 admite hasta 30 mensajes por minuto por buzón.</p>
+          </div>
+        </header>
+
+        {error ? (
+          <div className="card-surface rounded-3xl border border-red-200 bg-red-50/70 px-6 py-5 text-sm font-medium text-red-800 shadow-lg shadow-red-500/10">
+            {error}
+          </div>
+        ) : null}
+        {mensaje ? (
+          <div className="card-surface rounded-3xl bg-emerald-50/80 px-6 py-5 text-sm font-medium text-emerald-800 shadow-lg shadow-black/10">
+            {mensaje}
+          </div>
+        ) : null}
+
+        <section className="grid gap-4 sm:grid-cols-3 lg:grid-cols-6">
+          {(Object.keys(ESTADO_LABELS) as EstadoCorreo[]).map((item) => (
+            <button
+              key={item}
+              type="button"
+              onClick={() => {
+                setEstado((actual) => (actual === item ? "" : item));
+                setPagina(1);
+              }}
+              className={`card-surface rounded-3xl px-5 py-4 text-left text-brand-primary shadow-lg shadow-black/10 transition ${
+                estado === item ? "ring-2 ring-brand-secondary" : ""
+              }`}
+            >
+              <p className="text-xs uppercase tracking-[0.24em] text-brand-accent/60">{ESTADO_LABELS[item]}</p>
+              <p className="mt-2 text-2xl font-semibold">{datos?.totales[item] ?? 0}</p>
+            </button>
+          ))}
+        </section>
+
+        <section className="card-surface space-y-4 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10">
+          <form
+            className="flex flex-col gap-3 md:flex-row md:items-end"
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (consulta === busqueda.trim() && pagina === 1) {
+                void cargar();
+                return;
+              }
+              setConsulta(busqueda.trim());
+              setPagina(1);
+            }}
+          >
+            <label className="flex flex-1 flex-col gap-1 text-xs font-semibold uppercase tracking-[0.2em] text-brand-accent/60">
+              Buscar
+              <input
+                type="search"
+                value={busqueda}
+                onChange={(event) => setBusqueda(event.target.value)}
+                placeholder="Destinatario o asunto"
+                className="rounded-xl border border-brand-secondary/30 bg-white/80 px-3 py-2 text-sm font-normal normal-case tracking-normal text-brand-primary shadow-inner focus:border-brand-secondary focus:outline-none"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-[0.2em] text-brand-accent/60">
+              Estado
+              <select
+                value={estado}
+                onChange={(event) => {
+                  setEstado(event.target.value as EstadoCorreo | "");
+                  setPagina(1);
+                }}
+                className="rounded-xl border border-brand-secondary/30 bg-white/80 px-3 py-2 text-sm font-normal normal-case tracking-normal text-brand-primary"
+              >
+                <option value="">Todos</option>
+                {(Object.keys(ESTADO_LABELS) as EstadoCorreo[]).map((item) => (
+                  <option key={item} value={item}>
+                    {ESTADO_LABELS[item]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-[0.2em] text-brand-accent/60">
+              Origen
+              <select
+                value={origen}
+                onChange={(event) => {
+                  setOrigen(event.target.value as OrigenCorreo | "");
+                  setPagina(1);
+                }}
+                className="rounded-xl border border-brand-secondary/30 bg-white/80 px-3 py-2 text-sm font-normal normal-case tracking-normal text-brand-primary"
+              >
+                <option value="">Todos</option>
+                {(Object.keys(ORIGEN_LABELS) as OrigenCorreo[]).map((item) => (
+                  <option key={item} value={item}>
+                    {ORIGEN_LABELS[item]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              type="submit"
+              disabled={loading}
+              className="rounded-xl bg-brand-primary px-4 py-2 text-sm font-semibold text-white transition hover:bg-brand-secondary disabled:cursor-not-allowed disabled:opacity-60"
+            >
+              {loading ? "Cargando…" : "Actualizar"}
+            </button>
+          </form>
+
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="text-brand-accent/70">{seleccion.length} seleccionado(s)</span>
+            <button
+              type="button"
+              onClick={() => ejecutarAccion("reintentar", reintentables.map((correo) => correo.id))}
+              disabled={procesando || reintentables.length === 0}
+              className="rounded-xl bg-brand-secondary px-4 py-2 text-xs font-semibold text-white transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Reintentar ({reintentables.length})
+            </button>
+            <button
+              type="button"
+              onClick={() => ejecutarAccion("cancelar", cancelables.map((correo) => correo.id))}
+              disabled={procesando || cancelables.length === 0}
+              className="rounded-xl border border-red-300 px-4 py-2 text-xs font-semibold text-red-700 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Cancelar ({cancelables.length})
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead className="text-xs uppercase tracking-[0.2em] text-brand-accent/60">
+                <tr>
+                  <th className="px-3 py-2">
+                    <input
+                      type="checkbox"
+                      aria-label="Seleccionar todos"
+                      checked={Boolean(datos?.correos.length) && seleccion.length === datos?.correos.length}
+                      onChange={(event) =>
+                        setSeleccion(event.target.checked ? datos?.correos.map((correo) => correo.id) ?? [] : [])
+                      }
+                    />
+                  </th>
+                  <th className="px-3 py-2">Destinatario</th>
+                  <th className="px-3 py-2">Origen</th>
+                  <th className="px-3 py-2">Estado</th>
+                  <th className="px-3 py-2">Intentos</th>
+                  <th className="px-3 py-2">Creado</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-brand-secondary/15">
+                {datos && datos.correos.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-3 py-6 text-center text-brand-accent/70">
+                      No hay correos con estos filtros.
+                    </td>
+                  </tr>
+                ) : null}
+                {datos?.correos.map((correo) => (
+                  <FilaCorreo
+                    key={correo.id}
+                    correo={correo}
+                    seleccionado={seleccion.includes(correo.id)}
+                    onSeleccionar={() => alternarSeleccion(correo.id)}
+                    detalle={detalle?.id === correo.id ? detalle : null}
+                    onDetalle={() => verDetalle(correo.id)}
+                  />
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between text-xs text-brand-accent/70">
+            <span>
+              {datos?.total ?? 0} correo(s) · página {pagina} de {totalPaginas}
+            </span>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setPagina((actual) => Math.max(1, actual - 1))}
+                disabled={pagina <= 1 || loading}
+                className="rounded-lg border border-brand-secondary/30 px-3 py-1 font-semibold disabled:opacity-50"
+              >
+                Anterior
+              </button>
+              <button
+                type="button"
+                onClick={() => setPagina((actual) => Math.min(totalPaginas, actual + 1))}
+                disabled={pagina >= totalPaginas || loading}
+                className="rounded-lg border border-brand-secondary/30 px-3 py-1 font-semibold disabled:opacity-50"
+              >
+                Siguiente
+              </button>
+            </div>
+          </div>
+        </section>
+      </div>
+    </main>
+  );
+}
+
+function FilaCorreo({
+  correo,
+  seleccionado,
+  onSeleccionar,
+  detalle,
+  onDetalle,
+}: {
+  correo: CorreoListado;
+  seleccionado: boolean;
+  onSeleccionar: () => void;
+  detalle: DetalleCorreo | null;
+  onDetalle: () => void;
+}) {
+  return (
+    <>
+      <tr className="align-top">
+        <td className="px-3 py-3">
+          <input type="checkbox" checked={seleccionado} onChange={onSeleccionar} aria-label={`Seleccionar ${correo.id}`} />
+        </td>
+        <td className="px-3 py-3">
+          <p className="font-semibold">{correo.destinatario}</p>
+          <p className="text-xs text-brand-accent/70">{correo.asunto}</p>
+          {correo.ultimoError && correo.estado !== "enviado" ? (
+            <p className="mt-1 text-xs text-red-700">{correo.ultimoError}</p>
+          ) : null}
+        </td>
+        <td className="px-3 py-3 text-xs">
+          {ORIGEN_LABELS[correo.origen]}
+          {correo.importacionId ? ` #${correo.importacionId}` : ""}
+        </td>
+        <td className="px-3 py-3">
+          <span className={`rounded-full px-2 py-1 text-xs font-semibold ${ESTADO_CLASES[correo.estado]}`}>
+            {ESTADO_LABELS[correo.estado]}
+          </span>
+          {correo.estado === "pendiente" && correo.intentos > 0 ? (
+            <p className="mt-1 text-xs text-brand-accent/70">
+              Reintento: {DATE_TIME_FORMAT.format(new Date(correo.proximoIntento))}
+            </p>
+          ) : null}
+          {correo.enviadoEn ? (
+            <p className="mt-1 text-xs text-brand-accent/70">{DATE_TIME_FORMAT.format(new Date(correo.enviadoEn))}</p>
+          ) : null}
+        </td>
+        <td className="px-3 py-3 text-xs">
+          {correo.intentos}/{correo.maxIntentos}
+        </td>
+        <td className="px-3 py-3 text-xs">
+          {DATE_TIME_FORMAT.format(new Date(correo.createdAt))}
+          {correo.creadoPor ? <p className="text-brand-accent/70">{correo.creadoPor}</p> : null}
+        </td>
+        <td className="px-3 py-3 text-right">
+          <button type="button" onClick={onDetalle} className="text-xs font-semibold text-brand-secondary underline">
+            {detalle ? "Ocultar" : "Intentos"}
+          </button>
+        </td>
+      </tr>
+      {detalle ? (
+        <tr>
+          <td colSpan={7} className="bg-brand-secondary/5 px-6 py-4 text-xs">
+            {detalle.adjuntos.length > 0 ? <p className="mb-2">Adjuntos: {detalle.adjuntos.join(", ")}</p> : null}
+            {detalle.intentosDetalle.length === 0 ? (
+              <p className="text-brand-accent/70">Todavía no se ha intentado enviar.</p>
+            ) : (
+              <ul className="space-y-1">
+                {detalle.intentosDetalle.map((intento) => (
+                  <li key={intento.id}>
+                    #{intento.numero} · {DATE_TIME_FORMAT.format(new Date(intento.createdAt))} ·{" "}
+                    {intento.exito ? "Enviado" : "Error"} · {intento.duracionMs} ms
+                    {intento.error ? ` — ${intento.error}` : ""}
+                    {intento.messageId ? ` — ${intento.messageId}` : ""}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </td>
+        </tr>
+      ) : null}
+    </>
+  );
+}
@@ -0,0 +1,360 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSession } from "next-auth/react";
+import {
+  renderizarPlantilla,
+  variablesDesconocidas,
+  variablesEjemplo,
+  type ClavePlantilla,
+  type ContenidoPlantilla,
+  type VariablePlantilla,
+} from "@/lib/plantillasCorreo";
+
+type PlantillaEditable = {
+  clave: ClavePlantilla;
+  nombre: string;
+  descripcion: string;
+  variables: VariablePlantilla[];
+  contenido: ContenidoPlantilla;
+  personalizada: boolean;
+  actualizadoEn: string | null;
+  actualizadoPor: string | null;
+};
+
+const DATE_TIME_FORMAT = new Intl.DateTimeFormat("es-EC", {
+  dateStyle: "medium",
+  timeStyle: "short",
+});
+
+const CAMPO_CLASES =
+  "w-full rounded-2xl border border-brand-secondary/30 bg-white/80 px-4 py-3 text-sm text-brand-primary shadow-inner focus:border-brand-secondary focus:outline-none";
+
+export default function PlantillasCorreoPage() {
+  const { data: session, status } = useSession();
+  const canManage = session?.user?.role === "admin";
+
+  const [plantillas, setPlantillas] = useState<PlantillaEditable[]>([]);
+  const [clave, setClave] = useState<ClavePlantilla | null>(null);
+  const [borrador, setBorrador] = useState<ContenidoPlantilla | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [guardando, setGuardando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mensaje, setMensaje] = useState<string | null>(null);
+
+  const seleccionada = plantillas.find((plantilla) => plantilla.clave === clave) ?? null;
+
+  // Al cambiar de plantilla el borrador parte de su contenido guardado
+  const seleccionar = useCallback((plantilla: PlantillaEditable | undefined) => {
+    setClave(plantilla?.clave ?? null);
+    setBorrador(plantilla ? { ...plantilla.contenido } : null);
+    setMensaje(null);
+  }, []);
+
+  const cargar = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/correos/plantillas", { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudieron cargar las plantillas.");
+      }
+      const lista = payload.plantillas as PlantillaEditable[];
+      setPlantillas(lista);
+      seleccionar(lista[0]);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudieron cargar las plantillas.");
+    } finally {
+      setLoading(false);
+    }
+  }, [seleccionar]);
+
+  useEffect(() => {
+    if (status === "authenticated" && canManage) {
+      void cargar();
+    }
+  }, [status, canManage, cargar]);
+
+  const vistaPrevia = useMemo(
+    () => (borrador && clave ? renderizarPlantilla(borrador, variablesEjemplo(clave)) : null),
+    [borrador, clave]
+  );
+  const desconocidas = borrador && clave ? variablesDesconocidas(clave, borrador) : [];
+  const modificada =
+    Boolean(borrador && seleccionada) &&
+    (borrador?.asunto !== seleccionada?.contenido.asunto ||
+      borrador?.texto !== seleccionada?.contenido.texto ||
+      borrador?.html !== seleccionada?.contenido.html);
+
+  const actualizarCampo = (campo: keyof ContenidoPlantilla, valor: string) => {
+    setBorrador((actual) => (actual ? { ...actual, [campo]: valor } : actual));
+  };
+
+  const guardar = async () => {
+    if (!clave || !borrador) return;
+    setGuardando(true);
+    setError(null);
+    setMensaje(null);
+    try {
+      const response = await fetch("/api/correos/plantillas", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ clave, ...borrador }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudo guardar la plantilla.");
+      }
+      setPlantillas((actual) =>
+        actual.map((plantilla) =>
+          plantilla.clave === clave
+            ? {
+                ...plantilla,
+                contenido: {
+                  asunto: payload.plantilla.asunto,
+                  texto: payload.plantilla.texto,
+                  html: payload.plantilla.html,
+                },
+                personalizada: true,
+                actualizadoEn: payload.plantilla.actualizadoEn,
+                actualizadoPor: payload.plantilla.actualizadoPor,
+              }
+            : plantilla
+        )
+      );
+      setMensaje("Plantilla guardada. Los próximos correos usarán esta versión.");
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudo guardar la plantilla.");
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  const restaurar = async () => {
+    if (!clave) return;
+    if (!window.confirm("¿Descartar los cambios y volver a la plantilla predeterminada?")) {
+      return;
+    }
+    setGuardando(true);
+    setError(null);
+    setMensaje(null);
+    try {
+      const response = await fetch(`/api/correos/plantillas?clave=${clave}`, { method: "DELETE" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudo restaurar la plantilla.");
+      }
+      const contenido = payload.contenido as ContenidoPlantilla;
+      setPlantillas((actual) =>
+        actual.map((plantilla) =>
+          plantilla.clave === clave
+            ? { ...plantilla, contenido, personalizada: false, actualizadoEn: null, actualizadoPor: null }
+            : plantilla
+        )
+      );
+      setBorrador({ ...contenido });
+      setMensaje("Se restauró la plantilla predeterminada.");
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudo restaurar la plantilla.");
+    } finally {
+      setGuardando(false);
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen items-center justify-center">
+          <p className="text-lg font-medium">Cargando acceso…</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!session || !canManage) {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen flex-col items-center justify-center px-6 text-center">
+          <p className="text-2xl font-semibold">Acceso restringido</p>
+          <p className="mt-2 max-w-md text-sm text-white/80">
+            Las plantillas de correo solo están disponibles para cuentas con rol administrador.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="relative min-h-screen overflow-hidden bg-brand-gradient text-white">
+      <div className="absolute inset-0 bg-brand-sheen" aria-hidden />
+      <div className="relative z-10 mx-auto flex min-h-screen w-full max-w-7xl flex-col gap-8 px-6 py-12">
+        <header className="card-surface flex flex-col gap-4 rounded-3xl px-8 py-10 text-brand-primary shadow-lg shadow-black/10 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-3">
+            <p className="text-xs uppercase tracking-[0.35em] text-brand-accent/60">Mantenimiento</p>
+            <h1 className="text-3xl font-semibold text-brand-primary">Plantillas de correo</h1>
+            <p className="text-sm text-brand-accent/80">
+              Edita el asunto, el texto plano y el HTML de cada correo. Usa las variables entre llaves dobles, por
+              ejemplo <code>{"{{nombre}}"}</code>; la vista previa muestra el resultado con datos de ejemplo.
+            </p>
+          </div>
+          <Link
+            href="/correos"
+            className="rounded-xl bg-brand-secondary/10 px-4 py-2 text-sm font-semibold text-brand-primary transition hover:bg-brand-secondary/20"
+          >
+            ← Bandeja de correos
+          </Link>
+        </header>
+
+        {error ? (
+          <div className="card-surface rounded-3xl border border-red-200 bg-red-50/70 px-6 py-5 text-sm font-medium text-red-800 shadow-lg shadow-red-500/10">
+            {error}
+          </div>
+        ) : null}
+        {mensaje ? (
+          <div className="card-surface rounded-3xl bg-emerald-50/80 px-6 py-5 text-sm font-medium text-emerald-800 shadow-lg shadow-black/10">
+            {mensaje}
+          </div>
+        ) : null}
+
+        {loading ? <p className="text-sm text-white/80">Cargando plantillas…</p> : null}
+
+        <section className="grid gap-6 lg:grid-cols-[260px_1fr]">
+          <nav className="card-surface flex flex-col gap-2 rounded-3xl px-4 py-5 text-brand-primary shadow-lg shadow-black/10">
+            {plantillas.map((plantilla) => (
+              <button
+                key={plantilla.clave}
+                type="button"
+                onClick={() => {
+                  if (modificada && !window.confirm("Hay cambios sin guardar. ¿Descartarlos?")) return;
+                  seleccionar(plantilla);
+                }}
+                className={`rounded-2xl px-4 py-3 text-left text-sm transition ${
+                  plantilla.clave === clave ? "bg-brand-secondary/20 font-semibold" : "hover:bg-brand-secondary/10"
+                }`}
+              >
+                <p>{plantilla.nombre}</p>
+                <p className="text-xs font-normal text-brand-accent/70">
+                  {plantilla.personalizada ? "Personalizada" : "Predeterminada"}
+                </p>
+              </button>
+            ))}
+          </nav>
+
+          {seleccionada && borrador && vistaPrevia ? (
+            <div className="grid gap-6 xl:grid-cols-2">
+              <div className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10">
+                <div>
+                  <h2 className="text-lg font-semibold">{seleccionada.nombre}</h2>
+                  <p className="text-xs text-brand-accent/70">{seleccionada.descripcion}</p>
+                  {seleccionada.actualizadoEn ? (
+                    <p className="mt-1 text-xs text-brand-accent/70">
+                      Editada el {DATE_TIME_FORMAT.format(new Date(seleccionada.actualizadoEn))}
+                      {seleccionada.actualizadoPor ? ` por ${seleccionada.actualizadoPor}` : ""}
+                    </p>
+                  ) : null}
+                </div>
+
+                <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-[0.2em] text-brand-accent/60">
+                  Asunto
+                  <input
+                    value={borrador.asunto}
+                    onChange={(event) => actualizarCampo("asunto", event.target.value)}
+                    className={`${CAMPO_CLASES} font-normal normal-case tracking-normal`}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-[0.2em] text-brand-accent/60">
+                  Texto plano
+                  <textarea
+                    value={borrador.texto}
+                    onChange={(event) => actualizarCampo("texto", event.target.value)}
+                    rows={5}
+                    className={`${CAMPO_CLASES} font-normal normal-case tracking-normal`}
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-xs font-semibold uppercase tracking-[0.2em] text-brand-accent/60">
+                  HTML
+                  <textarea
+                    value={borrador.html}
+                    onChange={(event) => actualizarCampo("html", event.target.value)}
+                    rows={16}
+                    spellCheck={false}
+                    className={`${CAMPO_CLASES} font-mono text-xs font-normal normal-case tracking-normal`}
+                  />
+                </label>
+
+                <div className="rounded-2xl bg-brand-secondary/10 px-4 py-3 text-xs">
+                  <p className="font-semibold">Variables disponibles</p>
+                  <ul className="mt-2 space-y-1">
+                    {seleccionada.variables.map((variable) => (
+                      <li key={variable.nombre}>
+                        <code className="font-semibold">{`{{${variable.nombre}}}`}</code> — {variable.descripcion}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                {desconocidas.length > 0 ? (
+                  <p className="rounded-2xl bg-red-50 px-4 py-3 text-xs text-red-700">
+                    Variables no disponibles: {desconocidas.map((nombre) => `{{${nombre}}}`).join(", ")}
+                  </p>
+                ) : null}
+
+                <div className="flex flex-wrap gap-3">
+                  <button
+                    type="button"
+                    onClick={guardar}
+                    disabled={guardando || !modificada || desconocidas.length > 0}
+                    className="rounded-2xl bg-brand-primary px-6 py-3 text-sm font-semibold text-white shadow-lg shadow-brand-primary/30 transition hover:bg-brand-secondary disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    {guardando ? "Guardando…" : "Guardar plantilla"}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setBorrador({ ...seleccionada.contenido })}
+                    disabled={guardando || !modificada}
+                    className="rounded-2xl border border-brand-secondary/40 px-6 py-3 text-sm font-semibold text-brand-primary transition hover:bg-brand-secondary/10 disabled:cursor-not-allowed disabled:opacity-60"
+                  >
+                    Descartar cambios
+                  </button>
+                  {seleccionada.personalizada ? (
+                    <button
+                      type="button"
+                      onClick={restaurar}
+                      disabled={guardando}
+                      className="rounded-2xl px-6 py-3 text-sm font-semibold text-red-700 transition hover:bg-red-50 disabled:cursor-not-allowed disabled:opacity-60"
+                    >
+                      Restaurar predeterminada
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+
+              <div className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10">
+                <h2 className="text-lg font-semibold">Vista previa</h2>
+                <div className="rounded-2xl bg-white/80 px-4 py-3 text-sm">
+                  <p className="text-xs uppercase tracking-[0.2em] text-brand-accent/60">Asunto</p>
+                  <p className="font-semibold">{vistaPrevia.asunto}</p>
+                </div>
+                <iframe
+                  title="Vista previa del correo"
+                  srcDoc={vistaPrevia.html}
+                  sandbox=""
+                  className="h-[520px] w-full rounded-2xl border border-brand-secondary/20 bg-white"
+                />
+                <div className="rounded-2xl bg-white/80 px-4 py-3 text-xs">
+                  <p className="uppercase tracking-[0.2em] text-brand-accent/60">Texto plano</p>
+                  <p className="mt-1 whitespace-pre-wrap text-brand-primary">{vistaPrevia.texto}</p>
+                </div>
+              </div>
+            </div>
+          ) : null}
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -3,6 +3,7 @@
 import Image from "next/image";
 import { useEffect, useMemo, useState } from "react";
 import { PieChart, Pie, Cell, Tooltip, ResponsiveContainer } from "recharts";
+import { EventoSelector, useEventoSeleccionado } from "@/components/EventoSelector";
 
 type AggregatedIngreso = {
   codigo: string;
@@ -23,6 +24,14 @@ type DashboardData = {
   ingresosAgrupados: AggregatedIngreso[];
   selectedDate: string | null;
   totalHoy: number;
+  porPuntoControl: Array<{ puntoControl: string; total: number }>;
+  porGuardia: Array<{ usuario: string; total: number }>;
+  ocupacion: {
+    dentro: number;
+    capacidad: number | null;
+    disponible: number | null;
+    porZona: Array<{ zona: string; dentro: number }>;
+  };
 };
 
 const CHART_COLORS = ["#003976", "#29598c", "#00a6f2"];
@@ -41,10 +50,25 @@ export default function DashboardPage() {
   const [selectedDate, setSelectedDate] = useState<string>(() => new Date().toISOString().slice(0, 10));
   const [isLoading, setIsLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const { eventos, eventoId, setEventoId, loading: eventosLoading } = useEventoSeleccionado();
 
   useEffect(() => {
+    if (eventosLoading) {
+      return;
+    }
+    if (!eventoId) {
+      setData(null);
+      setIsLoading(false);
+      setError("Selecciona un evento para ver sus estadísticas.");
+      return;
+    }
+
     const controller = new AbortController();
-    const query = selectedDate ? `?date=${encodeURIComponent(selectedDate)}` : "";
+    const params = new URLSearchParams({ eventoId: String(eventoId) });
+    if (selectedDate) {
+      params.set("date", selectedDate);
+    }
+    const query = `?${params.toString()}`;
 
     setIsLoading(true);
     setError(null);
@@ -69,7 +93,7 @@ export default function DashboardPage() {
       });
 
     return () => controller.abort();
-  }, [selectedDate]);
+  }, [selectedDate, eventoId, eventosLoading]);
 
   const chartData = useMemo(
     () => [
@@ -127,6 +151,7 @@ export default function DashboardPage() {
             </div>
           </div>
           <div className="flex flex-col items-start gap-3 rounded-2xl bg-brand-secondary/10 px-5 py-3 text-sm text-brand-primary md:items-end">
+            <EventoSelector eventos={eventos} value={eventoId} onChange={setEventoId} />
             <div className="flex items-center gap-2 text-xs font-semibold uppercase tracking-widest text-brand-accent/60">
               <span>Filtro por día</span>
               <span className="h-2 w-2 rounded-full bg-brand-secondary" aria-hidden />
@@ -180,6 +205,76 @@ export default function DashboardPage() {
           </div>
         </section>
 
+        {data?.ocupacion ? (
+          <section className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary">
+            <div className="flex flex-wrap items-end justify-between gap-3">
+              <div>
+                <h2 className="text-lg font-semibold">Ocupación en tiempo real</h2>
+                <p className="text-xs text-brand-accent/70">Entradas menos salidas registradas en el evento</p>
+              </div>
+              <p className="text-3xl font-semibold">
+                {data.ocupacion.dentro}
+                <span className="text-base font-medium text-brand-accent/70">
+                  {data.ocupacion.capacidad ? ` / ${data.ocupacion.capacidad}` : " personas dentro"}
+                </span>
+              </p>
+            </div>
+            {data.ocupacion.capacidad ? (
+              <div className="h-3 overflow-hidden rounded-full bg-brand-secondary/10">
+                <div
+                  className={`h-full rounded-full ${
+                    data.ocupacion.dentro >= data.ocupacion.capacidad ? "bg-red-500" : "bg-brand-secondary"
+                  }`}
+                  style={{ width: `${Math.min(100, (data.ocupacion.dentro / data.ocupacion.capacidad) * 100)}%` }}
+                />
+              </div>
+            ) : null}
+            {data.ocupacion.porZona.length > 0 ? (
+              <ul className="grid grid-cols-1 gap-2 text-sm sm:grid-cols-2 lg:grid-cols-3">
+                {data.ocupacion.porZona.map((zona) => (
+                  <li key={zona.zona} className="flex items-center justify-between rounded-xl bg-brand-secondary/10 px-4 py-2">
+                    <span>{zona.zona}</span>
+                    <span className="font-semibold">{zona.dentro}</span>
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </section>
+        ) : null}
+
+        <section className="grid grid-cols-1 gap-6 md:grid-cols-2">
+          <article className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary">
+            <h2 className="text-lg font-semibold">Ingresos por puerta</h2>
+            {(data?.porPuntoControl.length ?? 0) === 0 ? (
+              <p className="text-sm text-brand-accent/70">Sin ingresos registrados en este período.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {data?.porPuntoControl.map((fila) => (
+                  <li key={fila.puntoControl} className="flex items-center justify-between rounded-xl bg-brand-secondary/10 px-4 py-2">
+                    <span>{fila.puntoControl}</span>
+                    <span className="font-semibold">{fila.total}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </article>
+          <article className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary">
+            <h2 className="text-lg font-semibold">Ingresos por guardia</h2>
+            {(data?.porGuardia.length ?? 0) === 0 ? (
+              <p className="text-sm text-brand-accent/70">Sin ingresos registrados en este período.</p>
+            ) : (
+              <ul className="space-y-2 text-sm">
+                {data?.porGuardia.map((fila) => (
+                  <li key={fila.usuario} className="flex items-center justify-between rounded-xl bg-brand-secondary/10 px-4 py-2">
+                    <span className="truncate">{fila.usuario}</span>
+                    <span className="font-semibold">{fila.total}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </article>
+        </section>
+
         <section className="grid grid-cols-1 gap-6 lg:grid-cols-[1.2fr_0.8fr]">
           <div className="card-surface flex flex-col gap-6 rounded-3xl px-8 py-10 text-brand-primary">
             <div className="flex flex-wrap items-center justify-between gap-3">
@@ -4,8 +4,112 @@ import Image from "next/image";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import { Scanner } from "@yudiel/react-qr-scanner";
 import { BrowserQRCodeReader } from "@zxing/browser";
+import { EventoSelector, useEventoSeleccionado } from "@/components/EventoSelector";
+import { PuntoControlSelector, usePuntoControlSeleccionado } from "@/components/PuntoControlSelector";
+import {
+  eliminarPendientes,
+  guardarSnapshot,
+  listarPendientes,
+  obtenerInfoSnapshot,
+  registrarIngresoLocal,
+  type InfoSnapshot,
+} from "@/lib/escanerOffline";
+import { validarIdentificacion } from "@/lib/identificacion";
 
 const SCAN_COOLDOWN_MS = 2000;
+const SYNC_BATCH_SIZE = 500;
+
+type ModoEscaneo = "entrada" | "salida";
+
+type OcupacionResumen = {
+  dentro: number;
+  capacidad: number | null;
+};
+
+type FichaEscaneo = {
+  codigo: string;
+  titular: string | null;
+  cedula: string | null;
+  tipoQr: "est" | "fam" | "vis";
+  tipoPersona: "estudiante" | "familiar" | "visitante" | null;
+  maxUsos: number;
+  usosActual: number;
+  disponibles: number;
+  escaneosPrevios: string[];
+  adicional: boolean;
+  evento: string | null;
+};
+
+type ResultadoEscaneo = {
+  /** `registrado`, `salida` o el motivo de rechazo devuelto por la API */
+  estado: string;
+  mensaje: string;
+  ficha: FichaEscaneo | null;
+};
+
+const TIPO_QR_LABELS: Record<FichaEscaneo["tipoQr"], string> = {
+  est: "Estudiante",
+  fam: "Familiar",
+  vis: "Visitante",
+};
+
+const CATEGORIAS_RESULTADO: Record<string, { titulo: string; clase: string }> = {
+  registrado: { titulo: "Acceso permitido", clase: "border-emerald-300 bg-emerald-50 text-emerald-900" },
+  salida: { titulo: "Salida registrada", clase: "border-sky-300 bg-sky-50 text-sky-900" },
+  no_encontrado: { titulo: "QR no encontrado", clase: "border-slate-300 bg-slate-100 text-slate-800" },
+  agotado: { titulo: "Usos agotados", clase: "border-orange-300 bg-orange-50 text-orange-900" },
+  revocado: { titulo: "QR revocado", clase: "border-rose-400 bg-rose-50 text-rose-900" },
+  otro_evento: { titulo: "Evento equivocado", clase: "border-violet-300 bg-violet-50 text-violet-900" },
+  falsificado: { titulo: "QR falsificado", clase: "border-red-400 bg-red-50 text-red-900" },
+};
+
+const CATEGORIA_RECHAZO = { titulo: "Acceso denegado", clase: "border-amber-300 bg-amber-50 text-amber-900" };
+
+const formatHora = (value: string) =>
+  new Intl.DateTimeFormat("es-EC", { dateStyle: "short", timeStyle: "short" }).format(new Date(value));
+
+type RespuestaIngreso = {
+  success?: boolean;
+  message?: string;
+  error?: string;
+  motivo?: string;
+  ingresoId?: number;
+  ficha?: FichaEscaneo | null;
+  ocupacion?: OcupacionResumen;
+};
+
+type PersonaManual = {
+  id: number;
+  titular: string;
+  cedula: string | null;
+  activo: boolean;
+  codigos: Array<{
+    id: number;
+    codigo: string;
+    tipo: FichaEscaneo["tipoQr"];
+    maxUsos: number;
+    usosActual: number;
+    disponibles: number;
+  }>;
+};
+
+type UltimoEscaneo = {
+  ingresoId: number;
+  tipo: ModoEscaneo;
+  codigo: string;
+};
+
+const MOTIVOS_ANULACION = [
+  "Escaneo duplicado",
+  "Se registró en el modo equivocado",
+  "La persona no ingresó",
+];
+
+type IncidenciaSync = {
+  id: string;
+  estado: "conflicto" | "rechazado";
+  mensaje: string;
+};
 
 export default function EscanerPage() {
   const [message, setMessage] = useState("Escanea un código QR para registrar el acceso");
@@ -13,7 +117,28 @@ export default function EscanerPage() {
   const [permissionError, setPermissionError] = useState("");
   const [checkingPermission, setCheckingPermission] = useState(true);
   const [dailyTotal, setDailyTotal] = useState<number | null>(null);
+  const [ocupacion, setOcupacion] = useState<OcupacionResumen | null>(null);
+  const [modo, setModo] = useState<ModoEscaneo>("entrada");
+  const { eventos, eventoId, setEventoId } = useEventoSeleccionado();
+  const { puntosControl, puntoControlId, setPuntoControlId } = usePuntoControlSeleccionado();
+  const [modoOffline, setModoOffline] = useState(false);
+  const [snapshotInfo, setSnapshotInfo] = useState<InfoSnapshot | null>(null);
+  const [descargando, setDescargando] = useState(false);
+  const [pendientes, setPendientes] = useState(0);
+  const [sincronizando, setSincronizando] = useState(false);
+  const [incidencias, setIncidencias] = useState<IncidenciaSync[]>([]);
+  const [offlineStatus, setOfflineStatus] = useState<string | null>(null);
+  const [ultimoEscaneo, setUltimoEscaneo] = useState<UltimoEscaneo | null>(null);
+  const [resultado, setResultado] = useState<ResultadoEscaneo | null>(null);
+  const [busquedaManual, setBusquedaManual] = useState("");
+  const [personasManual, setPersonasManual] = useState<PersonaManual[] | null>(null);
+  const [buscandoManual, setBuscandoManual] = useState(false);
+  const [errorManual, setErrorManual] = useState<string | null>(null);
+  const [registrandoManualId, setRegistrandoManualId] = useState<number | null>(null);
+  const [motivoAnulacion, setMotivoAnulacion] = useState(MOTIVOS_ANULACION[0]);
+  const [anulando, setAnulando] = useState(false);
   const processingRef = useRef(false);
+  const syncingRef = useRef(false);
   const audioContextRef = useRef<AudioContext | null>(null);
   const todayString = useMemo(() => new Date().toISOString().slice(0, 10), []);
   const todayLabel = useMemo(
@@ -102,11 +227,16 @@ export default function EscanerPage() {
   }, [requestCameraAccess]);
 
   useEffect(() => {
+    if (!eventoId) {
+      setDailyTotal(null);
+      setOcupacion(null);
+      return;
+    }
     const controller = new AbortController();
 
     const loadDailyTotal = async () => {
       try {
-        const response = await fetch(`/api/dashboard?date=${todayString}`, {
+        const response = await fetch(`/api/ingreso?date=${todayString}&eventoId=${eventoId}`, {
           cache: "no-store",
           signal: controller.signal,
         });
@@ -114,8 +244,8 @@ export default function EscanerPage() {
         if (!response.ok || !payload) {
           return;
         }
-        const totalValue = typeof payload.totalHoy === "number" ? payload.totalHoy : payload.total;
-        setDailyTotal(typeof totalValue === "number" ? totalValue : 0);
+        setDailyTotal(typeof payload.total === "number" ? payload.total : 0);
+        setOcupacion(payload.ocupacion ?? null);
       } catch (error) {
         if ((error as DOMException).name === "AbortError") return;
         console.error("No se pudo cargar el total del día", error);
@@ -125,7 +255,145 @@ export default function EscanerPage() {
     void loadDailyTotal();
 
     return () => controller.abort();
-  }, [todayString]);
+  }, [todayString, eventoId]);
+
+  const refreshOfflineState = useCallback(async () => {
+    try {
+      const [info, cola] = await Promise.all([obtenerInfoSnapshot(), listarPendientes()]);
+      setSnapshotInfo(info);
+      setPendientes(cola.length);
+    } catch (error) {
+      console.error("No se pudo leer el almacenamiento local del escáner", error);
+    }
+  }, []);
+
+  const descargarSnapshot = useCallback(async () => {
+    if (!eventoId) {
+      setOfflineStatus("Selecciona un evento antes de descargar la lista");
+      return;
+    }
+    setDescargando(true);
+    setOfflineStatus(null);
+    try {
+      // Reemplazar la lista con ingresos sin sincronizar perdería los usos descontados localmente
+      if ((await listarPendientes()).length > 0) {
+        setOfflineStatus("Sincroniza los ingresos pendientes antes de descargar una nueva lista");
+        return;
+      }
+      const response = await fetch(`/api/ingreso/snapshot?eventoId=${eventoId}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload) {
+        setOfflineStatus(payload?.error ?? "No se pudo descargar la lista de códigos");
+        return;
+      }
+      await guardarSnapshot(eventoId, payload.generadoAt, payload.codigos ?? []);
+      await refreshOfflineState();
+      setOfflineStatus(`Lista descargada: ${payload.codigos?.length ?? 0} códigos`);
+    } catch (error) {
+      console.error("Error descargando la lista de códigos", error);
+      setOfflineStatus("Sin conexión: no se pudo descargar la lista de códigos");
+    } finally {
+      setDescargando(false);
+    }
+  }, [eventoId, refreshOfflineState]);
+
+  const sincronizar = useCallback(async () => {
+    if (syncingRef.current) {
+      return;
+    }
+    syncingRef.current = true;
+    setSincronizando(true);
+    try {
+      const cola = await listarPendientes();
+      if (cola.length === 0) {
+        setOfflineStatus("No hay ingresos pendientes por sincronizar");
+        return;
+      }
+
+      const nuevasIncidencias: IncidenciaSync[] = [];
+      let registrados = 0;
+      let conError = 0;
+
+      const porEvento = new Map<number, typeof cola>();
+      cola.forEach((item) => porEvento.set(item.eventoId, [...(porEvento.get(item.eventoId) ?? []), item]));
+
+      for (const [loteEventoId, items] of porEvento) {
+        for (let index = 0; index < items.length; index += SYNC_BATCH_SIZE) {
+          const lote = items.slice(index, index + SYNC_BATCH_SIZE);
+          const response = await fetch("/api/ingreso/lote", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              eventoId: loteEventoId,
+              ingresos: lote.map(({ id, codigo, fecha, puntoControlId: puerta, tipo }) => ({
+                id,
+                codigo,
+                fecha,
+                puntoControlId: puerta,
+                tipo: tipo ?? "entrada",
+              })),
+            }),
+          });
+          const payload = await response.json().catch(() => null);
+          if (!response.ok || !payload?.success) {
+            throw new Error(payload?.error ?? "No se pudo sincronizar el lote");
+          }
+
+          const resultados: Array<{ id: string; estado: string; mensaje: string }> = payload.resultados ?? [];
+          registrados += payload.registrados ?? 0;
+          resultados.forEach((resultado) => {
+            if (resultado.estado === "conflicto" || resultado.estado === "rechazado") {
+              nuevasIncidencias.push({ id: resultado.id, estado: resultado.estado, mensaje: resultado.mensaje });
+            }
+          });
+          // Los que fallaron en el servidor siguen en la cola; el servidor reconoce los ya registrados por su id
+          conError += resultados.filter((resultado) => resultado.estado === "error").length;
+          await eliminarPendientes(
+            resultados.filter((resultado) => resultado.estado !== "error").map((resultado) => resultado.id)
+          );
+        }
+      }
+
+      setIncidencias((prev) => [...nuevasIncidencias, ...prev]);
+      setOfflineStatus(
+        (nuevasIncidencias.length > 0
+          ? `Sincronizados ${registrados} ingresos · ${nuevasIncidencias.length} con conflicto`
+          : `Sincronizados ${registrados} ingresos sin conflictos`) +
+          (conError > 0 ? ` · ${conError} pendientes por un error del servidor` : "")
+      );
+      if (eventoId) {
+        void descargarSnapshot();
+      }
+    } catch (error) {
+      console.error("Error sincronizando ingresos", error);
+      setOfflineStatus("No se pudo sincronizar. Se reintentará cuando vuelva la conexión.");
+    } finally {
+      syncingRef.current = false;
+      setSincronizando(false);
+      await refreshOfflineState();
+    }
+  }, [descargarSnapshot, eventoId, refreshOfflineState]);
+
+  useEffect(() => {
+    void refreshOfflineState();
+    if (typeof navigator !== "undefined" && !navigator.onLine) {
+      setModoOffline(true);
+    }
+  }, [refreshOfflineState]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      void sincronizar();
+    };
+    const handleOffline = () => setModoOffline(true);
+
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [sincronizar]);
 
   const playTone = useCallback(async (frequency: number, durationMs = 160) => {
     try {
@@ -161,6 +429,32 @@ export default function EscanerPage() {
     }
   }, []);
 
+  const mostrarRespuesta = useCallback(
+    (ok: boolean, payload: RespuestaIngreso | null, codigo: string) => {
+      if (payload?.ocupacion) {
+        setOcupacion(payload.ocupacion);
+      }
+
+      setResultado({
+        estado: ok && payload?.success ? (modo === "salida" ? "salida" : "registrado") : payload?.motivo ?? "",
+        mensaje: (ok && payload?.success ? payload.message : payload?.error) ?? "",
+        ficha: payload?.ficha ?? null,
+      });
+
+      if (ok && payload?.success) {
+        setMessage(`✅ ${payload.message}`);
+        if (typeof payload.ingresoId === "number") {
+          setUltimoEscaneo({ ingresoId: payload.ingresoId, tipo: modo, codigo });
+        }
+        playTone(880, 180).catch(() => undefined);
+      } else {
+        setMessage(`❌ ${payload?.error || "No se pudo registrar el ingreso"}`);
+        playTone(260, 260).catch(() => undefined);
+      }
+    },
+    [modo, playTone]
+  );
+
   const handleScan = useCallback(
     async (result: string) => {
       if (!result || processingRef.current) {
@@ -169,23 +463,68 @@ export default function EscanerPage() {
 
       processingRef.current = true;
       setMessage("🔄 Verificando código…");
+      setUltimoEscaneo(null);
+      setResultado(null);
 
-      try {
-        const response = await fetch("/api/ingreso", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ codigo: result }),
-        });
-
-        const payload = await response.json();
-
-        if (response.ok && payload.success) {
-          setMessage(`✅ ${payload.message}`);
+      const validarSinConexion = async () => {
+        if (!eventoId) {
+          setMessage("⚠️ Selecciona un evento para validar sin conexión");
+          playTone(180, 260).catch(() => undefined);
+          return;
+        }
+        const local = await registrarIngresoLocal(result, eventoId, puntoControlId, modo);
+        if (local.ok) {
+          setMessage(`✅ ${local.mensaje}${local.codigo.titular ? ` · ${local.codigo.titular}` : ""}`);
           playTone(880, 180).catch(() => undefined);
         } else {
-          setMessage(`❌ ${payload.error || "No se pudo registrar el ingreso"}`);
+          setMessage(`❌ ${local.mensaje}`);
           playTone(260, 260).catch(() => undefined);
         }
+        await refreshOfflineState();
+      };
+
+      if (modoOffline) {
+        try {
+          await validarSinConexion();
+        } catch (error) {
+          console.error(error);
+          setMessage("⚠️ No se pudo validar con la lista local");
+          playTone(180, 260).catch(() => undefined);
+        } finally {
+          window.setTimeout(() => {
+            processingRef.current = false;
+          }, SCAN_COOLDOWN_MS);
+        }
+        return;
+      }
+
+      try {
+        let response: Response;
+        try {
+          response = await fetch("/api/ingreso", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ codigo: result, eventoId, puntoControlId, tipo: modo }),
+          });
+        } catch (error) {
+          // Solo un fallo de red pasa a validar con la lista descargada; si el servidor respondió
+          // (sesión vencida, sin permiso, error interno) el escaneo no se acepta sin conexión
+          if (!(error instanceof TypeError)) {
+            throw error;
+          }
+          console.error(error);
+          if (snapshotInfo && snapshotInfo.eventoId === eventoId) {
+            setModoOffline(true);
+            await validarSinConexion().catch(() => setMessage("⚠️ Error al conectar con el servidor"));
+          } else {
+            setMessage("⚠️ Error al conectar con el servidor");
+            playTone(180, 260).catch(() => undefined);
+          }
+          return;
+        }
+
+        const payload: RespuestaIngreso | null = await response.json().catch(() => null);
+        mostrarRespuesta(response.ok, payload, result);
       } catch (error) {
         console.error(error);
         setMessage("⚠️ Error al conectar con el servidor");
@@ -196,9 +535,120 @@ export default function EscanerPage() {
         }, SCAN_COOLDOWN_MS);
       }
     },
-    [playTone]
+    [playTone, eventoId, puntoControlId, modo, modoOffline, snapshotInfo, refreshOfflineState, mostrarRespuesta]
   );
 
+  const buscarManual = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!eventoId) {
+      setErrorManual("Selecciona un evento para buscar asistentes");
+      return;
+    }
+    const termino = busquedaManual.trim();
+    // Una cédula o RUC completo se valida antes de consultar; los prefijos se buscan tal cual
+    if (/^\d{10}$|^\d{13}$/.test(termino)) {
+      const identificacion = validarIdentificacion(termino);
+      if (!identificacion.ok) {
+        setPersonasManual(null);
+        setErrorManual(`Identificación inválida: ${identificacion.error}`);
+        return;
+      }
+    }
+    setBuscandoManual(true);
+    setErrorManual(null);
+    try {
+      const response = await fetch(
+        `/api/ingreso/buscar?eventoId=${eventoId}&q=${encodeURIComponent(termino)}`,
+        { cache: "no-store" }
+      );
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        setPersonasManual(null);
+        setErrorManual(payload?.error || "No se pudo realizar la búsqueda");
+        return;
+      }
+      setPersonasManual(payload?.personas ?? []);
+    } catch (error) {
+      console.error("Error en la búsqueda manual", error);
+      setErrorManual("Error al conectar con el servidor");
+    } finally {
+      setBuscandoManual(false);
+    }
+  };
+
+  const registrarManual = async (codigoId: number, codigo: string) => {
+    if (processingRef.current) {
+      return;
+    }
+    processingRef.current = true;
+    setRegistrandoManualId(codigoId);
+    setUltimoEscaneo(null);
+    setResultado(null);
+    try {
+      const response = await fetch("/api/ingreso", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ codigoId, eventoId, puntoControlId, tipo: modo }),
+      });
+      const payload: RespuestaIngreso | null = await response.json().catch(() => null);
+      mostrarRespuesta(response.ok, payload, codigo);
+
+      if (response.ok && payload?.ficha) {
+        const { disponibles, usosActual } = payload.ficha;
+        setPersonasManual((prev) =>
+          prev
+            ? prev.map((persona) => ({
+                ...persona,
+                codigos: persona.codigos.map((item) =>
+                  item.id === codigoId ? { ...item, disponibles, usosActual } : item
+                ),
+              }))
+            : prev
+        );
+      }
+    } catch (error) {
+      console.error("Error en el registro manual", error);
+      setMessage("⚠️ Error al conectar con el servidor");
+    } finally {
+      processingRef.current = false;
+      setRegistrandoManualId(null);
+    }
+  };
+
+  const handleAnularUltimo = useCallback(async () => {
+    if (!ultimoEscaneo || anulando) {
+      return;
+    }
+    setAnulando(true);
+    try {
+      const response = await fetch("/api/ingreso/anular", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ingresoId: ultimoEscaneo.ingresoId, motivo: motivoAnulacion }),
+      });
+      const payload = await response.json().catch(() => null);
+
+      if (!response.ok || !payload?.success) {
+        setMessage(`❌ ${payload?.error || "No se pudo anular el escaneo"}`);
+        return;
+      }
+
+      if (payload.ocupacion) {
+        setOcupacion(payload.ocupacion);
+      }
+      if (ultimoEscaneo.tipo === "entrada") {
+        setDailyTotal((prev) => (prev === null ? prev : Math.max(prev - 1, 0)));
+      }
+      setUltimoEscaneo(null);
+      setMessage(`⚠️ ${payload.message}`);
+    } catch (error) {
+      console.error("Error anulando el último escaneo", error);
+      setMessage("⚠️ Error al conectar con el servidor");
+    } finally {
+      setAnulando(false);
+    }
+  }, [ultimoEscaneo, anulando, motivoAnulacion]);
+
   const messageClass = message.startsWith("✅")
     ? "bg-emerald-100/90 text-emerald-800"
     : message.startsWith("❌")
@@ -221,17 +671,78 @@ export default function EscanerPage() {
               <h1 className="text-3xl font-semibold text-brand-primary">Escáner de códigos QR</h1>
             </div>
           </div>
-          <div className="rounded-2xl bg-brand-secondary/10 px-3 py-3 text-sm text-brand-primary md:text-right">
-            <p className="text-xs uppercase tracking-[0.28em] text-brand-accent/70">Asistentes hoy</p>
-            <p className="mt-1 text-2xl font-semibold text-brand-primary">{dailyTotal ?? "—"}</p>
-            <p className="text-xs text-brand-accent/70">Registros del {todayLabel}</p>
+          <div className="flex flex-col gap-3 md:flex-row md:items-center">
+            <EventoSelector eventos={eventos} value={eventoId} onChange={setEventoId} />
+            <PuntoControlSelector puntosControl={puntosControl} value={puntoControlId} onChange={setPuntoControlId} />
+            <div className="rounded-2xl bg-brand-secondary/10 px-3 py-3 text-sm text-brand-primary md:text-right">
+              <p className="text-xs uppercase tracking-[0.28em] text-brand-accent/70">Asistentes hoy</p>
+              <p className="mt-1 text-2xl font-semibold text-brand-primary">{dailyTotal ?? "—"}</p>
+              <p className="text-xs text-brand-accent/70">Registros del {todayLabel}</p>
+            </div>
+            <div className="rounded-2xl bg-brand-secondary/10 px-3 py-3 text-sm text-brand-primary md:text-right">
+              <p className="text-xs uppercase tracking-[0.28em] text-brand-accent/70">Dentro ahora</p>
+              <p
+                className={`mt-1 text-2xl font-semibold ${
+                  ocupacion?.capacidad && ocupacion.dentro >= ocupacion.capacidad ? "text-red-600" : "text-brand-primary"
+                }`}
+              >
+                {ocupacion ? ocupacion.dentro : "—"}
+              </p>
+              <p className="text-xs text-brand-accent/70">
+                {ocupacion?.capacidad ? `Aforo máximo ${ocupacion.capacidad}` : "Sin aforo configurado"}
+              </p>
+            </div>
           </div>
         </header>
 
         <section className="grid grid-cols-1 gap-6 lg:grid-cols-[2fr_1fr]">
           <div className="card-surface flex flex-col gap-5 rounded-3xl px-5 py-5 text-brand-primary">
-            <h2 className="text-lg font-semibold">Lector en vivo</h2>
+            <div className="flex flex-wrap items-center justify-between gap-3">
+              <h2 className="text-lg font-semibold">Lector en vivo</h2>
+              <div className="inline-flex rounded-xl bg-brand-secondary/10 p-1 text-xs font-semibold">
+                {(["entrada", "salida"] as const).map((opcion) => (
+                  <button
+                    key={opcion}
+                    type="button"
+                    onClick={() => setModo(opcion)}
+                    className={`rounded-lg px-4 py-1.5 transition ${
+                      modo === opcion ? "bg-brand-secondary text-white shadow" : "text-brand-primary hover:bg-white/60"
+                    }`}
+                  >
+                    {opcion === "entrada" ? "Entrada" : "Salida"}
+                  </button>
+                ))}
+              </div>
+            </div>
             <div className={`rounded-2xl px-4 py-4 text-sm font-medium ${messageClass}`}>{message}</div>
+            {resultado ? <TarjetaResultado resultado={resultado} /> : null}
+            {ultimoEscaneo ? (
+              <div className="flex flex-col gap-2 rounded-2xl border border-brand-secondary/20 bg-white/60 px-4 py-3 text-xs sm:flex-row sm:items-center">
+                <span className="font-semibold text-brand-primary">
+                  ¿Escaneo por error? Anula {ultimoEscaneo.tipo === "entrada" ? "la entrada" : "la salida"} de{" "}
+                  {ultimoEscaneo.codigo.split(".")[0]}
+                </span>
+                <select
+                  value={motivoAnulacion}
+                  onChange={(event) => setMotivoAnulacion(event.target.value)}
+                  className="rounded-lg border border-brand-secondary/30 bg-white px-2 py-1.5 text-brand-primary focus:border-brand-secondary focus:outline-none"
+                >
+                  {MOTIVOS_ANULACION.map((motivo) => (
+                    <option key={motivo} value={motivo}>
+                      {motivo}
+                    </option>
+                  ))}
+                </select>
+                <button
+                  type="button"
+                  onClick={handleAnularUltimo}
+                  disabled={anulando}
+                  className="rounded-lg bg-red-500 px-3 py-1.5 font-semibold text-white transition hover:bg-red-400 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {anulando ? "Anulando…" : "Anular"}
+                </button>
+              </div>
+            ) : null}
             <div className="relative aspect-square overflow-hidden rounded-3xl border border-brand-secondary/30 bg-brand-secondary/5">
               {!hasPermission && !checkingPermission ? (
                 <div className="flex h-full flex-col items-center justify-center gap-4 text-center text-sm text-brand-primary">
@@ -264,11 +775,136 @@ export default function EscanerPage() {
           </div>
 
           <aside className="card-surface flex flex-col gap-6 rounded-3xl px-6 py-8 text-brand-primary">
+            <div className="space-y-3 text-sm">
+              <p className="font-semibold text-brand-primary">Registro manual</p>
+              <p className="text-xs text-brand-accent/80">
+                Para asistentes que no pueden mostrar el QR: busca por cédula o por nombre y apellido.
+              </p>
+              <form onSubmit={buscarManual} className="flex gap-2">
+                <input
+                  type="text"
+                  value={busquedaManual}
+                  onChange={(event) => setBusquedaManual(event.target.value)}
+                  placeholder="Cédula o nombre"
+                  disabled={modoOffline}
+                  className="min-w-0 flex-1 rounded-xl border border-brand-secondary/30 bg-white px-3 py-2 text-xs text-brand-primary focus:border-brand-secondary focus:outline-none disabled:opacity-60"
+                />
+                <button
+                  type="submit"
+                  disabled={modoOffline || buscandoManual || busquedaManual.trim().length < 3}
+                  className="rounded-xl bg-brand-secondary px-3 py-2 text-xs font-semibold text-white shadow-md shadow-brand-secondary/30 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {buscandoManual ? "Buscando…" : "Buscar"}
+                </button>
+              </form>
+              {modoOffline ? (
+                <p className="text-xs text-amber-700">El registro manual necesita conexión con el servidor.</p>
+              ) : null}
+              {errorManual ? <p className="text-xs font-medium text-red-600">{errorManual}</p> : null}
+              {personasManual && personasManual.length === 0 ? (
+                <p className="text-xs text-brand-accent/80">No se encontraron asistentes con códigos en este evento.</p>
+              ) : null}
+              {personasManual && personasManual.length > 0 ? (
+                <ul className="max-h-72 space-y-2 overflow-y-auto">
+                  {personasManual.map((persona) => (
+                    <li key={persona.id} className="rounded-2xl bg-brand-secondary/10 px-3 py-3 text-xs">
+                      <p className="font-semibold text-brand-primary">{persona.titular}</p>
+                      <p className="text-brand-accent/80">
+                        {persona.cedula ? `Cédula ${persona.cedula}` : "Sin cédula"}
+                        {persona.activo ? "" : " · Titular desactivado"}
+                      </p>
+                      <ul className="mt-2 space-y-1">
+                        {persona.codigos.map((codigo) => (
+                          <li key={codigo.id} className="flex items-center justify-between gap-2">
+                            <span>
+                              {TIPO_QR_LABELS[codigo.tipo]} · {codigo.disponibles} de {codigo.maxUsos}
+                            </span>
+                            <button
+                              type="button"
+                              onClick={() => registrarManual(codigo.id, codigo.codigo)}
+                              disabled={registrandoManualId !== null}
+                              className="rounded-lg border border-brand-secondary/40 px-2 py-1 font-semibold text-brand-primary transition hover:bg-white/70 disabled:cursor-not-allowed disabled:opacity-60"
+                            >
+                              {registrandoManualId === codigo.id
+                                ? "Registrando…"
+                                : modo === "entrada"
+                                ? "Registrar entrada"
+                                : "Registrar salida"}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    </li>
+                  ))}
+                </ul>
+              ) : null}
+            </div>
+
+            <div className="space-y-3 text-sm">
+              <div className="flex items-center justify-between gap-3">
+                <p className="font-semibold text-brand-primary">Modo sin conexión</p>
+                <label className="flex items-center gap-2 text-xs text-brand-accent/80">
+                  <input
+                    type="checkbox"
+                    checked={modoOffline}
+                    onChange={(event) => setModoOffline(event.target.checked)}
+                    className="h-4 w-4 accent-brand-secondary"
+                  />
+                  Validar localmente
+                </label>
+              </div>
+              <p className="text-xs text-brand-accent/80">
+                {snapshotInfo
+                  ? `Lista local: ${snapshotInfo.total} códigos · ${new Date(snapshotInfo.generadoAt).toLocaleTimeString("es-EC")}${
+                      snapshotInfo.eventoId !== eventoId ? " (otro evento)" : ""
+                    }`
+                  : "Aún no se ha descargado la lista de códigos."}
+              </p>
+              <p className="text-xs text-brand-accent/80">Ingresos pendientes por sincronizar: {pendientes}</p>
+              <div className="flex flex-wrap gap-2">
+                <button
+                  type="button"
+                  onClick={descargarSnapshot}
+                  disabled={descargando || !eventoId}
+                  className="rounded-xl bg-brand-secondary px-3 py-2 text-xs font-semibold text-white shadow-md shadow-brand-secondary/30 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {descargando ? "Descargando…" : "Descargar lista"}
+                </button>
+                <button
+                  type="button"
+                  onClick={sincronizar}
+                  disabled={sincronizando || pendientes === 0}
+                  className="rounded-xl border border-brand-secondary/40 px-3 py-2 text-xs font-semibold text-brand-primary transition hover:bg-brand-secondary/10 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  {sincronizando ? "Sincronizando…" : "Sincronizar ahora"}
+                </button>
+              </div>
+              {offlineStatus ? <p className="text-xs font-medium text-brand-primary">{offlineStatus}</p> : null}
+              {incidencias.length > 0 ? (
+                <div className="space-y-2 rounded-2xl bg-amber-100/80 px-3 py-3 text-xs text-amber-800">
+                  <div className="flex items-center justify-between">
+                    <p className="font-semibold">Conflictos de sincronización</p>
+                    <button type="button" onClick={() => setIncidencias([])} className="underline">
+                      Limpiar
+                    </button>
+                  </div>
+                  <ul className="max-h-40 space-y-1 overflow-y-auto">
+                    {incidencias.map((incidencia) => (
+                      <li key={incidencia.id}>
+                        {incidencia.estado === "conflicto" ? "⚠️" : "❌"} {incidencia.mensaje}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+            </div>
+
             <div className="space-y-3 text-xs text-brand-accent/80">
               <p className="font-semibold text-brand-primary">Recomendaciones</p>
               <ul className="space-y-2">
                 <li>• Mantén limpia la cámara del dispositivo.</li>
                 <li>• Asegúrate de contar con conexión estable a internet.</li>
+                <li>• Descarga la lista de códigos antes de abrir las puertas por si se cae la red.</li>
                 <li>• Repite el escaneo si el código fue rechazado por usos excedidos.</li>
               </ul>
             </div>
@@ -278,3 +914,54 @@ export default function EscanerPage() {
     </main>
   );
 }
+
+function TarjetaResultado({ resultado }: { resultado: ResultadoEscaneo }) {
+  const categoria = CATEGORIAS_RESULTADO[resultado.estado] ?? CATEGORIA_RECHAZO;
+  const { ficha } = resultado;
+
+  return (
+    <article className={`rounded-2xl border-2 px-4 py-4 text-sm ${categoria.clase}`}>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-xs font-semibold uppercase tracking-[0.28em]">{categoria.titulo}</p>
+        {ficha?.adicional ? (
+          <span className="rounded-full bg-white/80 px-3 py-1 text-xs font-semibold">Boleto adicional</span>
+        ) : null}
+      </div>
+      {ficha ? (
+        <div className="mt-3 space-y-3">
+          <div>
+            <p className="text-xl font-semibold">{ficha.titular ?? "Sin titular registrado"}</p>
+            <p className="text-xs opacity-80">
+              {ficha.cedula ? `Cédula ${ficha.cedula}` : "Sin cédula"} · {TIPO_QR_LABELS[ficha.tipoQr]}
+            </p>
+          </div>
+          <div className="grid grid-cols-2 gap-3 text-xs">
+            <div className="rounded-xl bg-white/70 px-3 py-2">
+              <p className="uppercase tracking-[0.2em] opacity-70">Disponibles</p>
+              <p className="text-lg font-semibold">
+                {ficha.disponibles} de {ficha.maxUsos}
+              </p>
+            </div>
+            <div className="rounded-xl bg-white/70 px-3 py-2">
+              <p className="uppercase tracking-[0.2em] opacity-70">Escaneos previos</p>
+              {ficha.escaneosPrevios.length === 0 ? (
+                <p className="font-semibold">Primer ingreso</p>
+              ) : (
+                <ul className="font-semibold">
+                  {ficha.escaneosPrevios.map((fecha) => (
+                    <li key={fecha}>{formatHora(fecha)}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </div>
+          {resultado.estado === "otro_evento" && ficha.evento ? (
+            <p className="text-xs font-semibold">Este QR corresponde al evento “{ficha.evento}”.</p>
+          ) : null}
+        </div>
+      ) : (
+        <p className="mt-2 font-medium">{resultado.mensaje}</p>
+      )}
+    </article>
+  );
+}
@@ -0,0 +1,620 @@
+"use client";
+
+import Image from "next/image";
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import type { EventoResumen } from "@/components/EventoSelector";
+import type { PuntoControlResumen } from "@/components/PuntoControlSelector";
+
+type EventoDetalle = EventoResumen & {
+  totales: {
+    codigos: number;
+    ingresos: number;
+    importaciones: number;
+    cajas: number;
+  };
+};
+
+type AlertState = { message: string; type: "success" | "error" } | null;
+
+type ReglaReingreso = {
+  tipo: "est" | "fam" | "vis";
+  intervaloMinimoSeg: number;
+  requiereSalida: boolean;
+  actualizadoPor: string | null;
+};
+
+const TIPO_QR_LABELS: Record<ReglaReingreso["tipo"], string> = {
+  est: "Estudiante",
+  fam: "Familiar",
+  vis: "Visitante / adicional",
+};
+
+const ESTADO_STYLES: Record<EventoResumen["estado"], string> = {
+  planificado: "bg-brand-secondary/10 text-brand-secondary",
+  activo: "bg-emerald-100 text-emerald-700",
+  finalizado: "bg-slate-200 text-slate-600",
+};
+
+const ESTADO_LABELS: Record<EventoResumen["estado"], string> = {
+  planificado: "Planificado",
+  activo: "Activo",
+  finalizado: "Finalizado",
+};
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat("es-EC", { dateStyle: "medium", timeStyle: "short" }).format(new Date(value));
+
+const EMPTY_FORM = { nombre: "", lugar: "", fechaInicio: "", fechaFin: "", capacidad: "" };
+
+export default function EventosPage() {
+  const { data: session, status } = useSession();
+  const canManage = session?.user?.role === "admin";
+
+  const [eventos, setEventos] = useState<EventoDetalle[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [updatingId, setUpdatingId] = useState<number | null>(null);
+  const [alert, setAlert] = useState<AlertState>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [puntosControl, setPuntosControl] = useState<PuntoControlResumen[]>([]);
+  const [puntoForm, setPuntoForm] = useState({ nombre: "", descripcion: "", zona: "" });
+  const [capacidadDrafts, setCapacidadDrafts] = useState<Record<number, string>>({});
+  const [reglas, setReglas] = useState<ReglaReingreso[]>([]);
+  const [savingRegla, setSavingRegla] = useState<ReglaReingreso["tipo"] | null>(null);
+  const [savingPunto, setSavingPunto] = useState(false);
+  const [updatingPuntoId, setUpdatingPuntoId] = useState<number | null>(null);
+
+  const cargarEventos = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await fetch("/api/eventos", { cache: "no-store" });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "No se pudieron cargar los eventos");
+      }
+      setEventos(Array.isArray(data?.eventos) ? data.eventos : []);
+    } catch (error) {
+      console.error(error);
+      setAlert({ type: "error", message: error instanceof Error ? error.message : "No se pudieron cargar los eventos" });
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const cargarPuntosControl = useCallback(async () => {
+    try {
+      const response = await fetch("/api/puntos-control", { cache: "no-store" });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "No se pudieron cargar los puntos de control");
+      }
+      setPuntosControl(Array.isArray(data?.puntosControl) ? data.puntosControl : []);
+    } catch (error) {
+      console.error(error);
+      setAlert({
+        type: "error",
+        message: error instanceof Error ? error.message : "No se pudieron cargar los puntos de control",
+      });
+    }
+  }, []);
+
+  const cargarReglas = useCallback(async () => {
+    try {
+      const response = await fetch("/api/reglas-reingreso", { cache: "no-store" });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "No se pudieron cargar las reglas de reingreso");
+      }
+      setReglas(Array.isArray(data?.reglas) ? data.reglas : []);
+    } catch (error) {
+      console.error(error);
+      setAlert({
+        type: "error",
+        message: error instanceof Error ? error.message : "No se pudieron cargar las reglas de reingreso",
+      });
+    }
+  }, []);
+
+  useEffect(() => {
+    if (status === "authenticated" && canManage) {
+      void cargarEventos();
+      void cargarPuntosControl();
+      void cargarReglas();
+    }
+  }, [status, canManage, cargarEventos, cargarPuntosControl, cargarReglas]);
+
+  useEffect(() => {
+    if (!alert) return;
+    const timeout = setTimeout(() => setAlert(null), 5000);
+    return () => clearTimeout(timeout);
+  }, [alert]);
+
+  const handleCreate = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSaving(true);
+    setAlert(null);
+    try {
+      const response = await fetch("/api/eventos", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          nombre: form.nombre,
+          lugar: form.lugar,
+          fechaInicio: form.fechaInicio,
+          fechaFin: form.fechaFin,
+          capacidad: form.capacidad ? Number(form.capacidad) : null,
+        }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "No se pudo crear el evento");
+      }
+      setForm(EMPTY_FORM);
+      setAlert({ type: "success", message: "Evento creado correctamente" });
+      await cargarEventos();
+    } catch (error) {
+      setAlert({ type: "error", message: error instanceof Error ? error.message : "No se pudo crear el evento" });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const cambiarEstado = async (eventoId: number, estado: EventoResumen["estado"]) => {
+    setUpdatingId(eventoId);
+    setAlert(null);
+    try {
+      const response = await fetch("/api/eventos", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: eventoId, estado }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "No se pudo actualizar el evento");
+      }
+      setAlert({ type: "success", message: `Evento marcado como ${ESTADO_LABELS[estado].toLowerCase()}` });
+      await cargarEventos();
+    } catch (error) {
+      setAlert({ type: "error", message: error instanceof Error ? error.message : "No se pudo actualizar el evento" });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const actualizarCapacidad = async (evento: EventoDetalle) => {
+    const draft = capacidadDrafts[evento.id]?.trim() ?? "";
+    setUpdatingId(evento.id);
+    setAlert(null);
+    try {
+      const response = await fetch("/api/eventos", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: evento.id, capacidad: draft ? Number(draft) : null }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "No se pudo actualizar el aforo");
+      }
+      setCapacidadDrafts((prev) => {
+        const next = { ...prev };
+        delete next[evento.id];
+        return next;
+      });
+      setAlert({ type: "success", message: draft ? `Aforo actualizado a ${draft} personas` : "Aforo sin límite" });
+      await cargarEventos();
+    } catch (error) {
+      setAlert({ type: "error", message: error instanceof Error ? error.message : "No se pudo actualizar el aforo" });
+    } finally {
+      setUpdatingId(null);
+    }
+  };
+
+  const handleCreatePunto = async (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    setSavingPunto(true);
+    setAlert(null);
+    try {
+      const response = await fetch("/api/puntos-control", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(puntoForm),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "No se pudo crear el punto de control");
+      }
+      setPuntoForm({ nombre: "", descripcion: "", zona: "" });
+      setAlert({ type: "success", message: "Punto de control creado correctamente" });
+      await cargarPuntosControl();
+    } catch (error) {
+      setAlert({ type: "error", message: error instanceof Error ? error.message : "No se pudo crear el punto de control" });
+    } finally {
+      setSavingPunto(false);
+    }
+  };
+
+  const cambiarEstadoPunto = async (punto: PuntoControlResumen) => {
+    setUpdatingPuntoId(punto.id);
+    setAlert(null);
+    try {
+      const response = await fetch("/api/puntos-control", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: punto.id, activo: !punto.activo }),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "No se pudo actualizar el punto de control");
+      }
+      setAlert({ type: "success", message: `${punto.nombre} ${punto.activo ? "desactivado" : "activado"}` });
+      await cargarPuntosControl();
+    } catch (error) {
+      setAlert({
+        type: "error",
+        message: error instanceof Error ? error.message : "No se pudo actualizar el punto de control",
+      });
+    } finally {
+      setUpdatingPuntoId(null);
+    }
+  };
+
+  const actualizarReglaLocal = (tipo: ReglaReingreso["tipo"], cambios: Partial<ReglaReingreso>) => {
+    setReglas((prev) => prev.map((regla) => (regla.tipo === tipo ? { ...regla, ...cambios } : regla)));
+  };
+
+  const guardarRegla = async (regla: ReglaReingreso) => {
+    setSavingRegla(regla.tipo);
+    setAlert(null);
+    try {
+      const response = await fetch("/api/reglas-reingreso", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(regla),
+      });
+      const data = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(data?.error || "No se pudo guardar la regla de reingreso");
+      }
+      setReglas(Array.isArray(data?.reglas) ? data.reglas : []);
+      setAlert({ type: "success", message: `Regla de reingreso para ${TIPO_QR_LABELS[regla.tipo]} guardada` });
+    } catch (error) {
+      setAlert({
+        type: "error",
+        message: error instanceof Error ? error.message : "No se pudo guardar la regla de reingreso",
+      });
+    } finally {
+      setSavingRegla(null);
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen items-center justify-center">
+          <p className="text-lg font-medium">Cargando acceso…</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!session || !canManage) {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen flex-col items-center justify-center px-6 text-center">
+          <p className="text-2xl font-semibold">Acceso restringido</p>
+          <p className="mt-2 max-w-md text-sm text-white/80">
+            Este módulo solo está disponible para cuentas con rol administrador.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="relative min-h-screen overflow-hidden bg-brand-gradient text-white">
+      <div className="absolute inset-0 bg-brand-sheen" aria-hidden />
+      {alert ? (
+        <div className="pointer-events-none fixed inset-x-0 top-6 z-50 flex justify-center px-4">
+          <div
+            role="status"
+            className={`pointer-events-auto inline-flex max-w-xl items-center rounded-2xl border px-4 py-3 text-sm font-semibold shadow-lg shadow-black/15 backdrop-blur ${
+              alert.type === "success"
+                ? "border-emerald-200 bg-emerald-50/90 text-emerald-800"
+                : "border-red-200 bg-red-50/90 text-red-700"
+            }`}
+          >
+            {alert.message}
+          </div>
+        </div>
+      ) : null}
+      <div className="relative z-10 mx-auto flex min-h-screen w-full max-w-6xl flex-col gap-10 px-6 py-12">
+        <header className="card-surface flex flex-col gap-6 rounded-3xl px-8 py-10 text-brand-primary shadow-lg shadow-black/10 md:flex-row md:items-center md:justify-between">
+          <div className="flex items-center gap-5">
+            <div className="relative h-16 w-16 overflow-hidden rounded-2xl bg-brand-secondary/10">
+              <Image src="/iste-logo.png" alt="Eventos ISTE" fill sizes="64px" className="object-contain p-2" />
+            </div>
+            <div>
+              <p className="text-xs uppercase tracking-[0.4em] text-brand-accent/70">Eventos ISTE</p>
+              <h1 className="text-3xl font-semibold text-brand-primary">Eventos</h1>
+              <p className="text-sm text-brand-accent/80">
+                Crea cada ceremonia como un evento independiente. Los códigos, ingresos, cajas e importaciones quedan
+                asociados a su evento y los anteriores siguen disponibles para consulta.
+              </p>
+            </div>
+          </div>
+        </header>
+
+        <section className="grid grid-cols-1 gap-6 lg:grid-cols-[1fr_1.4fr]">
+          <form
+            onSubmit={handleCreate}
+            className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10"
+          >
+            <h2 className="text-xl font-semibold">Nuevo evento</h2>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="font-semibold">Nombre</span>
+              <input
+                value={form.nombre}
+                onChange={(event) => setForm((prev) => ({ ...prev, nombre: event.target.value }))}
+                placeholder="Graduación 2026"
+                className="rounded-xl border border-brand-secondary/30 bg-white/80 px-4 py-2 text-sm focus:border-brand-secondary focus:outline-none"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="font-semibold">Lugar</span>
+              <input
+                value={form.lugar}
+                onChange={(event) => setForm((prev) => ({ ...prev, lugar: event.target.value }))}
+                placeholder="Coliseo"
+                className="rounded-xl border border-brand-secondary/30 bg-white/80 px-4 py-2 text-sm focus:border-brand-secondary focus:outline-none"
+              />
+            </label>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+              <label className="flex flex-col gap-1 text-sm">
+                <span className="font-semibold">Inicio</span>
+                <input
+                  type="datetime-local"
+                  value={form.fechaInicio}
+                  onChange={(event) => setForm((prev) => ({ ...prev, fechaInicio: event.target.value }))}
+                  className="rounded-xl border border-brand-secondary/30 bg-white/80 px-4 py-2 text-sm focus:border-brand-secondary focus:outline-none"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-sm">
+                <span className="font-semibold">Fin</span>
+                <input
+                  type="datetime-local"
+                  value={form.fechaFin}
+                  onChange={(event) => setForm((prev) => ({ ...prev, fechaFin: event.target.value }))}
+                  className="rounded-xl border border-brand-secondary/30 bg-white/80 px-4 py-2 text-sm focus:border-brand-secondary focus:outline-none"
+                />
+              </label>
+            </div>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="font-semibold">Capacidad (opcional)</span>
+              <input
+                type="number"
+                min={1}
+                value={form.capacidad}
+                onChange={(event) => setForm((prev) => ({ ...prev, capacidad: event.target.value }))}
+                className="rounded-xl border border-brand-secondary/30 bg-white/80 px-4 py-2 text-sm focus:border-brand-secondary focus:outline-none"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={saving || !form.nombre.trim() || !form.fechaInicio || !form.fechaFin}
+              className="inline-flex items-center justify-center rounded-xl bg-brand-secondary px-5 py-2 text-sm font-semibold text-white shadow-md shadow-brand-secondary/30 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-sky-300"
+            >
+              {saving ? "Guardando…" : "Crear evento"}
+            </button>
+          </form>
+
+          <div className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10">
+            <h2 className="text-xl font-semibold">Eventos registrados</h2>
+            {loading ? <p className="text-sm text-brand-accent/70">Cargando eventos…</p> : null}
+            {!loading && eventos.length === 0 ? (
+              <p className="text-sm text-brand-accent/70">Aún no existen eventos. Crea el primero para comenzar.</p>
+            ) : null}
+            <ul className="space-y-3">
+              {eventos.map((evento) => (
+                <li
+                  key={evento.id}
+                  className="flex flex-col gap-3 rounded-2xl border border-brand-secondary/20 bg-white/80 px-4 py-4"
+                >
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div>
+                      <p className="text-base font-semibold">{evento.nombre}</p>
+                      <p className="text-xs text-brand-accent/70">
+                        {evento.lugar ? `${evento.lugar} · ` : ""}
+                        {formatDate(evento.fechaInicio)} — {formatDate(evento.fechaFin)}
+                      </p>
+                    </div>
+                    <span className={`rounded-full px-3 py-1 text-xs font-semibold ${ESTADO_STYLES[evento.estado]}`}>
+                      {ESTADO_LABELS[evento.estado]}
+                    </span>
+                  </div>
+                  <p className="text-xs text-brand-accent/70">
+                    Capacidad: {evento.capacidad ?? "sin límite"} · Códigos: {evento.totales.codigos} · Ingresos:{" "}
+                    {evento.totales.ingresos} · Importaciones: {evento.totales.importaciones} · Cajas:{" "}
+                    {evento.totales.cajas}
+                  </p>
+                  <div className="flex flex-wrap gap-2">
+                    {evento.estado !== "activo" ? (
+                      <button
+                        type="button"
+                        onClick={() => cambiarEstado(evento.id, "activo")}
+                        disabled={updatingId === evento.id}
+                        className="rounded-xl bg-emerald-600 px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-emerald-500 disabled:opacity-60"
+                      >
+                        Activar
+                      </button>
+                    ) : null}
+                    {evento.estado !== "finalizado" ? (
+                      <button
+                        type="button"
+                        onClick={() => cambiarEstado(evento.id, "finalizado")}
+                        disabled={updatingId === evento.id}
+                        className="rounded-xl bg-brand-primary px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-brand-secondary disabled:opacity-60"
+                      >
+                        Finalizar
+                      </button>
+                    ) : null}
+                    <input
+                      type="number"
+                      min={1}
+                      value={capacidadDrafts[evento.id] ?? (evento.capacidad ? String(evento.capacidad) : "")}
+                      onChange={(event) =>
+                        setCapacidadDrafts((prev) => ({ ...prev, [evento.id]: event.target.value }))
+                      }
+                      placeholder="Aforo"
+                      className="w-24 rounded-xl border border-brand-secondary/30 bg-white/80 px-3 py-1.5 text-xs focus:border-brand-secondary focus:outline-none"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => actualizarCapacidad(evento)}
+                      disabled={updatingId === evento.id || capacidadDrafts[evento.id] === undefined}
+                      className="rounded-xl border border-brand-secondary/40 px-3 py-1.5 text-xs font-semibold text-brand-primary transition hover:bg-brand-secondary/10 disabled:opacity-60"
+                    >
+                      Guardar aforo
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+
+        <section className="grid grid-cols-1 gap-6 lg:grid-cols-[1fr_1.4fr]">
+          <form
+            onSubmit={handleCreatePunto}
+            className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10"
+          >
+            <div>
+              <h2 className="text-xl font-semibold">Nuevo punto de control</h2>
+              <p className="text-xs text-brand-accent/70">
+                Cada puerta del coliseo se elige en el escáner y queda registrada en los ingresos.
+              </p>
+            </div>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="font-semibold">Nombre</span>
+              <input
+                value={puntoForm.nombre}
+                onChange={(event) => setPuntoForm((prev) => ({ ...prev, nombre: event.target.value }))}
+                placeholder="Puerta principal"
+                className="rounded-xl border border-brand-secondary/30 bg-white/80 px-4 py-2 text-sm focus:border-brand-secondary focus:outline-none"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="font-semibold">Descripción (opcional)</span>
+              <input
+                value={puntoForm.descripcion}
+                onChange={(event) => setPuntoForm((prev) => ({ ...prev, descripcion: event.target.value }))}
+                placeholder="Acceso por la calle principal"
+                className="rounded-xl border border-brand-secondary/30 bg-white/80 px-4 py-2 text-sm focus:border-brand-secondary focus:outline-none"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-sm">
+              <span className="font-semibold">Zona (opcional)</span>
+              <input
+                value={puntoForm.zona}
+                onChange={(event) => setPuntoForm((prev) => ({ ...prev, zona: event.target.value }))}
+                placeholder="Graderío norte"
+                className="rounded-xl border border-brand-secondary/30 bg-white/80 px-4 py-2 text-sm focus:border-brand-secondary focus:outline-none"
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={savingPunto || !puntoForm.nombre.trim()}
+              className="inline-flex items-center justify-center rounded-xl bg-brand-secondary px-5 py-2 text-sm font-semibold text-white shadow-md shadow-brand-secondary/30 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-sky-300"
+            >
+              {savingPunto ? "Guardando…" : "Crear punto de control"}
+            </button>
+          </form>
+
+          <div className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10">
+            <h2 className="text-xl font-semibold">Puntos de control</h2>
+            {puntosControl.length === 0 ? (
+              <p className="text-sm text-brand-accent/70">Aún no hay puertas registradas.</p>
+            ) : null}
+            <ul className="space-y-3">
+              {puntosControl.map((punto) => (
+                <li
+                  key={punto.id}
+                  className="flex flex-wrap items-center justify-between gap-3 rounded-2xl border border-brand-secondary/20 bg-white/80 px-4 py-3"
+                >
+                  <div>
+                    <p className="text-sm font-semibold">{punto.nombre}</p>
+                    <p className="text-xs text-brand-accent/70">
+                      {[punto.zona ? `Zona: ${punto.zona}` : null, punto.descripcion].filter(Boolean).join(" · ")}
+                    </p>
+                  </div>
+                  <button
+                    type="button"
+                    onClick={() => cambiarEstadoPunto(punto)}
+                    disabled={updatingPuntoId === punto.id}
+                    className={`rounded-xl px-3 py-1.5 text-xs font-semibold text-white transition disabled:opacity-60 ${
+                      punto.activo ? "bg-brand-primary hover:bg-brand-secondary" : "bg-emerald-600 hover:bg-emerald-500"
+                    }`}
+                  >
+                    {punto.activo ? "Desactivar" : "Activar"}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </section>
+
+        <section className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10">
+          <div>
+            <h2 className="text-xl font-semibold">Reglas de reingreso</h2>
+            <p className="text-xs text-brand-accent/70">
+              Evitan que un QR de varios usos se devuelva por encima de la reja. El intervalo mínimo exige esperar entre
+              dos entradas del mismo código; la salida obligatoria solo permite reutilizarlo después de escanear una salida.
+            </p>
+          </div>
+          <ul className="grid grid-cols-1 gap-3 md:grid-cols-3">
+            {reglas.map((regla) => (
+              <li
+                key={regla.tipo}
+                className="flex flex-col gap-3 rounded-2xl border border-brand-secondary/20 bg-white/80 px-4 py-4"
+              >
+                <p className="text-sm font-semibold">{TIPO_QR_LABELS[regla.tipo]}</p>
+                <label className="flex flex-col gap-1 text-xs">
+                  <span className="font-semibold">Intervalo mínimo (segundos)</span>
+                  <input
+                    type="number"
+                    min={0}
+                    value={regla.intervaloMinimoSeg}
+                    onChange={(event) =>
+                      actualizarReglaLocal(regla.tipo, { intervaloMinimoSeg: Number(event.target.value) || 0 })
+                    }
+                    className="rounded-xl border border-brand-secondary/30 bg-white/80 px-3 py-1.5 text-sm focus:border-brand-secondary focus:outline-none"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-xs">
+                  <input
+                    type="checkbox"
+                    checked={regla.requiereSalida}
+                    onChange={(event) => actualizarReglaLocal(regla.tipo, { requiereSalida: event.target.checked })}
+                    className="h-4 w-4 accent-brand-secondary"
+                  />
+                  Reutilizar solo después de una salida
+                </label>
+                {regla.actualizadoPor ? (
+                  <p className="text-[11px] text-brand-accent/60">Última modificación: {regla.actualizadoPor}</p>
+                ) : null}
+                <button
+                  type="button"
+                  onClick={() => guardarRegla(regla)}
+                  disabled={savingRegla === regla.tipo}
+                  className="rounded-xl bg-brand-secondary px-3 py-1.5 text-xs font-semibold text-white transition hover:bg-sky-400 disabled:opacity-60"
+                >
+                  {savingRegla === regla.tipo ? "Guardando…" : "Guardar regla"}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      </div>
+    </main>
+  );
+}
@@ -1,8 +1,9 @@
 "use client";
 
 import Image from "next/image";
-import { useEffect, useMemo, useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import { useSession } from "next-auth/react";
+import { EventoSelector, useEventoSeleccionado } from "@/components/EventoSelector";
 
 type CajaState = {
   id: number;
@@ -102,6 +103,7 @@ function ToastNotification({
 export default function GenerarVisitantesPage() {
   const { data: session } = useSession();
   const role = session?.user?.role;
+  const { eventos, eventoId, setEventoId, loading: eventosLoading } = useEventoSeleccionado();
 
   const [loading, setLoading] = useState(true);
   const [precioUnitario, setPrecioUnitario] = useState(5);
@@ -162,10 +164,10 @@ export default function GenerarVisitantesPage() {
     };
   }, [mensaje]);
 
-  const cargarEstado = async () => {
+  const cargarEstado = useCallback(async () => {
     setLoading(true);
     try {
-      const response = await fetch("/api/generar-visitantes", { cache: "no-store" });
+      const response = await fetch(`/api/generar-visitantes?eventoId=${eventoId}`, { cache: "no-store" });
       const data = await response.json();
       if (!response.ok) {
         throw new Error(data.error || "No se pudo obtener el estado");
@@ -189,7 +191,7 @@ export default function GenerarVisitantesPage() {
     } finally {
       setLoading(false);
     }
-  };
+  }, [eventoId]);
 
   const refreshClosures = async () => {
     if (!canViewClosures) {
@@ -200,7 +202,7 @@ export default function GenerarVisitantesPage() {
       const response = await fetch("/api/generar-visitantes", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "closures" }),
+        body: JSON.stringify({ eventoId, action: "closures" }),
       });
       const data = await response.json().catch(() => null);
       if (!response.ok) {
@@ -237,7 +239,7 @@ export default function GenerarVisitantesPage() {
         const response = await fetch("/api/generar-visitantes", {
           method: "POST",
           headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ action: "openSessions" }),
+          body: JSON.stringify({ eventoId, action: "openSessions" }),
         });
         const data = await response.json().catch(() => null);
         if (!response.ok) {
@@ -258,8 +260,17 @@ export default function GenerarVisitantesPage() {
   };
 
   useEffect(() => {
+    if (eventosLoading) {
+      return;
+    }
+    if (!eventoId) {
+      setLoading(false);
+      setMensaje("Selecciona un evento para gestionar la caja");
+      setMensajeTipo("info");
+      return;
+    }
     cargarEstado();
-  }, []);
+  }, [cargarEstado, eventoId, eventosLoading]);
 
   const handleAbrirCaja = async () => {
     setCajaOperation(true);
@@ -268,7 +279,7 @@ export default function GenerarVisitantesPage() {
       const response = await fetch("/api/generar-visitantes", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "open" }),
+        body: JSON.stringify({ eventoId, action: "open" }),
       });
       const data = await response.json();
       if (!response.ok) {
@@ -292,14 +303,14 @@ export default function GenerarVisitantesPage() {
       const response = await fetch("/api/generar-visitantes", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "close" }),
+        body: JSON.stringify({ eventoId, action: "close" }),
       });
       const data = await response.json();
       if (!response.ok) {
         throw new Error(data.error || "No se pudo cerrar la caja");
       }
       setConfirmCloseOpen(false);
-      setMensaje("Caja cerrada y reporte enviado");
+      setMensaje("Caja cerrada; el reporte quedó en cola de envío");
       setMensajeTipo("ok");
       await cargarEstado();
     } catch (error: unknown) {
@@ -331,7 +342,7 @@ export default function GenerarVisitantesPage() {
       const response = await fetch("/api/generar-visitantes", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "updatePrice", precio: valor }),
+        body: JSON.stringify({ eventoId, action: "updatePrice", precio: valor }),
       });
       const data = await response.json();
       if (!response.ok) {
@@ -364,7 +375,7 @@ export default function GenerarVisitantesPage() {
       const response = await fetch("/api/generar-visitantes", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "updateLimit", limite: valor }),
+        body: JSON.stringify({ eventoId, action: "updateLimit", limite: valor }),
       });
       const data = await response.json();
       if (!response.ok) {
@@ -410,6 +421,7 @@ export default function GenerarVisitantesPage() {
         method: "POST",
         headers: { "Content-Type": "application/json" },
         body: JSON.stringify({
+          eventoId,
           action: "generate",
           cantidad,
           correo: correoValido ? correo.trim() : undefined,
@@ -424,7 +436,7 @@ export default function GenerarVisitantesPage() {
 
       if (modo === "correo") {
         await response.json();
-        setMensaje(`Se envió el boleto para ${cantidad} persona(s) a ${correo.trim()}`);
+        setMensaje(`El boleto para ${cantidad} persona(s) quedó en cola de envío a ${correo.trim()}`);
         setMensajeTipo("ok");
         setCorreo("");
       } else {
@@ -461,7 +473,7 @@ export default function GenerarVisitantesPage() {
       const response = await fetch("/api/generar-visitantes", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "details", cajaId: closure.id }),
+        body: JSON.stringify({ eventoId, action: "details", cajaId: closure.id }),
       });
       const data = await response.json();
       if (!response.ok) {
@@ -484,7 +496,7 @@ export default function GenerarVisitantesPage() {
       const response = await fetch("/api/generar-visitantes", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "deleteClosure", cajaId: deleteTarget.id }),
+        body: JSON.stringify({ eventoId, action: "deleteClosure", cajaId: deleteTarget.id }),
       });
       const data = await response.json().catch(() => ({}));
       if (!response.ok) {
@@ -512,7 +524,7 @@ export default function GenerarVisitantesPage() {
       const response = await fetch("/api/generar-visitantes", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ action: "forceClose", cajaId }),
+        body: JSON.stringify({ eventoId, action: "forceClose", cajaId }),
       });
       const data = await response.json().catch(() => null);
       if (!response.ok) {
@@ -520,7 +532,7 @@ export default function GenerarVisitantesPage() {
       }
       await cargarEstado();
       setOpenCajas((prev) => prev.filter((caja) => caja.id !== cajaId));
-      setMensaje("Caja cerrada manualmente y reporte enviado.");
+      setMensaje("Caja cerrada manualmente; el reporte quedó en cola de envío.");
       setMensajeTipo("ok");
     } catch (error: unknown) {
       setMensaje(getErrorMessage(error, "No se pudo cerrar la caja seleccionada"));
@@ -897,6 +909,7 @@ export default function GenerarVisitantesPage() {
             </div>
           </div>
           <div className="flex flex-col items-end gap-3">
+            <EventoSelector eventos={eventos} value={eventoId} onChange={setEventoId} disabled={cajaAbierta} />
             <div className="rounded-2xl bg-brand-secondary/10 px-5 py-3 text-sm text-brand-primary">
               <p className="font-semibold text-brand-primary">{resumenCaja.estado}</p>
               <p className="text-brand-accent/80">{resumenCaja.detalle}</p>
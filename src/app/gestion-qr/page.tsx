@@ -3,6 +3,20 @@
 import Image from "next/image";
 import { useEffect, useMemo, useState } from "react";
 import { useSession } from "next-auth/react";
+import { validarIdentificacion } from "@/lib/identificacion";
+
+type Movimiento = {
+  id: number;
+  fecha: string;
+  tipo: "entrada" | "salida";
+  manual: boolean;
+  puntoControl: string | null;
+  usuario: string | null;
+  anulado: boolean;
+  motivoAnulacion: string | null;
+  anuladoPor: string | null;
+  anuladoAt: string | null;
+};
 
 type CodigoSummary = {
   id: number;
@@ -13,6 +27,7 @@ type CodigoSummary = {
   disponibles: number;
   totalIngresos: number;
   ultimaLectura: string | null;
+  movimientos: Movimiento[];
 };
 
 type PersonaData = {
@@ -60,6 +75,9 @@ export default function GestionQRPage() {
   const [emailDrafts, setEmailDrafts] = useState<Record<number, string>>({});
   const [updatingId, setUpdatingId] = useState<number | null>(null);
   const [resendingId, setResendingId] = useState<number | null>(null);
+  const [anulacionAbierta, setAnulacionAbierta] = useState<number | null>(null);
+  const [motivoAnulacion, setMotivoAnulacion] = useState("");
+  const [anulandoId, setAnulandoId] = useState<number | null>(null);
   const { data: session } = useSession();
   const role = session?.user?.role;
   const canEditLimits = role === "admin";
@@ -79,14 +97,18 @@ export default function GestionQRPage() {
     return () => clearTimeout(timeout);
   }, [alert]);
 
+  const validacionCedula = useMemo(() => (cedula ? validarIdentificacion(cedula) : null), [cedula]);
+  // Se avisa cuando ya se escribió una cédula completa para no marcar error mientras se tipea
+  const mostrarAvisoCedula = Boolean(validacionCedula && !validacionCedula.ok && cedula.length >= 10);
+
   const codigosOrdenados = useMemo(() => {
     if (!persona) return [];
     return [...persona.codigos].sort((a, b) => b.id - a.id);
   }, [persona]);
 
   const handleCedulaChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const digits = event.target.value.replace(/\D+/g, "").slice(0, 15);
-    setCedula(digits);
+    const value = event.target.value.toUpperCase().replace(/[^0-9A-Z]+/g, "").slice(0, 20);
+    setCedula(value);
   };
 
   const resetData = () => {
@@ -108,6 +130,12 @@ export default function GestionQRPage() {
       return;
     }
 
+    const identificacion = validarIdentificacion(normalized);
+    if (!identificacion.ok) {
+      setAlert({ type: "error", message: `Identificación inválida: ${identificacion.error}.` });
+      return;
+    }
+
     setIsSearching(true);
     setBusquedaRealizada(false);
     setAlert(null);
@@ -253,7 +281,7 @@ export default function GestionQRPage() {
         ...prev,
         [codigoId]: correo,
       }));
-      setAlert({ type: "success", message: "QR reenviado correctamente." });
+      setAlert({ type: "success", message: "QR en cola de envío. Llegará al correo en unos minutos." });
     } catch (error) {
       console.error("Error reenviando QR", error);
       setAlert({
@@ -265,6 +293,73 @@ export default function GestionQRPage() {
     }
   };
 
+  const handleAbrirAnulacion = (movimientoId: number) => {
+    setAnulacionAbierta((prev) => (prev === movimientoId ? null : movimientoId));
+    setMotivoAnulacion("");
+  };
+
+  const handleAnular = async (codigoId: number, movimiento: Movimiento) => {
+    if (!canResend) {
+      setAlert({ type: "error", message: "No tienes permisos para anular ingresos." });
+      return;
+    }
+    const motivo = motivoAnulacion.trim();
+    if (!motivo) {
+      setAlert({ type: "error", message: "Indica el motivo de la anulación." });
+      return;
+    }
+
+    setAnulandoId(movimiento.id);
+    setAlert(null);
+
+    try {
+      const response = await fetch("/api/ingreso/anular", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ingresoId: movimiento.id, motivo }),
+      });
+      const payload = await response.json().catch(() => null);
+
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudo anular el ingreso.");
+      }
+
+      setPersona((prev) =>
+        prev
+          ? {
+              ...prev,
+              codigos: prev.codigos.map((codigo) => {
+                if (codigo.id !== codigoId) return codigo;
+                const movimientos = codigo.movimientos.map((item) =>
+                  item.id === movimiento.id ? { ...item, ...payload.ingreso } : item
+                );
+                const ultimaEntrada = movimientos.find((item) => item.tipo === "entrada" && !item.anulado);
+                return {
+                  ...codigo,
+                  ...payload.codigo,
+                  movimientos,
+                  totalIngresos:
+                    movimiento.tipo === "entrada" ? Math.max(codigo.totalIngresos - 1, 0) : codigo.totalIngresos,
+                  ultimaLectura: ultimaEntrada?.fecha ?? null,
+                };
+              }),
+            }
+          : prev
+      );
+      setAnulacionAbierta(null);
+      setMotivoAnulacion("");
+      setAlert({ type: "success", message: payload?.message || "Ingreso anulado correctamente." });
+    } catch (error) {
+      console.error("Error anulando ingreso", error);
+      setAlert({
+        type: "error",
+        message: error instanceof Error ? error.message : "No se pudo anular el ingreso.",
+      });
+    } finally {
+      setAnulandoId(null);
+    }
+  };
+
   return (
     <main className="relative min-h-screen overflow-hidden bg-brand-gradient text-white">
       <div className="absolute inset-0 bg-brand-sheen" aria-hidden />
@@ -304,11 +399,10 @@ export default function GestionQRPage() {
                 <input
                   id="cedula"
                   name="cedula"
-                  inputMode="numeric"
                   autoComplete="off"
                   value={cedula}
                   onChange={handleCedulaChange}
-                  placeholder="Ej. 0102030405"
+                  placeholder="Cédula, RUC o pasaporte"
                   className="flex-1 rounded-2xl border border-brand-secondary/30 bg-white/90 px-4 py-3 text-base text-brand-primary shadow-inner focus:border-brand-secondary focus:outline-none focus:ring-2 focus:ring-brand-secondary/40"
                 />
                 <button
@@ -319,9 +413,13 @@ export default function GestionQRPage() {
                   {isSearching ? "Buscando…" : "Buscar"}
                 </button>
               </div>
-              <p className="text-xs text-brand-accent/70">
-                El sistema traerá todos los códigos asociados al titular registrado en la importación.
-              </p>
+              {mostrarAvisoCedula && validacionCedula && !validacionCedula.ok ? (
+                <p className="text-xs font-semibold text-red-600">⚠️ {validacionCedula.error}</p>
+              ) : (
+                <p className="text-xs text-brand-accent/70">
+                  El sistema traerá todos los códigos asociados al titular registrado en la importación.
+                </p>
+              )}
             </div>
           </form>
         </section>
@@ -476,6 +574,78 @@ export default function GestionQRPage() {
                             </p>
                           </div>
                         </div>
+
+                        <div className="mt-6 space-y-3">
+                          <p className="text-xs font-semibold uppercase tracking-[0.3em] text-white/60">
+                            Movimientos recientes
+                          </p>
+                          {codigo.movimientos.length === 0 ? (
+                            <p className="text-sm text-white/70">Este código todavía no registra lecturas.</p>
+                          ) : (
+                            <ul className="space-y-2">
+                              {codigo.movimientos.map((movimiento) => (
+                                <li
+                                  key={movimiento.id}
+                                  className={`rounded-2xl border border-white/10 px-4 py-3 text-sm ${
+                                    movimiento.anulado ? "bg-white/5 text-white/50" : "bg-white/10 text-white/85"
+                                  }`}
+                                >
+                                  <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                                    <div className={movimiento.anulado ? "line-through" : ""}>
+                                      <span className="font-semibold text-white">
+                                        {movimiento.tipo === "entrada" ? "Entrada" : "Salida"}
+                                      </span>{" "}
+                                      · {formatDateTime(movimiento.fecha)}
+                                      {movimiento.puntoControl ? ` · ${movimiento.puntoControl}` : ""}
+                                      {movimiento.usuario ? ` · ${movimiento.usuario}` : ""}
+                                      {movimiento.manual ? " · Registro manual" : ""}
+                                    </div>
+                                    {movimiento.anulado ? (
+                                      <span className="rounded-full bg-red-500/20 px-3 py-1 text-xs font-semibold text-red-100">
+                                        Anulado
+                                      </span>
+                                    ) : canResend ? (
+                                      <button
+                                        type="button"
+                                        onClick={() => handleAbrirAnulacion(movimiento.id)}
+                                        className="inline-flex items-center justify-center rounded-xl border border-white/20 px-3 py-1 text-xs font-semibold text-white transition hover:bg-white/10"
+                                      >
+                                        {anulacionAbierta === movimiento.id ? "Cancelar" : "Anular"}
+                                      </button>
+                                    ) : null}
+                                  </div>
+                                  {movimiento.anulado ? (
+                                    <p className="mt-1 text-xs text-white/60">
+                                      Motivo: {movimiento.motivoAnulacion ?? "—"}
+                                      {movimiento.anuladoPor ? ` · ${movimiento.anuladoPor}` : ""}
+                                      {movimiento.anuladoAt ? ` · ${formatDateTime(movimiento.anuladoAt)}` : ""}
+                                    </p>
+                                  ) : null}
+                                  {anulacionAbierta === movimiento.id ? (
+                                    <div className="mt-3 flex flex-col gap-2 md:flex-row">
+                                      <input
+                                        type="text"
+                                        value={motivoAnulacion}
+                                        onChange={(event) => setMotivoAnulacion(event.target.value)}
+                                        maxLength={191}
+                                        placeholder="Motivo de la anulación"
+                                        className="flex-1 rounded-xl border border-white/20 bg-white/90 px-3 py-2 text-sm text-brand-primary shadow-inner focus:border-brand-secondary focus:outline-none focus:ring-2 focus:ring-brand-secondary/40"
+                                      />
+                                      <button
+                                        type="button"
+                                        onClick={() => handleAnular(codigo.id, movimiento)}
+                                        disabled={anulandoId === movimiento.id || !motivoAnulacion.trim()}
+                                        className="inline-flex items-center justify-center rounded-xl bg-red-500 px-4 py-2 text-xs font-semibold text-white shadow-md shadow-red-500/30 transition hover:bg-red-400 disabled:cursor-not-allowed disabled:opacity-60"
+                                      >
+                                        {anulandoId === movimiento.id ? "Anulando…" : "Confirmar anulación"}
+                                      </button>
+                                    </div>
+                                  ) : null}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
+                        </div>
                       </article>
                     );
                   })}
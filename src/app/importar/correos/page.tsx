@@ -0,0 +1,440 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useState } from "react";
+import { useSession } from "next-auth/react";
+import { EMAIL_REGEX } from "@/lib/mapeoImportacion";
+
+type EstadoCorreo = "pendiente" | "enviando" | "enviado" | "enviado_sin_registro" | "fallido" | "cancelado";
+type ResultadoReenvio = "encolado" | "ya_en_cola" | "sin_codigo" | "correo_invalido";
+
+type FalloCorreo = {
+  clave: string;
+  hoja: string;
+  fila: number;
+  email: string | null;
+  reason: string;
+  cedula?: string | null;
+  nombre?: string | null;
+  apellido?: string | null;
+  codigo: string | null;
+  ultimoReenvio: {
+    reenvioId: number;
+    destinatario: string;
+    resultado: ResultadoReenvio;
+    detalle: string | null;
+    estadoCorreo: EstadoCorreo | null;
+    error: string | null;
+    fecha: string;
+  } | null;
+};
+
+type ItemReenvio = {
+  clave: string;
+  hoja: string;
+  fila: number;
+  cedula: string | null;
+  nombre: string | null;
+  apellido: string | null;
+  correoAnterior: string | null;
+  destinatario: string;
+  resultado: ResultadoReenvio;
+  detalle: string | null;
+  estadoCorreo: EstadoCorreo | null;
+  error: string | null;
+  enviadoEn: string | null;
+};
+
+type RespuestaCorreos = {
+  importacion: { id: number; archivo: string; fecha: string; estado: string; revertidaEn: string | null };
+  fallos: FalloCorreo[];
+  reenvios: Array<{ id: number; creadoPor: string | null; createdAt: string; items: ItemReenvio[] }>;
+};
+
+type ResultadoDestinatario = {
+  clave: string;
+  hoja: string;
+  fila: number;
+  destinatario: string;
+  resultado: ResultadoReenvio;
+  detalle: string;
+};
+
+const DATE_TIME_FORMAT = new Intl.DateTimeFormat("es-EC", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+const INTERVALO_CONSULTA_MS = 5_000;
+
+const ubicacionFila = (item: { hoja: string; fila: number }) => `${item.hoja} · Fila ${item.fila}`;
+const nombreCompleto = (item: { nombre?: string | null; apellido?: string | null }) =>
+  [item.nombre, item.apellido].filter(Boolean).join(" ").trim();
+
+/** Texto y color del estado de un destinatario según su último reenvío */
+function estadoEntrega(item: {
+  resultado: ResultadoReenvio;
+  detalle: string | null;
+  estadoCorreo: EstadoCorreo | null;
+  error: string | null;
+}) {
+  if (item.resultado !== "encolado") {
+    return { texto: item.detalle ?? "No reenviado", clase: "bg-amber-100 text-amber-800" };
+  }
+  switch (item.estadoCorreo) {
+    case "enviado":
+    case "enviado_sin_registro":
+      return { texto: "Enviado", clase: "bg-emerald-100 text-emerald-800" };
+    case "pendiente":
+    case "enviando":
+      return { texto: "En cola", clase: "bg-brand-secondary/20 text-brand-primary" };
+    case "fallido":
+    case "cancelado":
+      return { texto: `Falló: ${item.error ?? "sin detalle"}`, clase: "bg-red-100 text-red-700" };
+    default:
+      return { texto: "Sin información", clase: "bg-slate-200 text-slate-700" };
+  }
+}
+
+const enCola = (fallo: FalloCorreo) =>
+  fallo.ultimoReenvio?.estadoCorreo === "pendiente" || fallo.ultimoReenvio?.estadoCorreo === "enviando";
+// Un correo que salió pero no se pudo registrar también llegó al destinatario
+const correoEnviado = (estado: EstadoCorreo | null | undefined) =>
+  estado === "enviado" || estado === "enviado_sin_registro";
+const entregado = (fallo: FalloCorreo) => correoEnviado(fallo.ultimoReenvio?.estadoCorreo);
+const reenviable = (fallo: FalloCorreo) => Boolean(fallo.codigo) && !enCola(fallo) && !entregado(fallo);
+
+export default function CorreosImportacionPage() {
+  const { data: session, status } = useSession();
+  const canManage = session?.user?.role === "admin";
+
+  const [importacionId, setImportacionId] = useState<number | null>(null);
+  const [datos, setDatos] = useState<RespuestaCorreos | null>(null);
+  const [correos, setCorreos] = useState<Record<string, string>>({});
+  const [seleccion, setSeleccion] = useState<string[]>([]);
+  const [resultados, setResultados] = useState<ResultadoDestinatario[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [enviando, setEnviando] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [mensaje, setMensaje] = useState<string | null>(null);
+
+  useEffect(() => {
+    const id = Number(new URLSearchParams(window.location.search).get("importacion"));
+    if (Number.isInteger(id) && id > 0) {
+      setImportacionId(id);
+    } else {
+      setLoading(false);
+      setError("Indica la importación a revisar.");
+    }
+  }, []);
+
+  const cargar = useCallback(async () => {
+    if (!importacionId) return;
+    setError(null);
+    try {
+      const response = await fetch(`/api/importar/correos?importacionId=${importacionId}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudieron cargar los correos de la importación.");
+      }
+      const respuesta = payload as RespuestaCorreos;
+      setDatos(respuesta);
+      // Conserva lo que el administrador ya corrigió y propone el último correo usado para el resto
+      setCorreos((actual) =>
+        Object.fromEntries(
+          respuesta.fallos.map((fallo) => [
+            fallo.clave,
+            actual[fallo.clave] ?? fallo.ultimoReenvio?.destinatario ?? fallo.email ?? "",
+          ])
+        )
+      );
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudieron cargar los correos de la importación.");
+    } finally {
+      setLoading(false);
+    }
+  }, [importacionId]);
+
+  useEffect(() => {
+    if (status === "authenticated" && canManage && importacionId) {
+      void cargar();
+    }
+  }, [status, canManage, importacionId, cargar]);
+
+  const hayEnCola = Boolean(datos?.fallos.some(enCola));
+
+  useEffect(() => {
+    if (!hayEnCola) return;
+    const intervalo = window.setInterval(() => void cargar(), INTERVALO_CONSULTA_MS);
+    return () => window.clearInterval(intervalo);
+  }, [hayEnCola, cargar]);
+
+  const alternarSeleccion = (clave: string) => {
+    setSeleccion((actual) => (actual.includes(clave) ? actual.filter((item) => item !== clave) : [...actual, clave]));
+  };
+
+  const reenviar = async () => {
+    if (!datos || !importacionId) return;
+    const destinatarios = datos.fallos
+      .filter((fallo) => seleccion.includes(fallo.clave))
+      .map((fallo) => ({ hoja: fallo.hoja, fila: fallo.fila, email: (correos[fallo.clave] ?? "").trim() }));
+    if (destinatarios.length === 0) return;
+
+    setEnviando(true);
+    setError(null);
+    setMensaje(null);
+    try {
+      const response = await fetch("/api/importar/correos", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ importacionId, destinatarios }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudieron reenviar los correos.");
+      }
+      setMensaje(payload.message);
+      setResultados(payload.resultados as ResultadoDestinatario[]);
+      setSeleccion([]);
+      await cargar();
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudieron reenviar los correos.");
+    } finally {
+      setEnviando(false);
+    }
+  };
+
+  if (status === "loading") {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen items-center justify-center">
+          <p className="text-lg font-medium">Cargando acceso…</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!session || !canManage) {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen flex-col items-center justify-center px-6 text-center">
+          <p className="text-2xl font-semibold">Acceso restringido</p>
+          <p className="mt-2 max-w-md text-sm text-white/80">
+            El reenvío de correos de importación solo está disponible para cuentas con rol administrador.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  const fallos = datos?.fallos ?? [];
+  const reenviables = fallos.filter(reenviable);
+  const seleccionInvalida = fallos.some(
+    (fallo) => seleccion.includes(fallo.clave) && !EMAIL_REGEX.test((correos[fallo.clave] ?? "").trim())
+  );
+  const bloqueada = Boolean(datos?.importacion.revertidaEn);
+
+  return (
+    <main className="relative min-h-screen overflow-hidden bg-brand-gradient text-white">
+      <div className="absolute inset-0 bg-brand-sheen" aria-hidden />
+      <div className="relative z-10 mx-auto flex min-h-screen w-full max-w-6xl flex-col gap-8 px-6 py-12">
+        <header className="card-surface flex flex-col gap-4 rounded-3xl px-8 py-10 text-brand-primary shadow-lg shadow-black/10 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-3">
+            <p className="text-xs uppercase tracking-[0.35em] text-brand-accent/60">Importación de participantes</p>
+            <h1 className="text-3xl font-semibold text-brand-primary">Correos no entregados</h1>
+            {datos ? (
+              <p className="text-sm text-brand-accent/80">
+                Importación #{datos.importacion.id} · {datos.importacion.archivo} ·{" "}
+                {DATE_TIME_FORMAT.format(new Date(datos.importacion.fecha))}
+              </p>
+            ) : null}
+            <p className="text-sm text-brand-accent/80">
+              Corrige el correo de cada estudiante y reenvía su invitación. Se adjunta el mismo código QR que se generó
+              en la importación y el correo corregido queda guardado en su ficha.
+            </p>
+          </div>
+          <Link
+            href="/importar"
+            className="rounded-xl bg-brand-secondary/10 px-4 py-2 text-sm font-semibold text-brand-primary transition hover:bg-brand-secondary/20"
+          >
+            ← Importar
+          </Link>
+        </header>
+
+        {error ? (
+          <div className="card-surface rounded-3xl border border-red-200 bg-red-50/70 px-6 py-5 text-sm font-medium text-red-800 shadow-lg shadow-red-500/10">
+            {error}
+          </div>
+        ) : null}
+        {mensaje ? (
+          <div className="card-surface rounded-3xl bg-emerald-50/80 px-6 py-5 text-sm font-medium text-emerald-800 shadow-lg shadow-black/10">
+            {mensaje}
+          </div>
+        ) : null}
+        {bloqueada ? (
+          <div className="card-surface rounded-3xl bg-amber-50/80 px-6 py-5 text-sm text-amber-900 shadow-lg shadow-black/10">
+            Esta importación fue revertida: sus códigos se eliminaron y ya no se pueden reenviar invitaciones.
+          </div>
+        ) : null}
+
+        {resultados.length > 0 ? (
+          <section className="card-surface rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10">
+            <h2 className="text-lg font-semibold">Resultado del reenvío</h2>
+            <ul className="mt-3 space-y-1 text-sm">
+              {resultados.map((item) => (
+                <li key={item.clave} className="flex flex-wrap gap-2">
+                  <span className="text-brand-accent/70">{ubicacionFila(item)}</span>
+                  <span className="font-medium">{item.destinatario || "(sin correo)"}</span>
+                  <span className={item.resultado === "encolado" ? "text-emerald-700" : "text-amber-700"}>
+                    {item.detalle}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </section>
+        ) : null}
+
+        <section className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h2 className="text-lg font-semibold">Estudiantes sin invitación ({fallos.length})</h2>
+            <div className="flex flex-wrap gap-2">
+              <button
+                type="button"
+                onClick={() => setSeleccion(reenviables.map((fallo) => fallo.clave))}
+                disabled={bloqueada || reenviables.length === 0}
+                className="rounded-xl bg-brand-secondary/10 px-4 py-2 text-xs font-semibold text-brand-primary transition hover:bg-brand-secondary/20 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Seleccionar pendientes ({reenviables.length})
+              </button>
+              <button
+                type="button"
+                onClick={reenviar}
+                disabled={bloqueada || enviando || seleccion.length === 0 || seleccionInvalida}
+                className="rounded-xl bg-brand-primary px-4 py-2 text-xs font-semibold text-white transition hover:bg-brand-secondary disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                {enviando ? "Reenviando…" : `Reenviar seleccionados (${seleccion.length})`}
+              </button>
+            </div>
+          </div>
+          {seleccionInvalida ? (
+            <p className="text-xs text-red-700">Hay correos seleccionados con formato inválido.</p>
+          ) : null}
+
+          {loading ? <p className="text-sm">Cargando…</p> : null}
+          {!loading && datos && fallos.length === 0 ? (
+            <p className="text-sm text-brand-accent/70">Todos los estudiantes de esta importación recibieron su correo.</p>
+          ) : null}
+
+          {fallos.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-left text-sm">
+                <thead className="text-xs uppercase tracking-widest text-brand-accent/60">
+                  <tr>
+                    <th className="px-2 py-2" />
+                    <th className="px-2 py-2">Fila</th>
+                    <th className="px-2 py-2">Estudiante</th>
+                    <th className="px-2 py-2">Motivo</th>
+                    <th className="px-2 py-2">Correo</th>
+                    <th className="px-2 py-2">Último reenvío</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {fallos.map((fallo) => {
+                    const valor = correos[fallo.clave] ?? "";
+                    const estado = fallo.ultimoReenvio ? estadoEntrega(fallo.ultimoReenvio) : null;
+                    const editable = reenviable(fallo) && !bloqueada;
+                    return (
+                      <tr key={fallo.clave} className="border-t border-brand-secondary/10 align-top">
+                        <td className="px-2 py-2">
+                          <input
+                            type="checkbox"
+                            checked={seleccion.includes(fallo.clave)}
+                            onChange={() => alternarSeleccion(fallo.clave)}
+                            disabled={!editable}
+                          />
+                        </td>
+                        <td className="whitespace-nowrap px-2 py-2 text-xs text-brand-accent/80">{ubicacionFila(fallo)}</td>
+                        <td className="px-2 py-2">
+                          <p className="font-medium">{nombreCompleto(fallo) || "—"}</p>
+                          <p className="text-xs text-brand-accent/70">{fallo.cedula ?? "Sin cédula"}</p>
+                        </td>
+                        <td className="px-2 py-2 text-xs text-brand-accent/80">
+                          {fallo.reason}
+                          {!fallo.codigo ? <p className="text-amber-700">Sin código QR: reimporta la fila.</p> : null}
+                        </td>
+                        <td className="px-2 py-2">
+                          <input
+                            type="email"
+                            value={valor}
+                            onChange={(event) =>
+                              setCorreos((actual) => ({ ...actual, [fallo.clave]: event.target.value }))
+                            }
+                            disabled={!editable}
+                            placeholder="correo@ejemplo.com"
+                            className={`w-56 rounded-xl border bg-white/80 px-3 py-2 text-sm text-brand-primary shadow-inner focus:outline-none disabled:opacity-60 ${
+                              valor && !EMAIL_REGEX.test(valor.trim())
+                                ? "border-red-400"
+                                : "border-brand-secondary/30 focus:border-brand-secondary"
+                            }`}
+                          />
+                        </td>
+                        <td className="px-2 py-2 text-xs">
+                          {estado && fallo.ultimoReenvio ? (
+                            <>
+                              <span className={`inline-flex rounded-full px-2 py-0.5 font-semibold ${estado.clase}`}>
+                                {estado.texto}
+                              </span>
+                              <p className="mt-1 text-brand-accent/70">
+                                {fallo.ultimoReenvio.destinatario} ·{" "}
+                                {DATE_TIME_FORMAT.format(new Date(fallo.ultimoReenvio.fecha))}
+                              </p>
+                            </>
+                          ) : (
+                            <span className="text-brand-accent/60">Sin reenviar</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          ) : null}
+        </section>
+
+        {datos && datos.reenvios.length > 0 ? (
+          <section className="card-surface flex flex-col gap-4 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10">
+            <h2 className="text-lg font-semibold">Reenvíos anteriores</h2>
+            {datos.reenvios.map((reenvio) => (
+              <details key={reenvio.id} className="rounded-2xl bg-brand-secondary/5 px-4 py-3">
+                <summary className="cursor-pointer text-sm font-medium">
+                  Lote #{reenvio.id} · {DATE_TIME_FORMAT.format(new Date(reenvio.createdAt))}
+                  {reenvio.creadoPor ? ` · ${reenvio.creadoPor}` : ""} · {reenvio.items.length} destinatario(s) ·{" "}
+                  {reenvio.items.filter((item) => correoEnviado(item.estadoCorreo)).length} enviado(s)
+                </summary>
+                <ul className="mt-2 space-y-1 text-xs">
+                  {reenvio.items.map((item) => {
+                    const estado = estadoEntrega(item);
+                    return (
+                      <li key={`${reenvio.id}-${item.clave}`} className="flex flex-wrap items-center gap-2">
+                        <span className="text-brand-accent/70">{ubicacionFila(item)}</span>
+                        <span>{nombreCompleto(item) || item.cedula || "—"}</span>
+                        <span className="font-medium">{item.destinatario || "(sin correo)"}</span>
+                        {item.correoAnterior && item.correoAnterior !== item.destinatario ? (
+                          <span className="text-brand-accent/60">(antes {item.correoAnterior})</span>
+                        ) : null}
+                        <span className={`rounded-full px-2 py-0.5 font-semibold ${estado.clase}`}>{estado.texto}</span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </details>
+            ))}
+          </section>
+        ) : null}
+      </div>
+    </main>
+  );
+}
@@ -0,0 +1,473 @@
+"use client";
+
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSession } from "next-auth/react";
+import { useEventoSeleccionado } from "@/components/EventoSelector";
+
+type EstadoImportacion = "en_cola" | "en_proceso" | "pausada" | "fallida" | "completada";
+
+type ImportacionHistorial = {
+  id: number;
+  archivo: string;
+  nombreOriginal: string | null;
+  usuario: string | null;
+  fecha: string;
+  estado: EstadoImportacion;
+  total: number;
+  exitosos: number;
+  fallidos: number;
+  errores: number;
+  revertidaEn: string | null;
+  evento: { id: number; nombre: string } | null;
+};
+
+type RespuestaHistorial = {
+  importaciones: ImportacionHistorial[];
+  total: number;
+  pagina: number;
+  porPagina: number;
+};
+
+type ErrorFila = {
+  hoja: string;
+  fila: number;
+  motivo: string;
+  detalle: string;
+  celdas?: Record<string, unknown>;
+};
+
+type MismoArchivo = {
+  id: number;
+  fecha: string;
+  usuario: string | null;
+  nombreOriginal: string | null;
+  revertidaEn: string | null;
+  evento: { id: number; nombre: string } | null;
+};
+
+type DetalleImportacion = {
+  importacion: {
+    id: number;
+    archivo: string;
+    nombreOriginal: string | null;
+    checksum: string | null;
+    tamano: number | null;
+    usuario: string | null;
+    fecha: string;
+    estado: EstadoImportacion;
+    evento: { id: number; nombre: string } | null;
+    perfil: string | null;
+    total: number;
+    exitosos: number;
+    fallidos: number;
+    iniciadaEn: string | null;
+    finalizadaEn: string | null;
+    revertidaEn: string | null;
+    revertidaPor: string | null;
+  };
+  motivos: Array<{ motivo: string; cantidad: number }>;
+  errores: ErrorFila[];
+  mismoArchivo: MismoArchivo[];
+};
+
+const ESTADO_LABELS: Record<EstadoImportacion, string> = {
+  en_cola: "En cola",
+  en_proceso: "En proceso",
+  pausada: "Pausada",
+  fallida: "Fallida",
+  completada: "Completada",
+};
+
+const DATE_TIME_FORMAT = new Intl.DateTimeFormat("es-EC", {
+  dateStyle: "short",
+  timeStyle: "short",
+});
+
+const formatoTamano = (bytes: number) =>
+  bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+const textoCeldas = (celdas?: Record<string, unknown>) =>
+  Object.entries(celdas ?? {})
+    .filter(([, valor]) => valor !== null && valor !== undefined && String(valor).trim() !== "")
+    .map(([encabezado, valor]) => `${encabezado}: ${String(valor)}`)
+    .join(" · ");
+
+export default function HistorialImportacionesPage() {
+  const { data: session, status } = useSession();
+  const canManage = session?.user?.role === "admin";
+  const { eventos } = useEventoSeleccionado();
+
+  const [eventoFiltro, setEventoFiltro] = useState<number | null>(null);
+  const [pagina, setPagina] = useState(1);
+  const [historial, setHistorial] = useState<RespuestaHistorial | null>(null);
+  const [seleccionada, setSeleccionada] = useState<number | null>(null);
+  const [detalle, setDetalle] = useState<DetalleImportacion | null>(null);
+  const [motivo, setMotivo] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [cargandoDetalle, setCargandoDetalle] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const id = Number(new URLSearchParams(window.location.search).get("importacion"));
+    if (Number.isInteger(id) && id > 0) {
+      setSeleccionada(id);
+    }
+  }, []);
+
+  const cargar = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ pagina: String(pagina) });
+      if (eventoFiltro) {
+        params.set("eventoId", String(eventoFiltro));
+      }
+      const response = await fetch(`/api/importar/historial?${params.toString()}`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudo cargar el historial de importaciones.");
+      }
+      setHistorial(payload as RespuestaHistorial);
+    } catch (err: unknown) {
+      console.error(err);
+      setError(err instanceof Error ? err.message : "No se pudo cargar el historial de importaciones.");
+    } finally {
+      setLoading(false);
+    }
+  }, [pagina, eventoFiltro]);
+
+  useEffect(() => {
+    if (status === "authenticated" && canManage) {
+      void cargar();
+    }
+  }, [status, canManage, cargar]);
+
+  useEffect(() => {
+    if (!seleccionada || status !== "authenticated" || !canManage) {
+      return;
+    }
+    let cancelado = false;
+    setCargandoDetalle(true);
+    setMotivo(null);
+    setError(null);
+    fetch(`/api/importar/historial?id=${seleccionada}`, { cache: "no-store" })
+      .then(async (response) => {
+        const payload = await response.json().catch(() => null);
+        if (!response.ok) {
+          throw new Error(payload?.error || "No se pudo abrir la importación.");
+        }
+        if (!cancelado) setDetalle(payload as DetalleImportacion);
+      })
+      .catch((err: unknown) => {
+        console.error(err);
+        if (!cancelado) {
+          setDetalle(null);
+          setError(err instanceof Error ? err.message : "No se pudo abrir la importación.");
+        }
+      })
+      .finally(() => {
+        if (!cancelado) setCargandoDetalle(false);
+      });
+    return () => {
+      cancelado = true;
+    };
+  }, [seleccionada, status, canManage]);
+
+  const erroresFiltrados = useMemo(
+    () => (detalle ? detalle.errores.filter((item) => !motivo || item.motivo === motivo) : []),
+    [detalle, motivo]
+  );
+
+  const totalPaginas = historial ? Math.max(1, Math.ceil(historial.total / historial.porPagina)) : 1;
+
+  const urlDescarga = detalle
+    ? `/api/importar/historial?id=${detalle.importacion.id}&formato=xlsx${
+        motivo ? `&motivo=${encodeURIComponent(motivo)}` : ""
+      }`
+    : "";
+
+  if (status === "loading") {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen items-center justify-center">
+          <p className="text-lg font-medium">Cargando acceso…</p>
+        </div>
+      </main>
+    );
+  }
+
+  if (!session || !canManage) {
+    return (
+      <main className="min-h-screen bg-brand-gradient text-white">
+        <div className="flex min-h-screen flex-col items-center justify-center px-6 text-center">
+          <p className="text-2xl font-semibold">Acceso restringido</p>
+          <p className="mt-2 max-w-md text-sm text-white/80">
+            El historial de importaciones solo está disponible para cuentas con rol administrador.
+          </p>
+        </div>
+      </main>
+    );
+  }
+
+  return (
+    <main className="relative min-h-screen overflow-hidden bg-brand-gradient text-white">
+      <div className="absolute inset-0 bg-brand-sheen" aria-hidden />
+      <div className="relative z-10 mx-auto flex min-h-screen w-full max-w-7xl flex-col gap-8 px-6 py-12">
+        <header className="card-surface flex flex-col gap-4 rounded-3xl px-8 py-10 text-brand-primary shadow-lg shadow-black/10 md:flex-row md:items-start md:justify-between">
+          <div className="space-y-3">
+            <p className="text-xs uppercase tracking-[0.35em] text-brand-accent/60">Importaciones</p>
+            <h1 className="text-3xl font-semibold text-brand-primary">Historial de importaciones</h1>
+            <p className="text-sm text-brand-accent/80">
+              Revisa quién importó cada planilla y qué filas no se importaron. Descarga los errores en Excel,
+              corrígelos y vuelve a subir el archivo con el mismo perfil de columnas.
+            </p>
+          </div>
+          <div className="flex flex-col gap-2">
+            <Link
+              href="/importar"
+              className="rounded-xl bg-brand-secondary/10 px-4 py-2 text-sm font-semibold text-brand-primary transition hover:bg-brand-secondary/20"
+            >
+              ← Importar estudiantes
+            </Link>
+            <select
+              value={eventoFiltro ?? ""}
+              onChange={(event) => {
+                setEventoFiltro(event.target.value ? Number(event.target.value) : null);
+                setPagina(1);
+              }}
+              className="rounded-xl border border-brand-secondary/30 bg-white/80 px-3 py-2 text-sm text-brand-primary"
+            >
+              <option value="">Todos los eventos</option>
+              {eventos.map((evento) => (
+                <option key={evento.id} value={evento.id}>
+                  {evento.nombre}
+                </option>
+              ))}
+            </select>
+          </div>
+        </header>
+
+        {error ? (
+          <div className="card-surface rounded-3xl border border-red-200 bg-red-50/70 px-6 py-5 text-sm font-medium text-red-800 shadow-lg shadow-red-500/10">
+            {error}
+          </div>
+        ) : null}
+
+        <section className="grid gap-6 lg:grid-cols-[400px_1fr]">
+          <div className="card-surface flex flex-col gap-2 rounded-3xl px-3 py-3 text-brand-primary shadow-lg shadow-black/10">
+            {loading && !historial ? <p className="px-3 py-2 text-sm">Cargando…</p> : null}
+            {historial && historial.importaciones.length === 0 ? (
+              <p className="px-3 py-2 text-sm text-brand-accent/70">No hay importaciones registradas.</p>
+            ) : null}
+            <div className="flex max-h-[640px] flex-col overflow-y-auto">
+              {historial?.importaciones.map((importacion) => (
+                <button
+                  key={importacion.id}
+                  type="button"
+                  onClick={() => setSeleccionada(importacion.id)}
+                  className={`rounded-2xl px-4 py-3 text-left text-sm transition ${
+                    seleccionada === importacion.id ? "bg-brand-secondary/20" : "hover:bg-brand-secondary/10"
+                  }`}
+                >
+                  <p className="font-semibold">
+                    #{importacion.id} · {DATE_TIME_FORMAT.format(new Date(importacion.fecha))}
+                  </p>
+                  <p className="truncate text-xs text-brand-accent/80">{importacion.nombreOriginal ?? importacion.archivo}</p>
+                  <p className="truncate text-xs text-brand-accent/80">
+                    {importacion.usuario ?? "Usuario desconocido"}
+                    {importacion.evento ? ` · ${importacion.evento.nombre}` : ""}
+                  </p>
+                  <p className="text-xs text-brand-accent/70">
+                    {importacion.exitosos}/{importacion.total} filas ·{" "}
+                    <span className={importacion.errores > 0 ? "font-semibold text-red-700" : undefined}>
+                      {importacion.errores} error(es)
+                    </span>
+                    {" · "}
+                    {importacion.revertidaEn ? "Revertida" : ESTADO_LABELS[importacion.estado]}
+                  </p>
+                </button>
+              ))}
+            </div>
+            {historial && totalPaginas > 1 ? (
+              <div className="flex items-center justify-between px-3 pt-2 text-xs">
+                <button
+                  type="button"
+                  onClick={() => setPagina((actual) => Math.max(1, actual - 1))}
+                  disabled={pagina <= 1 || loading}
+                  className="rounded-lg px-3 py-1 font-semibold transition hover:bg-brand-secondary/10 disabled:opacity-50"
+                >
+                  ← Anteriores
+                </button>
+                <span>
+                  Página {pagina} de {totalPaginas}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => setPagina((actual) => Math.min(totalPaginas, actual + 1))}
+                  disabled={pagina >= totalPaginas || loading}
+                  className="rounded-lg px-3 py-1 font-semibold transition hover:bg-brand-secondary/10 disabled:opacity-50"
+                >
+                  Siguientes →
+                </button>
+              </div>
+            ) : null}
+          </div>
+
+          {detalle ? (
+            <div className="card-surface flex flex-col gap-5 rounded-3xl px-6 py-6 text-brand-primary shadow-lg shadow-black/10">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <h2 className="text-lg font-semibold">Importación #{detalle.importacion.id}</h2>
+                  <p className="text-xs text-brand-accent/80">
+                    {detalle.importacion.nombreOriginal ?? detalle.importacion.archivo}
+                    {detalle.importacion.tamano !== null ? ` (${formatoTamano(detalle.importacion.tamano)})` : ""} ·{" "}
+                    {DATE_TIME_FORMAT.format(new Date(detalle.importacion.fecha))}
+                    {detalle.importacion.usuario ? ` · ${detalle.importacion.usuario}` : ""}
+                  </p>
+                  <p className="text-xs text-brand-accent/70">
+                    {detalle.importacion.evento?.nombre ?? "Sin evento"}
+                    {detalle.importacion.perfil ? ` · Perfil ${detalle.importacion.perfil}` : ""} ·{" "}
+                    {ESTADO_LABELS[detalle.importacion.estado]}
+                    {detalle.importacion.revertidaEn
+                      ? ` · Revertida el ${DATE_TIME_FORMAT.format(new Date(detalle.importacion.revertidaEn))}` +
+                        (detalle.importacion.revertidaPor ? ` por ${detalle.importacion.revertidaPor}` : "")
+                      : ""}
+                  </p>
+                  {detalle.importacion.checksum ? (
+                    <p className="text-[11px] text-brand-accent/60" title={detalle.importacion.checksum}>
+                      SHA-256 {detalle.importacion.checksum.slice(0, 12)}…
+                    </p>
+                  ) : null}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {/* Las importaciones anteriores a guardar las planillas no tienen huella ni archivo */}
+                  {detalle.importacion.checksum ? (
+                    <a
+                      href={`/api/importar/historial?id=${detalle.importacion.id}&formato=original`}
+                      className="rounded-xl bg-brand-secondary/10 px-4 py-2 text-xs font-semibold transition hover:bg-brand-secondary/20"
+                    >
+                      Descargar archivo original
+                    </a>
+                  ) : null}
+                  {erroresFiltrados.length > 0 ? (
+                    <a
+                      href={urlDescarga}
+                      className="rounded-xl bg-brand-secondary px-4 py-2 text-xs font-semibold text-white transition hover:bg-sky-400"
+                    >
+                      Descargar errores (Excel)
+                    </a>
+                  ) : null}
+                </div>
+              </div>
+
+              {detalle.mismoArchivo.length > 0 ? (
+                <div className="rounded-xl bg-amber-50 px-4 py-3 text-xs text-amber-900">
+                  <p className="font-semibold">El mismo archivo se importó también en:</p>
+                  <ul className="mt-1 flex flex-col gap-1">
+                    {detalle.mismoArchivo.map((item) => (
+                      <li key={item.id}>
+                        <button
+                          type="button"
+                          onClick={() => setSeleccionada(item.id)}
+                          className="font-semibold underline-offset-2 hover:underline"
+                        >
+                          #{item.id}
+                        </button>{" "}
+                        · {DATE_TIME_FORMAT.format(new Date(item.fecha))}
+                        {item.usuario ? ` · ${item.usuario}` : ""}
+                        {item.evento ? ` · ${item.evento.nombre}` : ""}
+                        {item.revertidaEn ? " · Revertida" : ""}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ) : null}
+
+              <div className="grid grid-cols-3 gap-3 text-xs">
+                <div className="rounded-xl bg-white/70 px-3 py-2">
+                  <p className="text-[10px] uppercase tracking-[0.2em] opacity-70">Filas</p>
+                  <p className="mt-1 text-lg font-semibold">{detalle.importacion.total}</p>
+                </div>
+                <div className="rounded-xl bg-emerald-100/70 px-3 py-2 text-emerald-800">
+                  <p className="text-[10px] uppercase tracking-[0.2em] opacity-70">Exitosas</p>
+                  <p className="mt-1 text-lg font-semibold">{detalle.importacion.exitosos}</p>
+                </div>
+                <div className="rounded-xl bg-red-100/70 px-3 py-2 text-red-700">
+                  <p className="text-[10px] uppercase tracking-[0.2em] opacity-70">Con incidencias</p>
+                  <p className="mt-1 text-lg font-semibold">{detalle.importacion.fallidos}</p>
+                </div>
+              </div>
+
+              {detalle.motivos.length > 0 ? (
+                <div className="flex flex-wrap gap-2 text-xs">
+                  <button
+                    type="button"
+                    onClick={() => setMotivo(null)}
+                    className={`rounded-full px-3 py-1 font-semibold transition ${
+                      motivo === null ? "bg-brand-primary text-white" : "bg-brand-secondary/10 hover:bg-brand-secondary/20"
+                    }`}
+                  >
+                    Todos ({detalle.errores.length})
+                  </button>
+                  {detalle.motivos.map((item) => (
+                    <button
+                      key={item.motivo}
+                      type="button"
+                      onClick={() => setMotivo(item.motivo)}
+                      className={`rounded-full px-3 py-1 font-semibold transition ${
+                        motivo === item.motivo
+                          ? "bg-brand-primary text-white"
+                          : "bg-brand-secondary/10 hover:bg-brand-secondary/20"
+                      }`}
+                    >
+                      {item.motivo} ({item.cantidad})
+                    </button>
+                  ))}
+                </div>
+              ) : null}
+
+              {detalle.errores.length === 0 ? (
+                <p className="rounded-xl bg-emerald-50 px-4 py-3 text-sm text-emerald-800">
+                  Todas las filas de esta importación se procesaron sin errores.
+                </p>
+              ) : (
+                <div className="max-h-[520px] overflow-auto rounded-2xl bg-white/80">
+                  <table className="min-w-full text-left text-xs">
+                    <thead className="sticky top-0 bg-white text-[10px] uppercase tracking-[0.2em] text-brand-accent/70">
+                      <tr>
+                        <th className="px-3 py-2">Hoja</th>
+                        <th className="px-3 py-2">Fila</th>
+                        <th className="px-3 py-2">Motivo</th>
+                        <th className="px-3 py-2">Detalle</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {erroresFiltrados.map((item, index) => (
+                        <tr key={`${item.hoja}-${item.fila}-${index}`} className="border-t border-brand-secondary/10 align-top">
+                          <td className="px-3 py-2">{item.hoja}</td>
+                          <td className="px-3 py-2">{item.fila}</td>
+                          <td className="px-3 py-2 font-semibold">{item.motivo}</td>
+                          <td className="px-3 py-2">
+                            <p>{item.detalle}</p>
+                            {item.celdas ? (
+                              <p className="mt-1 text-[11px] text-brand-accent/60">{textoCeldas(item.celdas)}</p>
+                            ) : null}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="card-surface flex items-center justify-center rounded-3xl px-6 py-12 text-sm text-brand-accent/70 shadow-lg shadow-black/10">
+              {cargandoDetalle ? "Cargando importación…" : "Selecciona una importación para ver sus errores."}
+            </div>
+          )}
+        </section>
+      </div>
+    </main>
+  );
+}
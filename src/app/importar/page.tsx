@@ -1,7 +1,29 @@
 "use client";
 
 import Image from "next/image";
-import { useCallback, useMemo, useState } from "react";
+import Link from "next/link";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { EventoSelector, useEventoSeleccionado } from "@/components/EventoSelector";
+import {
+  CAMPOS_IMPORTACION,
+  EMAIL_REGEX,
+  extractFirstValue,
+  leerCampos,
+  normalizarEncabezado,
+  sugerirMapeo,
+  validarMapeo,
+  type CampoImportacion,
+  type MapeoColumnas,
+} from "@/lib/mapeoImportacion";
+import {
+  MAX_INVITADOS,
+  MAX_REGLAS_CUPOS,
+  ORIGEN_INVITADOS_LABELS,
+  validarReglasCupos,
+  type OrigenInvitados,
+  type ReglasCupos,
+} from "@/lib/cuposImportacion";
+import type { FilaHoja } from "@/lib/lecturaPlanilla";
 
 type ImportSummary = {
   total: number;
@@ -22,6 +44,7 @@ type PreviewInfo = {
 };
 
 type FailedEmail = {
+  hoja: string;
   fila: number;
   email: string | null;
   reason: string;
@@ -30,51 +53,166 @@ type FailedEmail = {
   apellido?: string | null;
 };
 
-type StreamEvent =
-  | { type: "start"; totalRows: number; studentRows: number; studentsToEmail: number }
-  | { type: "progress"; processed: number; total: number }
-  | { type: "cooldown"; processed: number; remaining: number; delayMs: number }
-  | { type: "email-failed"; data: FailedEmail }
-  | { type: "done"; summary: ImportSummary; failedEmails: FailedEmail[] }
-  | { type: "error"; message: string };
-
-const EMAIL_FIELD_KEYS = [
-  "Correo",
-  "correo",
-  "Correo Institucional",
-  "correo institucional",
-  "Correo institucional",
-  "Email",
-  "email",
-  "Correo electronico",
-  "Correo electrónico",
-  "correoElectronico",
-];
-const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/i;
-
-const extractFirstCell = (row: Record<string, unknown>, keys: string[]): unknown => {
-  for (const key of keys) {
-    if (Object.prototype.hasOwnProperty.call(row, key)) {
-      const value = row[key];
-      if (value !== undefined && value !== null && String(value).trim() !== "") {
-        return value;
-      }
-    }
-  }
-  return null;
+type RowError = {
+  hoja: string;
+  fila: number;
+  motivo: string;
+  detalle: string;
+};
+
+type PersonaPrevia = {
+  hoja: string;
+  fila: number;
+  cedula: string | null;
+  nombre: string;
+  apellido: string;
+  correo: string | null;
+  tipo: "estudiante" | "familiar" | "visitante";
+};
+
+type Previsualizacion = {
+  total: number;
+  nuevos: PersonaPrevia[];
+  actualizaciones: Array<
+    PersonaPrevia & { cambios: Array<{ campo: string; anterior: string | null; nuevo: string }> }
+  >;
+  sinCambios: number;
+  duplicados: Array<{ hoja: string; fila: number; cedula: string; original: { hoja: string; fila: number } }>;
+  correosInvalidos: Array<{ hoja: string; fila: number; cedula: string | null; correo: string }>;
+  identificacionesInvalidas: Array<{ hoja: string; fila: number; valor: string; error: string }>;
+  invitadosInvalidos: Array<{ hoja: string; fila: number; cedula: string | null; valor: string; error: string }>;
+  codigosPorGenerar: number;
+  codigosReutilizados: number;
+  correosPorEnviar: number;
+  plazas: {
+    importacion: number;
+    evento: number;
+    capacidad: number | null;
+    origenInvitados: Record<OrigenInvitados, number>;
+    valoresSinRegla: string[];
+  };
 };
 
-const normalizeEmailValue = (value: unknown): string | null => {
-  if (value === null || value === undefined) return null;
-  const email = String(value).trim();
-  return email.length ? email : null;
+const CAMPO_LABELS: Record<string, string> = {
+  nombre: "Nombre",
+  apellido: "Apellido",
+  correo: "Correo",
+  tipo_persona: "Tipo",
 };
 
-const resolvePersonaType = (tipo: unknown): "estudiante" | "familiar" | "visitante" => {
-  const normalized = (typeof tipo === "string" ? tipo : String(tipo ?? "")).toLowerCase();
-  if (normalized === "fam" || normalized === "familiar") return "familiar";
-  if (normalized === "vis" || normalized === "visitante") return "visitante";
-  return "estudiante";
+type EstadoTrabajo = "en_cola" | "en_proceso" | "pausada" | "fallida" | "completada";
+
+type TrabajoImportacion = {
+  id: number;
+  estado: EstadoTrabajo;
+  archivo: string;
+  eventoId: number | null;
+  total: number;
+  procesadas: number;
+  exitosos: number;
+  fallidos: number;
+  reutilizarCodigos: boolean;
+  filasCreadas: number;
+  filasActualizadas: number;
+  filasSinCambios: number;
+  plazasImportacion: number;
+  plazasEvento: number;
+  capacidad: number | null;
+  estudiantes: number;
+  correosPorEnviar: number;
+  correosIntentados: number;
+  correosEnviados: number;
+  correosPendientes: number;
+  correosFallidos: FailedEmail[];
+  errores: RowError[];
+  mensaje: string | null;
+};
+
+const ESTADO_TRABAJO_LABELS: Record<EstadoTrabajo, string> = {
+  en_cola: "En cola",
+  en_proceso: "En proceso",
+  pausada: "Pausada",
+  fallida: "Fallida",
+  completada: "Completada",
+};
+
+const ESTADOS_ACTIVOS: EstadoTrabajo[] = ["en_cola", "en_proceso"];
+
+type ResultadoFila = "creada" | "actualizada" | "sin_cambios";
+
+const RESULTADO_FILA_LABELS: Record<ResultadoFila, string> = {
+  creada: "Creada",
+  actualizada: "Actualizada",
+  sin_cambios: "Sin cambios",
+};
+
+// Después de procesar las filas se sigue consultando mientras la bandeja envía las invitaciones
+const enSeguimiento = (trabajo: TrabajoImportacion) =>
+  ESTADOS_ACTIVOS.includes(trabajo.estado) || trabajo.correosPendientes > 0;
+
+const INTERVALO_CONSULTA_MS = 2_000;
+// Permite volver a la importación en curso después de cerrar o recargar la pestaña
+const CLAVE_TRABAJO = "importar:trabajoId";
+
+type HojaArchivo = {
+  nombre: string;
+  encabezados: string[];
+  filas: FilaHoja[];
+};
+
+type ArchivoCsv = {
+  codificacion: string;
+  delimitador: string;
+};
+
+const DELIMITADOR_LABELS: Record<string, string> = {
+  ",": "coma",
+  ";": "punto y coma",
+  "\t": "tabulación",
+  "|": "barra vertical",
+};
+
+const ubicacionFila = (item: { hoja: string; fila: number }) => `${item.hoja} · Fila ${item.fila}`;
+
+type ImportacionReciente = {
+  id: number;
+  archivo: string;
+  usuario: string | null;
+  fecha: string;
+  total: number;
+  exitosos: number;
+  fallidos: number;
+  codigos: number;
+  conIngresos: boolean;
+  correosNoEnviados: number;
+  estado: EstadoTrabajo;
+  revertidaEn: string | null;
+  revertidaPor: string | null;
+};
+
+type ArchivoDuplicado = {
+  id: number;
+  fecha: string;
+  usuario: string | null;
+  nombreOriginal: string | null;
+  evento: { id: number; nombre: string } | null;
+};
+
+type PerfilImportacion = {
+  id: number;
+  nombre: string;
+  mapeo: MapeoColumnas;
+  reglasCupos: ReglasCupos | null;
+};
+
+const contarFilas = (rows: FilaHoja[], mapeo: MapeoColumnas): PreviewInfo => {
+  const filas = rows.map((item) => leerCampos(item.row, mapeo));
+  const estudiantes = filas.filter((fila) => fila.tipo_persona === "estudiante");
+  return {
+    totalRows: rows.length,
+    studentRows: estudiantes.length,
+    studentsWithEmail: estudiantes.filter((fila) => fila.correo && EMAIL_REGEX.test(fila.correo)).length,
+  };
 };
 
 export default function ImportarPage() {
@@ -83,11 +221,68 @@ export default function ImportarPage() {
   const [status, setStatus] = useState<string | null>(null);
   const [summary, setSummary] = useState<ImportSummary | null>(null);
   const [maxUsosFamiliares, setMaxUsosFamiliares] = useState(0);
+  const [reutilizarCodigos, setReutilizarCodigos] = useState(true);
   const [preview, setPreview] = useState<PreviewInfo | null>(null);
   const [previewStatus, setPreviewStatus] = useState<string | null>(null);
   const [failedEmails, setFailedEmails] = useState<FailedEmail[]>([]);
+  const [rowErrors, setRowErrors] = useState<RowError[]>([]);
+  const [previsualizacion, setPrevisualizacion] = useState<Previsualizacion | null>(null);
+  const [previsualizando, setPrevisualizando] = useState(false);
+  const [archivoDuplicado, setArchivoDuplicado] = useState<ArchivoDuplicado | null>(null);
+  const [permitirDuplicado, setPermitirDuplicado] = useState(false);
   const [progress, setProgress] = useState<{ processed: number; total: number }>({ processed: 0, total: 0 });
-  const [cooldownInfo, setCooldownInfo] = useState<{ remaining: number; delayMs: number } | null>(null);
+  const [trabajoId, setTrabajoId] = useState<number | null>(null);
+  const [trabajo, setTrabajo] = useState<TrabajoImportacion | null>(null);
+  const [hojasArchivo, setHojasArchivo] = useState<HojaArchivo[]>([]);
+  const [hojasSeleccionadas, setHojasSeleccionadas] = useState<string[]>([]);
+  const [archivoCsv, setArchivoCsv] = useState<ArchivoCsv | null>(null);
+  const [mapeo, setMapeo] = useState<MapeoColumnas>({});
+  const [reglasCupos, setReglasCupos] = useState<ReglasCupos | null>(null);
+  const [perfiles, setPerfiles] = useState<PerfilImportacion[]>([]);
+  const [perfilId, setPerfilId] = useState<number | null>(null);
+  const [nombrePerfil, setNombrePerfil] = useState("");
+  const [perfilStatus, setPerfilStatus] = useState<string | null>(null);
+  const [importaciones, setImportaciones] = useState<ImportacionReciente[]>([]);
+  const [revirtiendoId, setRevirtiendoId] = useState<number | null>(null);
+  const [reversionStatus, setReversionStatus] = useState<string | null>(null);
+  const { eventos, eventoId, setEventoId } = useEventoSeleccionado();
+
+  const hojasElegidas = useMemo(
+    () => hojasArchivo.filter((hoja) => hojasSeleccionadas.includes(hoja.nombre)),
+    [hojasArchivo, hojasSeleccionadas]
+  );
+  const encabezados = useMemo(
+    () => Array.from(new Set(hojasElegidas.flatMap((hoja) => hoja.encabezados))),
+    [hojasElegidas]
+  );
+  const filasArchivo = useMemo(() => hojasElegidas.flatMap((hoja) => hoja.filas), [hojasElegidas]);
+
+  const errorMapeo = encabezados.length > 0 ? validarMapeo(mapeo) : null;
+  const errorReglas = reglasCupos ? validarReglasCupos(reglasCupos) : null;
+
+  // Valores distintos de la columna de reglas en las hojas elegidas, más los que ya tienen regla
+  const columnaReglas = reglasCupos?.columna ?? null;
+  const valoresColumnaReglas = useMemo(() => {
+    if (!columnaReglas) {
+      return [];
+    }
+    const valores = new Map<string, string>();
+    for (const item of filasArchivo) {
+      const valor = extractFirstValue(item.row, [columnaReglas]);
+      const texto = valor === null ? "" : String(valor).trim();
+      if (texto && !valores.has(normalizarEncabezado(texto))) {
+        valores.set(normalizarEncabezado(texto), texto);
+      }
+    }
+    return Array.from(valores.values());
+  }, [columnaReglas, filasArchivo]);
+  const valoresReglas = useMemo(() => {
+    const enArchivo = new Set(valoresColumnaReglas.map(normalizarEncabezado));
+    const soloEnReglas = (reglasCupos?.reglas ?? [])
+      .map((regla) => regla.valor)
+      .filter((valor) => !enArchivo.has(normalizarEncabezado(valor)));
+    return [...valoresColumnaReglas.slice(0, MAX_REGLAS_CUPOS), ...soloEnReglas];
+  }, [valoresColumnaReglas, reglasCupos]);
 
   const progressPercent = useMemo(() => {
     if (progress.total <= 0) {
@@ -108,9 +303,10 @@ export default function ImportarPage() {
       return `"${String(text).replace(/"/g, '""')}"`;
     };
 
-    const header = ["Fila", "Cedula", "Nombre", "Apellido", "Correo", "Razon"].map(formatCsvField).join(",");
+    const header = ["Hoja", "Fila", "Cedula", "Nombre", "Apellido", "Correo", "Razon"].map(formatCsvField).join(",");
     const rows = failedEmails.map((item) =>
       [
+        formatCsvField(item.hoja),
         formatCsvField(item.fila),
         formatCsvField(item.cedula ?? ""),
         formatCsvField(item.nombre ?? ""),
@@ -133,15 +329,264 @@ export default function ImportarPage() {
     URL.revokeObjectURL(url);
   }, [failedEmails, hasFailedEmails]);
 
+  const handleDescargarResultadoFilas = useCallback(async (id: number) => {
+    try {
+      const response = await fetch(`/api/importar/trabajo?id=${id}&filas=1`, { cache: "no-store" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        throw new Error(payload?.error || "No se pudo obtener el resultado por fila.");
+      }
+
+      const formatCsvField = (value: unknown) => `"${String(value ?? "").replace(/"/g, '""')}"`;
+      const filas = payload.filas as Array<{ hoja: string; fila: number; resultado: ResultadoFila; codigo: string | null }>;
+      const csvContent = [
+        ["Hoja", "Fila", "Resultado", "Codigo"].map(formatCsvField).join(","),
+        ...filas.map((item) =>
+          [item.hoja, item.fila, RESULTADO_FILA_LABELS[item.resultado], item.codigo].map(formatCsvField).join(",")
+        ),
+      ].join("\n");
+
+      const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.setAttribute("download", `importacion-${id}-resultado-filas.csv`);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error descargando el resultado por fila", error);
+      setStatus(`❌ ${error instanceof Error ? error.message : "No se pudo obtener el resultado por fila."}`);
+    }
+  }, []);
+
+  // Cambiar el evento, las hojas o las columnas invalida la vista previa: la confirmación debe corresponder a lo revisado
+  useEffect(() => {
+    setPrevisualizacion(null);
+  }, [eventoId, mapeo, reglasCupos, hojasSeleccionadas]);
+
+  useEffect(() => {
+    if (hojasArchivo.length === 0) {
+      return;
+    }
+    setPreview(contarFilas(filasArchivo, mapeo));
+  }, [hojasArchivo, filasArchivo, mapeo]);
+
+  const handleHojaToggle = (nombre: string) => {
+    setHojasSeleccionadas((prev) =>
+      prev.includes(nombre)
+        ? prev.filter((hoja) => hoja !== nombre)
+        : hojasArchivo.map((hoja) => hoja.nombre).filter((hoja) => hoja === nombre || prev.includes(hoja))
+    );
+  };
+
+  const cargarPerfiles = useCallback(async () => {
+    try {
+      const response = await fetch("/api/importar/perfiles");
+      const payload = await response.json().catch(() => null);
+      if (response.ok && Array.isArray(payload?.perfiles)) {
+        setPerfiles(payload.perfiles);
+      }
+    } catch (error) {
+      console.error("No se pudieron cargar los perfiles de importación", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    void cargarPerfiles();
+  }, [cargarPerfiles]);
+
+  const cargarImportaciones = useCallback(async () => {
+    if (!eventoId) {
+      setImportaciones([]);
+      return;
+    }
+    try {
+      const response = await fetch(`/api/importar?eventoId=${eventoId}`);
+      const payload = await response.json().catch(() => null);
+      if (response.ok && Array.isArray(payload?.importaciones)) {
+        setImportaciones(payload.importaciones);
+      }
+    } catch (error) {
+      console.error("No se pudieron cargar las importaciones recientes", error);
+    }
+  }, [eventoId]);
+
+  useEffect(() => {
+    void cargarImportaciones();
+  }, [cargarImportaciones]);
+
+  const handleRevertir = async (importacion: ImportacionReciente) => {
+    const confirmado = window.confirm(
+      `¿Revertir la importación #${importacion.id}? Se eliminarán sus ${importacion.codigos} código(s) y las ` +
+        "personas que creó, y se restaurarán los datos de las personas que actualizó."
+    );
+    if (!confirmado) {
+      return;
+    }
+    setRevirtiendoId(importacion.id);
+    setReversionStatus(null);
+    try {
+      const response = await fetch("/api/importar/revertir", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ importacionId: importacion.id }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        const codigos: string[] = Array.isArray(payload?.codigos) ? payload.codigos : [];
+        setReversionStatus(
+          `❌ ${payload?.error || "No se pudo revertir la importación"}${codigos.length ? ` (${codigos.join(", ")})` : ""}`
+        );
+        return;
+      }
+      setReversionStatus(`✅ ${payload.message}`);
+      await cargarImportaciones();
+    } catch (error) {
+      console.error("Error revirtiendo la importación", error);
+      setReversionStatus("❌ No se pudo revertir la importación");
+    } finally {
+      setRevirtiendoId(null);
+    }
+  };
+
+  const handleCampoChange = (campo: CampoImportacion, encabezado: string) => {
+    setMapeo((prev) => {
+      const siguiente = { ...prev };
+      if (encabezado) {
+        siguiente[campo] = encabezado;
+      } else {
+        delete siguiente[campo];
+      }
+      return siguiente;
+    });
+  };
+
+  const handleColumnaReglasChange = (columna: string) => {
+    setReglasCupos((prev) => (columna ? { columna, reglas: prev?.columna === columna ? prev.reglas : [] } : null));
+  };
+
+  const handleInvitadosReglaChange = (valor: string, texto: string) => {
+    setReglasCupos((prev) => {
+      if (!prev) {
+        return prev;
+      }
+      const clave = normalizarEncabezado(valor);
+      const reglas = prev.reglas.filter((regla) => normalizarEncabezado(regla.valor) !== clave);
+      const invitados = Number(texto);
+      if (texto.trim() !== "" && Number.isInteger(invitados) && invitados >= 0) {
+        reglas.push({ valor, invitados: Math.min(invitados, MAX_INVITADOS) });
+      }
+      return { ...prev, reglas };
+    });
+  };
+
+  const handlePerfilChange = (value: string) => {
+    const perfil = perfiles.find((item) => item.id === Number(value)) ?? null;
+    setPerfilId(perfil?.id ?? null);
+    setPerfilStatus(null);
+    if (!perfil) {
+      setMapeo(sugerirMapeo(encabezados));
+      setReglasCupos(null);
+      return;
+    }
+    setNombrePerfil(perfil.nombre);
+    // Solo se aplican las columnas que existen en el archivo cargado
+    const aplicables = Object.fromEntries(
+      Object.entries(perfil.mapeo).filter(([, encabezado]) => encabezado && encabezados.includes(encabezado))
+    ) as MapeoColumnas;
+    setMapeo(aplicables);
+    const reglasAplicables = perfil.reglasCupos && encabezados.includes(perfil.reglasCupos.columna);
+    setReglasCupos(reglasAplicables ? perfil.reglasCupos : null);
+    const omitidas = Object.keys(perfil.mapeo).length - Object.keys(aplicables).length;
+    if (omitidas > 0) {
+      setPerfilStatus(
+        `⚠️ ${omitidas} columna${omitidas === 1 ? "" : "s"} del perfil no existe${omitidas === 1 ? "" : "n"} en este archivo.`
+      );
+    } else if (perfil.reglasCupos && !reglasAplicables) {
+      setPerfilStatus(`⚠️ La columna "${perfil.reglasCupos.columna}" de las reglas de invitados no existe en este archivo.`);
+    }
+  };
+
+  const handleGuardarPerfil = async () => {
+    const nombre = nombrePerfil.trim();
+    if (!nombre) {
+      setPerfilStatus("⚠️ Escribe un nombre para el perfil");
+      return;
+    }
+    if (errorMapeo || errorReglas) {
+      setPerfilStatus(`⚠️ ${errorMapeo ?? errorReglas}`);
+      return;
+    }
+    setPerfilStatus("Guardando perfil…");
+    try {
+      const response = await fetch("/api/importar/perfiles", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ nombre, mapeo, reglasCupos }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.perfil) {
+        setPerfilStatus(`❌ ${payload?.error || "No se pudo guardar el perfil"}`);
+        return;
+      }
+      await cargarPerfiles();
+      setPerfilId(payload.perfil.id);
+      setPerfilStatus(`✅ Perfil "${payload.perfil.nombre}" guardado`);
+    } catch (error) {
+      console.error("Error guardando el perfil de importación", error);
+      setPerfilStatus("❌ No se pudo guardar el perfil");
+    }
+  };
+
+  const handleEliminarPerfil = async () => {
+    const perfil = perfiles.find((item) => item.id === perfilId);
+    if (!perfil || !window.confirm(`¿Eliminar el perfil "${perfil.nombre}"?`)) {
+      return;
+    }
+    try {
+      const response = await fetch(`/api/importar/perfiles?id=${perfil.id}`, { method: "DELETE" });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok) {
+        setPerfilStatus(`❌ ${payload?.error || "No se pudo eliminar el perfil"}`);
+        return;
+      }
+      setPerfilId(null);
+      setNombrePerfil("");
+      setPerfilStatus(`Perfil "${perfil.nombre}" eliminado`);
+      await cargarPerfiles();
+    } catch (error) {
+      console.error("Error eliminando el perfil de importación", error);
+      setPerfilStatus("❌ No se pudo eliminar el perfil");
+    }
+  };
+
+  const agregarMapeo = (formData: FormData) => {
+    formData.append("hojas", JSON.stringify(hojasSeleccionadas));
+    formData.append("mapeo", JSON.stringify(mapeo));
+    formData.append("reglas_cupos", JSON.stringify(reglasCupos));
+    if (perfilId) {
+      formData.append("perfilId", String(perfilId));
+    }
+  };
+
   const handleFileChange = useCallback(async (selectedFile: File | null) => {
     setFile(selectedFile);
+    setPrevisualizacion(null);
+    setArchivoDuplicado(null);
+    setPermitirDuplicado(false);
     setSummary(null);
     setStatus(null);
     setPreview(null);
     setPreviewStatus(null);
     setFailedEmails([]);
+    setRowErrors([]);
     setProgress({ processed: 0, total: 0 });
-    setCooldownInfo(null);
+    setHojasArchivo([]);
+    setHojasSeleccionadas([]);
+    setArchivoCsv(null);
+    setPerfilStatus(null);
 
     if (!selectedFile) {
       return;
@@ -149,39 +594,35 @@ export default function ImportarPage() {
 
     setPreviewStatus("Analizando archivo…");
     try {
-      const XLSX = await import("xlsx");
-      const buffer = await selectedFile.arrayBuffer();
-      const workbook = XLSX.read(buffer, { type: "array" });
-      const sheetName = workbook.SheetNames[0];
+      const { encabezadosHojas, esPlanillaAdmitida, filasHojas, leerPlanilla, EXTENSIONES_PLANILLA } =
+        await import("@/lib/lecturaPlanilla");
 
-      if (!sheetName) {
-        setPreviewStatus("El archivo no contiene una hoja válida.");
+      if (!esPlanillaAdmitida(selectedFile.name)) {
+        setPreviewStatus(`Formato no admitido. Usa ${EXTENSIONES_PLANILLA.join(", ")}.`);
         return;
       }
 
-      const sheet = workbook.Sheets[sheetName];
-      const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(sheet ?? {});
-
-      const studentRows = rows.reduce((acc, row) => {
-        const tipoRaw = extractFirstCell(row, ["Tipo", "tipo"]);
-        return resolvePersonaType(tipoRaw ?? "est") === "estudiante" ? acc + 1 : acc;
-      }, 0);
+      const { libro, hojas, csv } = leerPlanilla(await selectedFile.arrayBuffer(), selectedFile.name);
+      const contenido = hojas
+        .map((nombre) => ({
+          nombre,
+          encabezados: encabezadosHojas(libro, [nombre]),
+          filas: filasHojas(libro, [nombre]),
+        }))
+        .filter((hoja) => hoja.encabezados.length > 0);
 
-      const studentsWithEmail = rows.reduce((acc, row) => {
-        const tipoRaw = extractFirstCell(row, ["Tipo", "tipo"]);
-        const correoRaw = extractFirstCell(row, EMAIL_FIELD_KEYS);
-        const correo = normalizeEmailValue(correoRaw);
-        if (resolvePersonaType(tipoRaw ?? "est") === "estudiante" && correo && EMAIL_REGEX.test(correo)) {
-          return acc + 1;
-        }
-        return acc;
-      }, 0);
+      if (contenido.length === 0) {
+        setPreviewStatus("La primera fila de la hoja debe contener los encabezados de las columnas.");
+        return;
+      }
 
-      setPreview({
-        totalRows: rows.length,
-        studentRows,
-        studentsWithEmail,
-      });
+      const [primeraHoja] = contenido;
+      setHojasArchivo(contenido);
+      setHojasSeleccionadas([primeraHoja.nombre]);
+      setArchivoCsv(csv);
+      setPerfilId(null);
+      setMapeo(sugerirMapeo(primeraHoja.encabezados));
+      setReglasCupos(null);
       setPreviewStatus(null);
     } catch (error) {
       console.error("No se pudo analizar el archivo", error);
@@ -190,136 +631,257 @@ export default function ImportarPage() {
     }
   }, []);
 
+  const handlePrevisualizar = async (selectedFile: File, selectedEventoId: number) => {
+    setPrevisualizando(true);
+    setStatus("Analizando el archivo sin guardar cambios…");
+    try {
+      const formData = new FormData();
+      formData.append("file", selectedFile);
+      formData.append("max_usos_familiares", String(maxUsosFamiliares));
+      formData.append("reutilizar_codigos", String(reutilizarCodigos));
+      formData.append("eventoId", String(selectedEventoId));
+      formData.append("modo", "previsualizar");
+      agregarMapeo(formData);
+
+      const response = await fetch("/api/importar", { method: "POST", body: formData });
+      const payload = await response.json().catch(() => null);
+
+      if (!response.ok || !payload?.previsualizacion) {
+        setStatus(`❌ Error: ${payload?.error || response.statusText}`);
+        return;
+      }
+
+      setPrevisualizacion(payload.previsualizacion);
+      setArchivoDuplicado(payload.archivoDuplicado ?? null);
+      setStatus("Revisa la vista previa y confirma la importación.");
+    } catch (error) {
+      console.error("Error en la vista previa", error);
+      setStatus("❌ No se pudo generar la vista previa. Intenta nuevamente.");
+    } finally {
+      setPrevisualizando(false);
+    }
+  };
+
+  const seguirTrabajo = useCallback((id: number | null) => {
+    setTrabajoId(id);
+    if (id) {
+      window.localStorage.setItem(CLAVE_TRABAJO, String(id));
+      window.history.replaceState(null, "", `?trabajo=${id}`);
+    } else {
+      window.localStorage.removeItem(CLAVE_TRABAJO);
+      window.history.replaceState(null, "", window.location.pathname);
+    }
+  }, []);
+
+  const aplicarTrabajo = useCallback(
+    (actual: TrabajoImportacion) => {
+      const activo = ESTADOS_ACTIVOS.includes(actual.estado);
+      setTrabajo(actual);
+      setLoading(activo);
+      setFailedEmails(actual.correosFallidos);
+      setRowErrors(actual.errores);
+      setProgress({ processed: actual.procesadas, total: actual.total });
+
+      const resumen: ImportSummary = {
+        total: actual.total,
+        exitosos: actual.exitosos,
+        fallidos: actual.fallidos,
+        // Al terminar se sabe cuántos correos se encolaron; las filas sin cambios no reciben correo
+        emailsIntentados: actual.estado === "completada" ? actual.correosIntentados : actual.correosPorEnviar,
+        emailsProcesados: actual.correosIntentados,
+        emailsEnviados: actual.correosEnviados,
+        emailsFallidos: actual.correosFallidos.length,
+        studentRows: actual.estudiantes,
+        studentsToEmail: actual.correosPorEnviar,
+      };
+
+      switch (actual.estado) {
+        case "en_cola":
+          setStatus(`Importación #${actual.id} en cola. Comenzará cuando termine la anterior.`);
+          break;
+        case "en_proceso":
+          setStatus(
+            `Procesando fila ${actual.procesadas}/${actual.total}. ` +
+              `Correos enviados: ${actual.correosEnviados}/${actual.correosPorEnviar}.`
+          );
+          break;
+        case "pausada":
+          setSummary(resumen);
+          setStatus(`⏸️ Importación pausada en la fila ${actual.procesadas}/${actual.total}.`);
+          break;
+        case "fallida":
+          setSummary(resumen);
+          setStatus(`❌ La importación se detuvo: ${actual.mensaje ?? "error desconocido"}. Puedes reanudarla.`);
+          break;
+        case "completada":
+          setSummary(resumen);
+          setStatus(
+            `✅ Importación completada. Filas creadas: ${actual.filasCreadas}, actualizadas: ` +
+              `${actual.filasActualizadas}, sin cambios: ${actual.filasSinCambios}. ` +
+              `Correos enviados: ${actual.correosEnviados}/${actual.correosIntentados}` +
+              `${actual.correosPendientes > 0 ? ` (${actual.correosPendientes} en cola)` : ""}. ` +
+              `Registros con incidencias: ${actual.fallidos}.`
+          );
+          break;
+      }
+    },
+    []
+  );
+
+  // Reconecta con la importación indicada en la URL o con la última iniciada desde este navegador
+  useEffect(() => {
+    const desdeUrl = Number(new URLSearchParams(window.location.search).get("trabajo"));
+    const guardado = Number(window.localStorage.getItem(CLAVE_TRABAJO));
+    const id = desdeUrl || guardado;
+    if (Number.isInteger(id) && id > 0) {
+      setTrabajoId(id);
+    }
+  }, []);
+
+  // Al reanudar, el cambio de estado vuelve a activar la consulta periódica
+  const trabajoActivo = trabajo ? enSeguimiento(trabajo) : true;
+
+  useEffect(() => {
+    if (!trabajoId || !trabajoActivo) {
+      return;
+    }
+
+    let cancelado = false;
+    let terminado = false;
+    let temporizador: ReturnType<typeof setTimeout> | null = null;
+
+    const consultar = async () => {
+      try {
+        const response = await fetch(`/api/importar/trabajo?id=${trabajoId}`);
+        const payload = await response.json().catch(() => null);
+        if (cancelado) return;
+        if (response.status === 404) {
+          seguirTrabajo(null);
+          return;
+        }
+        if (response.ok && payload?.trabajo) {
+          const actual = payload.trabajo as TrabajoImportacion;
+          aplicarTrabajo(actual);
+          if (!terminado && !ESTADOS_ACTIVOS.includes(actual.estado)) {
+            terminado = true;
+            void cargarImportaciones();
+          }
+          if (!enSeguimiento(actual)) {
+            return;
+          }
+        }
+      } catch (error) {
+        console.error("No se pudo consultar el avance de la importación", error);
+      }
+      if (!cancelado) {
+        temporizador = setTimeout(consultar, INTERVALO_CONSULTA_MS);
+      }
+    };
+
+    void consultar();
+
+    return () => {
+      cancelado = true;
+      if (temporizador) clearTimeout(temporizador);
+    };
+  }, [trabajoId, trabajoActivo, aplicarTrabajo, cargarImportaciones, seguirTrabajo]);
+
+  const handleAccionTrabajo = async (accion: "pausar" | "reanudar") => {
+    if (!trabajo) {
+      return;
+    }
+    try {
+      const response = await fetch("/api/importar/trabajo", {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ id: trabajo.id, accion }),
+      });
+      const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.trabajo) {
+        setStatus(`❌ ${payload?.error || "No se pudo actualizar la importación"}`);
+        return;
+      }
+      aplicarTrabajo(payload.trabajo);
+    } catch (error) {
+      console.error("Error actualizando la importación", error);
+      setStatus("❌ No se pudo actualizar la importación");
+    }
+  };
+
   const handleSubmit = async (event: React.FormEvent<HTMLFormElement>) => {
     event.preventDefault();
 
     if (!file) {
-      setStatus("⚠️ Selecciona un archivo .xlsx o .xls para comenzar");
+      setStatus("⚠️ Selecciona un archivo Excel, ODS o CSV para comenzar");
       return;
     }
 
+    if (!eventoId) {
+      setStatus("⚠️ Selecciona el evento al que pertenecen los estudiantes");
+      return;
+    }
+
+    if (hojasSeleccionadas.length === 0) {
+      setStatus("⚠️ Selecciona al menos una hoja del archivo");
+      return;
+    }
+
+    if (errorMapeo) {
+      setStatus(`⚠️ ${errorMapeo}`);
+      return;
+    }
+
+    if (errorReglas) {
+      setStatus(`⚠️ ${errorReglas}`);
+      return;
+    }
+
+    if (!previsualizacion) {
+      await handlePrevisualizar(file, eventoId);
+      return;
+    }
+
+    if (archivoDuplicado && !permitirDuplicado) {
+      setStatus(
+        `⚠️ Este archivo ya se importó en la importación #${archivoDuplicado.id}. Confirma que quieres importarlo otra vez.`
+      );
+      return;
+    }
+
+    setPrevisualizacion(null);
     setLoading(true);
     setStatus("Preparando importación…");
     setSummary(null);
     setFailedEmails([]);
-    setProgress({ processed: 0, total: preview?.studentsWithEmail ?? 0 });
-    setCooldownInfo(null);
+    setRowErrors([]);
+    setProgress({ processed: 0, total: preview?.totalRows ?? 0 });
 
     try {
       const formData = new FormData();
       formData.append("file", file);
       formData.append("max_usos_familiares", String(maxUsosFamiliares));
+      formData.append("reutilizar_codigos", String(reutilizarCodigos));
+      formData.append("eventoId", String(eventoId));
+      formData.append("permitir_duplicado", String(permitirDuplicado));
+      agregarMapeo(formData);
 
       const response = await fetch("/api/importar", {
         method: "POST",
         body: formData,
       });
+      const payload = await response.json().catch(() => null);
 
-      if (!response.ok) {
-        const payload = await response.json().catch(() => null);
+      if (!response.ok || !payload?.importacionId) {
         setStatus(`❌ Error: ${payload?.error || response.statusText}`);
+        setLoading(false);
         return;
       }
 
-      if (!response.body) {
-        setStatus("❌ No se pudo recibir la respuesta del servidor.");
-        return;
-      }
-
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let buffer = "";
-      let importCompleted = false;
-      let importErrored = false;
-
-      const processEvent = (event: StreamEvent) => {
-        switch (event.type) {
-          case "start": {
-            setStatus(
-              `Procesando ${event.totalRows} registro${event.totalRows === 1 ? "" : "s"}. ` +
-                `${event.studentsToEmail} estudiante${event.studentsToEmail === 1 ? "" : "s"} con correo válido.`
-            );
-            setPreview({
-              totalRows: event.totalRows,
-              studentRows: event.studentRows,
-              studentsWithEmail: event.studentsToEmail,
-            });
-            setPreviewStatus(null);
-            setProgress({ processed: 0, total: event.studentsToEmail });
-            setCooldownInfo(null);
-            break;
-          }
-          case "progress": {
-            setProgress({ processed: event.processed, total: event.total });
-            setStatus(`Enviando invitaciones ${event.processed}/${event.total}`);
-            setCooldownInfo(null);
-            break;
-          }
-          case "cooldown": {
-            setCooldownInfo({ remaining: event.remaining, delayMs: event.delayMs });
-            setStatus(
-              `Pausa preventiva para evitar bloqueos. Quedan ${event.remaining} invitacione${event.remaining === 1 ? "" : "s"} por enviar.`
-            );
-            break;
-          }
-          case "email-failed": {
-            setFailedEmails((prev) => [...prev, event.data]);
-            break;
-          }
-          case "done": {
-            importCompleted = true;
-            setSummary(event.summary);
-            setFailedEmails(event.failedEmails);
-            setProgress({ processed: event.summary.emailsProcesados, total: event.summary.emailsIntentados });
-            setCooldownInfo(null);
-            setStatus(
-              `✅ Importación completada. Correos enviados: ${event.summary.emailsEnviados}/${event.summary.emailsIntentados}. ` +
-                `Registros con incidencias: ${event.summary.fallidos}.`
-            );
-            break;
-          }
-          case "error": {
-            importCompleted = true;
-            importErrored = true;
-            setStatus(`❌ ${event.message}`);
-            break;
-          }
-          default:
-            break;
-        }
-      };
-
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split("\n");
-        buffer = lines.pop() ?? "";
-        for (const line of lines) {
-          if (!line.trim()) continue;
-          try {
-            processEvent(JSON.parse(line) as StreamEvent);
-          } catch (parseErr) {
-            console.error("No se pudo interpretar el evento del servidor:", parseErr, line);
-          }
-        }
-      }
-
-      if (buffer.trim()) {
-        try {
-          processEvent(JSON.parse(buffer) as StreamEvent);
-        } catch (parseErr) {
-          console.error("No se pudo interpretar el evento final del servidor:", parseErr, buffer);
-        }
-      }
-
-      if (!importCompleted && !importErrored) {
-        setStatus((prev) => prev ?? "❌ La importación finalizó inesperadamente. Verifica el archivo e inténtalo de nuevo.");
-      }
+      seguirTrabajo(payload.importacionId);
+      setStatus("Importación en cola. Puedes cerrar esta página; el proceso continúa en el servidor.");
     } catch (error) {
       console.error("Error en importación", error);
-      setStatus("❌ No se pudo completar la importación. Intenta nuevamente.");
-    } finally {
+      setStatus("❌ No se pudo iniciar la importación. Intenta nuevamente.");
       setLoading(false);
     }
   };
@@ -343,7 +905,7 @@ export default function ImportarPage() {
           </div>
           <div className="rounded-2xl bg-brand-secondary/10 px-5 py-3 text-sm text-brand-primary">
             <p className="font-semibold text-brand-primary">Formato soportado</p>
-            <p>Excel (.xlsx / .xls) con columnas: Nombre, Apellido, Cédula, Correo, Tipo</p>
+            <p>Excel (.xlsx / .xls), OpenDocument (.ods) o CSV con encabezados en la primera fila</p>
           </div>
         </header>
 
@@ -363,7 +925,7 @@ export default function ImportarPage() {
                     selecciónalo
                     <input
                       type="file"
-                      accept=".xlsx,.xls"
+                      accept=".xlsx,.xls,.ods,.csv,.txt"
                       className="hidden"
                       onChange={(event) => handleFileChange(event.target.files?.[0] ?? null)}
                     />
@@ -375,6 +937,34 @@ export default function ImportarPage() {
                     📄 {file.name}
                   </p>
                 ) : null}
+                {archivoCsv ? (
+                  <p className="mt-2 text-xs text-brand-accent/70">
+                    CSV leído como {archivoCsv.codificacion === "windows-1252" ? "Latin-1" : archivoCsv.codificacion.toUpperCase()},
+                    separado por {DELIMITADOR_LABELS[archivoCsv.delimitador] ?? archivoCsv.delimitador}.
+                  </p>
+                ) : null}
+                {hojasArchivo.length > 1 ? (
+                  <div className="mt-4">
+                    <p className="text-xs font-semibold text-brand-primary">Hojas a importar</p>
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {hojasArchivo.map((hoja) => (
+                        <label
+                          key={hoja.nombre}
+                          className="inline-flex cursor-pointer items-center gap-2 rounded-xl bg-white/70 px-3 py-1 text-xs text-brand-primary"
+                        >
+                          <input
+                            type="checkbox"
+                            checked={hojasSeleccionadas.includes(hoja.nombre)}
+                            onChange={() => handleHojaToggle(hoja.nombre)}
+                            disabled={loading}
+                          />
+                          {hoja.nombre}
+                          <span className="text-brand-accent/60">({hoja.filas.length})</span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                ) : null}
                 {previewStatus ? (
                   <p className="mt-3 text-xs text-brand-accent/70">{previewStatus}</p>
                 ) : null}
@@ -397,13 +987,153 @@ export default function ImportarPage() {
               </div>
             </div>
 
+            {encabezados.length > 0 ? (
+              <div>
+                <label className="text-sm font-semibold uppercase tracking-[0.3em] text-brand-accent/70">
+                  Columnas del archivo
+                </label>
+                <p className="mt-1 text-xs text-brand-accent/70">
+                  Indica qué columna corresponde a cada dato. Se proponen según los encabezados; guarda la
+                  asignación como perfil para reutilizarla con planillas del mismo formato.
+                </p>
+
+                <div className="mt-3 flex flex-col gap-2 sm:flex-row sm:items-center">
+                  <select
+                    value={perfilId ?? ""}
+                    onChange={(event) => handlePerfilChange(event.target.value)}
+                    disabled={loading}
+                    className="w-full rounded-xl border border-brand-secondary/30 bg-white/80 px-4 py-2 text-sm text-brand-primary focus:border-brand-secondary focus:outline-none focus:ring focus:ring-brand-secondary/30 sm:flex-1"
+                  >
+                    <option value="">Asignación sugerida</option>
+                    {perfiles.map((perfil) => (
+                      <option key={perfil.id} value={perfil.id}>
+                        Perfil: {perfil.nombre}
+                      </option>
+                    ))}
+                  </select>
+                  {perfilId ? (
+                    <button
+                      type="button"
+                      onClick={handleEliminarPerfil}
+                      disabled={loading}
+                      className="rounded-xl border border-red-200 px-4 py-2 text-xs font-semibold text-red-600 transition hover:bg-red-50 disabled:opacity-60"
+                    >
+                      Eliminar perfil
+                    </button>
+                  ) : null}
+                </div>
+
+                <div className="mt-4 grid grid-cols-1 gap-3 sm:grid-cols-2">
+                  {CAMPOS_IMPORTACION.map(({ campo, etiqueta, ayuda }) => (
+                    <label key={campo} className="flex flex-col gap-1 text-xs text-brand-accent/80">
+                      <span className="font-semibold text-brand-primary">{etiqueta}</span>
+                      <select
+                        value={mapeo[campo] ?? ""}
+                        onChange={(event) => handleCampoChange(campo, event.target.value)}
+                        disabled={loading}
+                        className="rounded-xl border border-brand-secondary/30 bg-white/80 px-3 py-2 text-sm text-brand-primary focus:border-brand-secondary focus:outline-none focus:ring focus:ring-brand-secondary/30"
+                      >
+                        <option value="">— No usar —</option>
+                        {encabezados.map((encabezado) => (
+                          <option key={encabezado} value={encabezado}>
+                            {encabezado}
+                          </option>
+                        ))}
+                      </select>
+                      <span className="text-[11px] text-brand-accent/60">{ayuda}</span>
+                    </label>
+                  ))}
+                </div>
+
+                {errorMapeo ? <p className="mt-3 text-xs font-semibold text-amber-700">⚠️ {errorMapeo}</p> : null}
+
+                <div className="mt-4 rounded-xl bg-white/60 px-4 py-3 text-xs text-brand-accent/80">
+                  <label className="flex flex-col gap-1">
+                    <span className="font-semibold text-brand-primary">Invitados según otra columna</span>
+                    <span className="text-[11px] text-brand-accent/60">
+                      Asigna invitados por carrera, jornada u otra columna. La columna de invitados de la fila tiene
+                      prioridad; los valores sin cantidad usan el valor general.
+                    </span>
+                    <select
+                      value={reglasCupos?.columna ?? ""}
+                      onChange={(event) => handleColumnaReglasChange(event.target.value)}
+                      disabled={loading}
+                      className="mt-1 rounded-xl border border-brand-secondary/30 bg-white/80 px-3 py-2 text-sm text-brand-primary focus:border-brand-secondary focus:outline-none focus:ring focus:ring-brand-secondary/30"
+                    >
+                      <option value="">— Sin reglas —</option>
+                      {encabezados.map((encabezado) => (
+                        <option key={encabezado} value={encabezado}>
+                          {encabezado}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  {reglasCupos ? (
+                    <div className="mt-3 grid max-h-64 grid-cols-1 gap-2 overflow-y-auto sm:grid-cols-2">
+                      {valoresReglas.map((valor) => (
+                        <label key={valor} className="flex items-center justify-between gap-3 rounded-lg bg-white/80 px-3 py-1">
+                          <span className="truncate text-brand-primary" title={valor}>
+                            {valor}
+                          </span>
+                          <input
+                            type="number"
+                            min={0}
+                            max={MAX_INVITADOS}
+                            placeholder={String(maxUsosFamiliares)}
+                            value={
+                              reglasCupos.reglas.find(
+                                (regla) => normalizarEncabezado(regla.valor) === normalizarEncabezado(valor)
+                              )?.invitados ?? ""
+                            }
+                            onChange={(event) => handleInvitadosReglaChange(valor, event.target.value)}
+                            disabled={loading}
+                            className="w-20 rounded-lg border border-brand-secondary/30 px-2 py-1 text-right text-sm text-brand-primary"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  ) : null}
+                  {valoresColumnaReglas.length > MAX_REGLAS_CUPOS ? (
+                    <p className="mt-2 text-amber-700">
+                      La columna tiene {valoresColumnaReglas.length} valores distintos; se muestran los primeros{" "}
+                      {MAX_REGLAS_CUPOS}.
+                    </p>
+                  ) : null}
+                  {errorReglas ? <p className="mt-2 font-semibold text-amber-700">⚠️ {errorReglas}</p> : null}
+                </div>
+
+                <div className="mt-4 flex flex-col gap-2 sm:flex-row sm:items-center">
+                  <input
+                    type="text"
+                    value={nombrePerfil}
+                    onChange={(event) => setNombrePerfil(event.target.value)}
+                    placeholder="Nombre del perfil (p. ej. Secretaría 2025)"
+                    maxLength={191}
+                    disabled={loading}
+                    className="w-full rounded-xl border border-brand-secondary/30 bg-white/80 px-4 py-2 text-sm text-brand-primary focus:border-brand-secondary focus:outline-none focus:ring focus:ring-brand-secondary/30 sm:flex-1"
+                  />
+                  <button
+                    type="button"
+                    onClick={handleGuardarPerfil}
+                    disabled={loading || Boolean(errorMapeo) || Boolean(errorReglas)}
+                    className="rounded-xl bg-brand-secondary/10 px-4 py-2 text-xs font-semibold text-brand-secondary transition hover:bg-brand-secondary/20 disabled:opacity-60"
+                  >
+                    Guardar perfil
+                  </button>
+                </div>
+                {perfilStatus ? <p className="mt-2 text-xs text-brand-accent/80">{perfilStatus}</p> : null}
+              </div>
+            ) : null}
+
+            <EventoSelector eventos={eventos} value={eventoId} onChange={setEventoId} disabled={loading} />
+
             <div>
               <label className="block text-sm font-semibold text-brand-primary">
                 Invitados adicionales por estudiante
               </label>
               <p className="text-xs text-brand-accent/70">
                 Indica cuántas personas acompañarán al estudiante. El QR resultante permitirá el acceso del
-                estudiante más sus invitados.
+                estudiante más sus invitados. Se aplica a las filas sin cantidad propia ni regla por columna.
               </p>
               <input
                 type="number"
@@ -411,6 +1141,7 @@ export default function ImportarPage() {
                 value={maxUsosFamiliares}
                 onChange={(event) => {
                   const value = Number(event.target.value);
+                  setPrevisualizacion(null);
                   if (Number.isNaN(value) || value < 0) {
                     setMaxUsosFamiliares(0);
                     return;
@@ -421,24 +1152,150 @@ export default function ImportarPage() {
               />
             </div>
 
+            <label className="flex items-start gap-3 text-sm text-brand-primary">
+              <input
+                type="checkbox"
+                checked={reutilizarCodigos}
+                onChange={(event) => {
+                  setPrevisualizacion(null);
+                  setReutilizarCodigos(event.target.checked);
+                }}
+                className="mt-1"
+              />
+              <span>
+                <span className="block font-semibold">Actualizar los códigos existentes</span>
+                <span className="text-xs text-brand-accent/70">
+                  Si la persona ya tiene un código en este evento se actualiza su cupo en lugar de generar otro, y el
+                  correo solo se reenvía cuando algo cambió. Desmárcalo para generar siempre códigos nuevos.
+                </span>
+              </span>
+            </label>
+
             <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
               <p className="text-xs text-brand-accent/70">
                 El sistema generará un único QR por estudiante con la capacidad total (estudiante + invitados) y lo
                 enviará por correo.
               </p>
-              <button
-                type="submit"
-                disabled={!file || loading}
-                className="inline-flex items-center justify-center gap-2 rounded-xl bg-brand-secondary px-5 py-2 text-sm font-semibold text-white shadow-md shadow-brand-secondary/30 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-sky-300"
-              >
-                {loading ? "Importando…" : "Importar datos"}
-              </button>
+              <div className="flex gap-2">
+                {previsualizacion && !loading ? (
+                  <button
+                    type="button"
+                    onClick={() => setPrevisualizacion(null)}
+                    className="inline-flex items-center justify-center rounded-xl border border-brand-secondary/40 px-4 py-2 text-sm font-semibold text-brand-primary transition hover:bg-brand-secondary/10"
+                  >
+                    Cancelar
+                  </button>
+                ) : null}
+                <button
+                  type="submit"
+                  disabled={!file || !eventoId || loading || previsualizando}
+                  className="inline-flex items-center justify-center gap-2 rounded-xl bg-brand-secondary px-5 py-2 text-sm font-semibold text-white shadow-md shadow-brand-secondary/30 transition hover:bg-sky-400 disabled:cursor-not-allowed disabled:bg-sky-300"
+                >
+                  {loading
+                    ? "Importando…"
+                    : previsualizando
+                    ? "Analizando…"
+                    : previsualizacion
+                    ? "Confirmar importación"
+                    : "Previsualizar importación"}
+                </button>
+              </div>
             </div>
 
+            {previsualizacion && archivoDuplicado ? (
+              <label className="flex items-start gap-3 rounded-xl bg-amber-100/70 px-4 py-3 text-xs text-amber-900">
+                <input
+                  type="checkbox"
+                  checked={permitirDuplicado}
+                  onChange={(event) => setPermitirDuplicado(event.target.checked)}
+                  className="mt-0.5"
+                />
+                <span>
+                  <span className="block font-semibold">
+                    Este archivo ya se importó en la importación #{archivoDuplicado.id}
+                    {archivoDuplicado.evento ? ` (${archivoDuplicado.evento.nombre})` : ""} el{" "}
+                    {new Date(archivoDuplicado.fecha).toLocaleString()}
+                    {archivoDuplicado.usuario ? ` por ${archivoDuplicado.usuario}` : ""}.
+                  </span>
+                  Márcalo solo si quieres importarlo otra vez; el contenido es idéntico aunque el nombre sea distinto.
+                </span>
+              </label>
+            ) : null}
+
+            {previsualizacion ? <VistaPrevia previsualizacion={previsualizacion} /> : null}
+
+            {trabajo ? (
+              <div className="flex flex-col gap-2 rounded-xl bg-brand-secondary/10 px-4 py-3 text-xs text-brand-primary sm:flex-row sm:items-center sm:justify-between">
+                <p>
+                  <span className="font-semibold">Importación #{trabajo.id}</span> ·{" "}
+                  {ESTADO_TRABAJO_LABELS[trabajo.estado]}
+                  {trabajo.estado !== "completada" ? ` · fila ${trabajo.procesadas} de ${trabajo.total}` : ""}
+                  {trabajo.filasCreadas + trabajo.filasActualizadas + trabajo.filasSinCambios > 0
+                    ? ` · ${trabajo.filasCreadas} creadas, ${trabajo.filasActualizadas} actualizadas, ` +
+                      `${trabajo.filasSinCambios} sin cambios`
+                    : ""}
+                  {trabajo.plazasImportacion > 0 ? (
+                    <span
+                      className={
+                        trabajo.capacidad !== null && trabajo.plazasEvento > trabajo.capacidad
+                          ? "font-semibold text-red-700"
+                          : undefined
+                      }
+                    >
+                      {` · ${trabajo.plazasImportacion} plazas; el evento suma ${trabajo.plazasEvento}`}
+                      {trabajo.capacidad !== null ? ` de un aforo de ${trabajo.capacidad}` : ""}
+                    </span>
+                  ) : null}
+                </p>
+                <div className="flex gap-2">
+                  {!ESTADOS_ACTIVOS.includes(trabajo.estado) &&
+                  trabajo.filasCreadas + trabajo.filasActualizadas + trabajo.filasSinCambios > 0 ? (
+                    <button
+                      type="button"
+                      onClick={() => void handleDescargarResultadoFilas(trabajo.id)}
+                      className="rounded-lg border border-brand-secondary/40 px-3 py-1 font-semibold text-brand-primary transition hover:bg-white/60"
+                    >
+                      Resultado por fila
+                    </button>
+                  ) : null}
+                  {ESTADOS_ACTIVOS.includes(trabajo.estado) ? (
+                    <button
+                      type="button"
+                      onClick={() => handleAccionTrabajo("pausar")}
+                      className="rounded-lg border border-brand-secondary/40 px-3 py-1 font-semibold text-brand-primary transition hover:bg-white/60"
+                    >
+                      Pausar
+                    </button>
+                  ) : null}
+                  {trabajo.estado === "pausada" || trabajo.estado === "fallida" ? (
+                    <button
+                      type="button"
+                      onClick={() => handleAccionTrabajo("reanudar")}
+                      className="rounded-lg bg-brand-secondary px-3 py-1 font-semibold text-white transition hover:bg-sky-400"
+                    >
+                      Reanudar
+                    </button>
+                  ) : null}
+                  {!ESTADOS_ACTIVOS.includes(trabajo.estado) ? (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        seguirTrabajo(null);
+                        setTrabajo(null);
+                      }}
+                      className="rounded-lg px-3 py-1 font-semibold text-brand-accent/80 transition hover:bg-white/60"
+                    >
+                      Cerrar
+                    </button>
+                  ) : null}
+                </div>
+              </div>
+            ) : null}
+
             {(progress.total > 0 || loading) && (
               <div className="rounded-xl bg-white/80 px-4 py-3 text-xs text-brand-primary shadow-inner">
                 <div className="flex items-center justify-between text-[11px] uppercase tracking-[0.24em] text-brand-accent/60">
-                  <span>Envío de invitaciones</span>
+                  <span>Filas procesadas</span>
                   <span>
                     {progress.total > 0
                       ? `${progress.processed}/${progress.total}`
@@ -458,10 +1315,10 @@ export default function ImportarPage() {
               </div>
             )}
 
-            {cooldownInfo ? (
+            {trabajo && trabajo.correosPendientes > 0 ? (
               <p className="text-xs text-brand-accent/70">
-                Pausa preventiva durante {Math.round(cooldownInfo.delayMs / 1000)} segundos. Pendientes por enviar: {" "}
-                {cooldownInfo.remaining}.
+                Correos en la bandeja de salida: {trabajo.correosPendientes}. Se envían respetando el límite por minuto
+                del servidor de correo.
               </p>
             ) : null}
 
@@ -483,6 +1340,14 @@ export default function ImportarPage() {
               <div className="rounded-2xl bg-red-50 px-4 py-3 text-sm text-red-700">
                 <div className="flex flex-col gap-3 md:flex-row md:items-center md:justify-between">
                   <p className="font-semibold">Correos no enviados ({failedEmails.length})</p>
+                  {trabajo && !ESTADOS_ACTIVOS.includes(trabajo.estado) ? (
+                    <Link
+                      href={`/importar/correos?importacion=${trabajo.id}`}
+                      className="inline-flex items-center justify-center rounded-xl bg-white/90 px-3 py-2 text-xs font-semibold text-red-700 shadow-sm shadow-red-200 transition hover:bg-white"
+                    >
+                      Corregir y reenviar
+                    </Link>
+                  ) : null}
                   <button
                     type="button"
                     onClick={handleDownloadFailedReport}
@@ -495,8 +1360,8 @@ export default function ImportarPage() {
                   {failedEmails.map((item, index) => {
                     const nombreCompleto = [item.nombre, item.apellido].filter(Boolean).join(" ").trim();
                     return (
-                      <li key={`${item.fila}-${item.email ?? "sin-correo"}-${index}`}>
-                        Fila {item.fila}
+                      <li key={`${item.hoja}-${item.fila}-${item.email ?? "sin-correo"}-${index}`}>
+                        {ubicacionFila(item)}
                         {item.cedula ? ` · ${item.cedula}` : ""}
                         {nombreCompleto ? ` · ${nombreCompleto}` : ""}
                         {" · "}
@@ -507,6 +1372,19 @@ export default function ImportarPage() {
                 </ul>
               </div>
             ) : null}
+
+            {rowErrors.length > 0 ? (
+              <div className="rounded-2xl bg-amber-50 px-4 py-3 text-sm text-amber-800">
+                <p className="font-semibold">Filas no importadas ({rowErrors.length})</p>
+                <ul className="mt-2 max-h-44 space-y-1 overflow-y-auto text-xs text-amber-900">
+                  {rowErrors.map((item, index) => (
+                    <li key={`${item.hoja}-${item.fila}-${index}`}>
+                      {ubicacionFila(item)} · {item.motivo} — {item.detalle}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ) : null}
           </form>
 
           <aside className="card-surface flex flex-col gap-6 rounded-3xl px-6 py-8 text-brand-primary">
@@ -536,12 +1414,88 @@ export default function ImportarPage() {
               </div>
             </div>
 
+            <div className="rounded-2xl bg-white/70 px-4 py-3 text-xs text-brand-accent/80">
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-semibold text-brand-primary">Importaciones recientes</p>
+                <Link href="/importar/historial" className="font-semibold text-brand-secondary underline">
+                  Ver historial
+                </Link>
+              </div>
+              <p className="mt-1">Revertir elimina los códigos generados y deja a las personas como estaban.</p>
+              {reversionStatus ? <p className="mt-2 font-semibold text-brand-primary">{reversionStatus}</p> : null}
+              {importaciones.length === 0 ? (
+                <p className="mt-2">Aún no hay importaciones para este evento.</p>
+              ) : (
+                <ul className="mt-2 space-y-2">
+                  {importaciones.map((importacion) => (
+                    <li key={importacion.id} className="rounded-xl bg-brand-secondary/5 px-3 py-2">
+                      <p className="font-semibold text-brand-primary">
+                        #{importacion.id} · {new Date(importacion.fecha).toLocaleString()}
+                      </p>
+                      <p>
+                        {importacion.exitosos}/{importacion.total} filas · {importacion.codigos} código(s)
+                        {importacion.usuario ? ` · ${importacion.usuario}` : ""}
+                      </p>
+                      {importacion.fallidos > 0 ? (
+                        <Link
+                          href={`/importar/historial?importacion=${importacion.id}`}
+                          className="mt-1 block font-semibold text-brand-secondary underline"
+                        >
+                          Ver filas con errores
+                        </Link>
+                      ) : null}
+                      {importacion.estado !== "completada" ? (
+                        <p className="mt-1">
+                          {ESTADO_TRABAJO_LABELS[importacion.estado]}
+                          {importacion.id !== trabajoId ? (
+                            <button
+                              type="button"
+                              onClick={() => seguirTrabajo(importacion.id)}
+                              className="ml-2 font-semibold text-brand-secondary underline"
+                            >
+                              Ver avance
+                            </button>
+                          ) : null}
+                        </p>
+                      ) : null}
+                      {importacion.correosNoEnviados > 0 && !importacion.revertidaEn ? (
+                        <Link
+                          href={`/importar/correos?importacion=${importacion.id}`}
+                          className="mt-1 block font-semibold text-brand-secondary underline"
+                        >
+                          {importacion.correosNoEnviados} correo(s) no enviados · corregir y reenviar
+                        </Link>
+                      ) : null}
+                      {importacion.revertidaEn ? (
+                        <p className="mt-1 text-amber-700">
+                          Revertida el {new Date(importacion.revertidaEn).toLocaleString()}
+                          {importacion.revertidaPor ? ` por ${importacion.revertidaPor}` : ""}
+                        </p>
+                      ) : ESTADOS_ACTIVOS.includes(importacion.estado) ? null : importacion.conIngresos ? (
+                        <p className="mt-1 text-brand-accent/60">Sus códigos ya registran ingresos</p>
+                      ) : (
+                        <button
+                          type="button"
+                          onClick={() => handleRevertir(importacion)}
+                          disabled={loading || revirtiendoId !== null}
+                          className="mt-1 rounded-lg border border-red-200 px-2 py-1 text-[11px] font-semibold text-red-600 transition hover:bg-red-50 disabled:opacity-60"
+                        >
+                          {revirtiendoId === importacion.id ? "Revirtiendo…" : "Revertir"}
+                        </button>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
             <div className="rounded-2xl bg-brand-secondary/10 px-4 py-3 text-xs text-brand-accent/80">
               <p className="font-semibold text-brand-primary">Tips</p>
               <ul className="mt-2 space-y-2">
                 <li>• Valida que el correo tenga formato institucional antes de subir la plantilla.</li>
                 <li>• Usa separadores decimales correctos para mantener la cédula sin errores.</li>
                 <li>• Reintenta la importación solo con las filas fallidas para optimizar tiempos.</li>
+                <li>• La importación sigue en el servidor aunque cierres esta página; vuelve para ver su avance.</li>
               </ul>
             </div>
           </aside>
@@ -550,3 +1504,163 @@ export default function ImportarPage() {
     </main>
   );
 }
+
+function VistaPrevia({ previsualizacion }: { previsualizacion: Previsualizacion }) {
+  const totales = [
+    { label: "Personas nuevas", value: previsualizacion.nuevos.length, className: "bg-emerald-100/70 text-emerald-800" },
+    { label: "Actualizaciones", value: previsualizacion.actualizaciones.length, className: "bg-sky-100/70 text-sky-900" },
+    { label: "Sin cambios", value: previsualizacion.sinCambios, className: "bg-white/70 text-brand-primary" },
+    { label: "Duplicados en el archivo", value: previsualizacion.duplicados.length, className: "bg-amber-100/70 text-amber-800" },
+    { label: "Correos inválidos", value: previsualizacion.correosInvalidos.length, className: "bg-red-100/70 text-red-700" },
+    {
+      label: "Identificaciones inválidas",
+      value: previsualizacion.identificacionesInvalidas.length,
+      className: "bg-red-100/70 text-red-700",
+    },
+    {
+      label: "Invitados inválidos",
+      value: previsualizacion.invitadosInvalidos.length,
+      className: "bg-red-100/70 text-red-700",
+    },
+  ];
+  const { plazas } = previsualizacion;
+  const totalPlazas = plazas.importacion + plazas.evento;
+  const superaAforo = plazas.capacidad !== null && totalPlazas > plazas.capacidad;
+  const origenes = (Object.keys(ORIGEN_INVITADOS_LABELS) as OrigenInvitados[]).filter(
+    (origen) => plazas.origenInvitados[origen] > 0
+  );
+
+  return (
+    <div className="space-y-4 rounded-2xl border border-brand-secondary/30 bg-white/80 px-4 py-4 text-xs text-brand-primary">
+      <div>
+        <p className="text-sm font-semibold">Vista previa de la importación</p>
+        <p className="text-brand-accent/80">
+          No se ha guardado nada todavía. Se generarán {previsualizacion.codigosPorGenerar} código
+          {previsualizacion.codigosPorGenerar === 1 ? "" : "s"}
+          {previsualizacion.codigosReutilizados > 0
+            ? `, se conservarán ${previsualizacion.codigosReutilizados} existentes`
+            : ""}{" "}
+          y se enviarán {previsualizacion.correosPorEnviar} correo{previsualizacion.correosPorEnviar === 1 ? "" : "s"} de{" "}
+          {previsualizacion.total} filas.
+        </p>
+      </div>
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+        {totales.map((item) => (
+          <div key={item.label} className={`rounded-xl px-3 py-2 ${item.className}`}>
+            <p className="text-[10px] uppercase tracking-[0.2em] opacity-70">{item.label}</p>
+            <p className="mt-1 text-lg font-semibold">{item.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className={`rounded-xl px-3 py-2 ${superaAforo ? "bg-red-50 text-red-800" : "bg-sky-50 text-sky-900"}`}>
+        <p className="font-semibold">
+          Plazas: {plazas.importacion} de esta importación + {plazas.evento} ya asignadas en el evento = {totalPlazas}
+          {plazas.capacidad !== null ? ` de un aforo de ${plazas.capacidad}` : " (el evento no tiene aforo configurado)"}
+        </p>
+        {superaAforo ? (
+          <p className="mt-1">
+            ⚠️ Se superaría el aforo por {totalPlazas - (plazas.capacidad ?? 0)} plaza
+            {totalPlazas - (plazas.capacidad ?? 0) === 1 ? "" : "s"}. Revisa los invitados antes de confirmar.
+          </p>
+        ) : null}
+        {origenes.length > 0 ? (
+          <p className="mt-1 opacity-80">
+            Invitados de los estudiantes:{" "}
+            {origenes.map((origen) => `${ORIGEN_INVITADOS_LABELS[origen]}: ${plazas.origenInvitados[origen]}`).join(" · ")}
+          </p>
+        ) : null}
+        {plazas.valoresSinRegla.length > 0 ? (
+          <p className="mt-1 opacity-80">
+            Sin regla (usan el valor general): {plazas.valoresSinRegla.join(", ")}
+          </p>
+        ) : null}
+      </div>
+
+      {previsualizacion.invitadosInvalidos.length > 0 ? (
+        <details open className="rounded-xl bg-red-50 px-3 py-2 text-red-800">
+          <summary className="cursor-pointer font-semibold">Invitados inválidos (se omitirán)</summary>
+          <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto">
+            {previsualizacion.invitadosInvalidos.map((item) => (
+              <li key={`${item.hoja}-${item.fila}`}>
+                {ubicacionFila(item)}
+                {item.cedula ? ` · ${item.cedula}` : ""} · {item.valor} — {item.error}
+              </li>
+            ))}
+          </ul>
+        </details>
+      ) : null}
+
+      {previsualizacion.identificacionesInvalidas.length > 0 ? (
+        <details open className="rounded-xl bg-red-50 px-3 py-2 text-red-800">
+          <summary className="cursor-pointer font-semibold">Identificaciones inválidas (se omitirán)</summary>
+          <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto">
+            {previsualizacion.identificacionesInvalidas.map((item) => (
+              <li key={`${item.hoja}-${item.fila}`}>
+                {ubicacionFila(item)} · {item.valor || "(vacía)"} — {item.error}
+              </li>
+            ))}
+          </ul>
+        </details>
+      ) : null}
+
+      {previsualizacion.correosInvalidos.length > 0 ? (
+        <details open className="rounded-xl bg-red-50 px-3 py-2 text-red-800">
+          <summary className="cursor-pointer font-semibold">Correos inválidos (se omitirán)</summary>
+          <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto">
+            {previsualizacion.correosInvalidos.map((item) => (
+              <li key={`${item.hoja}-${item.fila}`}>
+                {ubicacionFila(item)}
+                {item.cedula ? ` · ${item.cedula}` : ""} · {item.correo}
+              </li>
+            ))}
+          </ul>
+        </details>
+      ) : null}
+
+      {previsualizacion.duplicados.length > 0 ? (
+        <details open className="rounded-xl bg-amber-50 px-3 py-2 text-amber-800">
+          <summary className="cursor-pointer font-semibold">Duplicados dentro del archivo</summary>
+          <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto">
+            {previsualizacion.duplicados.map((item) => (
+              <li key={`${item.hoja}-${item.fila}`}>
+                {ubicacionFila(item)} · {item.cedula} ya aparece en {ubicacionFila(item.original)}
+              </li>
+            ))}
+          </ul>
+        </details>
+      ) : null}
+
+      {previsualizacion.actualizaciones.length > 0 ? (
+        <details className="rounded-xl bg-sky-50 px-3 py-2 text-sky-900">
+          <summary className="cursor-pointer font-semibold">Personas existentes que se actualizarán</summary>
+          <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto">
+            {previsualizacion.actualizaciones.map((item) => (
+              <li key={`${item.hoja}-${item.fila}`}>
+                {ubicacionFila(item)} · {item.cedula} ·{" "}
+                {item.cambios
+                  .map((cambio) => `${CAMPO_LABELS[cambio.campo] ?? cambio.campo}: ${cambio.anterior ?? "—"} → ${cambio.nuevo}`)
+                  .join("; ")}
+              </li>
+            ))}
+          </ul>
+        </details>
+      ) : null}
+
+      {previsualizacion.nuevos.length > 0 ? (
+        <details className="rounded-xl bg-emerald-50 px-3 py-2 text-emerald-900">
+          <summary className="cursor-pointer font-semibold">Personas nuevas</summary>
+          <ul className="mt-2 max-h-40 space-y-1 overflow-y-auto">
+            {previsualizacion.nuevos.map((item) => (
+              <li key={`${item.hoja}-${item.fila}`}>
+                {ubicacionFila(item)} · {[item.nombre, item.apellido].filter(Boolean).join(" ") || "(sin nombre)"}
+                {item.cedula ? ` · ${item.cedula}` : ""}
+                {item.correo ? ` · ${item.correo}` : ""}
+              </li>
+            ))}
+          </ul>
+        </details>
+      ) : null}
+    </div>
+  );
+}
@@ -24,6 +24,13 @@ const BRAND_GRADIENTS = {
 
 const optionsByRole: Record<AppUserRole, MenuOption[]> = {
   admin: [
+    {
+      href: "/eventos",
+      label: "Eventos",
+      icon: "🗓️",
+      description: "Crea eventos, activa el vigente y registra las puertas",
+      gradient: BRAND_GRADIENTS.hybrid,
+    },
     {
       href: "/importar",
       label: "Importar Estudiantes",
@@ -59,6 +66,13 @@ const optionsByRole: Record<AppUserRole, MenuOption[]> = {
       description: "Indicadores y métricas del evento",
       gradient: BRAND_GRADIENTS.deep,
     },
+    {
+      href: "/correos",
+      label: "Bandeja de correos",
+      icon: "📮",
+      description: "Estado de envío, reintentos y límite por minuto",
+      gradient: BRAND_GRADIENTS.sky,
+    },
     {
       href: "/limpieza",
       label: "Limpieza de datos",
@@ -0,0 +1,115 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+export type EventoResumen = {
+  id: number;
+  nombre: string;
+  lugar: string | null;
+  fechaInicio: string;
+  fechaFin: string;
+  capacidad: number | null;
+  estado: "planificado" | "activo" | "finalizado";
+};
+
+const STORAGE_KEY = "eventos-iste:evento-seleccionado";
+
+const ESTADO_LABELS: Record<EventoResumen["estado"], string> = {
+  planificado: "Planificado",
+  activo: "Activo",
+  finalizado: "Finalizado",
+};
+
+function leerEventoGuardado(): number | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  const stored = Number(window.localStorage.getItem(STORAGE_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : null;
+}
+
+/**
+ * Carga los eventos disponibles y recuerda en el dispositivo cuál está seleccionado.
+ * Si no hay selección previa se usa el evento activo más reciente.
+ */
+export function useEventoSeleccionado() {
+  const [eventos, setEventos] = useState<EventoResumen[]>([]);
+  const [eventoId, setEventoIdState] = useState<number | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch("/api/eventos", { cache: "no-store", signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload) => {
+        const lista: EventoResumen[] = Array.isArray(payload?.eventos) ? payload.eventos : [];
+        setEventos(lista);
+
+        const guardado = leerEventoGuardado();
+        const inicial =
+          lista.find((evento) => evento.id === guardado) ??
+          lista.find((evento) => evento.estado === "activo") ??
+          null;
+        setEventoIdState(inicial?.id ?? null);
+      })
+      .catch((error) => {
+        if ((error as DOMException).name === "AbortError") return;
+        console.error("No se pudieron cargar los eventos", error);
+      })
+      .finally(() => setLoading(false));
+
+    return () => controller.abort();
+  }, []);
+
+  const setEventoId = useCallback((id: number | null) => {
+    setEventoIdState(id);
+    if (typeof window === "undefined") {
+      return;
+    }
+    if (id) {
+      window.localStorage.setItem(STORAGE_KEY, String(id));
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  const evento = useMemo(() => eventos.find((item) => item.id === eventoId) ?? null, [eventos, eventoId]);
+
+  return { eventos, eventoId, evento, setEventoId, loading };
+}
+
+export function EventoSelector({
+  eventos,
+  value,
+  onChange,
+  disabled,
+  className = "",
+}: {
+  eventos: EventoResumen[];
+  value: number | null;
+  onChange: (id: number | null) => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  return (
+    <label className={`flex flex-col gap-1 text-xs text-brand-accent/70 ${className}`}>
+      <span className="font-semibold uppercase tracking-[0.28em]">Evento</span>
+      <select
+        value={value ?? ""}
+        disabled={disabled || eventos.length === 0}
+        onChange={(event) => onChange(event.target.value ? Number(event.target.value) : null)}
+        className="rounded-xl border border-brand-secondary/30 bg-white/80 px-3 py-2 text-sm text-brand-primary shadow-inner focus:border-brand-secondary focus:outline-none disabled:cursor-not-allowed disabled:opacity-70"
+      >
+        {value === null ? (
+          <option value="">{eventos.length === 0 ? "Sin eventos registrados" : "Selecciona un evento"}</option>
+        ) : null}
+        {eventos.map((evento) => (
+          <option key={evento.id} value={evento.id}>
+            {evento.nombre} · {ESTADO_LABELS[evento.estado]}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+export type PuntoControlResumen = {
+  id: number;
+  nombre: string;
+  descripcion: string | null;
+  zona: string | null;
+  activo: boolean;
+};
+
+const STORAGE_KEY = "eventos-iste:punto-control";
+
+function leerPuntoGuardado(): number | null {
+  if (typeof window === "undefined") {
+    return null;
+  }
+  const stored = Number(window.localStorage.getItem(STORAGE_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : null;
+}
+
+/**
+ * Carga las puertas activas y recuerda en el dispositivo desde cuál se está escaneando.
+ */
+export function usePuntoControlSeleccionado() {
+  const [puntosControl, setPuntosControl] = useState<PuntoControlResumen[]>([]);
+  const [puntoControlId, setPuntoControlIdState] = useState<number | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+
+    fetch("/api/puntos-control", { cache: "no-store", signal: controller.signal })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((payload) => {
+        const lista: PuntoControlResumen[] = Array.isArray(payload?.puntosControl)
+          ? payload.puntosControl.filter((punto: PuntoControlResumen) => punto.activo)
+          : [];
+        setPuntosControl(lista);
+
+        const guardado = leerPuntoGuardado();
+        setPuntoControlIdState(lista.some((punto) => punto.id === guardado) ? guardado : null);
+      })
+      .catch((error) => {
+        if ((error as DOMException).name === "AbortError") return;
+        console.error("No se pudieron cargar los puntos de control", error);
+      });
+
+    return () => controller.abort();
+  }, []);
+
+  const setPuntoControlId = useCallback((id: number | null) => {
+    setPuntoControlIdState(id);
+    if (typeof window === "undefined") {
+      return;
+    }
+    if (id) {
+      window.localStorage.setItem(STORAGE_KEY, String(id));
+    } else {
+      window.localStorage.removeItem(STORAGE_KEY);
+    }
+  }, []);
+
+  const puntoControl = useMemo(
+    () => puntosControl.find((punto) => punto.id === puntoControlId) ?? null,
+    [puntosControl, puntoControlId]
+  );
+
+  return { puntosControl, puntoControlId, puntoControl, setPuntoControlId };
+}
+
+export function PuntoControlSelector({
+  puntosControl,
+  value,
+  onChange,
+  disabled,
+  className = "",
+}: {
+  puntosControl: PuntoControlResumen[];
+  value: number | null;
+  onChange: (id: number | null) => void;
+  disabled?: boolean;
+  className?: string;
+}) {
+  return (
+    <label className={`flex flex-col gap-1 text-xs text-brand-accent/70 ${className}`}>
+      <span className="font-semibold uppercase tracking-[0.28em]">Puerta</span>
+      <select
+        value={value ?? ""}
+        disabled={disabled || puntosControl.length === 0}
+        onChange={(event) => onChange(event.target.value ? Number(event.target.value) : null)}
+        className="rounded-xl border border-brand-secondary/30 bg-white/80 px-3 py-2 text-sm text-brand-primary shadow-inner focus:border-brand-secondary focus:outline-none disabled:cursor-not-allowed disabled:opacity-70"
+      >
+        <option value="">{puntosControl.length === 0 ? "Sin puertas registradas" : "Selecciona la puerta"}</option>
+        {puntosControl.map((punto) => (
+          <option key={punto.id} value={punto.id}>
+            {punto.nombre}
+            {punto.zona ? ` · ${punto.zona}` : ""}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,12 @@
+/**
+ * Al arrancar el servidor se retoman las importaciones que quedaron en cola o a medio procesar
+ * y los correos pendientes de la bandeja de salida.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { iniciarProcesadorImportaciones } = await import("@/lib/trabajosImportacion");
+    const { iniciarProcesadorCorreos } = await import("@/lib/bandejaCorreos");
+    iniciarProcesadorImportaciones();
+    iniciarProcesadorCorreos();
+  }
+}
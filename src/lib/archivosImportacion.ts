@@ -0,0 +1,73 @@
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import prisma from "@/lib/prisma";
+
+// Copia de cada planilla importada, para poder mostrar qué lista se cargó si alguien la disputa.
+// Los archivos se guardan con el nombre generado en `Importacion.archivo`; el nombre original queda en la base.
+
+const NOMBRE_ARCHIVO_REGEX = /^[\w.-]+$/;
+
+export const directorioImportaciones = () =>
+  path.resolve(process.env.IMPORT_DIR || path.join(process.cwd(), "importaciones-archivos"));
+
+/**
+ * Huella SHA-256 del contenido en hexadecimal; dos subidas del mismo archivo dan la misma huella.
+ */
+export const checksumArchivo = (datos: Uint8Array) => createHash("sha256").update(datos).digest("hex");
+
+const rutaArchivo = (archivo: string) => {
+  if (!NOMBRE_ARCHIVO_REGEX.test(archivo) || archivo.startsWith(".")) {
+    return null;
+  }
+  return path.join(directorioImportaciones(), archivo);
+};
+
+/**
+ * Guarda la planilla subida. Si no se puede escribir lanza el error: la importación no debe quedar sin su archivo.
+ */
+export async function guardarArchivoImportacion(archivo: string, datos: Uint8Array) {
+  const ruta = rutaArchivo(archivo);
+  if (!ruta) {
+    throw new Error(`Nombre de archivo de importación no válido: ${archivo}`);
+  }
+  await fs.mkdir(directorioImportaciones(), { recursive: true });
+  await fs.writeFile(ruta, datos, { flag: "wx" });
+}
+
+/**
+ * Contenido de la planilla guardada; `null` si la importación es anterior a guardarlas o el archivo ya no está.
+ */
+export async function leerArchivoImportacion(archivo: string): Promise<Buffer | null> {
+  const ruta = rutaArchivo(archivo);
+  if (!ruta) {
+    return null;
+  }
+  try {
+    return await fs.readFile(ruta);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Importaciones anteriores del mismo archivo, de la más reciente a la más antigua.
+ * @param excluirId - Importación que no se compara consigo misma
+ */
+export async function importacionesMismoArchivo(checksum: string, excluirId?: number) {
+  return prisma.importacion.findMany({
+    where: { checksum, ...(excluirId ? { id: { not: excluirId } } : {}) },
+    orderBy: { id: "desc" },
+    select: {
+      id: true,
+      fecha: true,
+      usuario: true,
+      nombreOriginal: true,
+      revertidaEn: true,
+      evento: { select: { id: true, nombre: true } },
+    },
+  });
+}
@@ -0,0 +1,77 @@
+import type { EstadoCorreo, PrismaClient } from "@prisma/client";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { baseDePruebas, hayBaseDePruebas } from "@/test/baseDatos";
+
+const sendMail = vi.hoisted(() => vi.fn(async () => ({ messageId: "<prueba@example.com>" })));
+
+vi.mock("@/utils/mailer", () => ({ sendMail }));
+
+describe.skipIf(!hayBaseDePruebas)("bandeja de correos", () => {
+  let prisma: PrismaClient;
+  const ids: number[] = [];
+
+  const esperarEstado = async (id: number, estado: EstadoCorreo) => {
+    for (let intento = 0; intento < 100; intento++) {
+      const correo = await prisma.correoSaliente.findUniqueOrThrow({ where: { id } });
+      if (correo.estado === estado) {
+        return correo;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    throw new Error(`El correo ${id} no llegó al estado ${estado}`);
+  };
+
+  // Un arranque nuevo de la aplicación: el módulo y el estado global del procesador empiezan de cero
+  const arrancar = async () => {
+    delete (global as { procesadorCorreos?: unknown }).procesadorCorreos;
+    vi.resetModules();
+    return import("@/lib/bandejaCorreos");
+  };
+
+  const crearCorreo = async (estado: EstadoCorreo = "pendiente") => {
+    const correo = await prisma.correoSaliente.create({
+      data: {
+        origen: "reenvio_qr",
+        destinatario: "destinatario@example.com",
+        asunto: "Prueba",
+        texto: "Prueba de la bandeja",
+        estado,
+      },
+    });
+    ids.push(correo.id);
+    return correo;
+  };
+
+  beforeAll(async () => {
+    prisma = await baseDePruebas();
+  });
+
+  afterAll(async () => {
+    await prisma.correoIntento.deleteMany({ where: { correoId: { in: ids } } });
+    await prisma.correoSaliente.deleteMany({ where: { id: { in: ids } } });
+    await prisma.$disconnect();
+  });
+
+  it("no reenvía al reiniciar un correo enviado que no se pudo registrar", async () => {
+    const bandeja = await arrancar();
+    const registro = vi.spyOn(prisma, "$transaction").mockRejectedValueOnce(new Error("Conexión perdida"));
+
+    const enviado = await crearCorreo();
+    bandeja.iniciarProcesadorCorreos();
+    const sinRegistro = await esperarEstado(enviado.id, "enviado_sin_registro");
+    registro.mockRestore();
+    expect(sinRegistro.messageId).toBe("<prueba@example.com>");
+
+    // Otro correo quedó "enviando" porque la aplicación se reinició antes de entregarlo al servidor
+    const interrumpido = await crearCorreo("enviando");
+    sendMail.mockClear();
+
+    (await arrancar()).iniciarProcesadorCorreos();
+    await esperarEstado(interrumpido.id, "enviado");
+
+    expect(sendMail).toHaveBeenCalledTimes(1);
+    expect((await prisma.correoSaliente.findUniqueOrThrow({ where: { id: enviado.id } })).estado).toBe(
+      "enviado_sin_registro"
+    );
+  });
+});
@@ -0,0 +1,356 @@
+import { Prisma, type CorreoSaliente, type OrigenCorreo } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { generarQRpng } from "@/lib/generarQR";
+import { sendMail } from "@/utils/mailer";
+import {
+  PLANTILLAS_CORREO,
+  renderizarPlantilla,
+  type ClavePlantilla,
+  type ContenidoPlantilla,
+  type VariablesPlantilla,
+} from "@/lib/plantillasCorreo";
+
+// Todos los correos pasan por esta bandeja: se guardan antes de enviarse y un procesador en segundo
+// plano los envía respetando el límite por minuto de Office 365, con reintentos espaciados.
+// Igual que las importaciones, se asume una sola instancia de la aplicación procesando la bandeja.
+
+/**
+ * Adjunto guardado con el correo. Los QR se guardan como referencia al código y se regeneran al enviar;
+ * los demás archivos se guardan en base64.
+ */
+export type AdjuntoCorreo =
+  | { tipo: "qr"; codigo: string; texto: string; filename: string }
+  | { tipo: "archivo"; filename: string; contentType?: string; base64: string };
+
+export type DatosCorreo = {
+  origen: OrigenCorreo;
+  destinatario: string;
+  asunto: string;
+  texto: string;
+  html?: string | null;
+  adjuntos?: AdjuntoCorreo[];
+  /** Información del remitente para mostrar en reportes (fila de la planilla, cédula, etc.) */
+  datos?: Prisma.InputJsonObject;
+  creadoPor?: string | null;
+  importacionId?: number | null;
+  codigoId?: number | null;
+};
+
+export const CLAVE_CORREOS_POR_MINUTO = "correos_por_minuto";
+// Office 365 admite 30 mensajes por minuto por buzón
+export const CORREOS_POR_MINUTO_DEFECTO = Number(process.env.CORREOS_POR_MINUTO) || 30;
+const MAX_INTENTOS = Number(process.env.CORREOS_MAX_INTENTOS) || 5;
+
+const ESPERA_BASE_MS = 60_000;
+const ESPERA_MAXIMA_MS = 60 * 60_000;
+const VENTANA_MS = 60_000;
+// Tope de espera entre revisiones, por si se encoló un correo sin despertar al procesador
+const ESPERA_MAXIMA_CICLO_MS = 60_000;
+
+type ProcesadorGlobal = {
+  activo: boolean;
+  pendiente: boolean;
+  despertar: (() => void) | null;
+  /** Los correos "enviando" de un arranque anterior ya se devolvieron a la cola */
+  recuperado: boolean;
+};
+
+const globalProcesador = global as unknown as { procesadorCorreos?: ProcesadorGlobal };
+const procesador: ProcesadorGlobal = (globalProcesador.procesadorCorreos ??= {
+  activo: false,
+  pendiente: false,
+  despertar: null,
+  recuperado: false,
+});
+
+/**
+ * Espera el tiempo indicado o hasta que se encole un correo nuevo.
+ */
+const esperar = (ms: number) =>
+  new Promise<void>((resolve) => {
+    const temporizador = setTimeout(() => {
+      procesador.despertar = null;
+      resolve();
+    }, Math.max(ms, 0));
+    procesador.despertar = () => {
+      clearTimeout(temporizador);
+      procesador.despertar = null;
+      resolve();
+    };
+  });
+
+/**
+ * Guarda un correo en la bandeja de salida y despierta al procesador.
+ * @param datos - Contenido, destinatario y referencias del correo
+ * @param db - Cliente a usar; dentro de una transacción se pasa el cliente transaccional y se llama a
+ *   `iniciarProcesadorCorreos` después de confirmarla
+ */
+export async function encolarCorreo(datos: DatosCorreo, db: Prisma.TransactionClient = prisma) {
+  const correo = await db.correoSaliente.create({
+    data: {
+      origen: datos.origen,
+      destinatario: datos.destinatario,
+      asunto: datos.asunto,
+      texto: datos.texto,
+      html: datos.html ?? null,
+      adjuntos: datos.adjuntos?.length ? (datos.adjuntos as Prisma.InputJsonArray) : Prisma.DbNull,
+      datos: datos.datos ?? Prisma.DbNull,
+      maxIntentos: MAX_INTENTOS,
+      creadoPor: datos.creadoPor ?? null,
+      importacionId: datos.importacionId ?? null,
+      codigoId: datos.codigoId ?? null,
+    },
+  });
+
+  if (db === prisma) {
+    iniciarProcesadorCorreos();
+  }
+  return correo;
+}
+
+/**
+ * Plantilla vigente: la editada por un administrador o, si no se ha editado, la predeterminada.
+ */
+export async function cargarPlantilla(clave: ClavePlantilla): Promise<ContenidoPlantilla> {
+  const guardada = await prisma.plantillaCorreo.findUnique({ where: { clave } });
+  return guardada
+    ? { asunto: guardada.asunto, texto: guardada.texto, html: guardada.html }
+    : PLANTILLAS_CORREO[clave].predeterminada;
+}
+
+/**
+ * Asunto, texto y HTML de un correo a partir de su plantilla.
+ */
+export async function contenidoPlantilla(clave: ClavePlantilla, variables: VariablesPlantilla) {
+  return renderizarPlantilla(await cargarPlantilla(clave), variables);
+}
+
+/**
+ * Devuelve a la cola los correos fallidos o cancelados para un intento inmediato.
+ * Si ese intento falla, el correo vuelve a quedar como fallido.
+ */
+export async function reintentarCorreos(ids: number[]) {
+  const { count } = await prisma.correoSaliente.updateMany({
+    where: { id: { in: ids }, estado: { in: ["fallido", "cancelado"] } },
+    data: { estado: "pendiente", proximoIntento: new Date() },
+  });
+  if (count > 0) {
+    iniciarProcesadorCorreos();
+  }
+  return count;
+}
+
+/**
+ * Cancela correos que todavía no se enviaron.
+ */
+export async function cancelarCorreos(ids: number[], motivo: string) {
+  const { count } = await prisma.correoSaliente.updateMany({
+    where: { id: { in: ids }, estado: "pendiente" },
+    data: { estado: "cancelado", ultimoError: motivo },
+  });
+  return count;
+}
+
+/**
+ * Límite de envíos por minuto vigente; se configura desde la bandeja de correos.
+ */
+export async function correosPorMinuto() {
+  const configuracion = await prisma.configuracion.findUnique({ where: { clave: CLAVE_CORREOS_POR_MINUTO } });
+  const valor = Number(configuracion?.valor);
+  return Number.isInteger(valor) && valor > 0 ? valor : CORREOS_POR_MINUTO_DEFECTO;
+}
+
+/**
+ * Espera antes del siguiente intento: se duplica con cada fallo, desde un minuto hasta una hora.
+ * @param intentos - Intentos realizados hasta ahora
+ */
+export function esperaReintento(intentos: number) {
+  return Math.min(ESPERA_BASE_MS * 2 ** Math.max(intentos - 1, 0), ESPERA_MAXIMA_MS);
+}
+
+/**
+ * Arranca el procesador si no está corriendo. Sigue activo mientras queden correos pendientes,
+ * incluidos los que esperan un reintento.
+ */
+export function iniciarProcesadorCorreos() {
+  if (procesador.activo) {
+    procesador.pendiente = true;
+    procesador.despertar?.();
+    return;
+  }
+  procesador.activo = true;
+
+  void (async () => {
+    try {
+      // Al arrancar la aplicación, un correo "enviando" quedó así por un reinicio antes de que el servidor de
+      // correo lo aceptara; los que sí se enviaron quedan como "enviado_sin_registro" y no se tocan
+      if (!procesador.recuperado) {
+        await prisma.correoSaliente.updateMany({ where: { estado: "enviando" }, data: { estado: "pendiente" } });
+        procesador.recuperado = true;
+      }
+
+      do {
+        procesador.pendiente = false;
+        let quedan = true;
+        while (quedan) {
+          quedan = await procesarPendientes();
+        }
+      } while (procesador.pendiente);
+    } catch (error) {
+      console.error("Error en el procesador de correos:", error);
+    } finally {
+      procesador.activo = false;
+    }
+  })();
+}
+
+/**
+ * Envía los correos vencidos que permite el límite por minuto.
+ * @returns `true` si quedan correos pendientes por atender
+ */
+async function procesarPendientes() {
+  const limite = await correosPorMinuto();
+  const desde = new Date(Date.now() - VENTANA_MS);
+  const recientes = await prisma.correoIntento.findMany({
+    where: { createdAt: { gte: desde } },
+    orderBy: { createdAt: "asc" },
+    select: { createdAt: true },
+  });
+
+  const disponibles = limite - recientes.length;
+  if (disponibles <= 0) {
+    // Se espera a que el intento más antiguo salga de la ventana de un minuto
+    await esperar(recientes[0].createdAt.getTime() + VENTANA_MS - Date.now());
+    return true;
+  }
+
+  const vencidos = await prisma.correoSaliente.findMany({
+    where: { estado: "pendiente", proximoIntento: { lte: new Date() } },
+    orderBy: [{ proximoIntento: "asc" }, { id: "asc" }],
+    take: disponibles,
+  });
+
+  for (const correo of vencidos) {
+    await enviarCorreo(correo);
+  }
+
+  if (vencidos.length > 0) {
+    return true;
+  }
+
+  const siguiente = await prisma.correoSaliente.findFirst({
+    where: { estado: "pendiente" },
+    orderBy: { proximoIntento: "asc" },
+    select: { proximoIntento: true },
+  });
+  if (!siguiente) {
+    return false;
+  }
+
+  await esperar(Math.min(siguiente.proximoIntento.getTime() - Date.now(), ESPERA_MAXIMA_CICLO_MS));
+  return true;
+}
+
+async function adjuntosParaEnvio(adjuntos: AdjuntoCorreo[]) {
+  const archivos = [];
+  for (const adjunto of adjuntos) {
+    if (adjunto.tipo === "qr") {
+      const asset = await generarQRpng(adjunto.codigo, adjunto.texto, adjunto.filename);
+      archivos.push({ filename: adjunto.filename, content: asset.buffer, contentType: "image/png" });
+    } else {
+      archivos.push({
+        filename: adjunto.filename,
+        content: Buffer.from(adjunto.base64, "base64"),
+        ...(adjunto.contentType ? { contentType: adjunto.contentType } : {}),
+      });
+    }
+  }
+  return archivos;
+}
+
+async function enviarCorreo(correo: CorreoSaliente) {
+  const { count } = await prisma.correoSaliente.updateMany({
+    where: { id: correo.id, estado: "pendiente" },
+    data: { estado: "enviando" },
+  });
+  if (count === 0) {
+    // Se canceló mientras esperaba su turno
+    return;
+  }
+
+  const adjuntos = (correo.adjuntos ?? []) as AdjuntoCorreo[];
+  const codigos = adjuntos.flatMap((adjunto) => (adjunto.tipo === "qr" ? [adjunto.codigo] : []));
+  const numero = correo.intentos + 1;
+  const inicio = Date.now();
+
+  let info: Awaited<ReturnType<typeof sendMail>>;
+  try {
+    if (codigos.length > 0) {
+      const existentes = await prisma.codigoQR.count({ where: { codigo: { in: codigos } } });
+      if (existentes < new Set(codigos).size) {
+        // El código se eliminó (por ejemplo, al revertir la importación); enviarlo ya no tiene sentido
+        await prisma.correoSaliente.update({
+          where: { id: correo.id },
+          data: { estado: "cancelado", ultimoError: "El código QR adjunto ya no existe" },
+        });
+        return;
+      }
+    }
+
+    info = await sendMail(
+      correo.destinatario,
+      correo.asunto,
+      correo.texto,
+      await adjuntosParaEnvio(adjuntos),
+      correo.html ?? undefined
+    );
+  } catch (error) {
+    const mensaje = error instanceof Error ? error.message : String(error);
+    const agotado = numero >= correo.maxIntentos;
+
+    await prisma.$transaction([
+      prisma.correoIntento.create({
+        data: { correoId: correo.id, numero, exito: false, error: mensaje, duracionMs: Date.now() - inicio },
+      }),
+      prisma.correoSaliente.update({
+        where: { id: correo.id },
+        data: {
+          estado: agotado ? "fallido" : "pendiente",
+          intentos: numero,
+          ultimoError: mensaje,
+          proximoIntento: agotado ? undefined : new Date(Date.now() + esperaReintento(numero)),
+        },
+      }),
+    ]);
+    return;
+  }
+
+  const messageId = typeof info?.messageId === "string" ? info.messageId : null;
+  try {
+    await prisma.$transaction([
+      prisma.correoIntento.create({
+        data: { correoId: correo.id, numero, exito: true, messageId, duracionMs: Date.now() - inicio },
+      }),
+      prisma.correoSaliente.update({
+        where: { id: correo.id },
+        data: { estado: "enviado", intentos: numero, messageId, enviadoEn: new Date(), ultimoError: null },
+      }),
+    ]);
+  } catch (error) {
+    // El correo ya salió: reintentarlo le llegaría dos veces al destinatario
+    console.error(
+      `El correo ${correo.id} se envió (messageId ${messageId ?? "desconocido"}) pero no se pudo registrar:`,
+      error
+    );
+    // Se marca aparte para que la recuperación al arrancar no lo devuelva a la cola; si tampoco se puede,
+    // queda "enviando" y la recuperación lo reenviará
+    try {
+      await prisma.correoSaliente.updateMany({
+        where: { id: correo.id, estado: "enviando" },
+        data: { estado: "enviado_sin_registro", intentos: numero, messageId, enviadoEn: new Date() },
+      });
+    } catch (errorMarca) {
+      console.error(`No se pudo marcar el correo ${correo.id} como enviado sin registro:`, errorMarca);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+// Cupo de invitados de cada estudiante al importar; se usa en el servidor y en la página de importación.
+// Prioridad: la columna de invitados de la fila, luego la regla que coincide con otra columna y por último el valor general.
+
+import { extractFirstValue, normalizarEncabezado, type ImportRow } from "@/lib/mapeoImportacion";
+
+export const MAX_INVITADOS = 50;
+export const MAX_REGLAS_CUPOS = 100;
+
+export type ReglaCupo = { valor: string; invitados: number };
+
+/** Invitados según el valor de una columna de la planilla, por ejemplo la carrera o la jornada */
+export type ReglasCupos = { columna: string; reglas: ReglaCupo[] };
+
+export type OrigenInvitados = "columna" | "regla" | "general";
+
+export const ORIGEN_INVITADOS_LABELS: Record<OrigenInvitados, string> = {
+  columna: "Cantidad de la fila",
+  regla: "Regla por columna",
+  general: "Valor general",
+};
+
+export type ResultadoInvitados = { ok: true; valor: number } | { ok: false; valor: string; error: string };
+
+/**
+ * Interpreta la celda de invitados de una fila; `null` si está vacía.
+ */
+export function leerInvitados(valor: unknown): ResultadoInvitados | null {
+  if (valor === null || valor === undefined) {
+    return null;
+  }
+  const texto = String(valor).trim();
+  if (!texto) {
+    return null;
+  }
+  const numero = Number(texto);
+  if (!Number.isInteger(numero) || numero < 0) {
+    return { ok: false, valor: texto, error: "Debe ser un número entero, 0 o mayor" };
+  }
+  if (numero > MAX_INVITADOS) {
+    return { ok: false, valor: texto, error: `No puede superar ${MAX_INVITADOS} invitados` };
+  }
+  return { ok: true, valor: numero };
+}
+
+/**
+ * Valor de la columna de las reglas en la fila, tal como está en la planilla; `null` si está vacío.
+ */
+export function valorColumnaReglas(row: ImportRow, reglas: ReglasCupos): string | null {
+  const valor = extractFirstValue(row, [reglas.columna]);
+  return valor === null ? null : String(valor).trim();
+}
+
+/**
+ * Invitados que asigna la regla cuyo valor coincide con la fila, sin distinguir tildes ni mayúsculas.
+ * @returns `null` si no hay reglas o ninguna coincide
+ */
+export function invitadosPorRegla(row: ImportRow, reglas?: ReglasCupos | null): number | null {
+  if (!reglas) {
+    return null;
+  }
+  const valor = valorColumnaReglas(row, reglas);
+  if (valor === null) {
+    return null;
+  }
+  const normalizado = normalizarEncabezado(valor);
+  return reglas.reglas.find((regla) => normalizarEncabezado(regla.valor) === normalizado)?.invitados ?? null;
+}
+
+/**
+ * Invitados del estudiante y de dónde salen. Una cantidad inválida en la fila no se aplica.
+ * @param general - Invitados indicados en el formulario de importación
+ */
+export function resolverInvitados(
+  fila: { invitados: ResultadoInvitados | null; invitadosRegla: number | null },
+  general: number
+): { invitados: number; origen: OrigenInvitados } {
+  if (fila.invitados?.ok) {
+    return { invitados: fila.invitados.valor, origen: "columna" };
+  }
+  if (fila.invitadosRegla !== null) {
+    return { invitados: fila.invitadosRegla, origen: "regla" };
+  }
+  return { invitados: Math.max(0, general), origen: "general" };
+}
+
+/**
+ * Comprueba que un valor recibido (JSON del formulario o de la base) tenga la forma de un conjunto de reglas.
+ */
+export function esReglasCupos(value: unknown): value is ReglasCupos {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const { columna, reglas } = value as { columna?: unknown; reglas?: unknown };
+  return (
+    typeof columna === "string" &&
+    Array.isArray(reglas) &&
+    reglas.every(
+      (regla) =>
+        typeof regla === "object" &&
+        regla !== null &&
+        typeof (regla as { valor?: unknown }).valor === "string" &&
+        Number.isInteger((regla as { invitados?: unknown }).invitados)
+    )
+  );
+}
+
+/**
+ * Indica qué impide usar las reglas; `null` si son válidas.
+ */
+export function validarReglasCupos(reglas: ReglasCupos): string | null {
+  if (!reglas.columna.trim()) {
+    return "Elige la columna que determina los invitados";
+  }
+  if (reglas.reglas.length === 0) {
+    return "Indica los invitados de al menos un valor de la columna";
+  }
+  if (reglas.reglas.length > MAX_REGLAS_CUPOS) {
+    return `Se admiten como máximo ${MAX_REGLAS_CUPOS} reglas`;
+  }
+  const valores = new Set<string>();
+  for (const regla of reglas.reglas) {
+    const valor = normalizarEncabezado(regla.valor);
+    if (!valor) {
+      return "Cada regla debe indicar el valor de la columna";
+    }
+    if (valores.has(valor)) {
+      return `El valor "${regla.valor}" tiene más de una regla`;
+    }
+    valores.add(valor);
+    if (regla.invitados < 0 || regla.invitados > MAX_INVITADOS) {
+      return `Los invitados de "${regla.valor}" deben estar entre 0 y ${MAX_INVITADOS}`;
+    }
+  }
+  return null;
+}
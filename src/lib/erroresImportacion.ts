@@ -0,0 +1,44 @@
+import * as XLSX from "xlsx";
+import type { ErrorFilaImportacion } from "@/lib/trabajosImportacion";
+
+// Columnas que se agregan a la derecha de las originales; al volver a subir el archivo se ignoran
+const COLUMNAS_ERROR = ["Motivo del error", "Detalle del error", "Hoja de origen", "Fila de origen"];
+
+/**
+ * Cantidad de filas por motivo de error, de la más frecuente a la menos frecuente.
+ */
+export function motivosErrores(errores: ErrorFilaImportacion[]) {
+  const conteo = new Map<string, number>();
+  for (const error of errores) {
+    conteo.set(error.motivo, (conteo.get(error.motivo) ?? 0) + 1);
+  }
+  return Array.from(conteo, ([motivo, cantidad]) => ({ motivo, cantidad })).sort(
+    (a, b) => b.cantidad - a.cantidad || a.motivo.localeCompare(b.motivo)
+  );
+}
+
+/**
+ * Libro de Excel con las filas que no se importaron, con sus columnas originales y el motivo del error.
+ * Se corrigen las celdas y el archivo se vuelve a subir con el mismo perfil de columnas. Los errores
+ * registrados antes de guardar las celdas solo traen la ubicación y el motivo.
+ */
+export function libroErroresImportacion(errores: ErrorFilaImportacion[]): Buffer {
+  const encabezados = new Set<string>();
+  for (const error of errores) {
+    Object.keys(error.celdas ?? {}).forEach((encabezado) => encabezados.add(encabezado));
+  }
+  const originales = Array.from(encabezados).filter((encabezado) => !COLUMNAS_ERROR.includes(encabezado));
+
+  const filas = errores.map((error) => [
+    ...originales.map((encabezado) => error.celdas?.[encabezado] ?? ""),
+    error.motivo,
+    error.detalle,
+    error.hoja,
+    error.fila,
+  ]);
+
+  const hoja = XLSX.utils.aoa_to_sheet([[...originales, ...COLUMNAS_ERROR], ...filas]);
+  const libro = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(libro, hoja, "Errores");
+  return XLSX.write(libro, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
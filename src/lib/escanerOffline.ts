@@ -0,0 +1,191 @@
+// Almacenamiento local del escáner para trabajar sin conexión (solo navegador)
+
+const DB_NAME = "eventos-iste-escaner";
+const DB_VERSION = 2;
+const STORE_CODIGOS = "codigos";
+const STORE_PENDIENTES = "pendientes";
+const STORE_META = "meta";
+const META_SNAPSHOT = "snapshot";
+
+export type CodigoOffline = {
+  codigo: string;
+  /** Contenido firmado del QR (`<codigo>.<firma>`); sin conexión el escaneo debe coincidir exactamente */
+  payload: string;
+  /** El titular está habilitado; los códigos revocados no pueden entrar */
+  activo: boolean;
+  maxUsos: number;
+  usosActual: number;
+  titular: string | null;
+};
+
+export type IngresoPendiente = {
+  id: string;
+  eventoId: number;
+  puntoControlId: number | null;
+  tipo: "entrada" | "salida";
+  codigo: string;
+  fecha: string;
+};
+
+export type InfoSnapshot = {
+  eventoId: number;
+  generadoAt: string;
+  total: number;
+};
+
+export type ValidacionLocal =
+  | { ok: true; mensaje: string; codigo: CodigoOffline }
+  | { ok: false; mensaje: string };
+
+function abrirDb(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_CODIGOS)) {
+        db.createObjectStore(STORE_CODIGOS, { keyPath: "codigo" });
+      } else if (event.oldVersion < 2 && request.transaction) {
+        // Las listas anteriores no traen la firma ni el estado del titular: hay que volver a descargarlas
+        request.transaction.objectStore(STORE_CODIGOS).clear();
+        request.transaction.objectStore(STORE_META).delete(META_SNAPSHOT);
+      }
+      if (!db.objectStoreNames.contains(STORE_PENDIENTES)) {
+        db.createObjectStore(STORE_PENDIENTES, { keyPath: "id" });
+      }
+      if (!db.objectStoreNames.contains(STORE_META)) {
+        db.createObjectStore(STORE_META);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function esperar<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function completar(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * El QR contiene `<codigo>.<firma>`; el secreto de la firma no llega al dispositivo, así que el código
+ * solo sirve para buscarlo en la lista y el escaneo se compara con el contenido firmado que trae.
+ */
+function extraerCodigo(payload: string) {
+  const posicion = payload.lastIndexOf(".");
+  return posicion > 0 ? payload.slice(0, posicion) : payload;
+}
+
+/**
+ * Reemplaza la lista local de códigos con la descargada del servidor.
+ */
+export async function guardarSnapshot(eventoId: number, generadoAt: string, codigos: CodigoOffline[]) {
+  const db = await abrirDb();
+  const tx = db.transaction([STORE_CODIGOS, STORE_META], "readwrite");
+  const store = tx.objectStore(STORE_CODIGOS);
+  store.clear();
+  codigos.forEach((codigo) => store.put(codigo));
+  tx.objectStore(STORE_META).put({ eventoId, generadoAt, total: codigos.length } satisfies InfoSnapshot, META_SNAPSHOT);
+  await completar(tx);
+  db.close();
+}
+
+export async function obtenerInfoSnapshot(): Promise<InfoSnapshot | null> {
+  const db = await abrirDb();
+  const info = await esperar(db.transaction(STORE_META).objectStore(STORE_META).get(META_SNAPSHOT));
+  db.close();
+  return (info as InfoSnapshot | undefined) ?? null;
+}
+
+/**
+ * Valida el código contra la lista local y, si tiene usos disponibles, descuenta uno y encola el ingreso.
+ * El QR debe coincidir con el contenido firmado de la lista y el titular no puede estar revocado.
+ * Las salidas solo comprueban que el código exista; el servidor las valida al sincronizar.
+ * @param payload - Texto leído del QR
+ * @param eventoId - Evento seleccionado en el escáner; debe coincidir con el de la lista descargada
+ * @param puntoControlId - Puerta seleccionada en el dispositivo
+ * @param tipo - Entrada o salida
+ */
+export async function registrarIngresoLocal(
+  payload: string,
+  eventoId: number,
+  puntoControlId: number | null,
+  tipo: IngresoPendiente["tipo"] = "entrada"
+): Promise<ValidacionLocal> {
+  const info = await obtenerInfoSnapshot();
+  if (!info || info.eventoId !== eventoId) {
+    return { ok: false, mensaje: "Descarga la lista de códigos de este evento para validar sin conexión" };
+  }
+
+  const db = await abrirDb();
+  const tx = db.transaction([STORE_CODIGOS, STORE_PENDIENTES], "readwrite");
+  const codigos = tx.objectStore(STORE_CODIGOS);
+  const leido = payload.trim();
+  const codigo = (await esperar(codigos.get(extraerCodigo(leido)))) as CodigoOffline | undefined;
+
+  if (!codigo) {
+    db.close();
+    return { ok: false, mensaje: "QR no encontrado en la lista descargada" };
+  }
+  if (leido !== codigo.payload) {
+    db.close();
+    return { ok: false, mensaje: "QR falsificado o alterado: la firma no es válida" };
+  }
+  if (tipo === "entrada" && !codigo.activo) {
+    db.close();
+    return { ok: false, mensaje: "El QR fue revocado: el titular está desactivado" };
+  }
+  if (tipo === "entrada" && codigo.usosActual >= codigo.maxUsos) {
+    db.close();
+    return { ok: false, mensaje: "QR ya ha sido usado al máximo" };
+  }
+
+  const actualizado = tipo === "entrada" ? { ...codigo, usosActual: codigo.usosActual + 1 } : codigo;
+  codigos.put(actualizado);
+  tx.objectStore(STORE_PENDIENTES).put({
+    id: crypto.randomUUID(),
+    eventoId,
+    puntoControlId,
+    tipo,
+    codigo: leido,
+    fecha: new Date().toISOString(),
+  } satisfies IngresoPendiente);
+  await completar(tx);
+  db.close();
+
+  if (tipo === "salida") {
+    return { ok: true, codigo: actualizado, mensaje: "Salida guardada sin conexión" };
+  }
+
+  return {
+    ok: true,
+    codigo: actualizado,
+    mensaje: `Ingreso guardado sin conexión: Disponibles ${actualizado.maxUsos - actualizado.usosActual} de ${actualizado.maxUsos}`,
+  };
+}
+
+export async function listarPendientes(): Promise<IngresoPendiente[]> {
+  const db = await abrirDb();
+  const pendientes = await esperar(db.transaction(STORE_PENDIENTES).objectStore(STORE_PENDIENTES).getAll());
+  db.close();
+  return (pendientes as IngresoPendiente[]).sort((a, b) => a.fecha.localeCompare(b.fecha));
+}
+
+export async function eliminarPendientes(ids: string[]) {
+  if (ids.length === 0) return;
+  const db = await abrirDb();
+  const tx = db.transaction(STORE_PENDIENTES, "readwrite");
+  const store = tx.objectStore(STORE_PENDIENTES);
+  ids.forEach((id) => store.delete(id));
+  await completar(tx);
+  db.close();
+}
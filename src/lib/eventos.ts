@@ -0,0 +1,60 @@
+import type { Evento } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+export function parseEventoId(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") {
+    return null;
+  }
+  const numeric = Number(value);
+  return Number.isInteger(numeric) && numeric > 0 ? numeric : null;
+}
+
+/**
+ * Obtiene el evento indicado por el cliente o, si no se envía ninguno, el evento activo más reciente.
+ * @param eventoIdParam - Identificador recibido en la query, el body o el formulario
+ * @returns El evento resuelto o null si no existe ninguno aplicable
+ */
+export async function resolverEvento(eventoIdParam: unknown): Promise<Evento | null> {
+  const eventoId = parseEventoId(eventoIdParam);
+
+  if (eventoId) {
+    return prisma.evento.findUnique({ where: { id: eventoId } });
+  }
+
+  return prisma.evento.findFirst({
+    where: { estado: "activo" },
+    orderBy: { fecha_inicio: "desc" },
+  });
+}
+
+export type EventoActivo = { ok: true; evento: Evento } | { ok: false; error: string };
+
+/**
+ * Igual que `resolverEvento`, pero para las rutas que registran datos: un evento planificado o finalizado
+ * (por ejemplo, el que sigue seleccionado en un cliente desactualizado) no admite ingresos ni importaciones.
+ * @param eventoIdParam - Identificador recibido en la query, el body o el formulario
+ * @param sinEvento - Mensaje de error cuando no existe ningún evento aplicable
+ * @returns El evento activo o el mensaje de error para responder 400
+ */
+export async function resolverEventoActivo(eventoIdParam: unknown, sinEvento: string): Promise<EventoActivo> {
+  const evento = await resolverEvento(eventoIdParam);
+  if (!evento) {
+    return { ok: false, error: sinEvento };
+  }
+  if (evento.estado !== "activo") {
+    return { ok: false, error: `El evento "${evento.nombre}" está ${evento.estado}: selecciona un evento activo` };
+  }
+  return { ok: true, evento };
+}
+
+export function mapEvento(evento: Evento) {
+  return {
+    id: evento.id,
+    nombre: evento.nombre,
+    lugar: evento.lugar,
+    fechaInicio: evento.fecha_inicio,
+    fechaFin: evento.fecha_fin,
+    capacidad: evento.capacidad,
+    estado: evento.estado,
+  };
+}
@@ -0,0 +1,29 @@
+export type DateRange = {
+  start: Date;
+  end: Date;
+};
+
+/**
+ * Convierte una fecha `YYYY-MM-DD` en el rango que cubre ese día completo en hora local.
+ */
+export function buildDateRange(dateParam: string | null): DateRange | null {
+  if (!dateParam) return null;
+
+  const [yearStr, monthStr, dayStr] = dateParam.split("-");
+  const year = Number(yearStr);
+  const month = Number(monthStr);
+  const day = Number(dayStr);
+
+  if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) {
+    return null;
+  }
+
+  const start = new Date(year, month - 1, day, 0, 0, 0, 0);
+  const end = new Date(year, month - 1, day, 23, 59, 59, 999);
+
+  if (Number.isNaN(start.getTime()) || Number.isNaN(end.getTime())) {
+    return null;
+  }
+
+  return { start, end };
+}
@@ -0,0 +1,77 @@
+import type { TipoPersona, TipoQR } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+const MAX_ESCANEOS_PREVIOS = 5;
+
+export type FichaEscaneo = {
+  codigo: string;
+  titular: string | null;
+  /** Cédula con solo los últimos dígitos visibles */
+  cedula: string | null;
+  tipoQr: TipoQR;
+  tipoPersona: TipoPersona | null;
+  maxUsos: number;
+  usosActual: number;
+  disponibles: number;
+  /** Entradas anteriores del código, de la más reciente a la más antigua */
+  escaneosPrevios: string[];
+  /** El código corresponde a boletos adicionales vendidos en caja */
+  adicional: boolean;
+  /** Evento al que pertenece el código; permite explicar los rechazos por evento equivocado */
+  evento: string | null;
+};
+
+/**
+ * Oculta la cédula dejando visibles los últimos 4 dígitos, suficientes para compararla con el documento.
+ */
+export function enmascararCedula(cedula: string | null) {
+  if (!cedula) {
+    return null;
+  }
+  const visibles = cedula.slice(-4);
+  return `${"•".repeat(Math.max(cedula.length - visibles.length, 0))}${visibles}`;
+}
+
+/**
+ * Arma la ficha que el escáner muestra al guardia para confirmar que quien presenta el QR es su titular.
+ * @param codigoId - Código leído
+ * @param ingresoActualId - Ingreso recién registrado; se excluye de los escaneos previos
+ */
+export async function obtenerFichaEscaneo(codigoId: number, ingresoActualId?: number): Promise<FichaEscaneo | null> {
+  const qr = await prisma.codigoQR.findUnique({
+    where: { id_codigo: codigoId },
+    include: {
+      persona: { select: { nombre: true, apellido: true, cedula: true, tipo_persona: true } },
+      evento: { select: { nombre: true } },
+      ingresos: {
+        where: {
+          tipo: "entrada",
+          anulado: false,
+          ...(ingresoActualId ? { id_ingreso: { not: ingresoActualId } } : {}),
+        },
+        orderBy: { fecha: "desc" },
+        take: MAX_ESCANEOS_PREVIOS,
+        select: { fecha: true },
+      },
+      _count: { select: { ventas: true } },
+    },
+  });
+
+  if (!qr) {
+    return null;
+  }
+
+  return {
+    codigo: qr.codigo,
+    titular: qr.persona ? `${qr.persona.nombre} ${qr.persona.apellido ?? ""}`.trim() : null,
+    cedula: enmascararCedula(qr.persona?.cedula ?? null),
+    tipoQr: qr.tipo_qr,
+    tipoPersona: qr.persona?.tipo_persona ?? null,
+    maxUsos: qr.max_usos,
+    usosActual: qr.usos_actual,
+    disponibles: Math.max(qr.max_usos - qr.usos_actual, 0),
+    escaneosPrevios: qr.ingresos.map((ingreso) => ingreso.fecha.toISOString()),
+    adicional: qr._count.ventas > 0,
+    evento: qr.evento?.nombre ?? null,
+  };
+}
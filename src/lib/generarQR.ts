@@ -1,9 +1,10 @@
 import QRCode from "qrcode";
 import * as PImage from "pureimage";
 import { PassThrough, Readable } from "stream";
+import { firmarCodigo } from "@/lib/qrFirma";
 
 /**
- * Genera un QR PNG con texto debajo.
+ * Genera un QR PNG con texto debajo. El QR contiene el código firmado, no el código plano.
  * @param codigo - El código único para el QR
  * @param texto - La leyenda a mostrar debajo
  * @param fileName - Nombre del archivo PNG
@@ -15,7 +16,7 @@ export async function generarQRpng(
   fileName: string
 ): Promise<{ buffer: Buffer; dataUrl: string; fileName: string }> {
   // Generar el QR en buffer
-  const qrBuffer = await QRCode.toBuffer(codigo, { width: 300, margin: 2 });
+  const qrBuffer = await QRCode.toBuffer(firmarCodigo(codigo), { width: 300, margin: 2 });
 
   // Cargar el QR en imagen pureimage
   const qrImg = await PImage.decodePNGFromStream(BufferToStream(qrBuffer));
@@ -0,0 +1,156 @@
+// Validación de documentos de identidad ecuatorianos; se usa tanto en el servidor como en el navegador
+
+export type TipoIdentificacion = "cedula" | "ruc" | "pasaporte";
+
+export type ResultadoIdentificacion =
+  | { ok: true; valor: string; tipo: TipoIdentificacion }
+  | { ok: false; valor: string; error: string };
+
+const LONGITUD_CEDULA = 10;
+const LONGITUD_RUC = 13;
+// 01-24 son las provincias; 30 se asigna a ecuatorianos registrados en el exterior
+const PROVINCIA_EXTERIOR = 30;
+const MAX_PROVINCIA = 24;
+const PASAPORTE_REGEX = /^(?=.*[A-Z])[A-Z0-9]{5,20}$/;
+
+function codigoProvinciaValido(digitos: string) {
+  const provincia = Number(digitos.slice(0, 2));
+  return (provincia >= 1 && provincia <= MAX_PROVINCIA) || provincia === PROVINCIA_EXTERIOR;
+}
+
+/**
+ * Algoritmo módulo 10 del Registro Civil: coeficientes 2,1,2,1… sobre los 9 primeros dígitos.
+ */
+function digitoVerificadorModulo10(digitos: string) {
+  const suma = digitos
+    .slice(0, 9)
+    .split("")
+    .reduce((acc, digito, index) => {
+      const producto = Number(digito) * (index % 2 === 0 ? 2 : 1);
+      return acc + (producto > 9 ? producto - 9 : producto);
+    }, 0);
+  return (10 - (suma % 10)) % 10;
+}
+
+/**
+ * Algoritmo módulo 11 del SRI para RUC de sociedades privadas y entidades públicas.
+ * @returns El dígito esperado, o null si el residuo no admite dígito verificador
+ */
+function digitoVerificadorModulo11(digitos: string, coeficientes: number[]) {
+  const suma = coeficientes.reduce((acc, coeficiente, index) => acc + Number(digitos[index]) * coeficiente, 0);
+  const residuo = suma % 11;
+  if (residuo === 0) return 0;
+  const digito = 11 - residuo;
+  return digito === 10 ? null : digito;
+}
+
+function validarCedula(digitos: string): string | null {
+  if (!codigoProvinciaValido(digitos)) {
+    return "El código de provincia de la cédula no existe";
+  }
+  if (Number(digitos[2]) >= 6) {
+    return "El tercer dígito de la cédula debe ser menor a 6";
+  }
+  if (digitoVerificadorModulo10(digitos) !== Number(digitos[9])) {
+    return "El dígito verificador de la cédula no es correcto";
+  }
+  return null;
+}
+
+function validarRuc(digitos: string): string | null {
+  if (!codigoProvinciaValido(digitos)) {
+    return "El código de provincia del RUC no existe";
+  }
+
+  const tercerDigito = Number(digitos[2]);
+
+  // Persona natural: cédula seguida del número de establecimiento
+  if (tercerDigito < 6) {
+    const errorCedula = validarCedula(digitos.slice(0, LONGITUD_CEDULA));
+    if (errorCedula) {
+      return errorCedula.replace("de la cédula", "del RUC");
+    }
+    return digitos.slice(10) === "000" ? "El número de establecimiento del RUC no puede ser 000" : null;
+  }
+
+  // Entidad pública: verificador en la novena posición y establecimiento de 4 dígitos
+  if (tercerDigito === 6) {
+    const esperado = digitoVerificadorModulo11(digitos, [3, 2, 7, 6, 5, 4, 3, 2]);
+    if (esperado === null || esperado !== Number(digitos[8])) {
+      return "El dígito verificador del RUC no es correcto";
+    }
+    return digitos.slice(9) === "0000" ? "El número de establecimiento del RUC no puede ser 0000" : null;
+  }
+
+  // Sociedad privada
+  if (tercerDigito === 9) {
+    const esperado = digitoVerificadorModulo11(digitos, [4, 3, 2, 7, 6, 5, 4, 3, 2]);
+    if (esperado === null || esperado !== Number(digitos[9])) {
+      return "El dígito verificador del RUC no es correcto";
+    }
+    return digitos.slice(10) === "000" ? "El número de establecimiento del RUC no puede ser 000" : null;
+  }
+
+  return "El tercer dígito del RUC no corresponde a ningún tipo de contribuyente";
+}
+
+/**
+ * Convierte el valor leído de una celda o formulario en texto sin perder los ceros a la izquierda.
+ * Excel guarda las cédulas de las provincias 01-09 como números y descarta el cero inicial,
+ * por eso los valores numéricos de 9 o 12 dígitos se completan hasta la longitud de cédula o RUC.
+ */
+export function normalizarIdentificacion(value: unknown): string | null {
+  if (value === null || value === undefined) return null;
+
+  if (typeof value === "number") {
+    if (!Number.isFinite(value)) return null;
+    const digitos = String(Math.trunc(value));
+    if (digitos.length === LONGITUD_CEDULA - 1 || digitos.length === LONGITUD_RUC - 1) {
+      return `0${digitos}`;
+    }
+    return digitos;
+  }
+
+  const limpio = String(value).trim().toUpperCase().replace(/[\s.-]+/g, "");
+  return limpio.length ? limpio : null;
+}
+
+/**
+ * Valida una cédula (10 dígitos, módulo 10), un RUC (13 dígitos, reglas del SRI) o un pasaporte
+ * (5 a 20 caracteres alfanuméricos con al menos una letra).
+ * @param value - Valor tal como llega de la celda o del formulario
+ * @returns El documento normalizado y su tipo, o el motivo por el que no es válido
+ */
+export function validarIdentificacion(value: unknown): ResultadoIdentificacion {
+  const valor = normalizarIdentificacion(value) ?? "";
+
+  if (!valor) {
+    return { ok: false, valor, error: "La identificación está vacía" };
+  }
+
+  if (/^\d+$/.test(valor)) {
+    if (valor.length === LONGITUD_CEDULA) {
+      const error = validarCedula(valor);
+      return error ? { ok: false, valor, error } : { ok: true, valor, tipo: "cedula" };
+    }
+    if (valor.length === LONGITUD_RUC) {
+      const error = validarRuc(valor);
+      return error ? { ok: false, valor, error } : { ok: true, valor, tipo: "ruc" };
+    }
+    return {
+      ok: false,
+      valor,
+      error: `La cédula debe tener ${LONGITUD_CEDULA} dígitos y el RUC ${LONGITUD_RUC}; se recibieron ${valor.length}`,
+    };
+  }
+
+  if (PASAPORTE_REGEX.test(valor)) {
+    return { ok: true, valor, tipo: "pasaporte" };
+  }
+
+  return {
+    ok: false,
+    valor,
+    error: "El pasaporte debe tener entre 5 y 20 letras o números, con al menos una letra",
+  };
+}
@@ -0,0 +1,307 @@
+import type { Persona, TipoPersona, TipoQR } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { validarIdentificacion, type ResultadoIdentificacion } from "@/lib/identificacion";
+import { EMAIL_REGEX, leerCampos, normalizarEncabezado, type MapeoColumnas } from "@/lib/mapeoImportacion";
+import {
+  invitadosPorRegla,
+  leerInvitados,
+  resolverInvitados,
+  valorColumnaReglas,
+  type OrigenInvitados,
+  type ReglasCupos,
+  type ResultadoInvitados,
+} from "@/lib/cuposImportacion";
+import type { FilaHoja } from "@/lib/lecturaPlanilla";
+
+export type FilaImportacion = {
+  hoja: string;
+  /** Número de fila en la hoja, contando el encabezado */
+  fila: number;
+  nombre: string;
+  apellido: string;
+  /** `null` si la fila no trae identificación */
+  identificacion: ResultadoIdentificacion | null;
+  correo: string | null;
+  tipo_persona: TipoPersona;
+  /** Cantidad de la columna de invitados; `null` si la celda está vacía */
+  invitados: ResultadoInvitados | null;
+  /** Invitados que asigna la regla que coincide con la fila */
+  invitadosRegla: number | null;
+};
+
+/**
+ * Lee los campos de una fila de la planilla.
+ * @param origen - Fila con la hoja y el número de fila de donde proviene
+ * @param mapeo - Columnas elegidas al importar; sin mapeo se usan los encabezados por defecto
+ * @param reglasCupos - Reglas de invitados por el valor de otra columna
+ */
+export function leerFila(
+  origen: FilaHoja,
+  mapeo?: MapeoColumnas | null,
+  reglasCupos?: ReglasCupos | null
+): FilaImportacion {
+  const { cedulaRaw, invitadosRaw, ...campos } = leerCampos(origen.row, mapeo);
+  return {
+    hoja: origen.hoja,
+    fila: origen.fila,
+    ...campos,
+    identificacion: cedulaRaw === null ? null : validarIdentificacion(cedulaRaw),
+    invitados: leerInvitados(invitadosRaw),
+    invitadosRegla: invitadosPorRegla(origen.row, reglasCupos),
+  };
+}
+
+export const TIPO_QR_POR_PERSONA: Record<TipoPersona, TipoQR> = {
+  estudiante: "est",
+  familiar: "fam",
+  visitante: "vis",
+};
+
+export type CambioPersona = {
+  campo: "nombre" | "apellido" | "correo" | "tipo_persona";
+  anterior: string | null;
+  nuevo: string;
+};
+
+/**
+ * Campos de una persona existente que la fila sobrescribiría; los valores vacíos no borran datos.
+ */
+export function calcularCambiosPersona(persona: Persona, fila: FilaImportacion): CambioPersona[] {
+  const cambios: CambioPersona[] = [];
+  if (fila.nombre && fila.nombre !== persona.nombre) {
+    cambios.push({ campo: "nombre", anterior: persona.nombre, nuevo: fila.nombre });
+  }
+  if (fila.apellido && fila.apellido !== persona.apellido) {
+    cambios.push({ campo: "apellido", anterior: persona.apellido, nuevo: fila.apellido });
+  }
+  if (fila.correo && fila.correo !== persona.correo) {
+    cambios.push({ campo: "correo", anterior: persona.correo, nuevo: fila.correo });
+  }
+  if (fila.tipo_persona !== persona.tipo_persona) {
+    cambios.push({ campo: "tipo_persona", anterior: persona.tipo_persona, nuevo: fila.tipo_persona });
+  }
+  return cambios;
+}
+
+type PersonaPrevia = {
+  hoja: string;
+  fila: number;
+  cedula: string | null;
+  nombre: string;
+  apellido: string;
+  correo: string | null;
+  tipo: TipoPersona;
+};
+
+/**
+ * Plazas (ingresos permitidos) que tendrá el evento, comparadas con su aforo.
+ */
+export type PlazasImportacion = {
+  /** Plazas de los códigos que la importación crea o actualiza */
+  importacion: number;
+  /** Plazas de los demás códigos del evento */
+  evento: number;
+  capacidad: number | null;
+  /** Estudiantes según de dónde sale su número de invitados */
+  origenInvitados: Record<OrigenInvitados, number>;
+  /** Valores de la columna de reglas que no tienen regla; esas filas usan el valor general */
+  valoresSinRegla: string[];
+};
+
+export type PrevisualizacionImportacion = {
+  total: number;
+  nuevos: PersonaPrevia[];
+  actualizaciones: Array<PersonaPrevia & { cambios: CambioPersona[] }>;
+  /** Personas que ya existen y no cambian; sin reutilizar códigos igual se les genera uno nuevo */
+  sinCambios: number;
+  duplicados: Array<{ hoja: string; fila: number; cedula: string; original: { hoja: string; fila: number } }>;
+  correosInvalidos: Array<{ hoja: string; fila: number; cedula: string | null; correo: string }>;
+  identificacionesInvalidas: Array<{ hoja: string; fila: number; valor: string; error: string }>;
+  invitadosInvalidos: Array<{ hoja: string; fila: number; cedula: string | null; valor: string; error: string }>;
+  codigosPorGenerar: number;
+  /** Filas que conservan el código que la persona ya tiene en el evento */
+  codigosReutilizados: number;
+  correosPorEnviar: number;
+  plazas: PlazasImportacion;
+};
+
+export type OpcionesPrevisualizacion = {
+  eventoId: number;
+  capacidad: number | null;
+  maxUsosFamiliares: number;
+  reutilizarCodigos: boolean;
+  reglasCupos: ReglasCupos | null;
+};
+
+/**
+ * Simula la importación sin escribir en la base de datos ni enviar correos.
+ * Aplica las mismas reglas que la importación real: las filas con identificación, correo o invitados inválidos se omiten.
+ * @param origen - Filas de las hojas seleccionadas
+ * @param mapeo - Columnas elegidas al importar
+ * @param opciones - Evento y opciones de la importación; determinan qué códigos se reutilizan y el cupo de cada uno
+ */
+export async function previsualizarImportacion(
+  origen: FilaHoja[],
+  mapeo?: MapeoColumnas | null,
+  opciones?: OpcionesPrevisualizacion
+): Promise<PrevisualizacionImportacion> {
+  const reglasCupos = opciones?.reglasCupos ?? null;
+  const filas = origen.map((fila) => leerFila(fila, mapeo, reglasCupos));
+  const cedulas = Array.from(
+    new Set(
+      filas
+        .map((fila) => (fila.identificacion?.ok ? fila.identificacion.valor : null))
+        .filter((cedula): cedula is string => Boolean(cedula))
+    )
+  );
+  const existentes = cedulas.length
+    ? await prisma.persona.findMany({ where: { cedula: { in: cedulas } } })
+    : [];
+  const personasPorCedula = new Map(existentes.map((persona) => [persona.cedula, persona]));
+
+  const reutilizar = Boolean(opciones?.reutilizarCodigos);
+  const [codigos, plazasEvento] = await Promise.all([
+    opciones && reutilizar && existentes.length
+      ? prisma.codigoQR.findMany({
+          where: { eventoId: opciones.eventoId, personaId: { in: existentes.map((persona) => persona.id_persona) } },
+          orderBy: { id_codigo: "asc" },
+          select: { personaId: true, tipo_qr: true, max_usos: true, usos_actual: true },
+        })
+      : [],
+    opciones
+      ? prisma.codigoQR.aggregate({ where: { eventoId: opciones.eventoId }, _sum: { max_usos: true } })
+      : null,
+  ]);
+  // El más reciente de cada tipo, igual que la importación
+  const codigosPorPersona = new Map(codigos.map((codigo) => [`${codigo.personaId}:${codigo.tipo_qr}`, codigo]));
+  const general = opciones?.maxUsosFamiliares ?? 0;
+
+  const resultado: PrevisualizacionImportacion = {
+    total: origen.length,
+    nuevos: [],
+    actualizaciones: [],
+    sinCambios: 0,
+    duplicados: [],
+    correosInvalidos: [],
+    identificacionesInvalidas: [],
+    invitadosInvalidos: [],
+    codigosPorGenerar: 0,
+    codigosReutilizados: 0,
+    correosPorEnviar: 0,
+    plazas: {
+      importacion: 0,
+      evento: plazasEvento?._sum.max_usos ?? 0,
+      capacidad: opciones?.capacidad ?? null,
+      origenInvitados: { columna: 0, regla: 0, general: 0 },
+      valoresSinRegla: [],
+    },
+  };
+  const primeraFila = new Map<string, { hoja: string; fila: number }>();
+  const sinRegla = new Map<string, string>();
+
+  for (const [indice, fila] of filas.entries()) {
+    const { identificacion } = fila;
+
+    if (identificacion && !identificacion.ok) {
+      resultado.identificacionesInvalidas.push({
+        hoja: fila.hoja,
+        fila: fila.fila,
+        valor: identificacion.valor,
+        error: identificacion.error,
+      });
+      continue;
+    }
+
+    const cedula = identificacion?.valor ?? null;
+
+    if (fila.correo && !EMAIL_REGEX.test(fila.correo)) {
+      resultado.correosInvalidos.push({ hoja: fila.hoja, fila: fila.fila, cedula, correo: fila.correo });
+      continue;
+    }
+
+    const esEstudiante = fila.tipo_persona === "estudiante";
+    if (esEstudiante && fila.invitados && !fila.invitados.ok) {
+      resultado.invitadosInvalidos.push({
+        hoja: fila.hoja,
+        fila: fila.fila,
+        cedula,
+        valor: fila.invitados.valor,
+        error: fila.invitados.error,
+      });
+      continue;
+    }
+
+    const original = cedula ? primeraFila.get(cedula) : undefined;
+    const existente = cedula ? personasPorCedula.get(cedula) : undefined;
+    const cambios = existente ? calcularCambiosPersona(existente, fila) : [];
+    const codigoPrevio =
+      reutilizar && existente
+        ? codigosPorPersona.get(`${existente.id_persona}:${TIPO_QR_POR_PERSONA[fila.tipo_persona]}`)
+        : undefined;
+    const esEstudianteConCorreo = esEstudiante && Boolean(fila.correo);
+
+    let totalPermitidos = 1;
+    if (esEstudiante) {
+      const cupo = resolverInvitados(fila, general);
+      totalPermitidos += cupo.invitados;
+      resultado.plazas.origenInvitados[cupo.origen]++;
+      const valorRegla =
+        reglasCupos && cupo.origen === "general" ? valorColumnaReglas(origen[indice].row, reglasCupos) : null;
+      if (valorRegla) {
+        sinRegla.set(normalizarEncabezado(valorRegla), valorRegla);
+      }
+    }
+
+    if (reutilizar && (original !== undefined || codigoPrevio)) {
+      // Una fila repetida reutiliza el código que generó la primera; se asume que no trae cambios
+      resultado.codigosReutilizados++;
+      if (original === undefined && codigoPrevio) {
+        // Los familiares y visitantes conservan su cupo; al estudiante no se le baja de los ingresos ya registrados
+        const maxUsos = esEstudiante ? Math.max(totalPermitidos, codigoPrevio.usos_actual) : codigoPrevio.max_usos;
+        resultado.plazas.importacion += maxUsos;
+        resultado.plazas.evento -= codigoPrevio.max_usos;
+        if (esEstudianteConCorreo && (codigoPrevio.max_usos !== maxUsos || cambios.length > 0)) {
+          resultado.correosPorEnviar++;
+        }
+      }
+    } else {
+      resultado.codigosPorGenerar++;
+      resultado.plazas.importacion += totalPermitidos;
+      if (esEstudianteConCorreo) {
+        resultado.correosPorEnviar++;
+      }
+    }
+
+    if (cedula) {
+      if (original !== undefined) {
+        // La importación real actualiza a la persona de la primera fila y, sin reutilizar códigos, le genera otro
+        resultado.duplicados.push({ hoja: fila.hoja, fila: fila.fila, cedula, original });
+        continue;
+      }
+      primeraFila.set(cedula, { hoja: fila.hoja, fila: fila.fila });
+    }
+
+    const previa: PersonaPrevia = {
+      hoja: fila.hoja,
+      fila: fila.fila,
+      cedula,
+      nombre: fila.nombre,
+      apellido: fila.apellido,
+      correo: fila.correo,
+      tipo: fila.tipo_persona,
+    };
+    if (!existente) {
+      resultado.nuevos.push(previa);
+      continue;
+    }
+
+    if (cambios.length > 0) {
+      resultado.actualizaciones.push({ ...previa, cambios });
+    } else {
+      resultado.sinCambios++;
+    }
+  }
+
+  resultado.plazas.valoresSinRegla = [...sinRegla.values()];
+  return resultado;
+}
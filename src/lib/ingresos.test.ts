@@ -0,0 +1,116 @@
+import type { PrismaClient, ReglaReingreso } from "@prisma/client";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { baseDePruebas, borrarEventoDePrueba, crearEventoDePrueba, hayBaseDePruebas } from "@/test/baseDatos";
+
+describe.skipIf(!hayBaseDePruebas)("registrarIngreso", () => {
+  let prisma: PrismaClient;
+  let registrarIngreso: typeof import("@/lib/ingresos").registrarIngreso;
+  let eventoId: number;
+
+  beforeAll(async () => {
+    prisma = await baseDePruebas();
+    ({ registrarIngreso } = await import("@/lib/ingresos"));
+    eventoId = (await crearEventoDePrueba("Prueba de ingresos")).id;
+  });
+
+  afterAll(async () => {
+    await borrarEventoDePrueba(eventoId);
+    await prisma.$disconnect();
+  });
+
+  it("no supera max_usos con escaneos simultáneos del mismo código", async () => {
+    const maxUsos = 3;
+    const escaneos = 12;
+    const qr = await prisma.codigoQR.create({
+      data: { codigo: `PRUEBA-${Date.now()}`, tipo_qr: "fam", max_usos: maxUsos, eventoId },
+    });
+
+    const resultados = await Promise.all(
+      Array.from({ length: escaneos }, () => registrarIngreso(qr.codigo, { eventoId }))
+    );
+
+    expect(resultados.filter((resultado) => resultado.ok)).toHaveLength(maxUsos);
+    expect(resultados.filter((resultado) => !resultado.ok && resultado.motivo === "agotado")).toHaveLength(
+      escaneos - maxUsos
+    );
+
+    const actualizado = await prisma.codigoQR.findUniqueOrThrow({ where: { id_codigo: qr.id_codigo } });
+    expect(actualizado.usos_actual).toBe(maxUsos);
+    expect(await prisma.ingreso.count({ where: { codigoqrId: qr.id_codigo, tipo: "entrada" } })).toBe(maxUsos);
+  });
+
+  it("no supera el aforo con escaneos simultáneos de distintos códigos", async () => {
+    const escaneos = 6;
+    const evento = await crearEventoDePrueba("Prueba de aforo", 1);
+    try {
+      const codigos = await Promise.all(
+        Array.from({ length: escaneos }, (_, indice) =>
+          prisma.codigoQR.create({
+            data: { codigo: `AFORO-${Date.now()}-${indice}`, tipo_qr: "est", max_usos: 1, eventoId: evento.id },
+          })
+        )
+      );
+
+      const resultados = await Promise.all(
+        codigos.map((qr) => registrarIngreso(qr.codigo, { eventoId: evento.id }))
+      );
+
+      expect(resultados.filter((resultado) => resultado.ok)).toHaveLength(1);
+      expect(resultados.filter((resultado) => !resultado.ok && resultado.motivo === "aforo_completo")).toHaveLength(
+        escaneos - 1
+      );
+      expect(await prisma.ingreso.count({ where: { eventoId: evento.id, tipo: "entrada" } })).toBe(1);
+    } finally {
+      await borrarEventoDePrueba(evento.id);
+    }
+  });
+
+  describe("con salida obligatoria", () => {
+    let reglaPrevia: ReglaReingreso | null;
+
+    beforeAll(async () => {
+      reglaPrevia = await prisma.reglaReingreso.findUnique({ where: { tipo_qr: "vis" } });
+      await prisma.reglaReingreso.upsert({
+        where: { tipo_qr: "vis" },
+        create: { tipo_qr: "vis", intervalo_minimo_seg: 0, requiere_salida: true },
+        update: { intervalo_minimo_seg: 0, requiere_salida: true },
+      });
+    });
+
+    afterAll(async () => {
+      if (reglaPrevia) {
+        const { tipo_qr, intervalo_minimo_seg, requiere_salida } = reglaPrevia;
+        await prisma.reglaReingreso.update({ where: { tipo_qr }, data: { intervalo_minimo_seg, requiere_salida } });
+      } else {
+        await prisma.reglaReingreso.delete({ where: { tipo_qr: "vis" } });
+      }
+    });
+
+    const crearCodigo = (sufijo: string) =>
+      prisma.codigoQR.create({
+        data: { codigo: `REINGRESO-${Date.now()}-${sufijo}`, tipo_qr: "vis", max_usos: 1, eventoId },
+      });
+
+    it("rechaza una segunda entrada sin salida", async () => {
+      const qr = await crearCodigo("doble");
+
+      expect((await registrarIngreso(qr.codigo, { eventoId })).ok).toBe(true);
+      const segunda = await registrarIngreso(qr.codigo, { eventoId });
+
+      expect(segunda.ok).toBe(false);
+      expect(!segunda.ok && segunda.motivo).toBe("requiere_salida");
+    });
+
+    it("permite volver a entrar después de una salida", async () => {
+      const qr = await crearCodigo("reingreso");
+
+      expect((await registrarIngreso(qr.codigo, { eventoId })).ok).toBe(true);
+      const salida = await registrarIngreso(qr.codigo, { eventoId, tipo: "salida" });
+      expect(salida.ok && salida.qr.usos_actual).toBe(0);
+
+      const reingreso = await registrarIngreso(qr.codigo, { eventoId });
+      expect(reingreso.ok).toBe(true);
+      expect(reingreso.ok && reingreso.qr.usos_actual).toBe(1);
+    });
+  });
+});
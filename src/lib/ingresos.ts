@@ -0,0 +1,324 @@
+import { Prisma, type CodigoQR, type Ingreso, type TipoMovimiento } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { calcularOcupacion } from "@/lib/ocupacion";
+
+export type MotivoRechazoIngreso =
+  | "no_encontrado"
+  | "otro_evento"
+  | "revocado"
+  | "agotado"
+  | "aforo_completo"
+  | "sin_entrada"
+  | "intervalo_minimo"
+  | "requiere_salida";
+
+export const MENSAJES_RECHAZO: Record<MotivoRechazoIngreso, string> = {
+  no_encontrado: "QR no encontrado",
+  otro_evento: "El QR pertenece a otro evento",
+  revocado: "El QR fue revocado: el titular está desactivado",
+  agotado: "QR ya ha sido usado al máximo",
+  aforo_completo: "Aforo completo: no se permiten más ingresos hasta que salgan asistentes",
+  sin_entrada: "El QR no tiene un ingreso pendiente de salida",
+  intervalo_minimo: "El QR se usó hace muy poco: espera antes de volver a ingresar",
+  requiere_salida: "El QR ya está dentro: debe registrar una salida antes de volver a ingresar",
+};
+
+export type ResultadoIngreso =
+  | { ok: true; qr: CodigoQR; ingreso: Ingreso }
+  | { ok: false; motivo: MotivoRechazoIngreso; qr?: CodigoQR; detalle?: string };
+
+export type DatosIngreso = {
+  /** Evento en el que se está registrando el ingreso */
+  eventoId: number;
+  /** Momento del escaneo; los ingresos sincronizados sin conexión conservan su hora original */
+  fecha?: Date;
+  /** Puerta desde la que se escaneó */
+  puntoControlId?: number | null;
+  /** Correo del guardia que escaneó */
+  usuario?: string | null;
+  /** Entrada (consume un uso) o salida del recinto */
+  tipo?: TipoMovimiento;
+  /** El guardia buscó al asistente por cédula o nombre porque no pudo mostrar el QR */
+  manual?: boolean;
+  /**
+   * Aplica el aforo y las reglas de reingreso; por defecto `true`.
+   * Los ingresos sincronizados desde el modo sin conexión ya pasaron por la puerta y no se vuelven a evaluar.
+   */
+  validarEnPuerta?: boolean;
+  /** Identificador del ingreso en la cola sin conexión del escáner; es único, así que un reenvío no lo duplica */
+  idLocal?: string | null;
+};
+
+/**
+ * Valida el código y registra el movimiento en una sola transacción.
+ * En las entradas el contador solo se incrementa si todavía hay usos disponibles, de modo que dos
+ * lectores escaneando el mismo QR al mismo tiempo no pueden superar `max_usos`; si el evento tiene
+ * aforo, la fila del evento se bloquea para que dos puertas no ocupen el último cupo a la vez.
+ * La transacción usa READ COMMITTED: con el REPEATABLE READ por defecto de MySQL las lecturas que siguen
+ * a un bloqueo verían la foto tomada en la primera consulta y no los escaneos que otra puerta confirmó
+ * mientras se esperaba el bloqueo.
+ * Las salidas solo se aceptan si el código tiene una entrada sin salida.
+ * Las reglas de reingreso del tipo de QR (intervalo mínimo y salida obligatoria) evitan que el
+ * mismo código se pase por encima de la reja para que lo usen otras personas; con salida obligatoria,
+ * cada salida devuelve el uso de su entrada para que se pueda volver a ingresar.
+ * @param codigo - Texto leído del QR
+ * @param datos - Evento, puerta y usuario que registran el ingreso
+ * @returns El ingreso creado o el motivo por el que fue rechazado
+ */
+export async function registrarIngreso(codigo: string, datos: DatosIngreso): Promise<ResultadoIngreso> {
+  const {
+    eventoId,
+    fecha = new Date(),
+    puntoControlId = null,
+    usuario = null,
+    tipo = "entrada",
+    manual = false,
+    validarEnPuerta = true,
+    idLocal = null,
+  } = datos;
+
+  return prisma.$transaction(async (tx) => {
+    const encontrado = await tx.codigoQR.findUnique({
+      where: { codigo },
+      include: { persona: { select: { estado: true } } },
+    });
+
+    if (!encontrado) {
+      return { ok: false, motivo: "no_encontrado" };
+    }
+
+    const { persona, ...qr } = encontrado;
+
+    if (qr.eventoId !== eventoId) {
+      return { ok: false, motivo: "otro_evento", qr };
+    }
+
+    // Un titular desactivado ya no puede entrar, pero sí registrar su salida
+    if (tipo === "entrada" && persona && !persona.estado) {
+      return { ok: false, motivo: "revocado", qr };
+    }
+
+    if (tipo === "salida") {
+      await tx.$queryRaw`SELECT id_codigo FROM codigoqr WHERE id_codigo = ${qr.id_codigo} FOR UPDATE`;
+
+      const [entradas, salidas] = await Promise.all([
+        tx.ingreso.count({ where: { codigoqrId: qr.id_codigo, tipo: "entrada", anulado: false } }),
+        tx.ingreso.count({ where: { codigoqrId: qr.id_codigo, tipo: "salida", anulado: false } }),
+      ]);
+      if (salidas >= entradas) {
+        return { ok: false, motivo: "sin_entrada", qr };
+      }
+
+      const ingreso = await tx.ingreso.create({
+        data: { codigoqrId: qr.id_codigo, eventoId, fecha, puntoControlId, usuario, tipo, manual, idLocal },
+      });
+
+      // Si el tipo exige salida para reingresar, la salida libera el uso que tomó la entrada
+      if (await exigeSalida(tx, qr)) {
+        await tx.codigoQR.updateMany({
+          where: { id_codigo: qr.id_codigo, usos_actual: { gt: 0 } },
+          data: { usos_actual: { decrement: 1 } },
+        });
+      }
+
+      const actualizado = await tx.codigoQR.findUniqueOrThrow({ where: { id_codigo: qr.id_codigo } });
+      return { ok: true, qr: actualizado, ingreso };
+    }
+
+    if (validarEnPuerta) {
+      const rechazo = await validarReingreso(tx, qr, fecha);
+      if (rechazo) {
+        return { ok: false, ...rechazo, qr };
+      }
+    }
+
+    const evento = await tx.evento.findUniqueOrThrow({ where: { id: eventoId }, select: { capacidad: true } });
+    if (validarEnPuerta && evento.capacidad !== null) {
+      await tx.$queryRaw`SELECT id FROM evento WHERE id = ${eventoId} FOR UPDATE`;
+      const ocupacion = await calcularOcupacion(eventoId, evento.capacidad, tx);
+      if (ocupacion.dentro >= evento.capacidad) {
+        return { ok: false, motivo: "aforo_completo", qr };
+      }
+    }
+
+    // El UPDATE condicional bloquea la fila y vuelve a comparar contra el valor vigente
+    const { count } = await tx.codigoQR.updateMany({
+      where: {
+        id_codigo: qr.id_codigo,
+        usos_actual: { lt: prisma.codigoQR.fields.max_usos },
+      },
+      data: { usos_actual: { increment: 1 } },
+    });
+
+    if (count === 0) {
+      return { ok: false, motivo: "agotado", qr };
+    }
+
+    const ingreso = await tx.ingreso.create({
+      data: {
+        codigoqrId: qr.id_codigo,
+        eventoId,
+        fecha,
+        puntoControlId,
+        usuario,
+        tipo,
+        manual,
+        idLocal,
+      },
+    });
+
+    const actualizado = await tx.codigoQR.findUniqueOrThrow({ where: { id_codigo: qr.id_codigo } });
+
+    return { ok: true, qr: actualizado, ingreso };
+  }, { isolationLevel: Prisma.TransactionIsolationLevel.ReadCommitted });
+}
+
+export type MotivoRechazoAnulacion = "no_encontrado" | "ya_anulado" | "ajeno";
+
+export const MENSAJES_RECHAZO_ANULACION: Record<MotivoRechazoAnulacion, string> = {
+  no_encontrado: "Ingreso no encontrado",
+  ya_anulado: "El ingreso ya fue anulado",
+  ajeno: "Solo puedes anular los escaneos que registraste tú",
+};
+
+export type ResultadoAnulacion =
+  | { ok: true; ingreso: Ingreso; qr: CodigoQR }
+  | { ok: false; motivo: MotivoRechazoAnulacion };
+
+export type DatosAnulacion = {
+  /** Motivo por el que se deshace el escaneo */
+  motivo: string;
+  /** Correo de quien anula */
+  usuario: string | null;
+  /** Si se indica, solo se pueden anular los ingresos registrados por este usuario */
+  soloDeUsuario?: string | null;
+};
+
+/**
+ * Anula un ingreso registrado por error. El registro se conserva marcado como anulado para auditoría
+ * y deja de contarse en reportes, ocupación y reglas de reingreso; si era una entrada, se devuelve el uso al QR,
+ * y si era una salida que había liberado el uso, se vuelve a ocupar.
+ * @param idIngreso - Ingreso a anular
+ * @param datos - Motivo y usuario que realiza la anulación
+ * @returns El ingreso anulado con el QR actualizado, o el motivo por el que no se pudo anular
+ */
+export async function anularIngreso(idIngreso: number, datos: DatosAnulacion): Promise<ResultadoAnulacion> {
+  const { motivo, usuario, soloDeUsuario } = datos;
+
+  return prisma.$transaction(async (tx) => {
+    const existente = await tx.ingreso.findUnique({ where: { id_ingreso: idIngreso } });
+
+    if (!existente) {
+      return { ok: false, motivo: "no_encontrado" };
+    }
+
+    if (soloDeUsuario !== undefined && existente.usuario !== soloDeUsuario) {
+      return { ok: false, motivo: "ajeno" };
+    }
+
+    // Mismo orden de bloqueo que registrarIngreso: primero el código
+    await tx.$queryRaw`SELECT id_codigo FROM codigoqr WHERE id_codigo = ${existente.codigoqrId} FOR UPDATE`;
+
+    const { count } = await tx.ingreso.updateMany({
+      where: { id_ingreso: idIngreso, anulado: false },
+      data: { anulado: true, motivo_anulacion: motivo, anuladoPor: usuario, anuladoAt: new Date() },
+    });
+
+    if (count === 0) {
+      return { ok: false, motivo: "ya_anulado" };
+    }
+
+    if (existente.tipo === "entrada") {
+      await tx.codigoQR.updateMany({
+        where: { id_codigo: existente.codigoqrId, usos_actual: { gt: 0 } },
+        data: { usos_actual: { decrement: 1 } },
+      });
+    } else {
+      // La salida anulada había devuelto el uso; la persona sigue dentro y lo vuelve a ocupar
+      const qr = await tx.codigoQR.findUniqueOrThrow({ where: { id_codigo: existente.codigoqrId } });
+      if (await exigeSalida(tx, qr)) {
+        await tx.codigoQR.updateMany({
+          where: { id_codigo: qr.id_codigo, usos_actual: { lt: prisma.codigoQR.fields.max_usos } },
+          data: { usos_actual: { increment: 1 } },
+        });
+      }
+    }
+
+    const [ingreso, qr] = await Promise.all([
+      tx.ingreso.findUniqueOrThrow({ where: { id_ingreso: idIngreso } }),
+      tx.codigoQR.findUniqueOrThrow({ where: { id_codigo: existente.codigoqrId } }),
+    ]);
+
+    return { ok: true, ingreso, qr };
+  });
+}
+
+/**
+ * Evalúa la regla de reingreso configurada para el tipo de QR.
+ * Bloquea la fila del código para que dos puertas no validen el mismo reingreso a la vez; como
+ * registrarIngreso corre en READ COMMITTED, los conteos posteriores al bloqueo ven los escaneos ya confirmados.
+ */
+async function validarReingreso(
+  tx: Prisma.TransactionClient,
+  qr: CodigoQR,
+  fecha: Date
+): Promise<{ motivo: MotivoRechazoIngreso; detalle?: string } | null> {
+  const regla = await tx.reglaReingreso.findUnique({ where: { tipo_qr: qr.tipo_qr } });
+  if (!regla || (regla.intervalo_minimo_seg <= 0 && !regla.requiere_salida)) {
+    return null;
+  }
+
+  await tx.$queryRaw`SELECT id_codigo FROM codigoqr WHERE id_codigo = ${qr.id_codigo} FOR UPDATE`;
+
+  if (regla.intervalo_minimo_seg > 0) {
+    const ultimaEntrada = await tx.ingreso.findFirst({
+      where: { codigoqrId: qr.id_codigo, tipo: "entrada", anulado: false },
+      orderBy: { fecha: "desc" },
+      select: { fecha: true },
+    });
+    if (ultimaEntrada) {
+      const transcurridoSeg = Math.floor((fecha.getTime() - ultimaEntrada.fecha.getTime()) / 1000);
+      const esperaSeg = regla.intervalo_minimo_seg - transcurridoSeg;
+      if (esperaSeg > 0) {
+        return {
+          motivo: "intervalo_minimo",
+          detalle: `El QR se usó hace muy poco: podrá volver a ingresar en ${formatearEspera(esperaSeg)}`,
+        };
+      }
+    }
+  }
+
+  if (regla.requiere_salida) {
+    const [entradas, salidas] = await Promise.all([
+      tx.ingreso.count({ where: { codigoqrId: qr.id_codigo, tipo: "entrada", anulado: false } }),
+      tx.ingreso.count({ where: { codigoqrId: qr.id_codigo, tipo: "salida", anulado: false } }),
+    ]);
+    // Un código familiar deja entrar a varias personas; solo se exige salida cuando todas están dentro.
+    // Se evalúa antes que el contador de usos, que con esta regla se libera en cada salida
+    if (entradas - salidas >= qr.max_usos) {
+      return { motivo: "requiere_salida" };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Indica si el tipo del código tiene la regla de salida obligatoria, con la que las salidas devuelven el uso.
+ */
+async function exigeSalida(tx: Prisma.TransactionClient, qr: CodigoQR) {
+  const regla = await tx.reglaReingreso.findUnique({
+    where: { tipo_qr: qr.tipo_qr },
+    select: { requiere_salida: true },
+  });
+  return regla?.requiere_salida ?? false;
+}
+
+function formatearEspera(segundos: number) {
+  if (segundos < 60) {
+    return `${segundos} s`;
+  }
+  const minutos = Math.floor(segundos / 60);
+  const resto = segundos % 60;
+  return resto > 0 ? `${minutos} min ${resto} s` : `${minutos} min`;
+}
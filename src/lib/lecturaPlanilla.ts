@@ -0,0 +1,149 @@
+import * as XLSX from "xlsx";
+import type { ImportRow } from "@/lib/mapeoImportacion";
+
+// Lectura de las planillas de importación (Excel, ODS y CSV); se usa en el servidor y en la página de importación
+
+export const EXTENSIONES_PLANILLA = [".xlsx", ".xls", ".ods", ".csv", ".txt"];
+
+const EXTENSIONES_TEXTO = [".csv", ".txt"];
+const DELIMITADORES = [",", ";", "\t", "|"];
+const LINEAS_MUESTRA = 10;
+const HOJA_CSV = "CSV";
+
+export type CodificacionTexto = "utf-8" | "utf-16le" | "windows-1252";
+
+export type PlanillaLeida = {
+  libro: XLSX.WorkBook;
+  hojas: string[];
+  /** Solo para CSV: cómo se interpretó el texto */
+  csv: { codificacion: CodificacionTexto; delimitador: string } | null;
+};
+
+export type FilaHoja = {
+  hoja: string;
+  /** Número de fila dentro de su hoja, contando el encabezado */
+  fila: number;
+  row: ImportRow;
+};
+
+export const extensionArchivo = (nombre: string) => {
+  const punto = nombre.lastIndexOf(".");
+  return punto >= 0 ? nombre.slice(punto).toLowerCase() : "";
+};
+
+export const esPlanillaAdmitida = (nombre: string) => EXTENSIONES_PLANILLA.includes(extensionArchivo(nombre));
+
+/**
+ * Detecta la codificación de un CSV. El sistema académico exporta en Latin-1 (Windows-1252), que no es
+ * UTF-8 válido cuando hay tildes o eñes; si el texto no decodifica como UTF-8 se asume Windows-1252.
+ */
+export function detectarCodificacion(bytes: Uint8Array): CodificacionTexto {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) {
+    return "utf-8";
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) {
+    return "utf-16le";
+  }
+  try {
+    new TextDecoder("utf-8", { fatal: true }).decode(bytes);
+    return "utf-8";
+  } catch {
+    return "windows-1252";
+  }
+}
+
+const contarFueraDeComillas = (linea: string, delimitador: string) => {
+  let dentro = false;
+  let total = 0;
+  for (const caracter of linea) {
+    if (caracter === '"') {
+      dentro = !dentro;
+    } else if (!dentro && caracter === delimitador) {
+      total++;
+    }
+  }
+  return total;
+};
+
+/**
+ * Elige el delimitador que aparece la misma cantidad de veces en las primeras líneas.
+ * Contar solo el total falla con exportaciones que usan ";" y coma decimal.
+ */
+export function detectarDelimitador(texto: string): string {
+  const lineas = texto
+    .split(/\r\n|\n|\r/)
+    .filter((linea) => linea.trim().length > 0)
+    .slice(0, LINEAS_MUESTRA);
+
+  if (lineas.length === 0) {
+    return ",";
+  }
+
+  let mejor = { delimitador: ",", columnas: 0, consistente: false };
+  for (const delimitador of DELIMITADORES) {
+    const conteos = lineas.map((linea) => contarFueraDeComillas(linea, delimitador));
+    const columnas = conteos[0] ?? 0;
+    if (columnas === 0) continue;
+    const consistente = conteos.every((conteo) => conteo === columnas);
+    if (
+      (consistente && !mejor.consistente) ||
+      (consistente === mejor.consistente && columnas > mejor.columnas)
+    ) {
+      mejor = { delimitador, columnas, consistente };
+    }
+  }
+  return mejor.delimitador;
+}
+
+/**
+ * Abre la planilla según su extensión. Los CSV se leen como texto para que las cédulas conserven
+ * los ceros a la izquierda.
+ * @param datos - Contenido del archivo
+ * @param nombreArchivo - Nombre original; define el formato
+ */
+export function leerPlanilla(datos: ArrayBuffer | Uint8Array, nombreArchivo: string): PlanillaLeida {
+  const bytes = datos instanceof Uint8Array ? datos : new Uint8Array(datos);
+
+  if (EXTENSIONES_TEXTO.includes(extensionArchivo(nombreArchivo))) {
+    const codificacion = detectarCodificacion(bytes);
+    const texto = new TextDecoder(codificacion).decode(bytes);
+    const delimitador = detectarDelimitador(texto);
+    const hoja = XLSX.read(texto, { type: "string", FS: delimitador, raw: true }).Sheets.Sheet1;
+    // Un CSV es una sola hoja; se nombra así para que los errores por fila no muestren "Sheet1"
+    const libro = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(libro, hoja ?? {}, HOJA_CSV);
+    return { libro, hojas: libro.SheetNames, csv: { codificacion, delimitador } };
+  }
+
+  const libro = XLSX.read(bytes, { type: "array" });
+  return { libro, hojas: libro.SheetNames, csv: null };
+}
+
+/**
+ * Encabezados de la primera fila de cada hoja, sin repetir, en el orden en que aparecen.
+ */
+export function encabezadosHojas(libro: XLSX.WorkBook, hojas: string[]): string[] {
+  const encabezados = new Set<string>();
+  for (const hoja of hojas) {
+    const [primeraFila] = XLSX.utils.sheet_to_json<unknown[]>(libro.Sheets[hoja] ?? {}, {
+      header: 1,
+      blankrows: false,
+    });
+    for (const celda of primeraFila ?? []) {
+      const encabezado = String(celda ?? "").trim();
+      if (encabezado) encabezados.add(encabezado);
+    }
+  }
+  return Array.from(encabezados);
+}
+
+/**
+ * Filas de datos de las hojas indicadas, cada una con su hoja y su número de fila de origen.
+ */
+export function filasHojas(libro: XLSX.WorkBook, hojas: string[]): FilaHoja[] {
+  return hojas.flatMap((hoja) =>
+    XLSX.utils
+      .sheet_to_json<ImportRow>(libro.Sheets[hoja] ?? {})
+      .map((row) => ({ hoja, fila: Number(row.__rowNum__ ?? 0) + 1, row }))
+  );
+}
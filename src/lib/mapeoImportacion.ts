@@ -0,0 +1,208 @@
+// Lectura de filas de la planilla según el mapeo de columnas; se usa en el servidor y en la página de importación
+
+export type ImportRow = Record<string, unknown>;
+
+export type CampoImportacion =
+  | "cedula"
+  | "nombre"
+  | "apellido"
+  | "apellidosNombres"
+  | "correo"
+  | "tipo"
+  | "invitados";
+
+/** Encabezado de la hoja asignado a cada campo; los campos sin encabezado no se leen */
+export type MapeoColumnas = Partial<Record<CampoImportacion, string>>;
+
+export const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/i;
+export const EMAIL_FIELD_KEYS = [
+  "Correo",
+  "correo",
+  "Correo Institucional",
+  "correo institucional",
+  "Correo institucional",
+  "Email",
+  "email",
+  "Correo electronico",
+  "Correo electrónico",
+  "correoElectronico",
+];
+
+export const CAMPOS_IMPORTACION: Array<{ campo: CampoImportacion; etiqueta: string; ayuda: string }> = [
+  { campo: "cedula", etiqueta: "Cédula", ayuda: "Cédula, RUC o pasaporte" },
+  { campo: "nombre", etiqueta: "Nombres", ayuda: "Solo los nombres" },
+  { campo: "apellido", etiqueta: "Apellidos", ayuda: "Solo los apellidos" },
+  {
+    campo: "apellidosNombres",
+    etiqueta: "Apellidos y nombres",
+    ayuda: "Una sola columna con ambos; se separa si no hay columnas de nombres y apellidos",
+  },
+  { campo: "correo", etiqueta: "Correo", ayuda: "Correo donde se envía el QR" },
+  { campo: "tipo", etiqueta: "Tipo", ayuda: "est, fam o vis; si no se indica se asume estudiante" },
+  {
+    campo: "invitados",
+    etiqueta: "Invitados",
+    ayuda: "Invitados de cada estudiante; si la celda está vacía se usan las reglas o el valor general",
+  },
+];
+
+// Encabezados reconocidos cuando no se envía un mapeo; son los que usaba la planilla oficial
+const COLUMNAS_POR_DEFECTO: Record<CampoImportacion, string[]> = {
+  cedula: ["Cédula", "Cedula", "cedula"],
+  nombre: ["Nombre", "nombre"],
+  apellido: ["Apellido", "apellido"],
+  apellidosNombres: [],
+  correo: EMAIL_FIELD_KEYS,
+  tipo: ["Tipo", "tipo"],
+  invitados: ["Invitados", "invitados"],
+};
+
+// Variantes frecuentes en las exportaciones de secretaría, comparadas sin tildes ni mayúsculas
+const SINONIMOS: Record<CampoImportacion, string[]> = {
+  cedula: ["cedula", "identificacion", "cedula de identidad", "documento", "numero de identificacion", "ruc"],
+  nombre: ["nombre", "nombres"],
+  apellido: ["apellido", "apellidos"],
+  apellidosNombres: ["apellidos y nombres", "nombres y apellidos", "nombre completo", "estudiante"],
+  correo: [
+    "correo",
+    "correo institucional",
+    "email",
+    "e-mail",
+    "correo electronico",
+    "correoelectronico",
+    "mail",
+  ],
+  tipo: ["tipo", "tipo de persona"],
+  invitados: ["invitados", "numero de invitados", "acompanantes", "cupos", "entradas adicionales"],
+};
+
+/** Compara encabezados y valores de celda sin tildes, mayúsculas ni espacios repetidos */
+export const normalizarEncabezado = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+export const extractFirstValue = (row: ImportRow, keys: string[]): unknown => {
+  for (const key of keys) {
+    if (Object.prototype.hasOwnProperty.call(row, key)) {
+      const value = row[key];
+      if (value !== undefined && value !== null && String(value).trim() !== "") {
+        return value;
+      }
+    }
+  }
+  return null;
+};
+
+export const normalizeEmail = (value: unknown): string | null => {
+  if (value === null || value === undefined) return null;
+  const email = String(value).trim();
+  return email.length ? email : null;
+};
+
+export const resolveTipoPersona = (tipo: unknown): "estudiante" | "familiar" | "visitante" => {
+  const normalized = (typeof tipo === "string" ? tipo : String(tipo ?? "")).toLowerCase();
+  if (normalized === "fam" || normalized === "familiar") return "familiar";
+  if (normalized === "vis" || normalized === "visitante") return "visitante";
+  return "estudiante";
+};
+
+/**
+ * Valor de un campo en la fila. Sin mapeo se buscan los encabezados por defecto.
+ */
+export function valorCampo(row: ImportRow, campo: CampoImportacion, mapeo?: MapeoColumnas | null): unknown {
+  if (!mapeo) {
+    return extractFirstValue(row, COLUMNAS_POR_DEFECTO[campo]);
+  }
+  const encabezado = mapeo[campo];
+  return encabezado ? extractFirstValue(row, [encabezado]) : null;
+}
+
+/**
+ * Separa "APELLIDO1 APELLIDO2 NOMBRE1 NOMBRE2", el formato de las listas del registro académico.
+ * Con menos de cuatro palabras solo la primera se toma como apellido.
+ */
+export function separarApellidosNombres(valor: string) {
+  const palabras = valor.trim().split(/\s+/).filter(Boolean);
+  if (palabras.length <= 1) {
+    return { apellido: "", nombre: palabras[0] ?? "" };
+  }
+  const cantidadApellidos = palabras.length >= 4 ? 2 : 1;
+  return {
+    apellido: palabras.slice(0, cantidadApellidos).join(" "),
+    nombre: palabras.slice(cantidadApellidos).join(" "),
+  };
+}
+
+export type DatosFila = {
+  nombre: string;
+  apellido: string;
+  cedulaRaw: unknown;
+  invitadosRaw: unknown;
+  correo: string | null;
+  tipo_persona: "estudiante" | "familiar" | "visitante";
+};
+
+/**
+ * Lee los campos de una fila con el mapeo indicado.
+ */
+export function leerCampos(row: ImportRow, mapeo?: MapeoColumnas | null): DatosFila {
+  const completo = String(valorCampo(row, "apellidosNombres", mapeo) ?? "").trim();
+  const separado = completo ? separarApellidosNombres(completo) : null;
+  const nombre = String(valorCampo(row, "nombre", mapeo) ?? "").trim() || separado?.nombre || "";
+  const apellido = String(valorCampo(row, "apellido", mapeo) ?? "").trim() || separado?.apellido || "";
+
+  return {
+    nombre,
+    apellido,
+    cedulaRaw: valorCampo(row, "cedula", mapeo),
+    invitadosRaw: valorCampo(row, "invitados", mapeo),
+    correo: normalizeEmail(valorCampo(row, "correo", mapeo)),
+    tipo_persona: resolveTipoPersona(valorCampo(row, "tipo", mapeo) ?? "est"),
+  };
+}
+
+/**
+ * Propone un mapeo a partir de los encabezados de la hoja reconociendo las variantes habituales.
+ */
+export function sugerirMapeo(encabezados: string[]): MapeoColumnas {
+  const mapeo: MapeoColumnas = {};
+  for (const { campo } of CAMPOS_IMPORTACION) {
+    const encontrado = encabezados.find((encabezado) =>
+      SINONIMOS[campo].includes(normalizarEncabezado(encabezado))
+    );
+    if (encontrado) {
+      mapeo[campo] = encontrado;
+    }
+  }
+  return mapeo;
+}
+
+/**
+ * Comprueba que un valor recibido (JSON del formulario o de la base) sea un mapeo utilizable.
+ */
+export function esMapeoColumnas(value: unknown): value is MapeoColumnas {
+  if (!value || typeof value !== "object" || Array.isArray(value)) {
+    return false;
+  }
+  const campos = new Set<string>(CAMPOS_IMPORTACION.map((item) => item.campo));
+  return Object.entries(value).every(
+    ([campo, encabezado]) => campos.has(campo) && (typeof encabezado === "string" || encabezado === undefined)
+  );
+}
+
+/**
+ * Indica qué falta en el mapeo para poder importar; `null` si está completo.
+ */
+export function validarMapeo(mapeo: MapeoColumnas): string | null {
+  if (!mapeo.nombre && !mapeo.apellidosNombres) {
+    return "Asigna la columna de nombres o la de apellidos y nombres";
+  }
+  if (!mapeo.cedula) {
+    return "Asigna la columna de cédula";
+  }
+  return null;
+}
@@ -0,0 +1,58 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+const SIN_ZONA = "Sin zona";
+
+export type Ocupacion = {
+  /** Personas dentro del recinto: entradas menos salidas */
+  dentro: number;
+  capacidad: number | null;
+  disponible: number | null;
+  porZona: Array<{ zona: string; dentro: number }>;
+};
+
+/**
+ * Calcula cuántas personas hay dentro del evento y en cada zona.
+ * La zona se toma de la puerta por la que se registró cada movimiento.
+ * @param eventoId - Evento a consultar
+ * @param capacidad - Aforo máximo configurado en el evento
+ * @param db - Cliente a usar; dentro de una transacción se pasa el cliente transaccional
+ */
+export async function calcularOcupacion(
+  eventoId: number,
+  capacidad: number | null,
+  db: Prisma.TransactionClient = prisma
+): Promise<Ocupacion> {
+  const [movimientos, puntosControl] = await Promise.all([
+    db.ingreso.groupBy({
+      by: ["tipo", "puntoControlId"],
+      where: { eventoId, anulado: false },
+      _count: { _all: true },
+    }),
+    db.puntoControl.findMany({ select: { id: true, zona: true } }),
+  ]);
+
+  const zonaPorPunto = new Map(puntosControl.map((punto) => [punto.id, punto.zona?.trim() || SIN_ZONA]));
+  const zonas = new Map<string, number>();
+  let dentro = 0;
+
+  for (const movimiento of movimientos) {
+    const signo = movimiento.tipo === "entrada" ? 1 : -1;
+    const cantidad = signo * movimiento._count._all;
+    const zona = (movimiento.puntoControlId && zonaPorPunto.get(movimiento.puntoControlId)) || SIN_ZONA;
+
+    dentro += cantidad;
+    zonas.set(zona, (zonas.get(zona) ?? 0) + cantidad);
+  }
+
+  dentro = Math.max(0, dentro);
+
+  return {
+    dentro,
+    capacidad,
+    disponible: capacidad === null ? null : Math.max(0, capacidad - dentro),
+    porZona: Array.from(zonas.entries())
+      .map(([zona, total]) => ({ zona, dentro: Math.max(0, total) }))
+      .sort((a, b) => a.zona.localeCompare(b.zona)),
+  };
+}
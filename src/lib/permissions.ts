@@ -0,0 +1,83 @@
+import type { AppUserRole } from "@/types/auth";
+
+type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+type RoutePermission = {
+  /** Prefijo de la ruta; también cubre sus subrutas */
+  path: string;
+  roles: AppUserRole[];
+  /** Si se indica, la regla solo aplica a estos métodos */
+  methods?: HttpMethod[];
+};
+
+const TODOS: AppUserRole[] = ["admin", "financiero", "guardiania"];
+
+/**
+ * Rutas públicas que no requieren sesión.
+ */
+export const PUBLIC_PATHS = ["/login", "/api/auth"];
+
+/**
+ * Permisos por ruta. Se evalúan en orden y gana la primera regla que coincida con la ruta y el método,
+ * por lo que las reglas más específicas deben ir primero. Las rutas sin regla solo requieren sesión.
+ */
+export const ROUTE_PERMISSIONS: RoutePermission[] = [
+  // Escaneo
+  { path: "/escaner", roles: ["admin", "guardiania"] },
+  // La guardianía anula desde el escáner y financiero desde la gestión de QR
+  { path: "/api/ingreso/anular", roles: TODOS },
+  { path: "/api/ingreso", roles: ["admin", "guardiania"] },
+
+  // Ventas y reportes
+  { path: "/generar-visitantes", roles: ["admin", "financiero"] },
+  { path: "/api/generar-visitantes", roles: ["admin", "financiero"] },
+  { path: "/dashboard", roles: ["admin", "financiero"] },
+  { path: "/api/dashboard", roles: ["admin", "financiero"] },
+  { path: "/gestion-qr", roles: ["admin", "financiero"] },
+  { path: "/api/gestion-qr", roles: ["admin", "financiero"] },
+  { path: "/api/estudiante", roles: ["admin", "financiero"] },
+
+  // Administración
+  { path: "/api/eventos", roles: TODOS, methods: ["GET"] },
+  { path: "/eventos", roles: ["admin"] },
+  { path: "/api/eventos", roles: ["admin"] },
+  { path: "/api/puntos-control", roles: TODOS, methods: ["GET"] },
+  { path: "/api/puntos-control", roles: ["admin"] },
+  { path: "/api/reglas-reingreso", roles: ["admin"] },
+  { path: "/importar", roles: ["admin"] },
+  { path: "/api/importar", roles: ["admin"] },
+  { path: "/generar", roles: ["admin"] },
+  { path: "/api/generar-qr", roles: ["admin"] },
+  { path: "/correos", roles: ["admin"] },
+  { path: "/api/correos", roles: ["admin"] },
+  { path: "/limpieza", roles: ["admin"] },
+  { path: "/api/limpieza", roles: ["admin"] },
+];
+
+function matchesPath(pathname: string, path: string) {
+  return pathname === path || pathname.startsWith(`${path}/`);
+}
+
+export function isPublicPath(pathname: string) {
+  return PUBLIC_PATHS.some((path) => matchesPath(pathname, path));
+}
+
+/**
+ * Indica si el rol puede acceder a la ruta con el método indicado.
+ * @param pathname - Ruta solicitada, sin query string
+ * @param method - Método HTTP de la petición
+ * @param role - Rol de la sesión; sin rol solo se permiten rutas sin regla
+ */
+export function canAccess(pathname: string, method: string, role?: AppUserRole) {
+  const rule = ROUTE_PERMISSIONS.find(
+    (permission) =>
+      matchesPath(pathname, permission.path) &&
+      (!permission.methods || permission.methods.includes(method.toUpperCase() as HttpMethod))
+  );
+
+  if (!rule) {
+    return true;
+  }
+
+  return role ? rule.roles.includes(role) : false;
+}
@@ -0,0 +1,259 @@
+// Plantillas de los correos del sistema; se usa en el servidor al encolar y en el editor para la vista previa
+
+export type ClavePlantilla = "qr_estudiante" | "boleto_adicional" | "reenvio_qr" | "cierre_caja";
+
+export type ContenidoPlantilla = {
+  asunto: string;
+  texto: string;
+  html: string;
+};
+
+export type VariablePlantilla = {
+  nombre: string;
+  descripcion: string;
+  /** Valor usado en la vista previa del editor */
+  ejemplo: string;
+};
+
+export type VariablesPlantilla = Record<string, string | number | null | undefined>;
+
+const VARIABLE_REGEX = /\{\{\s*([A-Za-z][A-Za-z0-9_]*)\s*\}\}/g;
+
+const VARIABLES_INVITACION: VariablePlantilla[] = [
+  { nombre: "nombre", descripcion: "Nombres de la persona", ejemplo: "María José" },
+  { nombre: "apellido", descripcion: "Apellidos de la persona", ejemplo: "Pérez Andrade" },
+  { nombre: "nombreCompleto", descripcion: "Nombres y apellidos", ejemplo: "María José Pérez Andrade" },
+  { nombre: "totalPermitidos", descripcion: "Ingresos que permite el código", ejemplo: "3" },
+  { nombre: "personas", descripcion: "Ingresos en texto, con plural", ejemplo: "3 personas" },
+  {
+    nombre: "invitadosTexto",
+    descripcion: "Descripción de los invitados adicionales",
+    ejemplo: "con 2 invitados adicionales",
+  },
+  { nombre: "codigo", descripcion: "Código del QR", ejemplo: "EST-125-482913" },
+];
+
+// Encabezado con el logo y pie con el aviso de protección de datos, comunes a los correos a invitados
+const envolverHtml = (cuerpo: string) => `
+<table width="100%" cellpadding="0" cellspacing="0" style="max-width:640px;margin:0 auto;background:#f4f6fb;font-family:'Segoe UI',Arial,sans-serif;color:#0b1d33;border-radius:18px;overflow:hidden;">
+  <tr>
+    <td style="padding:0;">
+      <div style="background-color:#003976; padding:20px; text-align:center;">
+        <img src="https://yosoyistealmacenamiento.blob.core.windows.net/directorio-telefonico/iste.png" alt="ISTE" style="max-width:240px;"/>
+      </div>
+    </td>
+  </tr>
+  <tr>
+    <td style="padding:28px 32px 24px;">${cuerpo}
+    </td>
+  </tr>
+  <tr>
+    <td style="padding:0 32px 28px;">
+      <div style="margin-top:12px;border-radius:16px;background:#ffffff;border:1px solid #d6e3f5;padding:20px;font-size:14px;color:#0b1d33;">
+        <p style="margin:0;font-weight:600;">Consejo rápido</p>
+        <p style="margin:8px 0 0;line-height:1.6;">Presenta el código en la entrada y asegúrate de que la pantalla tenga buen brillo para agilizar el acceso.</p>
+      </div>
+    </td>
+  </tr>
+  <tr>
+    <td style="padding:0 32px 28px;">
+      <table width="100%" cellpadding="0" cellspacing="0" style="background:#ffffff;border-radius:16px;border:1px solid #d6e3f5;">
+        <tr>
+          <td style="padding:20px;text-align:justify;font-size:13px;color:#0b1d33;line-height:1.6;border-bottom:1px solid #2167b1;">
+            “En cumplimiento con lo establecido en la Ley Orgánica de Protección de Datos Personales y el Reglamento,
+            el ISTE garantiza la confidencialidad y privacidad de los datos personales que trata. Este correo es
+            confidencial. Si no eres el destinatario, está prohibido usarlo, copiarlo o difundirlo; devuélvelo y elimínalo.”
+          </td>
+        </tr>
+        <tr>
+          <td style="padding:12px 20px 16px;text-align:center;font-size:12px;color:#7f8c8d;">
+            © 2025 Unidad de TEI - ISTE. Todos los derechos reservados.
+          </td>
+        </tr>
+      </table>
+    </td>
+  </tr>
+</table>
+`;
+
+const AVISOS_INVITACION = `
+      <p style="margin:0 0 12px;font-size:18px;font-weight:600;"><strong>Importante</strong></p>
+      <ul style="margin:0 0 12px 18px;padding:0;font-size:15px;line-height:1.6;">
+        <li style="margin-bottom:8px;">Cuida este código y compártelo únicamente con tus invitados.</li>
+        <li>A partir de los <strong>10 años</strong> cada persona debe contar con su propio boleto.</li>
+      </ul>
+      <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
+        ¿Necesitas más entradas? Podrás comprarlas el día del evento en el lugar donde se llevará a cabo la ceremonia.
+      </p>`;
+
+export const PLANTILLAS_CORREO: Record<
+  ClavePlantilla,
+  { nombre: string; descripcion: string; variables: VariablePlantilla[]; predeterminada: ContenidoPlantilla }
+> = {
+  qr_estudiante: {
+    nombre: "QR de estudiante",
+    descripcion: "Invitación con el QR que se envía al importar estudiantes o al generar un QR desde administración",
+    variables: VARIABLES_INVITACION,
+    predeterminada: {
+      asunto: "🎟️ Tu código QR para el evento de Graduación",
+      texto:
+        "Hola {{nombre}}, adjuntamos tu código QR único. Cuida este código y compártelo solo con tus invitados. " +
+        "Desde los 10 años se requiere boleto individual. Las entradas adicionales se venderán el día del evento en el " +
+        "lugar donde se desarrollará la ceremonia. Este código permite el ingreso para {{personas}} ({{invitadosTexto}}). " +
+        "Presenta el QR en el acceso.",
+      html: envolverHtml(`
+      <p style="margin:0 0 12px;font-size:18px;font-weight:600;">Hola <strong>{{nombreCompleto}}</strong>,</p>
+      <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
+        Adjuntamos tu <strong>código QR único</strong> para la ceremonia de graduación. Este QR permite el ingreso para <strong>{{personas}}</strong> ({{invitadosTexto}}).
+      </p>
+      <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
+        ¡Felicitaciones por este gran logro! Te esperamos para celebrarlo.
+      </p>${AVISOS_INVITACION}`),
+    },
+  },
+  reenvio_qr: {
+    nombre: "Reenvío de QR",
+    descripcion: "Correo que se envía al reenviar un código desde Gestión de QR",
+    variables: VARIABLES_INVITACION,
+    predeterminada: {
+      asunto: "🎓 Tu código QR para la graduación",
+      texto:
+        "Hola {{nombre}}, te reenviamos tu código QR único. Cuida este código y compártelo solo con tus invitados. " +
+        "Desde los 10 años se requiere boleto individual. Las entradas adicionales se venderán el día del evento en el " +
+        "lugar donde se desarrollará la ceremonia. Este código permite el ingreso para {{personas}} ({{invitadosTexto}}). " +
+        "Presenta el QR en el acceso.",
+      html: envolverHtml(`
+      <p style="margin:0 0 12px;font-size:18px;font-weight:600;">Hola <strong>{{nombreCompleto}}</strong>,</p>
+      <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
+        Te reenviamos tu <strong>código QR único</strong> para la ceremonia de graduación. Este QR permite el ingreso para <strong>{{personas}}</strong> ({{invitadosTexto}}).
+      </p>${AVISOS_INVITACION}`),
+    },
+  },
+  boleto_adicional: {
+    nombre: "Boleto adicional",
+    descripcion: "QR de las entradas vendidas en caja cuando se envían por correo",
+    variables: [
+      { nombre: "cantidad", descripcion: "Entradas vendidas", ejemplo: "2" },
+      { nombre: "personas", descripcion: "Entradas en texto, con plural", ejemplo: "2 personas" },
+      { nombre: "precioUnitario", descripcion: "Precio de cada entrada", ejemplo: "5.00" },
+      { nombre: "total", descripcion: "Monto cobrado", ejemplo: "10.00" },
+      { nombre: "codigo", descripcion: "Código del QR", ejemplo: "VIS-ADD-4-1760000000000" },
+    ],
+    predeterminada: {
+      asunto: "🎟️ Tu código QR adicional",
+      texto:
+        "Adjuntamos el código QR válido para {{personas}}. Recuerda: cuida tu código y desde los 10 años se cobra " +
+        "entrada. Las entradas adicionales estarán a la venta el día del evento en el mismo lugar. " +
+        "Total recaudado: ${{total}}.",
+      html: envolverHtml(`
+      <p style="margin:0 0 12px;font-size:18px;font-weight:600;">Hola,</p>
+      <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
+        Adjuntamos el código QR para el ingreso de <strong>{{personas}}</strong>.
+      </p>
+      <p style="margin:0 0 12px;font-size:15px;line-height:1.6;">
+        ¡Te esperamos para celebrar la ceremonia de graduación!
+      </p>${AVISOS_INVITACION}
+      <p style="margin:0;font-size:15px;line-height:1.6;">
+        Precio unitario: <strong>\${{precioUnitario}}</strong><br/>
+        Monto total: <strong>\${{total}}</strong>
+      </p>`),
+    },
+  },
+  cierre_caja: {
+    nombre: "Reporte de cierre de caja",
+    descripcion: "Aviso interno con el PDF del cierre de caja",
+    variables: [
+      { nombre: "totalBoletos", descripcion: "Boletos emitidos en el turno", ejemplo: "48" },
+      { nombre: "totalRecaudado", descripcion: "Monto recaudado", ejemplo: "240.00" },
+      { nombre: "cerradoPor", descripcion: "Usuario que cerró la caja", ejemplo: "caja@iste.edu.ec" },
+    ],
+    predeterminada: {
+      asunto: "Reporte de cierre de caja - Eventos ISTE",
+      texto: "Cierre de caja completado.\nBoletos: {{totalBoletos}}\nTotal recaudado: ${{totalRecaudado}}.",
+      html: `
+<p>Hola equipo,</p>
+<p>Adjuntamos el reporte de cierre de caja.</p>
+<p><strong>Boletos emitidos:</strong> {{totalBoletos}}<br/>
+   <strong>Total recaudado:</strong> \${{totalRecaudado}}</p>
+<p>Saludos.</p>
+`,
+    },
+  },
+};
+
+export const CLAVES_PLANTILLA = Object.keys(PLANTILLAS_CORREO) as ClavePlantilla[];
+
+export const esClavePlantilla = (value: unknown): value is ClavePlantilla =>
+  typeof value === "string" && CLAVES_PLANTILLA.includes(value as ClavePlantilla);
+
+const escaparHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const reemplazar = (plantilla: string, variables: VariablesPlantilla, escapar: boolean) =>
+  plantilla.replace(VARIABLE_REGEX, (_, nombre: string) => {
+    const valor = String(variables[nombre] ?? "");
+    return escapar ? escaparHtml(valor) : valor;
+  });
+
+/**
+ * Reemplaza las variables `{{nombre}}` de la plantilla. En el HTML los valores se escapan para que un
+ * nombre con "<" o "&" no rompa el correo.
+ */
+export function renderizarPlantilla(plantilla: ContenidoPlantilla, variables: VariablesPlantilla): ContenidoPlantilla {
+  return {
+    asunto: reemplazar(plantilla.asunto, variables, false),
+    texto: reemplazar(plantilla.texto, variables, false),
+    html: reemplazar(plantilla.html, variables, true),
+  };
+}
+
+/**
+ * Variables usadas en la plantilla que no existen para ese tipo de correo; se rechazan al guardar
+ * porque saldrían vacías.
+ */
+export function variablesDesconocidas(clave: ClavePlantilla, plantilla: ContenidoPlantilla): string[] {
+  const validas = new Set(PLANTILLAS_CORREO[clave].variables.map((variable) => variable.nombre));
+  const usadas = [plantilla.asunto, plantilla.texto, plantilla.html].flatMap((parte) =>
+    Array.from(parte.matchAll(VARIABLE_REGEX), (coincidencia) => coincidencia[1])
+  );
+  return Array.from(new Set(usadas.filter((nombre) => !validas.has(nombre))));
+}
+
+/**
+ * Valores de ejemplo de la plantilla, para la vista previa.
+ */
+export const variablesEjemplo = (clave: ClavePlantilla): VariablesPlantilla =>
+  Object.fromEntries(PLANTILLAS_CORREO[clave].variables.map((variable) => [variable.nombre, variable.ejemplo]));
+
+export const personasTexto = (cantidad: number) => `${cantidad} persona${cantidad === 1 ? "" : "s"}`;
+
+export function invitadosTexto(totalPermitidos: number) {
+  const invitadosAdicionales = Math.max(totalPermitidos - 1, 0);
+  if (invitadosAdicionales === 0) return "sin invitados adicionales";
+  if (invitadosAdicionales === 1) return "con 1 invitado adicional";
+  return `con ${invitadosAdicionales} invitados adicionales`;
+}
+
+/**
+ * Variables de los correos de invitación (QR de estudiante y reenvío).
+ */
+export function variablesInvitacion(
+  persona: { nombre: string; apellido: string | null },
+  totalPermitidos: number,
+  codigo: string
+): VariablesPlantilla {
+  return {
+    nombre: persona.nombre,
+    apellido: persona.apellido ?? "",
+    nombreCompleto: `${persona.nombre} ${persona.apellido ?? ""}`.trim(),
+    totalPermitidos,
+    personas: personasTexto(totalPermitidos),
+    invitadosTexto: invitadosTexto(totalPermitidos),
+    codigo,
+  };
+}
@@ -0,0 +1,31 @@
+import type { PuntoControl } from "@prisma/client";
+import prisma from "@/lib/prisma";
+
+/**
+ * Busca la puerta enviada por el escáner.
+ * @param puntoControlIdParam - Identificador recibido en el body; puede omitirse
+ * @returns `null` si no se envió ninguna puerta, `undefined` si no existe o está desactivada
+ */
+export async function resolverPuntoControl(puntoControlIdParam: unknown): Promise<PuntoControl | null | undefined> {
+  if (puntoControlIdParam === null || puntoControlIdParam === undefined || puntoControlIdParam === "") {
+    return null;
+  }
+
+  const puntoControlId = Number(puntoControlIdParam);
+  if (!Number.isInteger(puntoControlId) || puntoControlId <= 0) {
+    return undefined;
+  }
+
+  const puntoControl = await prisma.puntoControl.findUnique({ where: { id: puntoControlId } });
+  return puntoControl?.activo ? puntoControl : undefined;
+}
+
+export function mapPuntoControl(puntoControl: PuntoControl) {
+  return {
+    id: puntoControl.id,
+    nombre: puntoControl.nombre,
+    descripcion: puntoControl.descripcion,
+    zona: puntoControl.zona,
+    activo: puntoControl.activo,
+  };
+}
@@ -0,0 +1,49 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Separador entre el código y la firma; los códigos solo usan letras, números y guiones
+const SEPARADOR = ".";
+// 16 bytes de HMAC-SHA256 (22 caracteres en base64url) mantienen el QR pequeño y legible
+const LONGITUD_FIRMA = 16;
+
+function obtenerSecreto() {
+  const secreto = process.env.QR_SIGNING_SECRET;
+  if (!secreto) {
+    throw new Error("Configuración faltante: define QR_SIGNING_SECRET en el archivo .env");
+  }
+  return secreto;
+}
+
+function calcularFirma(codigo: string) {
+  return createHmac("sha256", obtenerSecreto()).update(codigo).digest().subarray(0, LONGITUD_FIRMA);
+}
+
+/**
+ * Arma el contenido firmado que se imprime en el QR.
+ * @param codigo - Código registrado en CodigoQR
+ * @returns Texto `<codigo>.<firma>` con la firma en base64url
+ */
+export function firmarCodigo(codigo: string) {
+  return `${codigo}${SEPARADOR}${calcularFirma(codigo).toString("base64url")}`;
+}
+
+/**
+ * Comprueba la firma del contenido leído por el escáner sin consultar la base de datos.
+ * @param payload - Texto leído del QR
+ * @returns El código original si la firma es válida, o null si el QR fue alterado o no está firmado
+ */
+export function verificarCodigo(payload: string): string | null {
+  const posicion = payload.lastIndexOf(SEPARADOR);
+  if (posicion <= 0) {
+    return null;
+  }
+
+  const codigo = payload.slice(0, posicion);
+  const recibida = Buffer.from(payload.slice(posicion + 1), "base64url");
+  const esperada = calcularFirma(codigo);
+
+  if (recibida.length !== esperada.length || !timingSafeEqual(recibida, esperada)) {
+    return null;
+  }
+
+  return codigo;
+}
@@ -0,0 +1,327 @@
+import type { EstadoCorreo, ResultadoReenvio } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { cargarPlantilla, encolarCorreo, iniciarProcesadorCorreos } from "@/lib/bandejaCorreos";
+import { EMAIL_REGEX } from "@/lib/mapeoImportacion";
+import { renderizarPlantilla, variablesInvitacion } from "@/lib/plantillasCorreo";
+import { ESTADOS_ACTIVOS, type CorreoFallidoImportacion } from "@/lib/trabajosImportacion";
+
+export type MotivoRechazoReenvio = "no_encontrada" | "revertida" | "en_proceso" | "sin_fallos";
+
+export const MENSAJES_RECHAZO_REENVIO: Record<MotivoRechazoReenvio, string> = {
+  no_encontrada: "Importación no encontrada",
+  revertida: "La importación fue revertida; sus códigos ya no existen",
+  en_proceso: "La importación sigue en curso; espera a que termine para reenviar los correos",
+  sin_fallos: "Ninguna de las filas indicadas tiene un correo pendiente de reenvío",
+};
+
+export const DETALLES_RESULTADO_REENVIO: Record<ResultadoReenvio, string> = {
+  encolado: "En cola de envío",
+  ya_en_cola: "Ya había un reenvío en cola para esta fila",
+  sin_codigo: "La fila no tiene código QR; corrige la planilla y vuelve a importarla",
+  correo_invalido: "El correo no tiene un formato válido",
+};
+
+export type UltimoReenvio = {
+  reenvioId: number;
+  destinatario: string;
+  resultado: ResultadoReenvio;
+  detalle: string | null;
+  estadoCorreo: EstadoCorreo | null;
+  error: string | null;
+  fecha: Date;
+};
+
+export type FalloCorreoImportacion = CorreoFallidoImportacion & {
+  /** Identifica la fila dentro de la importación: `hoja:fila` */
+  clave: string;
+  codigo: string | null;
+  ultimoReenvio: UltimoReenvio | null;
+};
+
+export type ResultadoReenvioDestinatario = {
+  clave: string;
+  hoja: string;
+  fila: number;
+  destinatario: string;
+  resultado: ResultadoReenvio;
+  detalle: string;
+  correoId: number | null;
+};
+
+export const claveFalloCorreo = (item: { hoja: string; fila: number }) => `${item.hoja}:${item.fila}`;
+
+const MAX_REENVIOS_HISTORIAL = 20;
+
+/**
+ * Estudiantes de la importación que no recibieron su invitación, con el código que se les generó y
+ * el resultado de su último reenvío. Incluye las filas sin correo y los envíos rechazados por el servidor.
+ */
+async function fallosCorreo(importacionId: number, correosFallidos: CorreoFallidoImportacion[]) {
+  const [rechazados, items] = await Promise.all([
+    prisma.correoSaliente.findMany({
+      where: { importacionId, estado: { in: ["fallido", "cancelado"] }, reenvioItem: { is: null } },
+      orderBy: { id: "asc" },
+      select: { destinatario: true, ultimoError: true, datos: true, codigo: { select: { codigo: true } } },
+    }),
+    prisma.reenvioImportacionItem.findMany({
+      where: { reenvio: { importacionId } },
+      orderBy: { id: "desc" },
+      include: { correo: { select: { estado: true, ultimoError: true } }, reenvio: { select: { createdAt: true } } },
+    }),
+  ]);
+
+  const fallos = new Map<string, FalloCorreoImportacion>();
+  const agregar = (item: CorreoFallidoImportacion) => {
+    const clave = claveFalloCorreo(item);
+    if (!fallos.has(clave)) {
+      fallos.set(clave, { ...item, clave, codigo: item.codigo ?? null, ultimoReenvio: null });
+    }
+  };
+
+  correosFallidos.forEach(agregar);
+  for (const correo of rechazados) {
+    const datos = (correo.datos ?? {}) as Partial<CorreoFallidoImportacion>;
+    agregar({
+      hoja: datos.hoja ?? "",
+      fila: datos.fila ?? 0,
+      email: correo.destinatario,
+      reason: correo.ultimoError ?? "No se pudo enviar el correo",
+      cedula: datos.cedula ?? null,
+      nombre: datos.nombre ?? null,
+      apellido: datos.apellido ?? null,
+      codigo: correo.codigo?.codigo ?? null,
+    });
+  }
+
+  // Las filas registradas antes de guardar el código en el fallo se buscan por cédula
+  const sinCodigo = [...fallos.values()].filter((fallo) => !fallo.codigo && fallo.cedula);
+  if (sinCodigo.length > 0) {
+    const codigos = await prisma.codigoQR.findMany({
+      where: {
+        importacionId,
+        tipo_qr: "est",
+        persona: { cedula: { in: sinCodigo.map((fallo) => fallo.cedula as string) } },
+      },
+      select: { codigo: true, persona: { select: { cedula: true } } },
+    });
+    for (const fallo of sinCodigo) {
+      fallo.codigo = codigos.find((codigo) => codigo.persona?.cedula === fallo.cedula)?.codigo ?? null;
+    }
+  }
+
+  for (const item of items) {
+    const fallo = fallos.get(claveFalloCorreo(item));
+    if (fallo && !fallo.ultimoReenvio) {
+      fallo.ultimoReenvio = {
+        reenvioId: item.reenvioId,
+        destinatario: item.destinatario,
+        resultado: item.resultado,
+        detalle: item.detalle,
+        estadoCorreo: item.correo?.estado ?? null,
+        error: item.correo?.ultimoError ?? null,
+        fecha: item.reenvio.createdAt,
+      };
+    }
+  }
+
+  return [...fallos.values()];
+}
+
+/**
+ * Correos no entregados de una importación y el historial de reenvíos con el estado actual de cada destinatario.
+ */
+export async function correosNoEntregados(importacionId: number) {
+  const importacion = await prisma.importacion.findUnique({ where: { id: importacionId } });
+  if (!importacion) {
+    return null;
+  }
+
+  const [fallos, reenvios] = await Promise.all([
+    fallosCorreo(importacionId, (importacion.correosFallidos ?? []) as CorreoFallidoImportacion[]),
+    prisma.reenvioImportacion.findMany({
+      where: { importacionId },
+      orderBy: { id: "desc" },
+      take: MAX_REENVIOS_HISTORIAL,
+      include: {
+        items: {
+          orderBy: { id: "asc" },
+          include: { correo: { select: { estado: true, ultimoError: true, enviadoEn: true } } },
+        },
+      },
+    }),
+  ]);
+
+  return {
+    importacion: {
+      id: importacion.id,
+      archivo: importacion.archivo,
+      fecha: importacion.fecha,
+      estado: importacion.estado,
+      revertidaEn: importacion.revertidaEn,
+    },
+    fallos,
+    reenvios: reenvios.map((reenvio) => ({
+      id: reenvio.id,
+      creadoPor: reenvio.creadoPor,
+      createdAt: reenvio.createdAt,
+      items: reenvio.items.map((item) => ({
+        clave: claveFalloCorreo(item),
+        hoja: item.hoja,
+        fila: item.fila,
+        cedula: item.cedula,
+        nombre: item.nombre,
+        apellido: item.apellido,
+        correoAnterior: item.correoAnterior,
+        destinatario: item.destinatario,
+        resultado: item.resultado,
+        detalle: item.detalle,
+        estadoCorreo: item.correo?.estado ?? null,
+        error: item.correo?.ultimoError ?? null,
+        enviadoEn: item.correo?.enviadoEn ?? null,
+      })),
+    })),
+  };
+}
+
+export type ResultadoReenvioImportacion =
+  | { ok: true; reenvioId: number; resultados: ResultadoReenvioDestinatario[] }
+  | { ok: false; motivo: MotivoRechazoReenvio };
+
+/**
+ * Vuelve a encolar la invitación de las filas indicadas con el código QR que ya se les generó,
+ * usando el correo corregido. El correo corregido también se guarda en la persona.
+ * @param importacionId - Importación a la que pertenecen las filas
+ * @param destinatarios - Fila (`hoja` y `fila`) y correo al que se reenvía
+ * @param usuario - Correo de quien reenvía
+ */
+export async function reenviarCorreosImportacion(
+  importacionId: number,
+  destinatarios: Array<{ hoja: string; fila: number; email: string }>,
+  usuario: string | null
+): Promise<ResultadoReenvioImportacion> {
+  const importacion = await prisma.importacion.findUnique({ where: { id: importacionId } });
+  if (!importacion) {
+    return { ok: false, motivo: "no_encontrada" };
+  }
+  if (importacion.revertidaEn) {
+    return { ok: false, motivo: "revertida" };
+  }
+  if (ESTADOS_ACTIVOS.includes(importacion.estado)) {
+    return { ok: false, motivo: "en_proceso" };
+  }
+
+  const fallos = await fallosCorreo(importacionId, (importacion.correosFallidos ?? []) as CorreoFallidoImportacion[]);
+  const porClave = new Map(fallos.map((fallo) => [fallo.clave, fallo]));
+  const solicitados = destinatarios.flatMap((destino) => {
+    const fallo = porClave.get(claveFalloCorreo(destino));
+    return fallo ? [{ fallo, email: destino.email.trim() }] : [];
+  });
+  if (solicitados.length === 0) {
+    return { ok: false, motivo: "sin_fallos" };
+  }
+
+  const plantilla = await cargarPlantilla("qr_estudiante");
+  const reenvio = await prisma.reenvioImportacion.create({ data: { importacionId, creadoPor: usuario } });
+  const resultados: ResultadoReenvioDestinatario[] = [];
+
+  for (const { fallo, email } of solicitados) {
+    const base = {
+      reenvioId: reenvio.id,
+      hoja: fallo.hoja,
+      fila: fallo.fila,
+      cedula: fallo.cedula ?? null,
+      nombre: fallo.nombre ?? null,
+      apellido: fallo.apellido ?? null,
+      correoAnterior: fallo.email,
+      destinatario: email,
+    };
+
+    let resultado: ResultadoReenvio;
+    let correoId: number | null = null;
+    let codigoId: number | null = null;
+
+    const codigo = fallo.codigo
+      ? await prisma.codigoQR.findUnique({ where: { codigo: fallo.codigo }, include: { persona: true } })
+      : null;
+    const estadoPrevio = fallo.ultimoReenvio?.estadoCorreo;
+
+    if (!EMAIL_REGEX.test(email)) {
+      resultado = "correo_invalido";
+    } else if (!codigo || !codigo.persona) {
+      resultado = "sin_codigo";
+    } else if (estadoPrevio === "pendiente" || estadoPrevio === "enviando") {
+      resultado = "ya_en_cola";
+      codigoId = codigo.id_codigo;
+    } else {
+      const persona = codigo.persona;
+      const invitacion = renderizarPlantilla(plantilla, variablesInvitacion(persona, codigo.max_usos, codigo.codigo));
+      resultado = "encolado";
+
+      // El correo y su registro en el lote se guardan juntos para no perder el resultado si algo falla
+      correoId = await prisma.$transaction(async (tx) => {
+        if (persona.correo !== email) {
+          await tx.persona.update({ where: { id_persona: persona.id_persona }, data: { correo: email } });
+        }
+        const correo = await encolarCorreo(
+          {
+            origen: "importacion",
+            destinatario: email,
+            asunto: invitacion.asunto,
+            texto: invitacion.texto,
+            html: invitacion.html,
+            adjuntos: [
+              {
+                tipo: "qr",
+                codigo: codigo.codigo,
+                texto: `${persona.nombre} ${persona.apellido ?? ""}`.trim() || "ESTUDIANTE",
+                filename: `${codigo.codigo}.png`,
+              },
+            ],
+            datos: {
+              hoja: fallo.hoja,
+              fila: fallo.fila,
+              cedula: fallo.cedula ?? null,
+              nombre: persona.nombre,
+              apellido: persona.apellido,
+              reenvioId: reenvio.id,
+            },
+            creadoPor: usuario,
+            importacionId,
+            codigoId: codigo.id_codigo,
+          },
+          tx
+        );
+        await tx.reenvioImportacionItem.create({
+          data: {
+            ...base,
+            resultado: "encolado",
+            detalle: DETALLES_RESULTADO_REENVIO.encolado,
+            codigoId: codigo.id_codigo,
+            correoId: correo.id,
+          },
+        });
+        return correo.id;
+      });
+    }
+
+    const detalle = DETALLES_RESULTADO_REENVIO[resultado];
+    if (resultado !== "encolado") {
+      await prisma.reenvioImportacionItem.create({ data: { ...base, resultado, detalle, codigoId } });
+    }
+    resultados.push({
+      clave: fallo.clave,
+      hoja: fallo.hoja,
+      fila: fallo.fila,
+      destinatario: email,
+      resultado,
+      detalle,
+      correoId,
+    });
+  }
+
+  if (resultados.some((item) => item.resultado === "encolado")) {
+    iniciarProcesadorCorreos();
+  }
+
+  return { ok: true, reenvioId: reenvio.id, resultados };
+}
@@ -0,0 +1,167 @@
+import type { Prisma } from "@prisma/client";
+import prisma from "@/lib/prisma";
+import type { CambioPersona } from "@/lib/importacion";
+
+export type MotivoRechazoReversion =
+  | "no_encontrada"
+  | "ya_revertida"
+  | "en_proceso"
+  | "con_ingresos"
+  | "con_ventas";
+
+export const MENSAJES_RECHAZO_REVERSION: Record<MotivoRechazoReversion, string> = {
+  no_encontrada: "Importación no encontrada",
+  ya_revertida: "La importación ya fue revertida",
+  en_proceso: "La importación sigue en curso; páusala antes de revertirla",
+  con_ingresos: "Algunos códigos de la importación ya registran ingresos; no se puede revertir",
+  con_ventas: "Algunos códigos de la importación tienen ventas adicionales; no se puede revertir",
+};
+
+export type ResumenReversion = {
+  codigosEliminados: number;
+  personasEliminadas: number;
+  personasRestauradas: number;
+};
+
+export type ResultadoReversion =
+  | { ok: true; resumen: ResumenReversion }
+  | { ok: false; motivo: MotivoRechazoReversion; codigos?: string[] };
+
+const MAX_CODIGOS_EN_RECHAZO = 20;
+// Una planilla de miles de filas no alcanza a revertirse en los 5 s que Prisma da por defecto
+const TIEMPO_MAXIMO_REVERSION_MS = 120_000;
+
+/**
+ * Valores que la reversión devuelve a la persona: solo los campos que siguen con el valor que puso
+ * la importación, para no pisar correcciones hechas después.
+ */
+function valoresAnteriores(
+  persona: { nombre: string; apellido: string | null; correo: string | null; tipo_persona: string },
+  cambios: CambioPersona[]
+): Prisma.PersonaUncheckedUpdateInput {
+  const data: Prisma.PersonaUncheckedUpdateInput = {};
+  for (const cambio of cambios) {
+    if (persona[cambio.campo] !== cambio.nuevo) continue;
+    if (cambio.campo === "nombre") data.nombre = cambio.anterior ?? "";
+    if (cambio.campo === "apellido") data.apellido = cambio.anterior;
+    if (cambio.campo === "correo") data.correo = cambio.anterior;
+    if (cambio.campo === "tipo_persona" && cambio.anterior) {
+      data.tipo_persona = cambio.anterior as Prisma.PersonaUncheckedUpdateInput["tipo_persona"];
+    }
+  }
+  return data;
+}
+
+/**
+ * Deshace una importación: elimina los códigos que generó, elimina las personas que creó (si no
+ * tienen códigos de otro origen) y devuelve a las personas actualizadas los valores previos y a los
+ * códigos reutilizados su cupo anterior.
+ * Se rechaza si algún código ya se usó en la puerta o tiene ventas, porque borrarlo perdería ese historial.
+ * @param importacionId - Importación a revertir
+ * @param usuario - Correo de quien revierte
+ */
+export async function revertirImportacion(
+  importacionId: number,
+  usuario: string | null
+): Promise<ResultadoReversion> {
+  return prisma.$transaction(async (tx) => {
+    const bloqueada = await tx.$queryRaw<Array<{ id: number }>>`
+      SELECT id FROM importacion WHERE id = ${importacionId} FOR UPDATE`;
+    if (bloqueada.length === 0) {
+      return { ok: false, motivo: "no_encontrada" };
+    }
+
+    const importacion = await tx.importacion.findUniqueOrThrow({ where: { id: importacionId } });
+    if (importacion.revertidaEn) {
+      return { ok: false, motivo: "ya_revertida" };
+    }
+    if (importacion.estado === "en_cola" || importacion.estado === "en_proceso") {
+      return { ok: false, motivo: "en_proceso" };
+    }
+
+    // Bloquea los códigos para que no se registre un ingreso mientras se revisan
+    await tx.$queryRaw`SELECT id_codigo FROM codigoqr WHERE importacionId = ${importacionId} FOR UPDATE`;
+
+    // Se cuentan también los ingresos anulados: son historial de auditoría que no debe perderse
+    const usados = await tx.codigoQR.findMany({
+      where: { importacionId, ingresos: { some: {} } },
+      select: { codigo: true },
+      take: MAX_CODIGOS_EN_RECHAZO,
+    });
+    if (usados.length > 0) {
+      return { ok: false, motivo: "con_ingresos", codigos: usados.map((item) => item.codigo) };
+    }
+
+    const vendidos = await tx.codigoQR.findMany({
+      where: { importacionId, ventas: { some: {} } },
+      select: { codigo: true },
+      take: MAX_CODIGOS_EN_RECHAZO,
+    });
+    if (vendidos.length > 0) {
+      return { ok: false, motivo: "con_ventas", codigos: vendidos.map((item) => item.codigo) };
+    }
+
+    // Las invitaciones que aún no salieron ya no deben enviarse
+    await tx.correoSaliente.updateMany({
+      where: { importacionId, estado: "pendiente" },
+      data: { estado: "cancelado", ultimoError: "Importación revertida" },
+    });
+
+    const { count: codigosEliminados } = await tx.codigoQR.deleteMany({ where: { importacionId } });
+
+    // Del último cambio al primero: si una fila duplicada actualizó a una persona creada en la misma
+    // importación, primero se deshace la actualización y luego la creación
+    const cambios = await tx.importacionCambio.findMany({
+      where: { importacionId },
+      orderBy: { id: "desc" },
+    });
+
+    let personasEliminadas = 0;
+    let personasRestauradas = 0;
+
+    for (const cambio of cambios) {
+      // Código de otra importación al que esta le cambió el cupo
+      if (cambio.maxUsosAnterior !== null) {
+        if (cambio.codigoId) {
+          await tx.codigoQR.updateMany({
+            where: { id_codigo: cambio.codigoId },
+            data: { max_usos: cambio.maxUsosAnterior },
+          });
+        }
+        continue;
+      }
+
+      const persona = await tx.persona.findUnique({
+        where: { id_persona: cambio.personaId },
+        include: { _count: { select: { codigoqr: true } } },
+      });
+      if (!persona) continue;
+
+      if (cambio.creada) {
+        if (persona._count.codigoqr === 0) {
+          await tx.persona.delete({ where: { id_persona: persona.id_persona } });
+          personasEliminadas++;
+        } else if (persona.importacionId === importacionId) {
+          await tx.persona.update({ where: { id_persona: persona.id_persona }, data: { importacionId: null } });
+        }
+        continue;
+      }
+
+      const data = valoresAnteriores(persona, (cambio.cambios ?? []) as CambioPersona[]);
+      if (persona.importacionId === importacionId) {
+        data.importacionId = cambio.importacionAnteriorId;
+      }
+      if (Object.keys(data).length > 0) {
+        await tx.persona.update({ where: { id_persona: persona.id_persona }, data });
+        personasRestauradas++;
+      }
+    }
+
+    await tx.importacion.update({
+      where: { id: importacionId },
+      data: { revertidaEn: new Date(), revertidaPor: usuario },
+    });
+
+    return { ok: true, resumen: { codigosEliminados, personasEliminadas, personasRestauradas } };
+  }, { timeout: TIEMPO_MAXIMO_REVERSION_MS });
+}
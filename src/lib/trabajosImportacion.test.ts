@@ -0,0 +1,96 @@
+import type { PrismaClient } from "@prisma/client";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { baseDePruebas, borrarEventoDePrueba, crearEventoDePrueba, hayBaseDePruebas } from "@/test/baseDatos";
+
+const pausa = vi.hoisted(() => ({ aplicada: false }));
+
+vi.mock("@/lib/bandejaCorreos", async (importOriginal) => {
+  const original = await importOriginal<typeof import("@/lib/bandejaCorreos")>();
+  return {
+    ...original,
+    // Los correos quedan en la bandeja sin enviarse
+    iniciarProcesadorCorreos: () => undefined,
+    // La pausa llega mientras se procesa la primera fila, antes de que se guarde su avance
+    encolarCorreo: async (...args: Parameters<typeof original.encolarCorreo>) => {
+      const [datos, db] = args;
+      if (!pausa.aplicada && db && datos.importacionId) {
+        pausa.aplicada = true;
+        await db.importacion.update({ where: { id: datos.importacionId }, data: { estado: "pausada" } });
+      }
+      return original.encolarCorreo(...args);
+    },
+  };
+});
+
+const CEDULAS = ["1710000017", "1710000025", "1710000033"];
+
+describe.skipIf(!hayBaseDePruebas)("trabajos de importación", () => {
+  let prisma: PrismaClient;
+  let trabajos: typeof import("@/lib/trabajosImportacion");
+  let eventoId: number;
+  let importacionId: number | null = null;
+
+  const esperarEstado = async (estado: string) => {
+    for (let intento = 0; intento < 100; intento++) {
+      const importacion = await prisma.importacion.findUniqueOrThrow({ where: { id: importacionId as number } });
+      if (importacion.estado === estado) {
+        return importacion;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+    throw new Error(`La importación no llegó al estado ${estado}`);
+  };
+
+  beforeAll(async () => {
+    prisma = await baseDePruebas();
+    trabajos = await import("@/lib/trabajosImportacion");
+    eventoId = (await crearEventoDePrueba("Prueba de importación")).id;
+  });
+
+  afterAll(async () => {
+    if (importacionId) {
+      await prisma.correoSaliente.deleteMany({ where: { importacionId } });
+      await prisma.codigoQR.deleteMany({ where: { importacionId } });
+      await prisma.importacion.delete({ where: { id: importacionId } });
+    }
+    await prisma.persona.deleteMany({ where: { cedula: { in: CEDULAS } } });
+    await borrarEventoDePrueba(eventoId);
+    await prisma.$disconnect();
+  });
+
+  it("no duplica el código ni el correo de la fila en curso al pausar y reanudar", async () => {
+    const importacion = await trabajos.crearTrabajoImportacion({
+      archivo: "prueba.xlsx",
+      nombreOriginal: "prueba.xlsx",
+      checksum: "0".repeat(64),
+      tamano: 0,
+      usuario: null,
+      eventoId,
+      perfilId: null,
+      mapeo: null,
+      maxUsosFamiliares: 0,
+      reglasCupos: null,
+      reutilizarCodigos: false,
+      filas: CEDULAS.map((cedula, indice) => ({
+        hoja: "Hoja1",
+        fila: indice + 2,
+        row: { Cédula: cedula, Nombre: `Estudiante ${indice + 1}`, Correo: `estudiante${indice + 1}@example.com` },
+      })),
+    });
+    importacionId = importacion.id;
+
+    const pausada = await esperarEstado("pausada");
+    expect(pausada.filaActual).toBe(1);
+
+    expect(await trabajos.reanudarTrabajoImportacion(importacion.id)).toBe(true);
+    const completada = await esperarEstado("completada");
+    expect(completada.exitosos).toBe(CEDULAS.length);
+
+    const codigos = await prisma.codigoQR.findMany({
+      where: { importacionId: importacion.id },
+      select: { persona: { select: { cedula: true } } },
+    });
+    expect(codigos.map((codigo) => codigo.persona?.cedula).sort()).toEqual(CEDULAS);
+    expect(await prisma.correoSaliente.count({ where: { importacionId: importacion.id } })).toBe(CEDULAS.length);
+  });
+});
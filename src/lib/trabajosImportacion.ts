@@ -0,0 +1,677 @@
+import {
+  Prisma,
+  type EstadoCorreo,
+  type EstadoImportacion,
+  type Importacion,
+  type Persona,
+  type ResultadoFila,
+} from "@prisma/client";
+import prisma from "@/lib/prisma";
+import { cargarPlantilla, encolarCorreo, iniciarProcesadorCorreos } from "@/lib/bandejaCorreos";
+import { renderizarPlantilla, variablesInvitacion, type ContenidoPlantilla } from "@/lib/plantillasCorreo";
+import { TIPO_QR_POR_PERSONA, calcularCambiosPersona, leerFila, type FilaImportacion } from "@/lib/importacion";
+import type { FilaHoja } from "@/lib/lecturaPlanilla";
+import { EMAIL_REGEX, esMapeoColumnas, type ImportRow } from "@/lib/mapeoImportacion";
+import { esReglasCupos, resolverInvitados } from "@/lib/cuposImportacion";
+
+// Las importaciones se ejecutan en segundo plano para que cerrar la pestaña o un timeout del proxy
+// no las corte a la mitad. El avance se guarda fila por fila y un reinicio del servidor las retoma.
+// Se asume una sola instancia de la aplicación procesando la cola.
+
+export type ErrorFilaImportacion = {
+  hoja: string;
+  fila: number;
+  motivo: string;
+  detalle: string;
+  /** Celdas originales de la fila; permiten descargar las filas con error para corregirlas y volver a subirlas */
+  celdas?: ImportRow;
+};
+
+export type CorreoFallidoImportacion = {
+  hoja: string;
+  fila: number;
+  email: string | null;
+  reason: string;
+  cedula?: string | null;
+  nombre?: string | null;
+  apellido?: string | null;
+  /** Código generado para la fila; permite reenviar la invitación sin crear otro */
+  codigo?: string | null;
+};
+
+export const ESTADOS_ACTIVOS: EstadoImportacion[] = ["en_cola", "en_proceso"];
+
+type ProcesadorGlobal = { activo: boolean; pendiente: boolean };
+
+// Se guarda en global para que la recarga en desarrollo no arranque un segundo procesador
+const globalProcesador = global as unknown as { procesadorImportaciones?: ProcesadorGlobal };
+const procesador: ProcesadorGlobal = (globalProcesador.procesadorImportaciones ??= {
+  activo: false,
+  pendiente: false,
+});
+
+export type DatosTrabajoImportacion = {
+  /** Nombre con el que se guardó la planilla */
+  archivo: string;
+  nombreOriginal: string;
+  /** SHA-256 del archivo; permite reconocer el mismo archivo subido otra vez */
+  checksum: string;
+  tamano: number;
+  usuario: string | null;
+  eventoId: number;
+  perfilId: number | null;
+  mapeo: Prisma.InputJsonObject | null;
+  maxUsosFamiliares: number;
+  /** Invitados por el valor de otra columna; la columna de invitados de la fila tiene prioridad */
+  reglasCupos: Prisma.InputJsonObject | null;
+  /** Actualiza el código que la persona ya tiene en el evento en lugar de generar otro */
+  reutilizarCodigos: boolean;
+  filas: FilaHoja[];
+};
+
+/**
+ * Encola una importación y despierta al procesador.
+ * @returns La importación creada; su id permite seguir el avance
+ */
+export async function crearTrabajoImportacion(datos: DatosTrabajoImportacion) {
+  const mapeo = datos.mapeo && esMapeoColumnas(datos.mapeo) ? datos.mapeo : null;
+  const reglasCupos = datos.reglasCupos && esReglasCupos(datos.reglasCupos) ? datos.reglasCupos : null;
+  const filas = datos.filas.map((fila) => leerFila(fila, mapeo, reglasCupos));
+
+  const importacion = await prisma.importacion.create({
+    data: {
+      archivo: datos.archivo,
+      nombreOriginal: datos.nombreOriginal,
+      checksum: datos.checksum,
+      tamano: datos.tamano,
+      usuario: datos.usuario,
+      eventoId: datos.eventoId,
+      perfilId: datos.perfilId,
+      mapeo: datos.mapeo ?? Prisma.DbNull,
+      estado: "en_cola",
+      filas: datos.filas as unknown as Prisma.InputJsonArray,
+      maxUsosFamiliares: datos.maxUsosFamiliares,
+      reglasCupos: datos.reglasCupos ?? Prisma.DbNull,
+      reutilizarCodigos: datos.reutilizarCodigos,
+      total_registros: datos.filas.length,
+      estudiantes: filas.filter((fila) => fila.tipo_persona === "estudiante").length,
+      correosPorEnviar: filas.filter(
+        (fila) =>
+          fila.tipo_persona === "estudiante" &&
+          fila.correo &&
+          EMAIL_REGEX.test(fila.correo) &&
+          (!fila.invitados || fila.invitados.ok)
+      ).length,
+    },
+  });
+
+  iniciarProcesadorImportaciones();
+  return importacion;
+}
+
+/**
+ * Detiene la importación después de la fila en curso. Solo aplica a importaciones en cola o en proceso.
+ */
+export async function pausarTrabajoImportacion(id: number) {
+  const { count } = await prisma.importacion.updateMany({
+    where: { id, estado: { in: ESTADOS_ACTIVOS } },
+    data: { estado: "pausada" },
+  });
+  return count > 0;
+}
+
+/**
+ * Vuelve a encolar una importación pausada o fallida; continúa desde la última fila procesada.
+ */
+export async function reanudarTrabajoImportacion(id: number) {
+  const { count } = await prisma.importacion.updateMany({
+    where: { id, estado: { in: ["pausada", "fallida"] }, revertidaEn: null },
+    data: { estado: "en_cola", mensaje: null },
+  });
+  if (count > 0) {
+    iniciarProcesadorImportaciones();
+  }
+  return count > 0;
+}
+
+/**
+ * Arranca el procesador si no está corriendo. Toma primero las importaciones que quedaron en proceso
+ * por un reinicio y luego las encoladas, de la más antigua a la más reciente.
+ */
+export function iniciarProcesadorImportaciones() {
+  if (procesador.activo) {
+    procesador.pendiente = true;
+    return;
+  }
+  procesador.activo = true;
+
+  void (async () => {
+    try {
+      do {
+        procesador.pendiente = false;
+        let siguiente = await siguienteTrabajo();
+        while (siguiente) {
+          await ejecutarTrabajo(siguiente);
+          siguiente = await siguienteTrabajo();
+        }
+      } while (procesador.pendiente);
+    } catch (error) {
+      console.error("Error en el procesador de importaciones:", error);
+    } finally {
+      procesador.activo = false;
+    }
+  })();
+}
+
+async function siguienteTrabajo() {
+  return (
+    (await prisma.importacion.findFirst({ where: { estado: "en_proceso" }, orderBy: { id: "asc" } })) ??
+    (await prisma.importacion.findFirst({ where: { estado: "en_cola" }, orderBy: { id: "asc" } }))
+  );
+}
+
+type ContextoTrabajo = {
+  importacionId: number;
+  eventoId: number;
+  maxUsosFamiliares: number;
+  reutilizarCodigos: boolean;
+  exitosos: number;
+  fallidos: number;
+  errores: ErrorFilaImportacion[];
+  correosFallidos: CorreoFallidoImportacion[];
+  correosIntentados: number;
+  /** Plantilla de la invitación, cargada una vez por ejecución */
+  plantilla: ContenidoPlantilla;
+};
+
+async function ejecutarTrabajo(trabajo: Importacion) {
+  if (!trabajo.eventoId) {
+    await prisma.importacion.update({
+      where: { id: trabajo.id },
+      data: { estado: "fallida", mensaje: "La importación no tiene evento asociado" },
+    });
+    return;
+  }
+
+  const { count } = await prisma.importacion.updateMany({
+    where: { id: trabajo.id, estado: trabajo.estado },
+    data: { estado: "en_proceso", iniciadaEn: trabajo.iniciadaEn ?? new Date() },
+  });
+  if (count === 0) {
+    return;
+  }
+
+  const contexto: ContextoTrabajo = {
+    importacionId: trabajo.id,
+    eventoId: trabajo.eventoId,
+    maxUsosFamiliares: trabajo.maxUsosFamiliares,
+    reutilizarCodigos: trabajo.reutilizarCodigos,
+    exitosos: trabajo.exitosos,
+    fallidos: trabajo.fallidos,
+    errores: (trabajo.errores ?? []) as ErrorFilaImportacion[],
+    correosFallidos: (trabajo.correosFallidos ?? []) as CorreoFallidoImportacion[],
+    correosIntentados: trabajo.correosIntentados,
+    plantilla: await cargarPlantilla("qr_estudiante"),
+  };
+
+  // El avance se guarda aunque la importación se haya pausado mientras se procesaba la fila: esa fila
+  // ya generó su código y su correo, y al reanudar no debe volver a procesarse
+  const guardarAvance = async (filaActual: number) => {
+    const { estado } = await prisma.importacion.update({
+      where: { id: trabajo.id },
+      data: {
+        filaActual,
+        exitosos: contexto.exitosos,
+        fallidos: contexto.fallidos,
+        errores: contexto.errores.length ? (contexto.errores as Prisma.InputJsonArray) : Prisma.JsonNull,
+        correosFallidos: contexto.correosFallidos.length
+          ? (contexto.correosFallidos as Prisma.InputJsonArray)
+          : Prisma.JsonNull,
+        correosIntentados: contexto.correosIntentados,
+      },
+      select: { estado: true },
+    });
+    return estado === "en_proceso";
+  };
+
+  try {
+    const mapeo = esMapeoColumnas(trabajo.mapeo) ? trabajo.mapeo : null;
+    const reglasCupos = esReglasCupos(trabajo.reglasCupos) ? trabajo.reglasCupos : null;
+    const origen = (trabajo.filas ?? []) as unknown as FilaHoja[];
+    const filas = origen.map((fila) => leerFila(fila, mapeo, reglasCupos));
+
+    for (let indice = trabajo.filaActual; indice < filas.length; indice++) {
+      const fila = filas[indice];
+
+      // Si el servidor se reinició a mitad de una fila, la primera fila de la ejecución pudo quedar procesada
+      const yaProcesada =
+        indice === trabajo.filaActual && (await filaConCodigo(trabajo.id, fila, filas.slice(0, indice)));
+      if (yaProcesada) {
+        contexto.exitosos++;
+      } else {
+        await procesarFila(contexto, fila, origen[indice].row);
+      }
+
+      if (!(await guardarAvance(indice + 1))) {
+        // Se pausó mientras se procesaba la fila; se reanuda desde la siguiente
+        return;
+      }
+    }
+
+    await prisma.importacion.updateMany({
+      where: { id: trabajo.id, estado: "en_proceso" },
+      data: { estado: "completada", finalizadaEn: new Date(), filas: Prisma.DbNull },
+    });
+  } catch (error) {
+    console.error(`Error durante la importación ${trabajo.id}:`, error);
+    await prisma.importacion.update({
+      where: { id: trabajo.id },
+      data: {
+        estado: "fallida",
+        mensaje: error instanceof Error ? error.message : "Error interno durante la importación",
+      },
+    });
+  }
+}
+
+/**
+ * La fila que estaba en curso al reiniciarse el servidor pudo haber generado su código antes de que
+ * se guardara el avance; se comprueba para no duplicarlo. Las filas procesadas quedan registradas con
+ * su resultado; para las importaciones anteriores a ese registro se cuentan los códigos de la cédula,
+ * comparando contra las filas anteriores con la misma cédula, que también generaron código.
+ */
+async function filaConCodigo(importacionId: number, fila: FilaImportacion, anteriores: FilaImportacion[]) {
+  const registrada = await prisma.importacionFila.findUnique({
+    where: { importacionId_hoja_fila: { importacionId, hoja: fila.hoja, fila: fila.fila } },
+    select: { id: true },
+  });
+  if (registrada) {
+    return true;
+  }
+  const cedula = fila.identificacion?.ok ? fila.identificacion.valor : null;
+  if (!cedula) {
+    return false;
+  }
+  const previas = anteriores.filter(
+    (anterior) =>
+      anterior.identificacion?.valor === cedula && (!anterior.correo || EMAIL_REGEX.test(anterior.correo))
+  ).length;
+  const codigos = await prisma.codigoQR.count({ where: { importacionId, persona: { cedula } } });
+  return codigos > previas;
+}
+
+/**
+ * Crea o actualiza a la persona de la fila y le genera su código o, si la importación reutiliza códigos,
+ * actualiza el que ya tiene en el evento. A los estudiantes nuevos o con cambios se les encola el correo con el QR.
+ */
+async function procesarFila(contexto: ContextoTrabajo, fila: FilaImportacion, celdas: ImportRow) {
+  const { importacionId, eventoId, errores, correosFallidos } = contexto;
+  const { nombre, apellido, identificacion, tipo_persona } = fila;
+  const cedulaStr = identificacion?.valor || null;
+  const correoStr = fila.correo;
+  let rowHadFailure = false;
+
+  try {
+    if (identificacion && !identificacion.ok) {
+      contexto.fallidos++;
+      errores.push({
+        hoja: fila.hoja,
+        fila: fila.fila,
+        motivo: "Identificación inválida",
+        detalle: `${identificacion.valor}: ${identificacion.error}`,
+        celdas,
+      });
+      return;
+    }
+
+    if (correoStr && !EMAIL_REGEX.test(correoStr)) {
+      contexto.fallidos++;
+      correosFallidos.push({
+        hoja: fila.hoja,
+        fila: fila.fila,
+        email: correoStr,
+        reason: "Correo con formato inválido",
+        cedula: cedulaStr,
+        nombre,
+        apellido,
+      });
+      errores.push({
+        hoja: fila.hoja,
+        fila: fila.fila,
+        motivo: "Correo inválido",
+        detalle: `El correo "${correoStr}" no tiene un formato válido`,
+        celdas,
+      });
+      return;
+    }
+
+    if (tipo_persona === "estudiante" && fila.invitados && !fila.invitados.ok) {
+      contexto.fallidos++;
+      errores.push({
+        hoja: fila.hoja,
+        fila: fila.fila,
+        motivo: "Invitados inválidos",
+        detalle: `"${fila.invitados.valor}": ${fila.invitados.error}`,
+        celdas,
+      });
+      return;
+    }
+
+    let persona: Persona | null = cedulaStr
+      ? await prisma.persona.findUnique({ where: { cedula: cedulaStr } })
+      : null;
+    let personaActualizada = false;
+
+    if (!persona) {
+      persona = await prisma.persona.create({
+        data: {
+          nombre,
+          apellido,
+          cedula: cedulaStr,
+          correo: correoStr,
+          tipo_persona,
+          importacionId,
+        },
+      });
+      await prisma.importacionCambio.create({
+        data: { importacionId, personaId: persona.id_persona, creada: true },
+      });
+    } else {
+      const cambios = calcularCambiosPersona(persona, fila);
+      const updates: Prisma.PersonaUncheckedUpdateInput = Object.fromEntries(
+        cambios.map((cambio) => [cambio.campo, cambio.nuevo])
+      );
+
+      if (cambios.length > 0) {
+        personaActualizada = true;
+        // Se guardan los valores previos para poder revertir la importación
+        await prisma.importacionCambio.create({
+          data: {
+            importacionId,
+            personaId: persona.id_persona,
+            cambios,
+            importacionAnteriorId: persona.importacionId,
+          },
+        });
+        persona = await prisma.persona.update({
+          where: { id_persona: persona.id_persona },
+          data: { ...updates, importacionId },
+        });
+      }
+    }
+
+    const tipoQR = TIPO_QR_POR_PERSONA[tipo_persona];
+    const existente = contexto.reutilizarCodigos
+      ? await prisma.codigoQR.findFirst({
+          where: { personaId: persona.id_persona, eventoId, tipo_qr: tipoQR },
+          orderBy: { id_codigo: "desc" },
+        })
+      : null;
+    const registrarFila = (resultado: ResultadoFila, codigo: string, db: Prisma.TransactionClient = prisma) =>
+      db.importacionFila.upsert({
+        where: { importacionId_hoja_fila: { importacionId, hoja: fila.hoja, fila: fila.fila } },
+        update: { resultado, codigo },
+        create: { importacionId, hoja: fila.hoja, fila: fila.fila, resultado, codigo },
+      });
+
+    if (tipo_persona === "estudiante") {
+      const totalPermitidos = 1 + resolverInvitados(fila, contexto.maxUsosFamiliares).invitados;
+      // No se baja el cupo por debajo de los ingresos ya registrados
+      const maxUsos = existente ? Math.max(totalPermitidos, existente.usos_actual) : totalPermitidos;
+      const cambiaCupo = Boolean(existente && existente.max_usos !== maxUsos);
+      const resultado: ResultadoFila = !existente
+        ? "creada"
+        : cambiaCupo || personaActualizada
+        ? "actualizada"
+        : "sin_cambios";
+
+      const codigoGeneral = existente?.codigo ?? `EST-${persona.id_persona}-${Date.now().toString().slice(-6)}`;
+      const conCorreo = Boolean(correoStr && EMAIL_REGEX.test(correoStr));
+      // Si el código ya existía y nada cambió, el estudiante ya tiene su invitación
+      const enviarCorreo = resultado !== "sin_cambios";
+      const invitacion = renderizarPlantilla(
+        contexto.plantilla,
+        variablesInvitacion(persona, maxUsos, codigoGeneral)
+      );
+
+      // El código y su correo se guardan juntos para que un reinicio no deje un código sin invitación
+      await prisma.$transaction(async (tx) => {
+        let codigoId: number;
+        if (existente) {
+          codigoId = existente.id_codigo;
+          if (cambiaCupo) {
+            await tx.codigoQR.update({ where: { id_codigo: existente.id_codigo }, data: { max_usos: maxUsos } });
+            // Permite que la reversión devuelva el cupo anterior
+            await tx.importacionCambio.create({
+              data: {
+                importacionId,
+                personaId: persona.id_persona,
+                codigoId: existente.id_codigo,
+                maxUsosAnterior: existente.max_usos,
+              },
+            });
+          }
+        } else {
+          const codigo = await tx.codigoQR.create({
+            data: {
+              codigo: codigoGeneral,
+              evento: { connect: { id: eventoId } },
+              importacion: { connect: { id: importacionId } },
+              tipo_qr: "est",
+              max_usos: totalPermitidos,
+              usos_actual: 0,
+              persona: { connect: { id_persona: persona.id_persona } },
+            },
+          });
+          codigoId = codigo.id_codigo;
+        }
+
+        if (enviarCorreo && conCorreo && correoStr) {
+          await encolarCorreo(
+            {
+              origen: "importacion",
+              destinatario: correoStr,
+              asunto: invitacion.asunto,
+              texto: invitacion.texto,
+              html: invitacion.html,
+              adjuntos: [
+                {
+                  tipo: "qr",
+                  codigo: codigoGeneral,
+                  texto: `${nombre} ${apellido}`.trim() || "ESTUDIANTE",
+                  filename: `${codigoGeneral}.png`,
+                },
+              ],
+              datos: { hoja: fila.hoja, fila: fila.fila, cedula: cedulaStr, nombre, apellido },
+              importacionId,
+              codigoId,
+            },
+            tx
+          );
+        }
+
+        await registrarFila(resultado, codigoGeneral, tx);
+      });
+
+      if (enviarCorreo && conCorreo) {
+        contexto.correosIntentados++;
+        iniciarProcesadorCorreos();
+      } else if (enviarCorreo) {
+        rowHadFailure = true;
+        correosFallidos.push({
+          hoja: fila.hoja,
+          fila: fila.fila,
+          email: correoStr,
+          reason: "Sin correo disponible",
+          cedula: cedulaStr,
+          nombre,
+          apellido,
+          codigo: codigoGeneral,
+        });
+      }
+    } else if (existente) {
+      await registrarFila(personaActualizada ? "actualizada" : "sin_cambios", existente.codigo);
+    } else {
+      const codigo = `${tipoQR.toUpperCase()}-${persona.id_persona}-${Date.now().toString().slice(-6)}`;
+      await prisma.codigoQR.create({
+        data: {
+          codigo,
+          evento: { connect: { id: eventoId } },
+          importacion: { connect: { id: importacionId } },
+          tipo_qr: tipoQR,
+          max_usos: 1,
+          usos_actual: 0,
+          persona: { connect: { id_persona: persona.id_persona } },
+        },
+      });
+      await registrarFila("creada", codigo);
+    }
+
+    if (rowHadFailure) {
+      contexto.fallidos++;
+    } else {
+      contexto.exitosos++;
+    }
+  } catch (filaErr) {
+    contexto.fallidos++;
+    if (cedulaStr) {
+      console.error(`❌ Error procesando fila ${fila.fila} de ${fila.hoja} (cédula ${cedulaStr}):`, filaErr);
+    } else {
+      console.error(`❌ Error procesando fila ${fila.fila} de ${fila.hoja}:`, filaErr);
+    }
+
+    if (
+      filaErr instanceof Prisma.PrismaClientKnownRequestError &&
+      filaErr.code === "P2002" &&
+      filaErr.meta?.target &&
+      Array.isArray(filaErr.meta.target) &&
+      filaErr.meta.target.includes("cedula")
+    ) {
+      errores.push({
+        hoja: fila.hoja,
+        fila: fila.fila,
+        motivo: "Cédula duplicada",
+        detalle: cedulaStr
+          ? `La cédula ${cedulaStr} ya existe en la base de datos`
+          : "La cédula ya existe en la base de datos",
+        celdas,
+      });
+    } else {
+      errores.push({
+        hoja: fila.hoja,
+        fila: fila.fila,
+        motivo: "Error procesando fila",
+        detalle: String(filaErr),
+        celdas,
+      });
+    }
+  }
+}
+
+/**
+ * Estado de una importación tal como lo consulta la página para mostrar el avance. Los correos se
+ * cuentan desde la bandeja de salida, que los sigue enviando después de terminar la importación.
+ */
+export async function resumenTrabajo(importacion: Importacion) {
+  const [porEstado, rechazados, porResultado, reutilizados, evento] = await Promise.all([
+    prisma.correoSaliente.groupBy({
+      by: ["estado"],
+      where: { importacionId: importacion.id },
+      _count: { _all: true },
+    }),
+    prisma.correoSaliente.findMany({
+      // Los reenvíos fallidos se muestran en su propio historial
+      where: { importacionId: importacion.id, estado: { in: ["fallido", "cancelado"] }, reenvioItem: { is: null } },
+      orderBy: { id: "asc" },
+      select: { destinatario: true, ultimoError: true, datos: true },
+    }),
+    prisma.importacionFila.groupBy({
+      by: ["resultado"],
+      where: { importacionId: importacion.id },
+      _count: { _all: true },
+    }),
+    prisma.importacionFila.findMany({
+      where: { importacionId: importacion.id, resultado: { not: "creada" }, codigo: { not: null } },
+      select: { codigo: true },
+    }),
+    importacion.eventoId
+      ? prisma.evento.findUnique({ where: { id: importacion.eventoId }, select: { id: true, capacidad: true } })
+      : null,
+  ]);
+  // Las plazas de la importación incluyen los códigos que creó y los que reutilizó de importaciones anteriores
+  const [plazasImportacion, plazasEvento] = await Promise.all([
+    prisma.codigoQR.aggregate({
+      where: {
+        OR: [
+          { importacionId: importacion.id },
+          { codigo: { in: reutilizados.map((fila) => fila.codigo as string) } },
+        ],
+      },
+      _sum: { max_usos: true },
+    }),
+    evento ? prisma.codigoQR.aggregate({ where: { eventoId: evento.id }, _sum: { max_usos: true } }) : null,
+  ]);
+  const filasCon = (resultado: ResultadoFila) =>
+    porResultado.find((item) => item.resultado === resultado)?._count._all ?? 0;
+  const contar = (...estados: EstadoCorreo[]) =>
+    porEstado.filter((item) => estados.includes(item.estado)).reduce((total, item) => total + item._count._all, 0);
+
+  const correosNoEnviados: CorreoFallidoImportacion[] = rechazados.map((correo) => {
+    const datos = (correo.datos ?? {}) as Partial<CorreoFallidoImportacion>;
+    return {
+      hoja: datos.hoja ?? "",
+      fila: datos.fila ?? 0,
+      email: correo.destinatario,
+      reason: correo.ultimoError ?? "No se pudo enviar el correo",
+      cedula: datos.cedula ?? null,
+      nombre: datos.nombre ?? null,
+      apellido: datos.apellido ?? null,
+    };
+  });
+
+  return {
+    id: importacion.id,
+    estado: importacion.estado,
+    archivo: importacion.archivo,
+    eventoId: importacion.eventoId,
+    total: importacion.total_registros,
+    procesadas: importacion.filaActual,
+    exitosos: importacion.exitosos,
+    fallidos: importacion.fallidos,
+    reutilizarCodigos: importacion.reutilizarCodigos,
+    filasCreadas: filasCon("creada"),
+    filasActualizadas: filasCon("actualizada"),
+    filasSinCambios: filasCon("sin_cambios"),
+    plazasImportacion: plazasImportacion._sum.max_usos ?? 0,
+    plazasEvento: plazasEvento?._sum.max_usos ?? 0,
+    capacidad: evento?.capacidad ?? null,
+    estudiantes: importacion.estudiantes,
+    correosPorEnviar: importacion.correosPorEnviar,
+    correosIntentados: importacion.correosIntentados,
+    correosEnviados: contar("enviado", "enviado_sin_registro"),
+    correosPendientes: contar("pendiente", "enviando"),
+    correosFallidos: [...((importacion.correosFallidos ?? []) as CorreoFallidoImportacion[]), ...correosNoEnviados],
+    // Las celdas originales solo se usan al descargar los errores
+    errores: ((importacion.errores ?? []) as ErrorFilaImportacion[]).map(({ hoja, fila, motivo, detalle }) => ({
+      hoja,
+      fila,
+      motivo,
+      detalle,
+    })),
+    mensaje: importacion.mensaje,
+    iniciadaEn: importacion.iniciadaEn,
+    finalizadaEn: importacion.finalizadaEn,
+    actualizadoEn: importacion.actualizadoEn,
+  };
+}
+
+/**
+ * Resultado de cada fila procesada (creada, actualizada o sin cambios) con su código, en el orden de la planilla.
+ */
+export async function resultadosFilas(importacionId: number) {
+  return prisma.importacionFila.findMany({
+    where: { importacionId },
+    orderBy: { id: "asc" },
+    select: { hoja: true, fila: true, resultado: true, codigo: true },
+  });
+}
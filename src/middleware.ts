@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getToken } from "next-auth/jwt";
+import { canAccess, isPublicPath } from "@/lib/permissions";
+
+export async function middleware(req: NextRequest) {
+  const { pathname } = req.nextUrl;
+
+  if (isPublicPath(pathname)) {
+    return NextResponse.next();
+  }
+
+  const isApi = pathname.startsWith("/api/");
+  const token = await getToken({ req, secret: process.env.AUTH_SECRET });
+
+  if (!token) {
+    if (isApi) {
+      return NextResponse.json({ error: "No autenticado" }, { status: 401 });
+    }
+    return NextResponse.redirect(new URL("/login", req.url));
+  }
+
+  if (!canAccess(pathname, req.method, token.role)) {
+    if (isApi) {
+      return NextResponse.json({ error: "No autorizado" }, { status: 403 });
+    }
+    return NextResponse.redirect(new URL("/", req.url));
+  }
+
+  return NextResponse.next();
+}
+
+export const config = {
+  // Excluye los recursos estáticos de Next y los archivos de /public (logos, fuentes, wasm del lector)
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|fonts/|wasm/|.*\\.(?:png|svg|ico)$).*)"],
+};
@@ -0,0 +1,41 @@
+import type { PrismaClient } from "@prisma/client";
+
+/**
+ * Las pruebas que escriben en la base solo corren con `TEST_DATABASE_URL`; nunca usan `DATABASE_URL`
+ * directamente para no tocar la base de desarrollo.
+ */
+export const hayBaseDePruebas = Boolean(process.env.TEST_DATABASE_URL);
+
+/**
+ * Cliente de Prisma de la aplicación. Se carga al correr la prueba, de modo que sin base de pruebas
+ * no se instancia el cliente.
+ */
+export async function baseDePruebas(): Promise<PrismaClient> {
+  return (await import("@/lib/prisma")).default;
+}
+
+/**
+ * Evento activo, sin aforo salvo que se indique, con un nombre único para no chocar con otras pruebas.
+ */
+export async function crearEventoDePrueba(nombre: string, capacidad: number | null = null) {
+  const prisma = await baseDePruebas();
+  return prisma.evento.create({
+    data: {
+      nombre: `${nombre} ${Date.now()}`,
+      fecha_inicio: new Date(),
+      fecha_fin: new Date(Date.now() + 24 * 60 * 60 * 1000),
+      estado: "activo",
+      capacidad,
+    },
+  });
+}
+
+/**
+ * Borra el evento con sus ingresos y códigos.
+ */
+export async function borrarEventoDePrueba(eventoId: number) {
+  const prisma = await baseDePruebas();
+  await prisma.ingreso.deleteMany({ where: { eventoId } });
+  await prisma.codigoQR.deleteMany({ where: { eventoId } });
+  await prisma.evento.delete({ where: { id: eventoId } });
+}
@@ -1,17 +1,28 @@
-import nodemailer from "nodemailer";
-
-export const transporter = nodemailer.createTransport({
-  host: process.env.SMTP_HOST, // smtp.office365.com
-  port: Number(process.env.SMTP_PORT) || 587,
-  secure: false, // Office365 usa STARTTLS, no SSL directo
-  auth: {
-    user: process.env.SMTP_USER, // soporte2.ti@iste.edu.ec
-    pass: process.env.SMTP_PASS, // tu contraseña
-  },
-  tls: {
-    ciphers: "SSLv3",
-  },
-});
+import { randomBytes } from "crypto";
+import { mkdir, readFile, readdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import nodemailer, { type Transporter } from "nodemailer";
+
+/**
+ * Transporte de correo según `MAIL_TRANSPORT`:
+ * - `smtp`: envío real (Office 365 en producción).
+ * - `archivo`: escribe cada mensaje como `.eml` en `MAIL_DIR` para revisarlo sin enviar nada.
+ * - `memoria`: guarda los mensajes en memoria del proceso; se pierden al reiniciar.
+ * Sin `MAIL_TRANSPORT` se usa SMTP si hay `SMTP_HOST` y, si no, el directorio local; en producción siempre
+ * SMTP, para que una variable faltante haga fallar los envíos en lugar de guardarlos en disco.
+ */
+export type TransporteCorreo = "smtp" | "archivo" | "memoria";
+
+export type CorreoCapturado = {
+  id: string;
+  transporte: Exclude<TransporteCorreo, "smtp">;
+  para: string;
+  asunto: string;
+  fecha: string;
+  texto: string;
+  html: string | null;
+  adjuntos: { filename: string; contentType: string | null; bytes: number | null }[];
+};
 
 // tipado de adjuntos según Nodemailer
 type MailAttachment =
@@ -26,6 +37,102 @@ type MailAttachment =
       encoding?: string;
     };
 
+const MAX_CORREOS_MEMORIA = 500;
+const ID_CAPTURA_REGEX = /^[\w-]+$/;
+
+const globalForMailer = global as unknown as {
+  smtpTransporter?: Transporter;
+  correosMemoria?: { correo: CorreoCapturado; eml: Buffer }[];
+};
+
+export function transporteCorreo(): TransporteCorreo {
+  const valor = process.env.MAIL_TRANSPORT?.trim().toLowerCase();
+  if (valor === "smtp" || valor === "archivo" || valor === "memoria") {
+    return valor;
+  }
+  if (process.env.NODE_ENV === "production") {
+    return "smtp";
+  }
+  return process.env.SMTP_HOST ? "smtp" : "archivo";
+}
+
+export const directorioCorreos = () =>
+  path.resolve(process.env.MAIL_DIR || path.join(process.cwd(), "correos-locales"));
+
+function smtpTransporter() {
+  if (!process.env.SMTP_HOST) {
+    throw new Error("SMTP_HOST no está configurado; para pruebas locales usa MAIL_TRANSPORT=archivo o memoria");
+  }
+  if (!globalForMailer.smtpTransporter) {
+    globalForMailer.smtpTransporter = nodemailer.createTransport({
+      host: process.env.SMTP_HOST, // smtp.office365.com
+      port: Number(process.env.SMTP_PORT) || 587,
+      secure: process.env.SMTP_SECURE === "true", // Office365 usa STARTTLS, no SSL directo
+      ...(process.env.SMTP_USER
+        ? {
+            auth: {
+              user: process.env.SMTP_USER, // soporte2.ti@iste.edu.ec
+              pass: process.env.SMTP_PASS, // tu contraseña
+            },
+          }
+        : {}),
+      // Se negocian los cifrados por defecto de Node; SMTP_TLS_CIPHERS solo para servidores que exigen otros
+      ...(process.env.SMTP_TLS_CIPHERS ? { tls: { ciphers: process.env.SMTP_TLS_CIPHERS } } : {}),
+    });
+  }
+  return globalForMailer.smtpTransporter;
+}
+
+// Genera el mensaje MIME completo sin conectarse a ningún servidor
+const transporterLocal = nodemailer.createTransport({ streamTransport: true, buffer: true, newline: "unix" });
+
+function bytesAdjunto(adjunto: MailAttachment) {
+  if (!("content" in adjunto)) return null;
+  if (Buffer.isBuffer(adjunto.content)) return adjunto.content.length;
+  return Buffer.byteLength(adjunto.content, adjunto.encoding === "base64" ? "base64" : "utf8");
+}
+
+async function capturarCorreo(
+  transporte: CorreoCapturado["transporte"],
+  mailOptions: nodemailer.SendMailOptions & { to: string; subject: string; text: string },
+  attachments: MailAttachment[]
+) {
+  const info = await transporterLocal.sendMail(mailOptions);
+  const eml = info.message as Buffer;
+  const fecha = new Date();
+  const correo: CorreoCapturado = {
+    id: `${fecha.toISOString().replace(/[:.]/g, "-")}-${randomBytes(3).toString("hex")}`,
+    transporte,
+    para: mailOptions.to,
+    asunto: mailOptions.subject,
+    fecha: fecha.toISOString(),
+    texto: mailOptions.text,
+    html: typeof mailOptions.html === "string" ? mailOptions.html : null,
+    adjuntos: attachments.map((adjunto) => ({
+      filename: adjunto.filename,
+      contentType: "contentType" in adjunto ? adjunto.contentType ?? null : null,
+      bytes: bytesAdjunto(adjunto),
+    })),
+  };
+
+  if (transporte === "archivo") {
+    const directorio = directorioCorreos();
+    await mkdir(directorio, { recursive: true });
+    await writeFile(path.join(directorio, `${correo.id}.eml`), eml);
+    await writeFile(path.join(directorio, `${correo.id}.json`), JSON.stringify(correo, null, 2));
+    console.log(`📧 Correo para ${correo.para} guardado en ${path.join(directorio, `${correo.id}.eml`)}`);
+  } else {
+    const memoria = (globalForMailer.correosMemoria ??= []);
+    memoria.push({ correo, eml });
+    if (memoria.length > MAX_CORREOS_MEMORIA) {
+      memoria.splice(0, memoria.length - MAX_CORREOS_MEMORIA);
+    }
+    console.log(`📧 Correo para ${correo.para} capturado en memoria (${correo.id})`);
+  }
+
+  return info;
+}
+
 export async function sendMail(
   to: string,
   subject: string,
@@ -34,7 +141,7 @@ export async function sendMail(
   html?: string
 ) {
   const mailOptions = {
-    from: process.env.SMTP_FROM || process.env.SMTP_USER,
+    from: process.env.SMTP_FROM || process.env.SMTP_USER || "eventos@localhost",
     to,
     subject,
     text,
@@ -42,9 +149,14 @@ export async function sendMail(
     ...(html ? { html } : {}),
   };
 
+  const transporte = transporteCorreo();
+
   try {
+    if (transporte !== "smtp") {
+      return await capturarCorreo(transporte, mailOptions, attachments);
+    }
     console.log(`📧 Enviando correo a ${to} con asunto "${subject}"`);
-    const info = await transporter.sendMail(mailOptions);
+    const info = await smtpTransporter().sendMail(mailOptions);
     console.log(`📧 Correo enviado a ${to}: ${info.messageId}`);
     return info;
   } catch (error) {
@@ -52,3 +164,76 @@ export async function sendMail(
     throw error;
   }
 }
+
+/**
+ * Correos capturados por el transporte activo (archivo o memoria), del más reciente al más antiguo.
+ */
+export async function listarCorreosCapturados(): Promise<CorreoCapturado[]> {
+  const transporte = transporteCorreo();
+  if (transporte === "memoria") {
+    return (globalForMailer.correosMemoria ?? []).map((item) => item.correo).reverse();
+  }
+  if (transporte !== "archivo") {
+    return [];
+  }
+
+  const directorio = directorioCorreos();
+  const archivos = await readdir(directorio).catch(() => [] as string[]);
+  const correos: CorreoCapturado[] = [];
+  for (const archivo of archivos.filter((nombre) => nombre.endsWith(".json"))) {
+    try {
+      correos.push(JSON.parse(await readFile(path.join(directorio, archivo), "utf8")) as CorreoCapturado);
+    } catch (error) {
+      console.error(`No se pudo leer ${archivo}:`, error);
+    }
+  }
+  return correos.sort((a, b) => b.fecha.localeCompare(a.fecha));
+}
+
+export async function leerCorreoCapturado(id: string) {
+  if (!ID_CAPTURA_REGEX.test(id)) {
+    return null;
+  }
+  const transporte = transporteCorreo();
+  if (transporte === "memoria") {
+    return globalForMailer.correosMemoria?.find((item) => item.correo.id === id) ?? null;
+  }
+  if (transporte !== "archivo") {
+    return null;
+  }
+
+  const directorio = directorioCorreos();
+  try {
+    const [json, eml] = await Promise.all([
+      readFile(path.join(directorio, `${id}.json`), "utf8"),
+      readFile(path.join(directorio, `${id}.eml`)),
+    ]);
+    return { correo: JSON.parse(json) as CorreoCapturado, eml };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Borra los correos capturados y devuelve cuántos había.
+ */
+export async function vaciarCorreosCapturados() {
+  const transporte = transporteCorreo();
+  if (transporte === "memoria") {
+    const total = globalForMailer.correosMemoria?.length ?? 0;
+    globalForMailer.correosMemoria = [];
+    return total;
+  }
+  if (transporte !== "archivo") {
+    return 0;
+  }
+
+  const directorio = directorioCorreos();
+  const archivos = await readdir(directorio).catch(() => [] as string[]);
+  await Promise.all(
+    archivos
+      .filter((nombre) => nombre.endsWith(".eml") || nombre.endsWith(".json"))
+      .map((nombre) => unlink(path.join(directorio, nombre)).catch(() => undefined))
+  );
+  return archivos.filter((nombre) => nombre.endsWith(".eml")).length;
+}